@@ -0,0 +1,143 @@
+-- Criar enum de papéis de usuário
+CREATE TYPE public.app_role AS ENUM ('admin', 'estoquista', 'visualizador');
+
+-- Adicionar papel aos perfis (novos usuários entram como visualizadores)
+ALTER TABLE public.profiles
+  ADD COLUMN role public.app_role NOT NULL DEFAULT 'visualizador';
+
+-- Promover o usuário mais antigo a administrador para não perder o acesso de gestão
+UPDATE public.profiles
+SET role = 'admin'
+WHERE id = (SELECT id FROM public.profiles ORDER BY created_at ASC LIMIT 1);
+
+-- Função para verificar o papel de um usuário
+-- (SECURITY DEFINER evita recursão ao ser usada nas políticas de profiles)
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _roles public.app_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles
+    WHERE id = _user_id
+      AND role = ANY(_roles)
+  );
+$$;
+
+-- Primeiro usuário cadastrado vira administrador, os demais entram como visualizadores
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name, role)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', 'Usuário'),
+    CASE
+      WHEN EXISTS (SELECT 1 FROM public.profiles WHERE role = 'admin') THEN 'visualizador'
+      ELSE 'admin'
+    END::public.app_role
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Função para impedir que usuários alterem o próprio papel
+CREATE OR REPLACE FUNCTION public.prevent_role_escalation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    IF auth.uid() IS NOT NULL
+       AND NOT public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]) THEN
+      RAISE EXCEPTION 'Apenas administradores podem alterar papéis de usuário';
+    END IF;
+
+    IF OLD.role = 'admin' AND NOT EXISTS (
+      SELECT 1 FROM public.profiles WHERE role = 'admin' AND id <> OLD.id
+    ) THEN
+      RAISE EXCEPTION 'O sistema precisa de pelo menos um administrador';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Trigger para validar alteração de papel
+CREATE TRIGGER check_profile_role_change
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_role_escalation();
+
+-- Políticas RLS para profiles (nomes visíveis no histórico e gestão de papéis)
+DROP POLICY "Usuários podem ver seu próprio perfil" ON public.profiles;
+
+CREATE POLICY "Usuários autenticados podem ver perfis"
+  ON public.profiles FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Administradores podem atualizar perfis"
+  ON public.profiles FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+-- Políticas RLS para categories (apenas administradores podem modificar)
+DROP POLICY "Usuários autenticados podem criar categorias" ON public.categories;
+DROP POLICY "Usuários autenticados podem atualizar categorias" ON public.categories;
+DROP POLICY "Usuários autenticados podem deletar categorias" ON public.categories;
+
+CREATE POLICY "Administradores podem criar categorias"
+  ON public.categories FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+CREATE POLICY "Administradores podem atualizar categorias"
+  ON public.categories FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+CREATE POLICY "Administradores podem deletar categorias"
+  ON public.categories FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+-- Políticas RLS para products (estoquistas cadastram e editam, apenas administradores excluem)
+DROP POLICY "Usuários autenticados podem criar produtos" ON public.products;
+DROP POLICY "Usuários autenticados podem atualizar produtos" ON public.products;
+DROP POLICY "Usuários autenticados podem deletar produtos" ON public.products;
+
+CREATE POLICY "Estoquistas podem criar produtos"
+  ON public.products FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]));
+
+CREATE POLICY "Estoquistas podem atualizar produtos"
+  ON public.products FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]));
+
+CREATE POLICY "Administradores podem deletar produtos"
+  ON public.products FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+-- Políticas RLS para stock_movements (visualizadores não registram movimentações)
+DROP POLICY "Usuários autenticados podem criar movimentações" ON public.stock_movements;
+
+CREATE POLICY "Estoquistas podem criar movimentações"
+  ON public.stock_movements FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = responsible_user_id
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  );
@@ -0,0 +1,104 @@
+-- Criar tabela de locais de estoque (almoxarifados)
+CREATE TABLE public.locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Habilitar RLS na tabela locations
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para locations (todos podem ler, apenas administradores podem modificar)
+CREATE POLICY "Usuários autenticados podem ver locais"
+  ON public.locations FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Administradores podem criar locais"
+  ON public.locations FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+CREATE POLICY "Administradores podem atualizar locais"
+  ON public.locations FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+CREATE POLICY "Administradores podem deletar locais"
+  ON public.locations FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+-- Criar tabela de saldos por produto e local
+CREATE TABLE public.stock_balances (
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE RESTRICT,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (product_id, location_id)
+);
+
+-- Habilitar RLS na tabela stock_balances
+ALTER TABLE public.stock_balances ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para stock_balances (saldos só mudam pelo trigger de movimentações)
+CREATE POLICY "Usuários autenticados podem ver saldos"
+  ON public.stock_balances FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Criar local padrão e migrar o saldo global existente para ele
+INSERT INTO public.locations (name, description) VALUES
+  ('Almoxarifado Principal', 'Local padrão criado a partir do saldo existente');
+
+INSERT INTO public.stock_balances (product_id, location_id, quantity)
+SELECT id, (SELECT id FROM public.locations WHERE name = 'Almoxarifado Principal'), current_quantity
+FROM public.products;
+
+-- Vincular movimentações a um local
+ALTER TABLE public.stock_movements
+  ADD COLUMN location_id UUID REFERENCES public.locations(id);
+
+UPDATE public.stock_movements
+SET location_id = (SELECT id FROM public.locations WHERE name = 'Almoxarifado Principal');
+
+ALTER TABLE public.stock_movements
+  ALTER COLUMN location_id SET NOT NULL;
+
+CREATE INDEX idx_stock_movements_location_id ON public.stock_movements(location_id);
+
+-- Função para atualizar o saldo do local e o total consolidado do produto
+CREATE OR REPLACE FUNCTION public.update_product_quantity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.movement_type = 'entrada' THEN
+    INSERT INTO public.stock_balances (product_id, location_id, quantity)
+    VALUES (NEW.product_id, NEW.location_id, NEW.quantity)
+    ON CONFLICT (product_id, location_id) DO UPDATE
+    SET quantity = stock_balances.quantity + EXCLUDED.quantity,
+        updated_at = NOW();
+  ELSIF NEW.movement_type = 'saida' THEN
+    INSERT INTO public.stock_balances (product_id, location_id, quantity)
+    VALUES (NEW.product_id, NEW.location_id, 0)
+    ON CONFLICT (product_id, location_id) DO UPDATE
+    SET quantity = GREATEST(stock_balances.quantity - NEW.quantity, 0),
+        updated_at = NOW();
+  END IF;
+
+  UPDATE public.products
+  SET current_quantity = (
+        SELECT COALESCE(SUM(quantity), 0)
+        FROM public.stock_balances
+        WHERE product_id = NEW.product_id
+      ),
+      updated_at = NOW()
+  WHERE id = NEW.product_id;
+
+  RETURN NEW;
+END;
+$$;
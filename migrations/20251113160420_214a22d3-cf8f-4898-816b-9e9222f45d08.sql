@@ -0,0 +1,114 @@
+-- Permitir movimentações de transferência entre locais
+ALTER TABLE public.stock_movements
+  DROP CONSTRAINT stock_movements_movement_type_check;
+
+ALTER TABLE public.stock_movements
+  ADD CONSTRAINT stock_movements_movement_type_check
+  CHECK (movement_type IN ('entrada', 'saida', 'transferencia_entrada', 'transferencia_saida'));
+
+-- Identificador compartilhado pelas duas pernas de uma transferência
+ALTER TABLE public.stock_movements
+  ADD COLUMN transfer_id UUID;
+
+ALTER TABLE public.stock_movements
+  ADD CONSTRAINT stock_movements_transfer_id_check
+  CHECK ((movement_type IN ('transferencia_entrada', 'transferencia_saida')) = (transfer_id IS NOT NULL));
+
+CREATE INDEX idx_stock_movements_transfer_id ON public.stock_movements(transfer_id);
+
+-- Transferências só podem ser criadas pela função transfer_stock, nunca perna a perna
+DROP POLICY "Estoquistas podem criar movimentações" ON public.stock_movements;
+
+CREATE POLICY "Estoquistas podem criar movimentações"
+  ON public.stock_movements FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = responsible_user_id
+    AND transfer_id IS NULL
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  );
+
+-- Função para atualizar o saldo do local e o total consolidado do produto
+CREATE OR REPLACE FUNCTION public.update_product_quantity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.movement_type IN ('entrada', 'transferencia_entrada') THEN
+    INSERT INTO public.stock_balances (product_id, location_id, quantity)
+    VALUES (NEW.product_id, NEW.location_id, NEW.quantity)
+    ON CONFLICT (product_id, location_id) DO UPDATE
+    SET quantity = stock_balances.quantity + EXCLUDED.quantity,
+        updated_at = NOW();
+  ELSIF NEW.movement_type IN ('saida', 'transferencia_saida') THEN
+    INSERT INTO public.stock_balances (product_id, location_id, quantity)
+    VALUES (NEW.product_id, NEW.location_id, 0)
+    ON CONFLICT (product_id, location_id) DO UPDATE
+    SET quantity = GREATEST(stock_balances.quantity - NEW.quantity, 0),
+        updated_at = NOW();
+  END IF;
+
+  UPDATE public.products
+  SET current_quantity = (
+        SELECT COALESCE(SUM(quantity), 0)
+        FROM public.stock_balances
+        WHERE product_id = NEW.product_id
+      ),
+      updated_at = NOW()
+  WHERE id = NEW.product_id;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Função para transferir estoque entre locais em uma única transação
+CREATE OR REPLACE FUNCTION public.transfer_stock(
+  _product_id UUID,
+  _from_location_id UUID,
+  _to_location_id UUID,
+  _quantity DECIMAL(10,2),
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer_id UUID := gen_random_uuid();
+  _available DECIMAL(10,2);
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para transferir estoque';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'A quantidade deve ser maior que zero';
+  END IF;
+
+  IF _from_location_id = _to_location_id THEN
+    RAISE EXCEPTION 'Os locais de origem e destino devem ser diferentes';
+  END IF;
+
+  -- Bloquear o saldo de origem até o fim da transação
+  SELECT quantity INTO _available
+  FROM public.stock_balances
+  WHERE product_id = _product_id
+    AND location_id = _from_location_id
+  FOR UPDATE;
+
+  IF COALESCE(_available, 0) < _quantity THEN
+    RAISE EXCEPTION 'Saldo insuficiente no local de origem (disponível: %)', COALESCE(_available, 0);
+  END IF;
+
+  INSERT INTO public.stock_movements
+    (product_id, location_id, movement_type, quantity, responsible_user_id, notes, transfer_id)
+  VALUES
+    (_product_id, _from_location_id, 'transferencia_saida', _quantity, auth.uid(), _notes, _transfer_id),
+    (_product_id, _to_location_id, 'transferencia_entrada', _quantity, auth.uid(), _notes, _transfer_id);
+
+  RETURN _transfer_id;
+END;
+$$;
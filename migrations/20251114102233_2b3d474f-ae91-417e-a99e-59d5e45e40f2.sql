@@ -0,0 +1,79 @@
+-- Permitir estoque negativo por categoria (itens sob encomenda)
+ALTER TABLE public.categories
+  ADD COLUMN allow_negative_stock BOOLEAN NOT NULL DEFAULT false;
+
+-- O saldo deixa de ser limitado a zero: quem impede saídas sem estoque é o trigger
+ALTER TABLE public.products
+  DROP CONSTRAINT products_current_quantity_check;
+
+ALTER TABLE public.stock_balances
+  DROP CONSTRAINT stock_balances_quantity_check;
+
+-- Função para verificar se a categoria do produto aceita estoque negativo
+CREATE OR REPLACE FUNCTION public.allows_negative_stock(_product_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT c.allow_negative_stock
+    FROM public.products p
+    JOIN public.categories c ON c.id = p.category_id
+    WHERE p.id = _product_id
+  ), false);
+$$;
+
+-- Função para atualizar o saldo do local e o total consolidado do produto,
+-- rejeitando saídas maiores que o saldo disponível
+CREATE OR REPLACE FUNCTION public.update_product_quantity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available DECIMAL(10,2);
+BEGIN
+  IF NEW.movement_type IN ('entrada', 'transferencia_entrada') THEN
+    INSERT INTO public.stock_balances (product_id, location_id, quantity)
+    VALUES (NEW.product_id, NEW.location_id, NEW.quantity)
+    ON CONFLICT (product_id, location_id) DO UPDATE
+    SET quantity = stock_balances.quantity + EXCLUDED.quantity,
+        updated_at = NOW();
+  ELSIF NEW.movement_type IN ('saida', 'transferencia_saida') THEN
+    INSERT INTO public.stock_balances (product_id, location_id, quantity)
+    VALUES (NEW.product_id, NEW.location_id, 0)
+    ON CONFLICT (product_id, location_id) DO NOTHING;
+
+    SELECT quantity INTO _available
+    FROM public.stock_balances
+    WHERE product_id = NEW.product_id
+      AND location_id = NEW.location_id
+    FOR UPDATE;
+
+    IF _available < NEW.quantity AND NOT public.allows_negative_stock(NEW.product_id) THEN
+      RAISE EXCEPTION 'Estoque insuficiente: disponível %, solicitado %', _available, NEW.quantity
+        USING HINT = 'insufficient_stock';
+    END IF;
+
+    UPDATE public.stock_balances
+    SET quantity = quantity - NEW.quantity,
+        updated_at = NOW()
+    WHERE product_id = NEW.product_id
+      AND location_id = NEW.location_id;
+  END IF;
+
+  UPDATE public.products
+  SET current_quantity = (
+        SELECT COALESCE(SUM(quantity), 0)
+        FROM public.stock_balances
+        WHERE product_id = NEW.product_id
+      ),
+      updated_at = NOW()
+  WHERE id = NEW.product_id;
+
+  RETURN NEW;
+END;
+$$;
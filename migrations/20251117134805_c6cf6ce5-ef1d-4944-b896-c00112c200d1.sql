@@ -0,0 +1,100 @@
+-- Vincular estornos à movimentação original (cada movimentação só pode ser estornada uma vez)
+ALTER TABLE public.stock_movements
+  ADD COLUMN reversed_movement_id UUID UNIQUE REFERENCES public.stock_movements(id),
+  ADD COLUMN reversal_reason TEXT;
+
+ALTER TABLE public.stock_movements
+  ADD CONSTRAINT stock_movements_reversal_reason_check
+  CHECK (reversed_movement_id IS NULL OR length(btrim(reversal_reason)) > 0);
+
+-- Estornos só podem ser criados pela função reverse_stock_movement
+DROP POLICY "Estoquistas podem criar movimentações" ON public.stock_movements;
+
+CREATE POLICY "Estoquistas podem criar movimentações"
+  ON public.stock_movements FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = responsible_user_id
+    AND transfer_id IS NULL
+    AND reversed_movement_id IS NULL
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  );
+
+-- Função para estornar uma movimentação criando o lançamento compensatório
+-- (transferências são estornadas por inteiro, as duas pernas juntas)
+CREATE OR REPLACE FUNCTION public.reverse_stock_movement(_movement_id UUID, _reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.stock_movements%ROWTYPE;
+  _leg public.stock_movements%ROWTYPE;
+  _new_transfer_id UUID;
+  _new_id UUID;
+  _reversal_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para estornar movimentações';
+  END IF;
+
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RAISE EXCEPTION 'Informe o motivo do estorno';
+  END IF;
+
+  SELECT * INTO _original
+  FROM public.stock_movements
+  WHERE id = _movement_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Movimentação não encontrada';
+  END IF;
+
+  IF _original.reversed_movement_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Não é possível estornar um estorno';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.stock_movements WHERE reversed_movement_id = _movement_id) THEN
+    RAISE EXCEPTION 'Esta movimentação já foi estornada';
+  END IF;
+
+  IF _original.transfer_id IS NOT NULL THEN
+    _new_transfer_id := gen_random_uuid();
+  END IF;
+
+  FOR _leg IN
+    SELECT *
+    FROM public.stock_movements
+    WHERE id = _movement_id
+       OR (_original.transfer_id IS NOT NULL AND transfer_id = _original.transfer_id)
+  LOOP
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id,
+       transfer_id, reversed_movement_id, reversal_reason)
+    VALUES (
+      _leg.product_id,
+      _leg.location_id,
+      CASE _leg.movement_type
+        WHEN 'entrada' THEN 'saida'
+        WHEN 'saida' THEN 'entrada'
+        WHEN 'transferencia_entrada' THEN 'transferencia_saida'
+        WHEN 'transferencia_saida' THEN 'transferencia_entrada'
+      END,
+      _leg.quantity,
+      auth.uid(),
+      _new_transfer_id,
+      _leg.id,
+      btrim(_reason)
+    )
+    RETURNING id INTO _new_id;
+
+    IF _leg.id = _movement_id THEN
+      _reversal_id := _new_id;
+    END IF;
+  END LOOP;
+
+  RETURN _reversal_id;
+END;
+$$;
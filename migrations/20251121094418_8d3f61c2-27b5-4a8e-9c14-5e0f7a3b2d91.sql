@@ -0,0 +1,46 @@
+-- Impedir que a exclusão de uma categoria deixe produtos sem categoria silenciosamente
+ALTER TABLE public.products
+  DROP CONSTRAINT products_category_id_fkey;
+
+ALTER TABLE public.products
+  ADD CONSTRAINT products_category_id_fkey
+  FOREIGN KEY (category_id) REFERENCES public.categories(id) ON DELETE RESTRICT;
+
+-- Função para excluir uma categoria transferindo os produtos para outra (ou para nenhuma)
+CREATE OR REPLACE FUNCTION public.delete_category(_category_id UUID, _target_category_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _moved INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Apenas administradores podem excluir categorias';
+  END IF;
+
+  IF _category_id = _target_category_id THEN
+    RAISE EXCEPTION 'A categoria de destino deve ser diferente da categoria excluída';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.categories WHERE id = _category_id) THEN
+    RAISE EXCEPTION 'Categoria não encontrada';
+  END IF;
+
+  IF _target_category_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.categories WHERE id = _target_category_id) THEN
+    RAISE EXCEPTION 'Categoria de destino não encontrada';
+  END IF;
+
+  UPDATE public.products
+  SET category_id = _target_category_id
+  WHERE category_id = _category_id;
+
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  DELETE FROM public.categories WHERE id = _category_id;
+
+  RETURN _moved;
+END;
+$$;
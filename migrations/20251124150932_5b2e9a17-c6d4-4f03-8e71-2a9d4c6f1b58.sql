@@ -0,0 +1,200 @@
+-- Criar tabela de unidades de medida
+CREATE TABLE public.units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Habilitar RLS na tabela units
+ALTER TABLE public.units ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para units (todos podem ler, apenas administradores podem modificar)
+CREATE POLICY "Usuários autenticados podem ver unidades"
+  ON public.units FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Administradores podem criar unidades"
+  ON public.units FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+CREATE POLICY "Administradores podem atualizar unidades"
+  ON public.units FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+CREATE POLICY "Administradores podem deletar unidades"
+  ON public.units FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+-- Unidades que antes eram fixas na tela de produtos
+INSERT INTO public.units (code, name) VALUES
+  ('unidade', 'Unidade'),
+  ('kg', 'Quilograma (kg)'),
+  ('g', 'Grama (g)'),
+  ('litro', 'Litro'),
+  ('metro', 'Metro'),
+  ('kit', 'Kit');
+
+-- Preservar unidades já usadas por produtos que não estejam na lista acima
+INSERT INTO public.units (code, name)
+SELECT DISTINCT unit, unit
+FROM public.products
+ON CONFLICT (code) DO NOTHING;
+
+-- A unidade do produto passa a ser a unidade base dos saldos
+ALTER TABLE public.products
+  ADD CONSTRAINT products_unit_fkey
+  FOREIGN KEY (unit) REFERENCES public.units(code) ON UPDATE CASCADE ON DELETE RESTRICT;
+
+-- Criar tabela de conversões por produto (ex.: 1 caixa = 12 unidades)
+CREATE TABLE public.product_unit_conversions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  unit_code TEXT NOT NULL REFERENCES public.units(code) ON UPDATE CASCADE ON DELETE RESTRICT,
+  factor DECIMAL(12,4) NOT NULL CHECK (factor > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (product_id, unit_code)
+);
+
+-- Habilitar RLS na tabela product_unit_conversions
+ALTER TABLE public.product_unit_conversions ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para product_unit_conversions (mesmas regras da edição de produtos)
+CREATE POLICY "Usuários autenticados podem ver conversões"
+  ON public.product_unit_conversions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Estoquistas podem criar conversões"
+  ON public.product_unit_conversions FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]));
+
+CREATE POLICY "Estoquistas podem atualizar conversões"
+  ON public.product_unit_conversions FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]));
+
+CREATE POLICY "Estoquistas podem deletar conversões"
+  ON public.product_unit_conversions FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]));
+
+-- Unidade e quantidade informadas pelo usuário; quantity continua na unidade base
+ALTER TABLE public.stock_movements
+  ADD COLUMN input_unit TEXT REFERENCES public.units(code) ON UPDATE CASCADE ON DELETE RESTRICT,
+  ADD COLUMN input_quantity DECIMAL(10,2),
+  ADD CONSTRAINT stock_movements_input_unit_check
+    CHECK ((input_unit IS NULL) = (input_quantity IS NULL));
+
+-- Função para converter uma quantidade para a unidade base do produto
+CREATE OR REPLACE FUNCTION public.convert_to_base_unit(_product_id UUID, _unit TEXT, _quantity DECIMAL)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _factor DECIMAL(12,4);
+BEGIN
+  IF _unit IS NULL OR _unit = (SELECT unit FROM public.products WHERE id = _product_id) THEN
+    RETURN _quantity;
+  END IF;
+
+  SELECT factor INTO _factor
+  FROM public.product_unit_conversions
+  WHERE product_id = _product_id
+    AND unit_code = _unit;
+
+  IF _factor IS NULL THEN
+    RAISE EXCEPTION 'O produto não possui conversão para a unidade %', _unit;
+  END IF;
+
+  RETURN ROUND(_quantity * _factor, 2);
+END;
+$$;
+
+-- Trigger para recalcular a quantidade base a partir da unidade informada
+CREATE OR REPLACE FUNCTION public.convert_movement_unit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.input_unit IS NOT NULL THEN
+    NEW.quantity := public.convert_to_base_unit(NEW.product_id, NEW.input_unit, NEW.input_quantity);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_stock_movement_convert_unit
+  BEFORE INSERT ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.convert_movement_unit();
+
+-- Transferências passam a aceitar a unidade informada pelo usuário
+DROP FUNCTION public.transfer_stock(UUID, UUID, UUID, DECIMAL, TEXT);
+
+CREATE OR REPLACE FUNCTION public.transfer_stock(
+  _product_id UUID,
+  _from_location_id UUID,
+  _to_location_id UUID,
+  _quantity DECIMAL(10,2),
+  _notes TEXT DEFAULT NULL,
+  _unit TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer_id UUID := gen_random_uuid();
+  _available DECIMAL(10,2);
+  _base_quantity DECIMAL(10,2);
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para transferir estoque';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'A quantidade deve ser maior que zero';
+  END IF;
+
+  IF _from_location_id = _to_location_id THEN
+    RAISE EXCEPTION 'Os locais de origem e destino devem ser diferentes';
+  END IF;
+
+  _base_quantity := public.convert_to_base_unit(_product_id, _unit, _quantity);
+
+  -- Bloquear o saldo de origem até o fim da transação
+  SELECT quantity INTO _available
+  FROM public.stock_balances
+  WHERE product_id = _product_id
+    AND location_id = _from_location_id
+  FOR UPDATE;
+
+  IF COALESCE(_available, 0) < _base_quantity THEN
+    RAISE EXCEPTION 'Saldo insuficiente no local de origem (disponível: %)', COALESCE(_available, 0);
+  END IF;
+
+  INSERT INTO public.stock_movements
+    (product_id, location_id, movement_type, quantity, responsible_user_id, notes, transfer_id,
+     input_unit, input_quantity)
+  VALUES
+    (_product_id, _from_location_id, 'transferencia_saida', _base_quantity, auth.uid(), _notes, _transfer_id,
+     _unit, CASE WHEN _unit IS NULL THEN NULL ELSE _quantity END),
+    (_product_id, _to_location_id, 'transferencia_entrada', _base_quantity, auth.uid(), _notes, _transfer_id,
+     _unit, CASE WHEN _unit IS NULL THEN NULL ELSE _quantity END);
+
+  RETURN _transfer_id;
+END;
+$$;
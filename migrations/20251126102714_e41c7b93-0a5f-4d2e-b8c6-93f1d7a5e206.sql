@@ -0,0 +1,8 @@
+-- Identificadores do produto para busca e leitura por código de barras
+ALTER TABLE public.products
+  ADD COLUMN sku TEXT,
+  ADD COLUMN barcode TEXT,
+  ADD CONSTRAINT products_sku_key UNIQUE (sku),
+  ADD CONSTRAINT products_barcode_key UNIQUE (barcode),
+  ADD CONSTRAINT products_sku_check CHECK (sku IS NULL OR btrim(sku) <> ''),
+  ADD CONSTRAINT products_barcode_check CHECK (barcode IS NULL OR btrim(barcode) <> '');
@@ -0,0 +1,302 @@
+-- Criar tabela de fornecedores
+CREATE TABLE public.suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  document TEXT,
+  email TEXT,
+  phone TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Habilitar RLS na tabela suppliers
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para suppliers (todos podem ler, estoquistas cadastram, apenas administradores excluem)
+CREATE POLICY "Usuários autenticados podem ver fornecedores"
+  ON public.suppliers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Estoquistas podem criar fornecedores"
+  ON public.suppliers FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]));
+
+CREATE POLICY "Estoquistas podem atualizar fornecedores"
+  ON public.suppliers FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]));
+
+CREATE POLICY "Administradores podem deletar fornecedores"
+  ON public.suppliers FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+-- Criar tabela de pedidos de compra
+CREATE TABLE public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  number BIGINT GENERATED ALWAYS AS IDENTITY UNIQUE,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'aberto' CHECK (status IN ('aberto', 'parcial', 'recebido', 'cancelado')),
+  expected_date DATE,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Criar tabela de itens do pedido de compra
+CREATE TABLE public.purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE RESTRICT,
+  quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+  received_quantity DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (received_quantity >= 0),
+  unit_price DECIMAL(12,2) CHECK (unit_price >= 0),
+  UNIQUE (purchase_order_id, product_id)
+);
+
+CREATE INDEX idx_purchase_orders_supplier ON public.purchase_orders(supplier_id);
+CREATE INDEX idx_purchase_order_items_order ON public.purchase_order_items(purchase_order_id);
+
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Habilitar RLS nas tabelas de pedidos
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+-- Pedidos são criados e recebidos pelas funções abaixo; o cliente só edita dados
+-- gerais e cancela (o status "recebido" nunca é definido manualmente)
+CREATE POLICY "Usuários autenticados podem ver pedidos de compra"
+  ON public.purchase_orders FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Estoquistas podem atualizar pedidos de compra"
+  ON public.purchase_orders FOR UPDATE
+  TO authenticated
+  USING (
+    status IN ('aberto', 'parcial')
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  )
+  WITH CHECK (status IN ('aberto', 'parcial', 'cancelado'));
+
+CREATE POLICY "Usuários autenticados podem ver itens de pedidos de compra"
+  ON public.purchase_order_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Rastrear fornecedor e item de pedido nas entradas
+ALTER TABLE public.stock_movements
+  ADD COLUMN supplier_id UUID REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  ADD COLUMN purchase_order_item_id UUID REFERENCES public.purchase_order_items(id) ON DELETE RESTRICT,
+  ADD CONSTRAINT stock_movements_supplier_check
+    CHECK (supplier_id IS NULL OR movement_type = 'entrada'),
+  ADD CONSTRAINT stock_movements_purchase_order_item_check
+    CHECK (purchase_order_item_id IS NULL OR (movement_type = 'entrada' AND supplier_id IS NOT NULL));
+
+CREATE INDEX idx_stock_movements_purchase_order_item ON public.stock_movements(purchase_order_item_id);
+
+-- Recebimentos de pedido só podem ser criados pela função receive_purchase_order
+DROP POLICY "Estoquistas podem criar movimentações" ON public.stock_movements;
+
+CREATE POLICY "Estoquistas podem criar movimentações"
+  ON public.stock_movements FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = responsible_user_id
+    AND transfer_id IS NULL
+    AND reversed_movement_id IS NULL
+    AND purchase_order_item_id IS NULL
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  );
+
+-- Função para criar o pedido com seus itens em uma única transação
+-- Cada item: { product_id, quantity, unit_price }
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+  _supplier_id UUID,
+  _items JSONB,
+  _expected_date DATE DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para criar pedidos de compra';
+  END IF;
+
+  IF _items IS NULL OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Adicione ao menos um item ao pedido';
+  END IF;
+
+  INSERT INTO public.purchase_orders (supplier_id, expected_date, notes, created_by)
+  VALUES (_supplier_id, _expected_date, NULLIF(btrim(_notes), ''), auth.uid())
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.purchase_order_items (purchase_order_id, product_id, quantity, unit_price)
+  SELECT
+    _order_id,
+    (item->>'product_id')::UUID,
+    (item->>'quantity')::DECIMAL(10,2),
+    (item->>'unit_price')::DECIMAL(12,2)
+  FROM jsonb_array_elements(_items) AS item;
+
+  RETURN _order_id;
+END;
+$$;
+
+-- Função para recalcular o status do pedido a partir das quantidades recebidas
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order_status(_purchase_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.purchase_orders po
+  SET status = CASE
+        WHEN NOT EXISTS (
+          SELECT 1 FROM public.purchase_order_items
+          WHERE purchase_order_id = po.id AND received_quantity < quantity
+        ) THEN 'recebido'
+        WHEN EXISTS (
+          SELECT 1 FROM public.purchase_order_items
+          WHERE purchase_order_id = po.id AND received_quantity > 0
+        ) THEN 'parcial'
+        ELSE 'aberto'
+      END
+  WHERE po.id = _purchase_order_id
+    AND po.status <> 'cancelado';
+END;
+$$;
+
+-- Trigger para manter a quantidade recebida dos itens, inclusive quando um recebimento é estornado
+CREATE OR REPLACE FUNCTION public.update_purchase_order_receipt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item_id UUID;
+  _delta DECIMAL(10,2);
+  _order_id UUID;
+BEGIN
+  IF NEW.purchase_order_item_id IS NOT NULL THEN
+    _item_id := NEW.purchase_order_item_id;
+    _delta := NEW.quantity;
+  ELSIF NEW.reversed_movement_id IS NOT NULL THEN
+    SELECT purchase_order_item_id INTO _item_id
+    FROM public.stock_movements
+    WHERE id = NEW.reversed_movement_id;
+    _delta := -NEW.quantity;
+  END IF;
+
+  IF _item_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.purchase_order_items
+  SET received_quantity = received_quantity + _delta
+  WHERE id = _item_id
+  RETURNING purchase_order_id INTO _order_id;
+
+  PERFORM public.refresh_purchase_order_status(_order_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_stock_movement_purchase_receipt
+  AFTER INSERT ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_purchase_order_receipt();
+
+-- Função para receber um pedido (total ou parcialmente) gerando as entradas
+-- Cada item: { item_id, quantity }
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  _purchase_order_id UUID,
+  _location_id UUID,
+  _items JSONB,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.purchase_orders%ROWTYPE;
+  _entry JSONB;
+  _item public.purchase_order_items%ROWTYPE;
+  _quantity DECIMAL(10,2);
+  _received INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para receber pedidos de compra';
+  END IF;
+
+  -- Bloquear o pedido para que dois recebimentos simultâneos não ultrapassem o pendente
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de compra não encontrado';
+  END IF;
+
+  IF _order.status NOT IN ('aberto', 'parcial') THEN
+    RAISE EXCEPTION 'Este pedido não está aberto para recebimento';
+  END IF;
+
+  FOR _entry IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := (_entry->>'quantity')::DECIMAL(10,2);
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO _item
+    FROM public.purchase_order_items
+    WHERE id = (_entry->>'item_id')::UUID
+      AND purchase_order_id = _purchase_order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item não pertence a este pedido';
+    END IF;
+
+    IF _quantity > _item.quantity - _item.received_quantity THEN
+      RAISE EXCEPTION 'Quantidade recebida maior que a pendente (pendente: %)',
+        _item.quantity - _item.received_quantity;
+    END IF;
+
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes,
+       supplier_id, purchase_order_item_id)
+    VALUES
+      (_item.product_id, _location_id, 'entrada', _quantity, auth.uid(),
+       COALESCE(NULLIF(btrim(_notes), ''), 'Recebimento do pedido #' || _order.number),
+       _order.supplier_id, _item.id);
+
+    _received := _received + 1;
+  END LOOP;
+
+  IF _received = 0 THEN
+    RAISE EXCEPTION 'Informe a quantidade recebida de ao menos um item';
+  END IF;
+
+  RETURN _received;
+END;
+$$;
@@ -0,0 +1,126 @@
+-- Pedidos em rascunho (gerados pelas sugestões de compra) ainda precisam ser confirmados
+ALTER TABLE public.purchase_orders
+  DROP CONSTRAINT purchase_orders_status_check;
+
+ALTER TABLE public.purchase_orders
+  ADD CONSTRAINT purchase_orders_status_check
+  CHECK (status IN ('rascunho', 'aberto', 'parcial', 'recebido', 'cancelado'));
+
+DROP POLICY "Estoquistas podem atualizar pedidos de compra" ON public.purchase_orders;
+
+CREATE POLICY "Estoquistas podem atualizar pedidos de compra"
+  ON public.purchase_orders FOR UPDATE
+  TO authenticated
+  USING (
+    status IN ('rascunho', 'aberto', 'parcial')
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  )
+  WITH CHECK (status IN ('aberto', 'parcial', 'cancelado'));
+
+-- Função para criar o pedido com seus itens em uma única transação
+-- Cada item: { product_id, quantity, unit_price }
+DROP FUNCTION public.create_purchase_order(UUID, JSONB, DATE, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+  _supplier_id UUID,
+  _items JSONB,
+  _expected_date DATE DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _draft BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para criar pedidos de compra';
+  END IF;
+
+  IF _items IS NULL OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Adicione ao menos um item ao pedido';
+  END IF;
+
+  INSERT INTO public.purchase_orders (supplier_id, status, expected_date, notes, created_by)
+  VALUES (
+    _supplier_id,
+    CASE WHEN _draft THEN 'rascunho' ELSE 'aberto' END,
+    _expected_date,
+    NULLIF(btrim(_notes), ''),
+    auth.uid()
+  )
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.purchase_order_items (purchase_order_id, product_id, quantity, unit_price)
+  SELECT
+    _order_id,
+    (item->>'product_id')::UUID,
+    (item->>'quantity')::DECIMAL(10,2),
+    (item->>'unit_price')::DECIMAL(12,2)
+  FROM jsonb_array_elements(_items) AS item;
+
+  RETURN _order_id;
+END;
+$$;
+
+-- Função com os dados para sugestão de compra: consumo no período (saídas não estornadas),
+-- quantidade ainda pendente em pedidos e o último fornecedor que entregou o produto
+CREATE OR REPLACE FUNCTION public.reorder_suggestions(_days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  sku TEXT,
+  unit TEXT,
+  current_quantity DECIMAL,
+  minimum_quantity DECIMAL,
+  consumed_quantity DECIMAL,
+  pending_quantity DECIMAL,
+  last_supplier_id UUID,
+  last_supplier_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.name,
+    p.sku,
+    p.unit,
+    p.current_quantity,
+    p.minimum_quantity,
+    COALESCE((
+      SELECT SUM(m.quantity)
+      FROM public.stock_movements m
+      WHERE m.product_id = p.id
+        AND m.movement_type = 'saida'
+        AND m.reversed_movement_id IS NULL
+        AND m.created_at >= NOW() - make_interval(days => _days)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.stock_movements r WHERE r.reversed_movement_id = m.id
+        )
+    ), 0),
+    COALESCE((
+      SELECT SUM(i.quantity - i.received_quantity)
+      FROM public.purchase_order_items i
+      JOIN public.purchase_orders o ON o.id = i.purchase_order_id
+      WHERE i.product_id = p.id
+        AND o.status IN ('rascunho', 'aberto', 'parcial')
+    ), 0),
+    s.id,
+    s.name
+  FROM public.products p
+  LEFT JOIN LATERAL (
+    SELECT su.id, su.name
+    FROM public.stock_movements m
+    JOIN public.suppliers su ON su.id = m.supplier_id
+    WHERE m.product_id = p.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) s ON true
+  ORDER BY p.name;
+$$;
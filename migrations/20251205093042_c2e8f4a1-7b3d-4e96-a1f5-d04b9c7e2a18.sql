@@ -0,0 +1,179 @@
+-- Funções de agregação do dashboard: executam com as permissões de quem chama (RLS aplicada)
+-- e devolvem apenas totais, para que o navegador não precise baixar produtos e movimentações
+
+-- Movimentações que contam como atividade: nem estornos nem movimentações já estornadas
+CREATE OR REPLACE FUNCTION public.effective_stock_movements(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS SETOF public.stock_movements
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.*
+  FROM public.stock_movements m
+  WHERE m.created_at BETWEEN _from AND _to
+    AND m.reversed_movement_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.stock_movements r WHERE r.reversed_movement_id = m.id
+    );
+$$;
+
+-- Indicadores do topo do dashboard
+CREATE OR REPLACE FUNCTION public.dashboard_summary(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (
+  total_products BIGINT,
+  low_stock_products BIGINT,
+  entries_count BIGINT,
+  exits_count BIGINT,
+  entries_quantity DECIMAL,
+  exits_quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT COUNT(*) FROM public.products),
+    (SELECT COUNT(*) FROM public.products WHERE current_quantity <= minimum_quantity),
+    COUNT(*) FILTER (WHERE m.movement_type = 'entrada'),
+    COUNT(*) FILTER (WHERE m.movement_type = 'saida'),
+    COALESCE(SUM(m.quantity) FILTER (WHERE m.movement_type = 'entrada'), 0),
+    COALESCE(SUM(m.quantity) FILTER (WHERE m.movement_type = 'saida'), 0)
+  FROM public.effective_stock_movements(_from, _to) m;
+$$;
+
+-- Entradas e saídas agrupadas por dia, semana (iniciando na segunda) ou mês no fuso do usuário
+CREATE OR REPLACE FUNCTION public.dashboard_movement_volume(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _granularity TEXT DEFAULT 'day',
+  _timezone TEXT DEFAULT 'America/Sao_Paulo'
+)
+RETURNS TABLE (
+  bucket DATE,
+  entries_count BIGINT,
+  exits_count BIGINT,
+  entries_quantity DECIMAL,
+  exits_quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    date_trunc(_granularity, m.created_at AT TIME ZONE _timezone)::DATE,
+    COUNT(*) FILTER (WHERE m.movement_type = 'entrada'),
+    COUNT(*) FILTER (WHERE m.movement_type = 'saida'),
+    COALESCE(SUM(m.quantity) FILTER (WHERE m.movement_type = 'entrada'), 0),
+    COALESCE(SUM(m.quantity) FILTER (WHERE m.movement_type = 'saida'), 0)
+  FROM public.effective_stock_movements(_from, _to) m
+  WHERE m.movement_type IN ('entrada', 'saida')
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+-- Produtos com maior quantidade de saídas no período
+CREATE OR REPLACE FUNCTION public.dashboard_top_consumed(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  unit TEXT,
+  quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.id, p.name, p.unit, SUM(m.quantity)
+  FROM public.effective_stock_movements(_from, _to) m
+  JOIN public.products p ON p.id = m.product_id
+  WHERE m.movement_type = 'saida'
+  GROUP BY p.id, p.name, p.unit
+  ORDER BY 4 DESC, p.name
+  LIMIT _limit;
+$$;
+
+-- Saldo de cada categoria ao fim de cada período, reconstruído a partir do saldo atual
+-- desfazendo as entradas e saídas posteriores (transferências não alteram o total)
+CREATE OR REPLACE FUNCTION public.dashboard_category_evolution(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _granularity TEXT DEFAULT 'day',
+  _timezone TEXT DEFAULT 'America/Sao_Paulo'
+)
+RETURNS TABLE (
+  bucket DATE,
+  category_id UUID,
+  quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH buckets AS (
+    SELECT
+      gs::DATE AS bucket,
+      LEAST((gs + ('1 ' || _granularity)::INTERVAL) AT TIME ZONE _timezone, _to) AS bucket_end
+    FROM generate_series(
+      date_trunc(_granularity, _from AT TIME ZONE _timezone),
+      date_trunc(_granularity, _to AT TIME ZONE _timezone),
+      ('1 ' || _granularity)::INTERVAL
+    ) AS gs
+  ),
+  current_totals AS (
+    SELECT p.category_id, SUM(p.current_quantity) AS quantity
+    FROM public.products p
+    GROUP BY p.category_id
+  ),
+  changes AS (
+    SELECT
+      p.category_id,
+      m.created_at,
+      CASE m.movement_type WHEN 'entrada' THEN m.quantity ELSE -m.quantity END AS delta
+    FROM public.stock_movements m
+    JOIN public.products p ON p.id = m.product_id
+    WHERE m.created_at >= _from
+      AND m.movement_type IN ('entrada', 'saida')
+  )
+  SELECT
+    b.bucket,
+    c.category_id,
+    c.quantity - COALESCE((
+      SELECT SUM(ch.delta)
+      FROM changes ch
+      WHERE ch.category_id IS NOT DISTINCT FROM c.category_id
+        AND ch.created_at >= b.bucket_end
+    ), 0)
+  FROM buckets b
+  CROSS JOIN current_totals c
+  ORDER BY b.bucket, c.category_id;
+$$;
+
+-- Saldo consolidado por local
+CREATE OR REPLACE FUNCTION public.dashboard_location_totals()
+RETURNS TABLE (
+  location_id UUID,
+  location_name TEXT,
+  products_in_stock BIGINT,
+  total_quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.id,
+    l.name,
+    COUNT(b.product_id) FILTER (WHERE b.quantity > 0),
+    COALESCE(SUM(b.quantity), 0)
+  FROM public.locations l
+  LEFT JOIN public.stock_balances b ON b.location_id = l.id
+  GROUP BY l.id, l.name
+  ORDER BY l.name;
+$$;
+
+-- Todas as consultas do dashboard filtram movimentações por período
+CREATE INDEX idx_stock_movements_created_at ON public.stock_movements(created_at);
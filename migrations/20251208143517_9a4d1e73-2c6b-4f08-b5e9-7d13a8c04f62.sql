@@ -0,0 +1,210 @@
+-- Custo unitário (na unidade base do produto) informado nas entradas
+ALTER TABLE public.stock_movements
+  ADD COLUMN unit_cost DECIMAL(12,4);
+
+ALTER TABLE public.stock_movements
+  ADD CONSTRAINT stock_movements_unit_cost_check
+  CHECK (unit_cost IS NULL OR (unit_cost >= 0 AND movement_type = 'entrada'));
+
+-- Recebimentos de pedidos de compra usam o preço negociado como custo
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  _purchase_order_id UUID,
+  _location_id UUID,
+  _items JSONB,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.purchase_orders%ROWTYPE;
+  _entry JSONB;
+  _item public.purchase_order_items%ROWTYPE;
+  _quantity DECIMAL(10,2);
+  _received INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para receber pedidos de compra';
+  END IF;
+
+  -- Bloquear o pedido para que dois recebimentos simultâneos não ultrapassem o pendente
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de compra não encontrado';
+  END IF;
+
+  IF _order.status NOT IN ('aberto', 'parcial') THEN
+    RAISE EXCEPTION 'Este pedido não está aberto para recebimento';
+  END IF;
+
+  FOR _entry IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := (_entry->>'quantity')::DECIMAL(10,2);
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO _item
+    FROM public.purchase_order_items
+    WHERE id = (_entry->>'item_id')::UUID
+      AND purchase_order_id = _purchase_order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item não pertence a este pedido';
+    END IF;
+
+    IF _quantity > _item.quantity - _item.received_quantity THEN
+      RAISE EXCEPTION 'Quantidade recebida maior que a pendente (pendente: %)',
+        _item.quantity - _item.received_quantity;
+    END IF;
+
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes,
+       supplier_id, purchase_order_item_id, unit_cost)
+    VALUES
+      (_item.product_id, _location_id, 'entrada', _quantity, auth.uid(),
+       COALESCE(NULLIF(btrim(_notes), ''), 'Recebimento do pedido #' || _order.number),
+       _order.supplier_id, _item.id, _item.unit_price);
+
+    _received := _received + 1;
+  END LOOP;
+
+  IF _received = 0 THEN
+    RAISE EXCEPTION 'Informe a quantidade recebida de ao menos um item';
+  END IF;
+
+  RETURN _received;
+END;
+$$;
+
+-- Valorização do estoque em uma data, por custo médio ponderado ('wac') ou PEPS ('fifo').
+-- Transferências não alteram o saldo total do produto e por isso são ignoradas.
+CREATE OR REPLACE FUNCTION public.inventory_valuation(
+  _as_of TIMESTAMPTZ DEFAULT NOW(),
+  _method TEXT DEFAULT 'wac'
+)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  sku TEXT,
+  unit TEXT,
+  category_id UUID,
+  category_name TEXT,
+  quantity DECIMAL,
+  unit_cost DECIMAL,
+  total_value DECIMAL,
+  missing_cost BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _product RECORD;
+  _movement RECORD;
+  _quantity DECIMAL;
+  _average DECIMAL;
+  _value DECIMAL;
+  _missing BOOLEAN;
+  _layer RECORD;
+  _remaining DECIMAL;
+BEGIN
+  IF _method NOT IN ('wac', 'fifo') THEN
+    RAISE EXCEPTION 'Método de valorização inválido: %', _method;
+  END IF;
+
+  FOR _product IN
+    SELECT p.id, p.name, p.sku, p.unit, p.category_id, c.name AS category_name
+    FROM public.products p
+    LEFT JOIN public.categories c ON c.id = p.category_id
+    ORDER BY p.name
+  LOOP
+    _quantity := 0;
+    _average := 0;
+    _missing := false;
+
+    -- Custo médio móvel: cada entrada com custo recalcula a média; saídas saem pela média vigente
+    -- e entradas sem custo (ex.: estorno de saída) voltam pela média vigente
+    FOR _movement IN
+      SELECT m.movement_type, m.quantity, m.unit_cost
+      FROM public.stock_movements m
+      WHERE m.product_id = _product.id
+        AND m.created_at <= _as_of
+        AND m.movement_type IN ('entrada', 'saida')
+      ORDER BY m.created_at, m.id
+    LOOP
+      IF _movement.movement_type = 'saida' THEN
+        _quantity := _quantity - _movement.quantity;
+      ELSIF _movement.unit_cost IS NOT NULL THEN
+        IF _quantity <= 0 THEN
+          _average := _movement.unit_cost;
+          _missing := false;
+        ELSE
+          _average := (_quantity * _average + _movement.quantity * _movement.unit_cost)
+            / (_quantity + _movement.quantity);
+        END IF;
+        _quantity := _quantity + _movement.quantity;
+      ELSE
+        _missing := _missing OR _quantity <= 0;
+        _quantity := _quantity + _movement.quantity;
+      END IF;
+    END LOOP;
+
+    IF _method = 'wac' THEN
+      _value := GREATEST(_quantity, 0) * _average;
+    ELSE
+      -- PEPS: o saldo em estoque é formado pelas entradas mais recentes,
+      -- desconsiderando entradas estornadas e os próprios estornos
+      _value := 0;
+      _remaining := GREATEST(_quantity, 0);
+      _missing := false;
+
+      FOR _layer IN
+        SELECT m.quantity, m.unit_cost
+        FROM public.stock_movements m
+        WHERE m.product_id = _product.id
+          AND m.created_at <= _as_of
+          AND m.movement_type = 'entrada'
+          AND m.reversed_movement_id IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM public.stock_movements r
+            WHERE r.reversed_movement_id = m.id AND r.created_at <= _as_of
+          )
+        ORDER BY m.created_at DESC, m.id DESC
+      LOOP
+        EXIT WHEN _remaining <= 0;
+        IF _layer.unit_cost IS NULL THEN
+          _missing := true;
+        ELSE
+          _value := _value + LEAST(_layer.quantity, _remaining) * _layer.unit_cost;
+        END IF;
+        _remaining := _remaining - LEAST(_layer.quantity, _remaining);
+      END LOOP;
+
+      _missing := _missing OR _remaining > 0;
+    END IF;
+
+    product_id := _product.id;
+    product_name := _product.name;
+    sku := _product.sku;
+    unit := _product.unit;
+    category_id := _product.category_id;
+    category_name := _product.category_name;
+    quantity := _quantity;
+    unit_cost := CASE WHEN _quantity > 0 THEN ROUND(_value / _quantity, 4) ELSE NULL END;
+    total_value := ROUND(_value, 2);
+    missing_cost := _missing AND _quantity > 0;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+CREATE INDEX idx_stock_movements_product_created_at
+  ON public.stock_movements(product_id, created_at);
@@ -0,0 +1,457 @@
+-- Controle opcional de lotes e validade por produto
+ALTER TABLE public.products
+  ADD COLUMN track_lots BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  lot_number TEXT NOT NULL CHECK (length(btrim(lot_number)) > 0),
+  expiry_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (product_id, lot_number)
+);
+
+ALTER TABLE public.lots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Todos podem ver lotes"
+  ON public.lots FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Saldo de cada lote por local, mantido pelo trigger de movimentações
+CREATE TABLE public.lot_balances (
+  lot_id UUID NOT NULL REFERENCES public.lots(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (lot_id, location_id)
+);
+
+ALTER TABLE public.lot_balances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Todos podem ver saldos por lote"
+  ON public.lot_balances FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE public.stock_movements
+  ADD COLUMN lot_id UUID REFERENCES public.lots(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_stock_movements_lot_id ON public.stock_movements(lot_id);
+
+-- Função para localizar o lote do produto pelo número, cadastrando-o se ainda não existir
+CREATE OR REPLACE FUNCTION public.register_lot(
+  _product_id UUID,
+  _lot_number TEXT,
+  _expiry_date DATE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lot public.lots%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para cadastrar lotes';
+  END IF;
+
+  IF _lot_number IS NULL OR btrim(_lot_number) = '' THEN
+    RAISE EXCEPTION 'Informe o número do lote';
+  END IF;
+
+  SELECT * INTO _lot
+  FROM public.lots
+  WHERE product_id = _product_id
+    AND lot_number = btrim(_lot_number)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.lots (product_id, lot_number, expiry_date)
+    VALUES (_product_id, btrim(_lot_number), _expiry_date)
+    RETURNING * INTO _lot;
+  ELSIF _expiry_date IS NOT NULL AND _lot.expiry_date IS NULL THEN
+    UPDATE public.lots SET expiry_date = _expiry_date WHERE id = _lot.id;
+  ELSIF _expiry_date IS NOT NULL AND _lot.expiry_date <> _expiry_date THEN
+    RAISE EXCEPTION 'O lote % já está cadastrado com validade %',
+      _lot.lot_number, to_char(_lot.expiry_date, 'DD/MM/YYYY');
+  END IF;
+
+  RETURN _lot.id;
+END;
+$$;
+
+-- Exigir o lote nas movimentações de produtos com controle de lote
+CREATE OR REPLACE FUNCTION public.validate_stock_movement_lot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.lot_id IS NULL THEN
+    IF EXISTS (SELECT 1 FROM public.products WHERE id = NEW.product_id AND track_lots) THEN
+      RAISE EXCEPTION 'Informe o lote do produto'
+        USING HINT = 'lot_required';
+    END IF;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.lots WHERE id = NEW.lot_id AND product_id = NEW.product_id) THEN
+    RAISE EXCEPTION 'O lote informado não pertence a este produto';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_stock_movement_validate_lot
+  BEFORE INSERT ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_stock_movement_lot();
+
+-- Atualizar o saldo do lote; lotes nunca ficam negativos, mesmo em categorias que aceitam
+CREATE OR REPLACE FUNCTION public.update_lot_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available DECIMAL(10,2);
+BEGIN
+  IF NEW.lot_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.movement_type IN ('entrada', 'transferencia_entrada') THEN
+    INSERT INTO public.lot_balances (lot_id, location_id, quantity)
+    VALUES (NEW.lot_id, NEW.location_id, NEW.quantity)
+    ON CONFLICT (lot_id, location_id) DO UPDATE
+    SET quantity = lot_balances.quantity + EXCLUDED.quantity,
+        updated_at = NOW();
+  ELSE
+    SELECT quantity INTO _available
+    FROM public.lot_balances
+    WHERE lot_id = NEW.lot_id
+      AND location_id = NEW.location_id
+    FOR UPDATE;
+
+    IF COALESCE(_available, 0) < NEW.quantity THEN
+      RAISE EXCEPTION 'Saldo insuficiente no lote: disponível %, solicitado %', COALESCE(_available, 0), NEW.quantity
+        USING HINT = 'insufficient_stock';
+    END IF;
+
+    UPDATE public.lot_balances
+    SET quantity = quantity - NEW.quantity,
+        updated_at = NOW()
+    WHERE lot_id = NEW.lot_id
+      AND location_id = NEW.location_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_stock_movement_update_lot_balance
+  AFTER INSERT ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_lot_balance();
+
+-- Ao ativar o controle de lote, o saldo que ainda não está em nenhum lote vai para o lote "SEM LOTE"
+CREATE OR REPLACE FUNCTION public.assign_untracked_stock_to_lot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lot_id UUID;
+BEGIN
+  IF NEW.track_lots AND NOT OLD.track_lots THEN
+    INSERT INTO public.lots (product_id, lot_number)
+    VALUES (NEW.id, 'SEM LOTE')
+    ON CONFLICT (product_id, lot_number) DO UPDATE SET lot_number = EXCLUDED.lot_number
+    RETURNING id INTO _lot_id;
+
+    INSERT INTO public.lot_balances (lot_id, location_id, quantity)
+    SELECT _lot_id, b.location_id, b.quantity - COALESCE((
+      SELECT SUM(lb.quantity)
+      FROM public.lot_balances lb
+      JOIN public.lots l ON l.id = lb.lot_id
+      WHERE l.product_id = NEW.id
+        AND lb.location_id = b.location_id
+    ), 0)
+    FROM public.stock_balances b
+    WHERE b.product_id = NEW.id
+      AND b.quantity > COALESCE((
+        SELECT SUM(lb.quantity)
+        FROM public.lot_balances lb
+        JOIN public.lots l ON l.id = lb.lot_id
+        WHERE l.product_id = NEW.id
+          AND lb.location_id = b.location_id
+      ), 0)
+    ON CONFLICT (lot_id, location_id) DO UPDATE
+    SET quantity = lot_balances.quantity + EXCLUDED.quantity,
+        updated_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_product_track_lots_enabled
+  AFTER UPDATE OF track_lots ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_untracked_stock_to_lot();
+
+-- Transferências levam o lote de origem para o destino
+DROP FUNCTION public.transfer_stock(UUID, UUID, UUID, DECIMAL, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.transfer_stock(
+  _product_id UUID,
+  _from_location_id UUID,
+  _to_location_id UUID,
+  _quantity DECIMAL(10,2),
+  _notes TEXT DEFAULT NULL,
+  _unit TEXT DEFAULT NULL,
+  _lot_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer_id UUID := gen_random_uuid();
+  _available DECIMAL(10,2);
+  _base_quantity DECIMAL(10,2);
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para transferir estoque';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'A quantidade deve ser maior que zero';
+  END IF;
+
+  IF _from_location_id = _to_location_id THEN
+    RAISE EXCEPTION 'Os locais de origem e destino devem ser diferentes';
+  END IF;
+
+  _base_quantity := public.convert_to_base_unit(_product_id, _unit, _quantity);
+
+  -- Bloquear o saldo de origem até o fim da transação
+  SELECT quantity INTO _available
+  FROM public.stock_balances
+  WHERE product_id = _product_id
+    AND location_id = _from_location_id
+  FOR UPDATE;
+
+  IF COALESCE(_available, 0) < _base_quantity THEN
+    RAISE EXCEPTION 'Saldo insuficiente no local de origem (disponível: %)', COALESCE(_available, 0);
+  END IF;
+
+  INSERT INTO public.stock_movements
+    (product_id, location_id, movement_type, quantity, responsible_user_id, notes, transfer_id,
+     input_unit, input_quantity, lot_id)
+  VALUES
+    (_product_id, _from_location_id, 'transferencia_saida', _base_quantity, auth.uid(), _notes, _transfer_id,
+     _unit, CASE WHEN _unit IS NULL THEN NULL ELSE _quantity END, _lot_id),
+    (_product_id, _to_location_id, 'transferencia_entrada', _base_quantity, auth.uid(), _notes, _transfer_id,
+     _unit, CASE WHEN _unit IS NULL THEN NULL ELSE _quantity END, _lot_id);
+
+  RETURN _transfer_id;
+END;
+$$;
+
+-- Estornos devolvem a quantidade ao mesmo lote da movimentação original
+CREATE OR REPLACE FUNCTION public.reverse_stock_movement(_movement_id UUID, _reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.stock_movements%ROWTYPE;
+  _leg public.stock_movements%ROWTYPE;
+  _new_transfer_id UUID;
+  _new_id UUID;
+  _reversal_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para estornar movimentações';
+  END IF;
+
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RAISE EXCEPTION 'Informe o motivo do estorno';
+  END IF;
+
+  SELECT * INTO _original
+  FROM public.stock_movements
+  WHERE id = _movement_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Movimentação não encontrada';
+  END IF;
+
+  IF _original.reversed_movement_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Não é possível estornar um estorno';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.stock_movements WHERE reversed_movement_id = _movement_id) THEN
+    RAISE EXCEPTION 'Esta movimentação já foi estornada';
+  END IF;
+
+  IF _original.transfer_id IS NOT NULL THEN
+    _new_transfer_id := gen_random_uuid();
+  END IF;
+
+  FOR _leg IN
+    SELECT *
+    FROM public.stock_movements
+    WHERE id = _movement_id
+       OR (_original.transfer_id IS NOT NULL AND transfer_id = _original.transfer_id)
+  LOOP
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id,
+       transfer_id, reversed_movement_id, reversal_reason, lot_id)
+    VALUES (
+      _leg.product_id,
+      _leg.location_id,
+      CASE _leg.movement_type
+        WHEN 'entrada' THEN 'saida'
+        WHEN 'saida' THEN 'entrada'
+        WHEN 'transferencia_entrada' THEN 'transferencia_saida'
+        WHEN 'transferencia_saida' THEN 'transferencia_entrada'
+      END,
+      _leg.quantity,
+      auth.uid(),
+      _new_transfer_id,
+      _leg.id,
+      btrim(_reason),
+      _leg.lot_id
+    )
+    RETURNING id INTO _new_id;
+
+    IF _leg.id = _movement_id THEN
+      _reversal_id := _new_id;
+    END IF;
+  END LOOP;
+
+  RETURN _reversal_id;
+END;
+$$;
+
+-- Recebimentos de produtos com controle de lote informam lote e validade em cada item
+-- Cada item: { item_id, quantity, lot_number, expiry_date }
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  _purchase_order_id UUID,
+  _location_id UUID,
+  _items JSONB,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.purchase_orders%ROWTYPE;
+  _entry JSONB;
+  _item public.purchase_order_items%ROWTYPE;
+  _quantity DECIMAL(10,2);
+  _lot_id UUID;
+  _received INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para receber pedidos de compra';
+  END IF;
+
+  -- Bloquear o pedido para que dois recebimentos simultâneos não ultrapassem o pendente
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de compra não encontrado';
+  END IF;
+
+  IF _order.status NOT IN ('aberto', 'parcial') THEN
+    RAISE EXCEPTION 'Este pedido não está aberto para recebimento';
+  END IF;
+
+  FOR _entry IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := (_entry->>'quantity')::DECIMAL(10,2);
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO _item
+    FROM public.purchase_order_items
+    WHERE id = (_entry->>'item_id')::UUID
+      AND purchase_order_id = _purchase_order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item não pertence a este pedido';
+    END IF;
+
+    IF _quantity > _item.quantity - _item.received_quantity THEN
+      RAISE EXCEPTION 'Quantidade recebida maior que a pendente (pendente: %)',
+        _item.quantity - _item.received_quantity;
+    END IF;
+
+    _lot_id := NULL;
+    IF NULLIF(btrim(_entry->>'lot_number'), '') IS NOT NULL THEN
+      _lot_id := public.register_lot(
+        _item.product_id,
+        _entry->>'lot_number',
+        NULLIF(_entry->>'expiry_date', '')::DATE
+      );
+    END IF;
+
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes,
+       supplier_id, purchase_order_item_id, unit_cost, lot_id)
+    VALUES
+      (_item.product_id, _location_id, 'entrada', _quantity, auth.uid(),
+       COALESCE(NULLIF(btrim(_notes), ''), 'Recebimento do pedido #' || _order.number),
+       _order.supplier_id, _item.id, _item.unit_price, _lot_id);
+
+    _received := _received + 1;
+  END LOOP;
+
+  IF _received = 0 THEN
+    RAISE EXCEPTION 'Informe a quantidade recebida de ao menos um item';
+  END IF;
+
+  RETURN _received;
+END;
+$$;
+
+-- Lotes com saldo que vencem nos próximos dias (inclui os já vencidos)
+CREATE OR REPLACE FUNCTION public.expiring_lots(_days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  lot_id UUID,
+  lot_number TEXT,
+  expiry_date DATE,
+  product_id UUID,
+  product_name TEXT,
+  unit TEXT,
+  quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT l.id, l.lot_number, l.expiry_date, p.id, p.name, p.unit, SUM(b.quantity)
+  FROM public.lots l
+  JOIN public.products p ON p.id = l.product_id
+  JOIN public.lot_balances b ON b.lot_id = l.id
+  WHERE l.expiry_date <= CURRENT_DATE + _days
+  GROUP BY l.id, l.lot_number, l.expiry_date, p.id, p.name, p.unit
+  HAVING SUM(b.quantity) > 0
+  ORDER BY l.expiry_date, p.name;
+$$;
@@ -0,0 +1,446 @@
+-- Controle por número de série (uma unidade por número) para itens de alto valor
+ALTER TABLE public.products
+  ADD COLUMN track_serials BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.products
+  ADD CONSTRAINT products_track_lots_serials_check
+  CHECK (NOT (track_lots AND track_serials));
+
+CREATE TABLE public.serial_numbers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  serial_number TEXT NOT NULL CHECK (length(btrim(serial_number)) > 0),
+  status TEXT NOT NULL DEFAULT 'em_estoque' CHECK (status IN ('em_estoque', 'baixado')),
+  -- Local atual; vazio quando a unidade não está mais no estoque
+  location_id UUID REFERENCES public.locations(id) ON DELETE RESTRICT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (product_id, serial_number),
+  CHECK ((status = 'em_estoque') = (location_id IS NOT NULL))
+);
+
+ALTER TABLE public.serial_numbers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Todos podem ver números de série"
+  ON public.serial_numbers FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Quais unidades participaram de cada movimentação (histórico por número de série)
+CREATE TABLE public.stock_movement_serials (
+  movement_id UUID NOT NULL REFERENCES public.stock_movements(id) ON DELETE CASCADE,
+  serial_id UUID NOT NULL REFERENCES public.serial_numbers(id) ON DELETE CASCADE,
+  PRIMARY KEY (movement_id, serial_id)
+);
+
+CREATE INDEX idx_stock_movement_serials_serial ON public.stock_movement_serials(serial_id);
+
+ALTER TABLE public.stock_movement_serials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Todos podem ver séries das movimentações"
+  ON public.stock_movement_serials FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Só é possível ativar o controle por série com o produto zerado,
+-- pois as unidades já em estoque não têm número
+CREATE OR REPLACE FUNCTION public.validate_track_serials()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.track_serials AND NOT OLD.track_serials AND EXISTS (
+    SELECT 1 FROM public.stock_balances WHERE product_id = NEW.id AND quantity <> 0
+  ) THEN
+    RAISE EXCEPTION 'Zere o saldo do produto antes de ativar o controle por número de série';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_product_track_serials_enabled
+  BEFORE UPDATE OF track_serials ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_track_serials();
+
+-- Atualizar a situação da unidade conforme o tipo da movimentação vinculada
+CREATE OR REPLACE FUNCTION public.update_serial_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _movement public.stock_movements%ROWTYPE;
+  _serial public.serial_numbers%ROWTYPE;
+BEGIN
+  SELECT * INTO _movement FROM public.stock_movements WHERE id = NEW.movement_id;
+  SELECT * INTO _serial FROM public.serial_numbers WHERE id = NEW.serial_id FOR UPDATE;
+
+  IF _serial.product_id <> _movement.product_id THEN
+    RAISE EXCEPTION 'O número de série % não pertence a este produto', _serial.serial_number;
+  END IF;
+
+  IF _movement.movement_type IN ('entrada', 'transferencia_entrada') THEN
+    IF _serial.status = 'em_estoque' THEN
+      RAISE EXCEPTION 'O número de série % já está em estoque', _serial.serial_number;
+    END IF;
+
+    UPDATE public.serial_numbers
+    SET status = 'em_estoque', location_id = _movement.location_id, updated_at = NOW()
+    WHERE id = _serial.id;
+  ELSE
+    IF _serial.status <> 'em_estoque' OR _serial.location_id <> _movement.location_id THEN
+      RAISE EXCEPTION 'O número de série % não está disponível neste local', _serial.serial_number;
+    END IF;
+
+    UPDATE public.serial_numbers
+    SET status = 'baixado', location_id = NULL, updated_at = NOW()
+    WHERE id = _serial.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_movement_serial_linked
+  AFTER INSERT ON public.stock_movement_serials
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_serial_status();
+
+-- Ao fim da transação, toda movimentação de produto serializado precisa ter
+-- exatamente um número de série por unidade movimentada
+CREATE OR REPLACE FUNCTION public.check_movement_serials()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.products WHERE id = NEW.product_id AND track_serials) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COUNT(*) INTO _count
+  FROM public.stock_movement_serials
+  WHERE movement_id = NEW.id;
+
+  IF _count <> NEW.quantity THEN
+    RAISE EXCEPTION 'Informe um número de série para cada unidade movimentada'
+      USING HINT = 'serials_required';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER on_stock_movement_check_serials
+  AFTER INSERT ON public.stock_movements
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_movement_serials();
+
+-- Vincular números de série a uma movimentação; nas entradas, números novos são cadastrados
+CREATE OR REPLACE FUNCTION public.attach_movement_serials(
+  _movement_id UUID,
+  _serial_numbers TEXT[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _movement public.stock_movements%ROWTYPE;
+  _number TEXT;
+  _serial_id UUID;
+BEGIN
+  SELECT * INTO _movement FROM public.stock_movements WHERE id = _movement_id;
+
+  IF (SELECT COUNT(DISTINCT btrim(n)) FROM unnest(_serial_numbers) AS n) <> COALESCE(array_length(_serial_numbers, 1), 0) THEN
+    RAISE EXCEPTION 'Há números de série repetidos';
+  END IF;
+
+  FOREACH _number IN ARRAY _serial_numbers
+  LOOP
+    SELECT id INTO _serial_id
+    FROM public.serial_numbers
+    WHERE product_id = _movement.product_id
+      AND serial_number = btrim(_number);
+
+    IF NOT FOUND THEN
+      IF _movement.movement_type <> 'entrada' THEN
+        RAISE EXCEPTION 'Número de série % não encontrado', btrim(_number);
+      END IF;
+
+      INSERT INTO public.serial_numbers (product_id, serial_number, status)
+      VALUES (_movement.product_id, btrim(_number), 'baixado')
+      RETURNING id INTO _serial_id;
+    END IF;
+
+    INSERT INTO public.stock_movement_serials (movement_id, serial_id)
+    VALUES (_movement_id, _serial_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.attach_movement_serials(UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+-- Entrada, saída ou transferência de unidades identificadas pelo número de série
+CREATE OR REPLACE FUNCTION public.move_serials(
+  _product_id UUID,
+  _location_id UUID,
+  _movement_type TEXT,
+  _serial_numbers TEXT[],
+  _destination_location_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _supplier_id UUID DEFAULT NULL,
+  _unit_cost DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quantity INTEGER := COALESCE(array_length(_serial_numbers, 1), 0);
+  _transfer_id UUID;
+  _movement_id UUID;
+  _destination_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para movimentar estoque';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.products WHERE id = _product_id AND track_serials) THEN
+    RAISE EXCEPTION 'Este produto não é controlado por número de série';
+  END IF;
+
+  IF _quantity = 0 THEN
+    RAISE EXCEPTION 'Informe ao menos um número de série';
+  END IF;
+
+  IF _movement_type = 'transferencia' THEN
+    IF _destination_location_id IS NULL OR _destination_location_id = _location_id THEN
+      RAISE EXCEPTION 'Os locais de origem e destino devem ser diferentes';
+    END IF;
+
+    _transfer_id := gen_random_uuid();
+
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes, transfer_id)
+    VALUES
+      (_product_id, _location_id, 'transferencia_saida', _quantity, auth.uid(), _notes, _transfer_id)
+    RETURNING id INTO _movement_id;
+    PERFORM public.attach_movement_serials(_movement_id, _serial_numbers);
+
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes, transfer_id)
+    VALUES
+      (_product_id, _destination_location_id, 'transferencia_entrada', _quantity, auth.uid(), _notes, _transfer_id)
+    RETURNING id INTO _destination_id;
+    PERFORM public.attach_movement_serials(_destination_id, _serial_numbers);
+  ELSIF _movement_type IN ('entrada', 'saida') THEN
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes, supplier_id, unit_cost)
+    VALUES
+      (_product_id, _location_id, _movement_type, _quantity, auth.uid(), _notes,
+       CASE WHEN _movement_type = 'entrada' THEN _supplier_id END,
+       CASE WHEN _movement_type = 'entrada' THEN _unit_cost END)
+    RETURNING id INTO _movement_id;
+    PERFORM public.attach_movement_serials(_movement_id, _serial_numbers);
+  ELSE
+    RAISE EXCEPTION 'Tipo de movimentação inválido: %', _movement_type;
+  END IF;
+
+  RETURN _movement_id;
+END;
+$$;
+
+-- Estornos devolvem as mesmas unidades; as pernas que tiram do estoque são estornadas
+-- primeiro para que a unidade esteja livre quando a outra perna for desfeita
+CREATE OR REPLACE FUNCTION public.reverse_stock_movement(_movement_id UUID, _reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.stock_movements%ROWTYPE;
+  _leg public.stock_movements%ROWTYPE;
+  _new_transfer_id UUID;
+  _new_id UUID;
+  _reversal_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para estornar movimentações';
+  END IF;
+
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RAISE EXCEPTION 'Informe o motivo do estorno';
+  END IF;
+
+  SELECT * INTO _original
+  FROM public.stock_movements
+  WHERE id = _movement_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Movimentação não encontrada';
+  END IF;
+
+  IF _original.reversed_movement_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Não é possível estornar um estorno';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.stock_movements WHERE reversed_movement_id = _movement_id) THEN
+    RAISE EXCEPTION 'Esta movimentação já foi estornada';
+  END IF;
+
+  IF _original.transfer_id IS NOT NULL THEN
+    _new_transfer_id := gen_random_uuid();
+  END IF;
+
+  FOR _leg IN
+    SELECT *
+    FROM public.stock_movements
+    WHERE id = _movement_id
+       OR (_original.transfer_id IS NOT NULL AND transfer_id = _original.transfer_id)
+    ORDER BY CASE WHEN movement_type IN ('entrada', 'transferencia_entrada') THEN 0 ELSE 1 END
+  LOOP
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id,
+       transfer_id, reversed_movement_id, reversal_reason, lot_id)
+    VALUES (
+      _leg.product_id,
+      _leg.location_id,
+      CASE _leg.movement_type
+        WHEN 'entrada' THEN 'saida'
+        WHEN 'saida' THEN 'entrada'
+        WHEN 'transferencia_entrada' THEN 'transferencia_saida'
+        WHEN 'transferencia_saida' THEN 'transferencia_entrada'
+      END,
+      _leg.quantity,
+      auth.uid(),
+      _new_transfer_id,
+      _leg.id,
+      btrim(_reason),
+      _leg.lot_id
+    )
+    RETURNING id INTO _new_id;
+
+    INSERT INTO public.stock_movement_serials (movement_id, serial_id)
+    SELECT _new_id, serial_id
+    FROM public.stock_movement_serials
+    WHERE movement_id = _leg.id;
+
+    IF _leg.id = _movement_id THEN
+      _reversal_id := _new_id;
+    END IF;
+  END LOOP;
+
+  RETURN _reversal_id;
+END;
+$$;
+
+-- Recebimentos de produtos serializados informam os números recebidos em cada item
+-- Cada item: { item_id, quantity, lot_number, expiry_date, serial_numbers }
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  _purchase_order_id UUID,
+  _location_id UUID,
+  _items JSONB,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.purchase_orders%ROWTYPE;
+  _entry JSONB;
+  _item public.purchase_order_items%ROWTYPE;
+  _quantity DECIMAL(10,2);
+  _lot_id UUID;
+  _movement_id UUID;
+  _received INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para receber pedidos de compra';
+  END IF;
+
+  -- Bloquear o pedido para que dois recebimentos simultâneos não ultrapassem o pendente
+  SELECT * INTO _order
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de compra não encontrado';
+  END IF;
+
+  IF _order.status NOT IN ('aberto', 'parcial') THEN
+    RAISE EXCEPTION 'Este pedido não está aberto para recebimento';
+  END IF;
+
+  FOR _entry IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := (_entry->>'quantity')::DECIMAL(10,2);
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO _item
+    FROM public.purchase_order_items
+    WHERE id = (_entry->>'item_id')::UUID
+      AND purchase_order_id = _purchase_order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item não pertence a este pedido';
+    END IF;
+
+    IF _quantity > _item.quantity - _item.received_quantity THEN
+      RAISE EXCEPTION 'Quantidade recebida maior que a pendente (pendente: %)',
+        _item.quantity - _item.received_quantity;
+    END IF;
+
+    _lot_id := NULL;
+    IF NULLIF(btrim(_entry->>'lot_number'), '') IS NOT NULL THEN
+      _lot_id := public.register_lot(
+        _item.product_id,
+        _entry->>'lot_number',
+        NULLIF(_entry->>'expiry_date', '')::DATE
+      );
+    END IF;
+
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes,
+       supplier_id, purchase_order_item_id, unit_cost, lot_id)
+    VALUES
+      (_item.product_id, _location_id, 'entrada', _quantity, auth.uid(),
+       COALESCE(NULLIF(btrim(_notes), ''), 'Recebimento do pedido #' || _order.number),
+       _order.supplier_id, _item.id, _item.unit_price, _lot_id)
+    RETURNING id INTO _movement_id;
+
+    IF jsonb_typeof(_entry->'serial_numbers') = 'array' THEN
+      PERFORM public.attach_movement_serials(
+        _movement_id,
+        ARRAY(SELECT jsonb_array_elements_text(_entry->'serial_numbers'))
+      );
+    END IF;
+
+    _received := _received + 1;
+  END LOOP;
+
+  IF _received = 0 THEN
+    RAISE EXCEPTION 'Informe a quantidade recebida de ao menos um item';
+  END IF;
+
+  RETURN _received;
+END;
+$$;
@@ -0,0 +1,595 @@
+-- Inventário físico (contagem cíclica) com ajuste das diferenças aprovadas
+ALTER TABLE public.stock_movements
+  DROP CONSTRAINT stock_movements_movement_type_check;
+
+ALTER TABLE public.stock_movements
+  ADD CONSTRAINT stock_movements_movement_type_check
+  CHECK (movement_type IN (
+    'entrada', 'saida', 'transferencia_entrada', 'transferencia_saida', 'ajuste_entrada', 'ajuste_saida'
+  ));
+
+-- Ajustes de inventário só podem ser criados pela função post_inventory_count
+DROP POLICY "Estoquistas podem criar movimentações" ON public.stock_movements;
+
+CREATE POLICY "Estoquistas podem criar movimentações"
+  ON public.stock_movements FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = responsible_user_id
+    AND movement_type IN ('entrada', 'saida')
+    AND transfer_id IS NULL
+    AND reversed_movement_id IS NULL
+    AND purchase_order_item_id IS NULL
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  );
+
+-- Criar tabela de inventários; o escopo (categoria e/ou local) vale só para gerar os itens
+CREATE TABLE public.inventory_counts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  number BIGINT GENERATED ALWAYS AS IDENTITY UNIQUE,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'aberto' CHECK (status IN ('aberto', 'finalizado', 'cancelado')),
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  closed_by UUID REFERENCES auth.users(id),
+  closed_at TIMESTAMPTZ
+);
+
+-- Cada item congela o saldo esperado no momento da abertura do inventário
+CREATE TABLE public.inventory_count_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inventory_count_id UUID NOT NULL REFERENCES public.inventory_counts(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  lot_id UUID REFERENCES public.lots(id) ON DELETE CASCADE,
+  expected_quantity DECIMAL(10,2) NOT NULL,
+  counted_quantity DECIMAL(10,2) CHECK (counted_quantity >= 0),
+  counted_by UUID REFERENCES auth.users(id),
+  counted_at TIMESTAMPTZ,
+  adjustment_movement_id UUID REFERENCES public.stock_movements(id) ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX idx_inventory_count_items_unique
+  ON public.inventory_count_items(inventory_count_id, product_id, location_id, lot_id) NULLS NOT DISTINCT;
+
+ALTER TABLE public.inventory_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_count_items ENABLE ROW LEVEL SECURITY;
+
+-- Inventários são abertos, contados e finalizados pelas funções abaixo;
+-- o cliente só cancela um inventário aberto
+CREATE POLICY "Usuários autenticados podem ver inventários"
+  ON public.inventory_counts FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Administradores podem cancelar inventários"
+  ON public.inventory_counts FOR UPDATE
+  TO authenticated
+  USING (
+    status = 'aberto'
+    AND public.has_role(auth.uid(), ARRAY['admin']::public.app_role[])
+  )
+  WITH CHECK (status = 'cancelado');
+
+CREATE POLICY "Usuários autenticados podem ver itens de inventário"
+  ON public.inventory_count_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Abrir um inventário congelando os saldos esperados do escopo.
+-- Produtos com lote são contados por lote; produtos com número de série
+-- são conferidos pela lista de unidades e ficam fora do inventário.
+CREATE OR REPLACE FUNCTION public.create_inventory_count(
+  _category_id UUID DEFAULT NULL,
+  _location_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para abrir inventários';
+  END IF;
+
+  INSERT INTO public.inventory_counts (category_id, location_id, notes, created_by)
+  VALUES (_category_id, _location_id, NULLIF(btrim(_notes), ''), auth.uid())
+  RETURNING id INTO _count_id;
+
+  INSERT INTO public.inventory_count_items (inventory_count_id, product_id, location_id, expected_quantity)
+  SELECT _count_id, p.id, l.id, COALESCE(b.quantity, 0)
+  FROM public.products p
+  CROSS JOIN public.locations l
+  LEFT JOIN public.stock_balances b ON b.product_id = p.id AND b.location_id = l.id
+  WHERE NOT p.track_lots
+    AND NOT p.track_serials
+    AND (_category_id IS NULL OR p.category_id = _category_id)
+    AND (_location_id IS NULL OR l.id = _location_id);
+
+  INSERT INTO public.inventory_count_items (inventory_count_id, product_id, location_id, lot_id, expected_quantity)
+  SELECT _count_id, p.id, lb.location_id, lb.lot_id, lb.quantity
+  FROM public.lot_balances lb
+  JOIN public.lots lt ON lt.id = lb.lot_id
+  JOIN public.products p ON p.id = lt.product_id
+  WHERE lb.quantity > 0
+    AND (_category_id IS NULL OR p.category_id = _category_id)
+    AND (_location_id IS NULL OR lb.location_id = _location_id);
+
+  IF NOT EXISTS (SELECT 1 FROM public.inventory_count_items WHERE inventory_count_id = _count_id) THEN
+    RAISE EXCEPTION 'Nenhum produto para contar neste escopo';
+  END IF;
+
+  RETURN _count_id;
+END;
+$$;
+
+-- Registrar (ou limpar, com NULL) a quantidade contada de um item
+CREATE OR REPLACE FUNCTION public.record_inventory_count(
+  _item_id UUID,
+  _counted_quantity DECIMAL DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para registrar contagens';
+  END IF;
+
+  IF _counted_quantity < 0 THEN
+    RAISE EXCEPTION 'A quantidade contada não pode ser negativa';
+  END IF;
+
+  UPDATE public.inventory_count_items i
+  SET counted_quantity = _counted_quantity,
+      counted_by = CASE WHEN _counted_quantity IS NULL THEN NULL ELSE auth.uid() END,
+      counted_at = CASE WHEN _counted_quantity IS NULL THEN NULL ELSE NOW() END
+  FROM public.inventory_counts c
+  WHERE i.id = _item_id
+    AND c.id = i.inventory_count_id
+    AND c.status = 'aberto';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Este inventário não está aberto para contagem';
+  END IF;
+END;
+$$;
+
+-- Finalizar o inventário lançando as diferenças aprovadas como movimentações de ajuste.
+-- A diferença é calculada sobre o saldo congelado na abertura.
+CREATE OR REPLACE FUNCTION public.post_inventory_count(
+  _inventory_count_id UUID,
+  _approved_item_ids UUID[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count public.inventory_counts%ROWTYPE;
+  _item public.inventory_count_items%ROWTYPE;
+  _movement_id UUID;
+  _adjusted INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para finalizar inventários';
+  END IF;
+
+  SELECT * INTO _count
+  FROM public.inventory_counts
+  WHERE id = _inventory_count_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventário não encontrado';
+  END IF;
+
+  IF _count.status <> 'aberto' THEN
+    RAISE EXCEPTION 'Este inventário não está aberto';
+  END IF;
+
+  FOR _item IN
+    SELECT *
+    FROM public.inventory_count_items
+    WHERE inventory_count_id = _inventory_count_id
+      AND id = ANY(_approved_item_ids)
+      AND counted_quantity IS NOT NULL
+      AND counted_quantity <> expected_quantity
+  LOOP
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes, lot_id)
+    VALUES (
+      _item.product_id,
+      _item.location_id,
+      CASE WHEN _item.counted_quantity > _item.expected_quantity THEN 'ajuste_entrada' ELSE 'ajuste_saida' END,
+      abs(_item.counted_quantity - _item.expected_quantity),
+      auth.uid(),
+      'Inventário #' || _count.number,
+      _item.lot_id
+    )
+    RETURNING id INTO _movement_id;
+
+    UPDATE public.inventory_count_items
+    SET adjustment_movement_id = _movement_id
+    WHERE id = _item.id;
+
+    _adjusted := _adjusted + 1;
+  END LOOP;
+
+  UPDATE public.inventory_counts
+  SET status = 'finalizado', closed_by = auth.uid(), closed_at = NOW()
+  WHERE id = _inventory_count_id;
+
+  RETURN _adjusted;
+END;
+$$;
+
+-- Ajustes de inventário entram e saem do saldo como entradas e saídas
+CREATE OR REPLACE FUNCTION public.update_product_quantity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available DECIMAL(10,2);
+BEGIN
+  IF NEW.movement_type IN ('entrada', 'transferencia_entrada', 'ajuste_entrada') THEN
+    INSERT INTO public.stock_balances (product_id, location_id, quantity)
+    VALUES (NEW.product_id, NEW.location_id, NEW.quantity)
+    ON CONFLICT (product_id, location_id) DO UPDATE
+    SET quantity = stock_balances.quantity + EXCLUDED.quantity,
+        updated_at = NOW();
+  ELSIF NEW.movement_type IN ('saida', 'transferencia_saida', 'ajuste_saida') THEN
+    INSERT INTO public.stock_balances (product_id, location_id, quantity)
+    VALUES (NEW.product_id, NEW.location_id, 0)
+    ON CONFLICT (product_id, location_id) DO NOTHING;
+
+    SELECT quantity INTO _available
+    FROM public.stock_balances
+    WHERE product_id = NEW.product_id
+      AND location_id = NEW.location_id
+    FOR UPDATE;
+
+    IF _available < NEW.quantity AND NOT public.allows_negative_stock(NEW.product_id) THEN
+      RAISE EXCEPTION 'Estoque insuficiente: disponível %, solicitado %', _available, NEW.quantity
+        USING HINT = 'insufficient_stock';
+    END IF;
+
+    UPDATE public.stock_balances
+    SET quantity = quantity - NEW.quantity,
+        updated_at = NOW()
+    WHERE product_id = NEW.product_id
+      AND location_id = NEW.location_id;
+  END IF;
+
+  UPDATE public.products
+  SET current_quantity = (
+        SELECT COALESCE(SUM(quantity), 0)
+        FROM public.stock_balances
+        WHERE product_id = NEW.product_id
+      ),
+      updated_at = NOW()
+  WHERE id = NEW.product_id;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Atualizar o saldo do lote; lotes nunca ficam negativos, mesmo em categorias que aceitam
+CREATE OR REPLACE FUNCTION public.update_lot_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available DECIMAL(10,2);
+BEGIN
+  IF NEW.lot_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.movement_type IN ('entrada', 'transferencia_entrada', 'ajuste_entrada') THEN
+    INSERT INTO public.lot_balances (lot_id, location_id, quantity)
+    VALUES (NEW.lot_id, NEW.location_id, NEW.quantity)
+    ON CONFLICT (lot_id, location_id) DO UPDATE
+    SET quantity = lot_balances.quantity + EXCLUDED.quantity,
+        updated_at = NOW();
+  ELSE
+    SELECT quantity INTO _available
+    FROM public.lot_balances
+    WHERE lot_id = NEW.lot_id
+      AND location_id = NEW.location_id
+    FOR UPDATE;
+
+    IF COALESCE(_available, 0) < NEW.quantity THEN
+      RAISE EXCEPTION 'Saldo insuficiente no lote: disponível %, solicitado %', COALESCE(_available, 0), NEW.quantity
+        USING HINT = 'insufficient_stock';
+    END IF;
+
+    UPDATE public.lot_balances
+    SET quantity = quantity - NEW.quantity,
+        updated_at = NOW()
+    WHERE lot_id = NEW.lot_id
+      AND location_id = NEW.location_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Estorno de ajuste de inventário gera o ajuste contrário
+CREATE OR REPLACE FUNCTION public.reverse_stock_movement(_movement_id UUID, _reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.stock_movements%ROWTYPE;
+  _leg public.stock_movements%ROWTYPE;
+  _new_transfer_id UUID;
+  _new_id UUID;
+  _reversal_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para estornar movimentações';
+  END IF;
+
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RAISE EXCEPTION 'Informe o motivo do estorno';
+  END IF;
+
+  SELECT * INTO _original
+  FROM public.stock_movements
+  WHERE id = _movement_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Movimentação não encontrada';
+  END IF;
+
+  IF _original.reversed_movement_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Não é possível estornar um estorno';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.stock_movements WHERE reversed_movement_id = _movement_id) THEN
+    RAISE EXCEPTION 'Esta movimentação já foi estornada';
+  END IF;
+
+  IF _original.transfer_id IS NOT NULL THEN
+    _new_transfer_id := gen_random_uuid();
+  END IF;
+
+  FOR _leg IN
+    SELECT *
+    FROM public.stock_movements
+    WHERE id = _movement_id
+       OR (_original.transfer_id IS NOT NULL AND transfer_id = _original.transfer_id)
+    ORDER BY CASE WHEN movement_type IN ('entrada', 'transferencia_entrada', 'ajuste_entrada') THEN 0 ELSE 1 END
+  LOOP
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id,
+       transfer_id, reversed_movement_id, reversal_reason, lot_id)
+    VALUES (
+      _leg.product_id,
+      _leg.location_id,
+      CASE _leg.movement_type
+        WHEN 'entrada' THEN 'saida'
+        WHEN 'saida' THEN 'entrada'
+        WHEN 'transferencia_entrada' THEN 'transferencia_saida'
+        WHEN 'transferencia_saida' THEN 'transferencia_entrada'
+        WHEN 'ajuste_entrada' THEN 'ajuste_saida'
+        WHEN 'ajuste_saida' THEN 'ajuste_entrada'
+      END,
+      _leg.quantity,
+      auth.uid(),
+      _new_transfer_id,
+      _leg.id,
+      btrim(_reason),
+      _leg.lot_id
+    )
+    RETURNING id INTO _new_id;
+
+    INSERT INTO public.stock_movement_serials (movement_id, serial_id)
+    SELECT _new_id, serial_id
+    FROM public.stock_movement_serials
+    WHERE movement_id = _leg.id;
+
+    IF _leg.id = _movement_id THEN
+      _reversal_id := _new_id;
+    END IF;
+  END LOOP;
+
+  RETURN _reversal_id;
+END;
+$$;
+
+-- Saldo de cada categoria ao fim de cada período, reconstruído a partir do saldo atual
+-- desfazendo as entradas, saídas e ajustes posteriores (transferências não alteram o total)
+CREATE OR REPLACE FUNCTION public.dashboard_category_evolution(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _granularity TEXT DEFAULT 'day',
+  _timezone TEXT DEFAULT 'America/Sao_Paulo'
+)
+RETURNS TABLE (
+  bucket DATE,
+  category_id UUID,
+  quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH buckets AS (
+    SELECT
+      gs::DATE AS bucket,
+      LEAST((gs + ('1 ' || _granularity)::INTERVAL) AT TIME ZONE _timezone, _to) AS bucket_end
+    FROM generate_series(
+      date_trunc(_granularity, _from AT TIME ZONE _timezone),
+      date_trunc(_granularity, _to AT TIME ZONE _timezone),
+      ('1 ' || _granularity)::INTERVAL
+    ) AS gs
+  ),
+  current_totals AS (
+    SELECT p.category_id, SUM(p.current_quantity) AS quantity
+    FROM public.products p
+    GROUP BY p.category_id
+  ),
+  changes AS (
+    SELECT
+      p.category_id,
+      m.created_at,
+      CASE WHEN m.movement_type IN ('entrada', 'ajuste_entrada') THEN m.quantity ELSE -m.quantity END AS delta
+    FROM public.stock_movements m
+    JOIN public.products p ON p.id = m.product_id
+    WHERE m.created_at >= _from
+      AND m.movement_type IN ('entrada', 'saida', 'ajuste_entrada', 'ajuste_saida')
+  )
+  SELECT
+    b.bucket,
+    c.category_id,
+    c.quantity - COALESCE((
+      SELECT SUM(ch.delta)
+      FROM changes ch
+      WHERE ch.category_id IS NOT DISTINCT FROM c.category_id
+        AND ch.created_at >= b.bucket_end
+    ), 0)
+  FROM buckets b
+  CROSS JOIN current_totals c
+  ORDER BY b.bucket, c.category_id;
+$$;
+
+-- Valorização do estoque em uma data, por custo médio ponderado ('wac') ou PEPS ('fifo').
+-- Transferências não alteram o saldo total do produto e por isso são ignoradas;
+-- ajustes de inventário movimentam o saldo pelo custo médio vigente.
+CREATE OR REPLACE FUNCTION public.inventory_valuation(
+  _as_of TIMESTAMPTZ DEFAULT NOW(),
+  _method TEXT DEFAULT 'wac'
+)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  sku TEXT,
+  unit TEXT,
+  category_id UUID,
+  category_name TEXT,
+  quantity DECIMAL,
+  unit_cost DECIMAL,
+  total_value DECIMAL,
+  missing_cost BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _product RECORD;
+  _movement RECORD;
+  _quantity DECIMAL;
+  _average DECIMAL;
+  _value DECIMAL;
+  _missing BOOLEAN;
+  _layer RECORD;
+  _remaining DECIMAL;
+BEGIN
+  IF _method NOT IN ('wac', 'fifo') THEN
+    RAISE EXCEPTION 'Método de valorização inválido: %', _method;
+  END IF;
+
+  FOR _product IN
+    SELECT p.id, p.name, p.sku, p.unit, p.category_id, c.name AS category_name
+    FROM public.products p
+    LEFT JOIN public.categories c ON c.id = p.category_id
+    ORDER BY p.name
+  LOOP
+    _quantity := 0;
+    _average := 0;
+    _missing := false;
+
+    -- Custo médio móvel: cada entrada com custo recalcula a média; saídas saem pela média vigente
+    -- e entradas sem custo (ex.: estorno de saída) voltam pela média vigente
+    FOR _movement IN
+      SELECT m.movement_type, m.quantity, m.unit_cost
+      FROM public.stock_movements m
+      WHERE m.product_id = _product.id
+        AND m.created_at <= _as_of
+        AND m.movement_type IN ('entrada', 'saida', 'ajuste_entrada', 'ajuste_saida')
+      ORDER BY m.created_at, m.id
+    LOOP
+      IF _movement.movement_type IN ('saida', 'ajuste_saida') THEN
+        _quantity := _quantity - _movement.quantity;
+      ELSIF _movement.unit_cost IS NOT NULL THEN
+        IF _quantity <= 0 THEN
+          _average := _movement.unit_cost;
+          _missing := false;
+        ELSE
+          _average := (_quantity * _average + _movement.quantity * _movement.unit_cost)
+            / (_quantity + _movement.quantity);
+        END IF;
+        _quantity := _quantity + _movement.quantity;
+      ELSE
+        _missing := _missing OR _quantity <= 0;
+        _quantity := _quantity + _movement.quantity;
+      END IF;
+    END LOOP;
+
+    IF _method = 'wac' THEN
+      _value := GREATEST(_quantity, 0) * _average;
+    ELSE
+      -- PEPS: o saldo em estoque é formado pelas entradas mais recentes,
+      -- desconsiderando entradas estornadas e os próprios estornos
+      _value := 0;
+      _remaining := GREATEST(_quantity, 0);
+      _missing := false;
+
+      FOR _layer IN
+        SELECT m.quantity, m.unit_cost
+        FROM public.stock_movements m
+        WHERE m.product_id = _product.id
+          AND m.created_at <= _as_of
+          AND m.movement_type = 'entrada'
+          AND m.reversed_movement_id IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM public.stock_movements r
+            WHERE r.reversed_movement_id = m.id AND r.created_at <= _as_of
+          )
+        ORDER BY m.created_at DESC, m.id DESC
+      LOOP
+        EXIT WHEN _remaining <= 0;
+        IF _layer.unit_cost IS NULL THEN
+          _missing := true;
+        ELSE
+          _value := _value + LEAST(_layer.quantity, _remaining) * _layer.unit_cost;
+        END IF;
+        _remaining := _remaining - LEAST(_layer.quantity, _remaining);
+      END LOOP;
+
+      _missing := _missing OR _remaining > 0;
+    END IF;
+
+    product_id := _product.id;
+    product_name := _product.name;
+    sku := _product.sku;
+    unit := _product.unit;
+    category_id := _product.category_id;
+    category_name := _product.category_name;
+    quantity := _quantity;
+    unit_cost := CASE WHEN _quantity > 0 THEN ROUND(_value / _quantity, 4) ELSE NULL END;
+    total_value := ROUND(_value, 2);
+    missing_cost := _missing AND _quantity > 0;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,261 @@
+-- Motivos de movimentação, agrupados por direção (entrada ou saída)
+CREATE TABLE public.movement_reasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(btrim(name)) > 0),
+  direction TEXT NOT NULL CHECK (direction IN ('entrada', 'saida')),
+  -- Motivos do sistema, atribuídos automaticamente e que não podem ser excluídos
+  code TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (direction, name),
+  UNIQUE (direction, code)
+);
+
+ALTER TABLE public.movement_reasons ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para motivos (todos podem ler, apenas administradores podem modificar)
+CREATE POLICY "Usuários autenticados podem ver motivos"
+  ON public.movement_reasons FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Administradores podem criar motivos"
+  ON public.movement_reasons FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    code IS NULL
+    AND public.has_role(auth.uid(), ARRAY['admin']::public.app_role[])
+  );
+
+CREATE POLICY "Administradores podem atualizar motivos"
+  ON public.movement_reasons FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]))
+  WITH CHECK (
+    (code IS NULL OR active)
+    AND public.has_role(auth.uid(), ARRAY['admin']::public.app_role[])
+  );
+
+CREATE POLICY "Administradores podem deletar motivos"
+  ON public.movement_reasons FOR DELETE
+  TO authenticated
+  USING (
+    code IS NULL
+    AND public.has_role(auth.uid(), ARRAY['admin']::public.app_role[])
+  );
+
+-- O código nunca muda e a direção só muda enquanto o motivo não foi usado
+CREATE OR REPLACE FUNCTION public.protect_movement_reason()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.code IS DISTINCT FROM OLD.code THEN
+    RAISE EXCEPTION 'O código de um motivo não pode ser alterado';
+  END IF;
+
+  IF NEW.direction <> OLD.direction
+    AND EXISTS (SELECT 1 FROM public.stock_movements WHERE reason_id = OLD.id) THEN
+    RAISE EXCEPTION 'Não é possível alterar a direção de um motivo já usado em movimentações';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO public.movement_reasons (name, direction, code) VALUES
+  ('Compra', 'entrada', 'compra'),
+  ('Ajuste de inventário', 'entrada', 'ajuste_inventario'),
+  ('Ajuste de inventário', 'saida', 'ajuste_inventario');
+
+INSERT INTO public.movement_reasons (name, direction) VALUES
+  ('Devolução de obra ou projeto', 'entrada'),
+  ('Doação', 'entrada'),
+  ('Outras entradas', 'entrada'),
+  ('Consumo', 'saida'),
+  ('Consumo por projeto', 'saida'),
+  ('Quebra', 'saida'),
+  ('Perda', 'saida'),
+  ('Devolução ao fornecedor', 'saida'),
+  ('Outras saídas', 'saida');
+
+ALTER TABLE public.stock_movements
+  ADD COLUMN reason_id UUID REFERENCES public.movement_reasons(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_stock_movements_reason ON public.stock_movements(reason_id);
+
+CREATE TRIGGER on_movement_reason_update
+  BEFORE UPDATE ON public.movement_reasons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_movement_reason();
+
+-- Recebimentos de pedido e ajustes de inventário recebem o motivo do sistema;
+-- o motivo informado precisa estar ativo e ter a mesma direção da movimentação.
+-- Transferências e estornos não têm motivo próprio.
+CREATE OR REPLACE FUNCTION public.apply_stock_movement_reason()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _direction TEXT;
+  _reason public.movement_reasons%ROWTYPE;
+BEGIN
+  _direction := CASE
+    WHEN NEW.movement_type IN ('entrada', 'ajuste_entrada') THEN 'entrada'
+    WHEN NEW.movement_type IN ('saida', 'ajuste_saida') THEN 'saida'
+  END;
+
+  IF NEW.reason_id IS NULL AND NEW.reversed_movement_id IS NULL THEN
+    SELECT id INTO NEW.reason_id
+    FROM public.movement_reasons
+    WHERE direction = _direction
+      AND code = CASE
+        WHEN NEW.purchase_order_item_id IS NOT NULL THEN 'compra'
+        WHEN NEW.movement_type IN ('ajuste_entrada', 'ajuste_saida') THEN 'ajuste_inventario'
+      END;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reason_id IS NOT NULL THEN
+    SELECT * INTO _reason FROM public.movement_reasons WHERE id = NEW.reason_id;
+
+    IF _direction IS NULL OR _reason.direction <> _direction THEN
+      RAISE EXCEPTION 'O motivo "%" não se aplica a este tipo de movimentação', _reason.name;
+    END IF;
+
+    IF NOT _reason.active THEN
+      RAISE EXCEPTION 'O motivo "%" está inativo', _reason.name;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_stock_movement_apply_reason
+  BEFORE INSERT ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_stock_movement_reason();
+
+-- Entradas e saídas registradas pelo cliente precisam informar o motivo
+DROP POLICY "Estoquistas podem criar movimentações" ON public.stock_movements;
+
+CREATE POLICY "Estoquistas podem criar movimentações"
+  ON public.stock_movements FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = responsible_user_id
+    AND movement_type IN ('entrada', 'saida')
+    AND reason_id IS NOT NULL
+    AND transfer_id IS NULL
+    AND reversed_movement_id IS NULL
+    AND purchase_order_item_id IS NULL
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  );
+
+-- Entradas e saídas de unidades com número de série também exigem o motivo
+DROP FUNCTION public.move_serials(UUID, UUID, TEXT, TEXT[], UUID, TEXT, UUID, DECIMAL);
+
+CREATE FUNCTION public.move_serials(
+  _product_id UUID,
+  _location_id UUID,
+  _movement_type TEXT,
+  _serial_numbers TEXT[],
+  _destination_location_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _supplier_id UUID DEFAULT NULL,
+  _unit_cost DECIMAL DEFAULT NULL,
+  _reason_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quantity INTEGER := COALESCE(array_length(_serial_numbers, 1), 0);
+  _transfer_id UUID;
+  _movement_id UUID;
+  _destination_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para movimentar estoque';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.products WHERE id = _product_id AND track_serials) THEN
+    RAISE EXCEPTION 'Este produto não é controlado por número de série';
+  END IF;
+
+  IF _quantity = 0 THEN
+    RAISE EXCEPTION 'Informe ao menos um número de série';
+  END IF;
+
+  IF _movement_type = 'transferencia' THEN
+    IF _destination_location_id IS NULL OR _destination_location_id = _location_id THEN
+      RAISE EXCEPTION 'Os locais de origem e destino devem ser diferentes';
+    END IF;
+
+    _transfer_id := gen_random_uuid();
+
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes, transfer_id)
+    VALUES
+      (_product_id, _location_id, 'transferencia_saida', _quantity, auth.uid(), _notes, _transfer_id)
+    RETURNING id INTO _movement_id;
+    PERFORM public.attach_movement_serials(_movement_id, _serial_numbers);
+
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes, transfer_id)
+    VALUES
+      (_product_id, _destination_location_id, 'transferencia_entrada', _quantity, auth.uid(), _notes, _transfer_id)
+    RETURNING id INTO _destination_id;
+    PERFORM public.attach_movement_serials(_destination_id, _serial_numbers);
+  ELSIF _movement_type IN ('entrada', 'saida') THEN
+    IF _reason_id IS NULL THEN
+      RAISE EXCEPTION 'Informe o motivo da movimentação';
+    END IF;
+
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes, supplier_id, unit_cost, reason_id)
+    VALUES
+      (_product_id, _location_id, _movement_type, _quantity, auth.uid(), _notes,
+       CASE WHEN _movement_type = 'entrada' THEN _supplier_id END,
+       CASE WHEN _movement_type = 'entrada' THEN _unit_cost END, _reason_id)
+    RETURNING id INTO _movement_id;
+    PERFORM public.attach_movement_serials(_movement_id, _serial_numbers);
+  ELSE
+    RAISE EXCEPTION 'Tipo de movimentação inválido: %', _movement_type;
+  END IF;
+
+  RETURN _movement_id;
+END;
+$$;
+
+-- Quantidade movimentada por motivo no período (estornos e movimentações estornadas não contam)
+CREATE OR REPLACE FUNCTION public.dashboard_reason_breakdown(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (
+  direction TEXT,
+  reason_id UUID,
+  reason_name TEXT,
+  movements BIGINT,
+  quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    CASE WHEN m.movement_type IN ('entrada', 'ajuste_entrada') THEN 'entrada' ELSE 'saida' END,
+    r.id,
+    COALESCE(r.name, 'Sem motivo'),
+    COUNT(*),
+    SUM(m.quantity)
+  FROM public.effective_stock_movements(_from, _to) m
+  LEFT JOIN public.movement_reasons r ON r.id = m.reason_id
+  WHERE m.movement_type IN ('entrada', 'saida', 'ajuste_entrada', 'ajuste_saida')
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 5 DESC;
+$$;
@@ -0,0 +1,472 @@
+-- Empréstimo de ferramentas: retirada por uma pessoa e devolução ao estoque
+ALTER TABLE public.categories
+  ADD COLUMN lendable BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.categories
+SET lendable = true
+WHERE name IN ('Ferramentas Manuais', 'Ferramentas Elétricas');
+
+-- Criar tabela de empréstimos; o empréstimo está em aberto enquanto returned_at for nulo
+CREATE TABLE public.tool_loans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  number BIGINT GENERATED ALWAYS AS IDENTITY UNIQUE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE RESTRICT,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE RESTRICT,
+  quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+  borrower_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE RESTRICT,
+  expected_return_date DATE NOT NULL,
+  checkout_condition TEXT NOT NULL CHECK (checkout_condition IN ('bom', 'regular', 'danificado')),
+  notes TEXT,
+  checked_out_by UUID NOT NULL REFERENCES auth.users(id),
+  checked_out_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  return_location_id UUID REFERENCES public.locations(id) ON DELETE RESTRICT,
+  return_condition TEXT CHECK (return_condition IN ('bom', 'regular', 'danificado')),
+  return_notes TEXT,
+  returned_by UUID REFERENCES auth.users(id),
+  returned_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_tool_loans_open ON public.tool_loans(borrower_id) WHERE returned_at IS NULL;
+
+ALTER TABLE public.tool_loans ENABLE ROW LEVEL SECURITY;
+
+-- Empréstimos são registrados e devolvidos pelas funções abaixo
+CREATE POLICY "Usuários autenticados podem ver empréstimos"
+  ON public.tool_loans FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- A retirada e a devolução ficam ligadas ao empréstimo, como os recebimentos ao item do pedido
+ALTER TABLE public.stock_movements
+  ADD COLUMN tool_loan_id UUID REFERENCES public.tool_loans(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_stock_movements_tool_loan ON public.stock_movements(tool_loan_id);
+
+INSERT INTO public.movement_reasons (name, direction, code) VALUES
+  ('Empréstimo de ferramenta', 'saida', 'emprestimo'),
+  ('Devolução de empréstimo', 'entrada', 'emprestimo');
+
+DROP POLICY "Estoquistas podem criar movimentações" ON public.stock_movements;
+
+CREATE POLICY "Estoquistas podem criar movimentações"
+  ON public.stock_movements FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = responsible_user_id
+    AND movement_type IN ('entrada', 'saida')
+    AND reason_id IS NOT NULL
+    AND transfer_id IS NULL
+    AND reversed_movement_id IS NULL
+    AND purchase_order_item_id IS NULL
+    AND tool_loan_id IS NULL
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  );
+
+-- Movimentações de empréstimo recebem o motivo do sistema, que não pode ser escolhido
+-- em outras movimentações, e só são desfeitas pela devolução (nunca por estorno)
+CREATE OR REPLACE FUNCTION public.apply_stock_movement_reason()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _direction TEXT;
+  _reason public.movement_reasons%ROWTYPE;
+BEGIN
+  _direction := CASE
+    WHEN NEW.movement_type IN ('entrada', 'ajuste_entrada') THEN 'entrada'
+    WHEN NEW.movement_type IN ('saida', 'ajuste_saida') THEN 'saida'
+  END;
+
+  IF NEW.reversed_movement_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM public.stock_movements
+      WHERE id = NEW.reversed_movement_id AND tool_loan_id IS NOT NULL
+    ) THEN
+    RAISE EXCEPTION 'Movimentações de empréstimo não podem ser estornadas; registre a devolução da ferramenta';
+  END IF;
+
+  IF NEW.reason_id IS NULL AND NEW.reversed_movement_id IS NULL THEN
+    SELECT id INTO NEW.reason_id
+    FROM public.movement_reasons
+    WHERE direction = _direction
+      AND code = CASE
+        WHEN NEW.purchase_order_item_id IS NOT NULL THEN 'compra'
+        WHEN NEW.tool_loan_id IS NOT NULL THEN 'emprestimo'
+        WHEN NEW.movement_type IN ('ajuste_entrada', 'ajuste_saida') THEN 'ajuste_inventario'
+      END;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reason_id IS NOT NULL THEN
+    SELECT * INTO _reason FROM public.movement_reasons WHERE id = NEW.reason_id;
+
+    IF _direction IS NULL OR _reason.direction <> _direction THEN
+      RAISE EXCEPTION 'O motivo "%" não se aplica a este tipo de movimentação', _reason.name;
+    END IF;
+
+    IF NOT _reason.active THEN
+      RAISE EXCEPTION 'O motivo "%" está inativo', _reason.name;
+    END IF;
+
+    IF _reason.code = 'emprestimo' AND NEW.tool_loan_id IS NULL THEN
+      RAISE EXCEPTION 'O motivo "%" é usado apenas pelo controle de empréstimos', _reason.name;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Retirada de uma ferramenta: sai do estoque do local e fica com a pessoa até a devolução.
+-- Produtos com número de série saem pelas unidades informadas; produtos com lote não são emprestados.
+CREATE OR REPLACE FUNCTION public.checkout_tool(
+  _product_id UUID,
+  _location_id UUID,
+  _borrower_id UUID,
+  _expected_return_date DATE,
+  _quantity DECIMAL DEFAULT NULL,
+  _serial_numbers TEXT[] DEFAULT NULL,
+  _condition TEXT DEFAULT 'bom',
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product RECORD;
+  _loan_id UUID;
+  _movement_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para registrar empréstimos';
+  END IF;
+
+  SELECT p.track_lots, p.track_serials, COALESCE(c.lendable, false) AS lendable
+  INTO _product
+  FROM public.products p
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  WHERE p.id = _product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Produto não encontrado';
+  END IF;
+
+  IF NOT _product.lendable THEN
+    RAISE EXCEPTION 'A categoria deste produto não permite empréstimos';
+  END IF;
+
+  IF _product.track_lots THEN
+    RAISE EXCEPTION 'Produtos com controle de lote não podem ser emprestados';
+  END IF;
+
+  IF _product.track_serials THEN
+    _quantity := COALESCE(array_length(_serial_numbers, 1), 0);
+    IF _quantity = 0 THEN
+      RAISE EXCEPTION 'Informe ao menos um número de série';
+    END IF;
+  ELSIF COALESCE(_quantity, 0) <= 0 THEN
+    RAISE EXCEPTION 'A quantidade deve ser maior que zero';
+  END IF;
+
+  IF _expected_return_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'A data prevista de devolução não pode estar no passado';
+  END IF;
+
+  INSERT INTO public.tool_loans
+    (product_id, location_id, quantity, borrower_id, expected_return_date, checkout_condition, notes, checked_out_by)
+  VALUES
+    (_product_id, _location_id, _quantity, _borrower_id, _expected_return_date, _condition, _notes, auth.uid())
+  RETURNING id INTO _loan_id;
+
+  INSERT INTO public.stock_movements
+    (product_id, location_id, movement_type, quantity, responsible_user_id, notes, tool_loan_id)
+  VALUES
+    (_product_id, _location_id, 'saida', _quantity, auth.uid(),
+     'Empréstimo #' || (SELECT number FROM public.tool_loans WHERE id = _loan_id), _loan_id)
+  RETURNING id INTO _movement_id;
+
+  IF _product.track_serials THEN
+    PERFORM public.attach_movement_serials(_movement_id, _serial_numbers);
+  END IF;
+
+  RETURN _loan_id;
+END;
+$$;
+
+-- Devolução de uma ferramenta: volta ao estoque (no local de origem, se outro não for informado)
+-- com as mesmas unidades que saíram
+CREATE OR REPLACE FUNCTION public.return_tool(
+  _loan_id UUID,
+  _location_id UUID DEFAULT NULL,
+  _condition TEXT DEFAULT 'bom',
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loan public.tool_loans%ROWTYPE;
+  _serial_numbers TEXT[];
+  _movement_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para registrar devoluções';
+  END IF;
+
+  SELECT * INTO _loan
+  FROM public.tool_loans
+  WHERE id = _loan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Empréstimo não encontrado';
+  END IF;
+
+  IF _loan.returned_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Esta ferramenta já foi devolvida';
+  END IF;
+
+  SELECT array_agg(s.serial_number ORDER BY s.serial_number)
+  INTO _serial_numbers
+  FROM public.stock_movements m
+  JOIN public.stock_movement_serials l ON l.movement_id = m.id
+  JOIN public.serial_numbers s ON s.id = l.serial_id
+  WHERE m.tool_loan_id = _loan_id
+    AND m.movement_type = 'saida';
+
+  UPDATE public.tool_loans
+  SET return_location_id = COALESCE(_location_id, _loan.location_id),
+      return_condition = _condition,
+      return_notes = _notes,
+      returned_by = auth.uid(),
+      returned_at = NOW()
+  WHERE id = _loan_id;
+
+  INSERT INTO public.stock_movements
+    (product_id, location_id, movement_type, quantity, responsible_user_id, notes, tool_loan_id)
+  VALUES
+    (_loan.product_id, COALESCE(_location_id, _loan.location_id), 'entrada', _loan.quantity, auth.uid(),
+     'Devolução do empréstimo #' || _loan.number, _loan_id)
+  RETURNING id INTO _movement_id;
+
+  IF _serial_numbers IS NOT NULL THEN
+    PERFORM public.attach_movement_serials(_movement_id, _serial_numbers);
+  END IF;
+
+  RETURN _movement_id;
+END;
+$$;
+
+-- Ferramentas emprestadas não são consumo: ficam fora do ranking do dashboard
+CREATE OR REPLACE FUNCTION public.dashboard_top_consumed(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  unit TEXT,
+  quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.id, p.name, p.unit, SUM(m.quantity)
+  FROM public.effective_stock_movements(_from, _to) m
+  JOIN public.products p ON p.id = m.product_id
+  WHERE m.movement_type = 'saida'
+    AND m.tool_loan_id IS NULL
+  GROUP BY p.id, p.name, p.unit
+  ORDER BY 4 DESC, p.name
+  LIMIT _limit;
+$$;
+
+-- Consumo da sugestão de compra também desconsidera os empréstimos
+CREATE OR REPLACE FUNCTION public.reorder_suggestions(_days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  sku TEXT,
+  unit TEXT,
+  current_quantity DECIMAL,
+  minimum_quantity DECIMAL,
+  consumed_quantity DECIMAL,
+  pending_quantity DECIMAL,
+  last_supplier_id UUID,
+  last_supplier_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.name,
+    p.sku,
+    p.unit,
+    p.current_quantity,
+    p.minimum_quantity,
+    COALESCE((
+      SELECT SUM(m.quantity)
+      FROM public.stock_movements m
+      WHERE m.product_id = p.id
+        AND m.movement_type = 'saida'
+        AND m.tool_loan_id IS NULL
+        AND m.reversed_movement_id IS NULL
+        AND m.created_at >= NOW() - make_interval(days => _days)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.stock_movements r WHERE r.reversed_movement_id = m.id
+        )
+    ), 0),
+    COALESCE((
+      SELECT SUM(i.quantity - i.received_quantity)
+      FROM public.purchase_order_items i
+      JOIN public.purchase_orders o ON o.id = i.purchase_order_id
+      WHERE i.product_id = p.id
+        AND o.status IN ('rascunho', 'aberto', 'parcial')
+    ), 0),
+    s.id,
+    s.name
+  FROM public.products p
+  LEFT JOIN LATERAL (
+    SELECT su.id, su.name
+    FROM public.stock_movements m
+    JOIN public.suppliers su ON su.id = m.supplier_id
+    WHERE m.product_id = p.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) s ON true
+  ORDER BY p.name;
+$$;
+
+-- Devoluções de empréstimo voltam pelo custo médio e não formam camada de custo no PEPS
+CREATE OR REPLACE FUNCTION public.inventory_valuation(
+  _as_of TIMESTAMPTZ DEFAULT NOW(),
+  _method TEXT DEFAULT 'wac'
+)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  sku TEXT,
+  unit TEXT,
+  category_id UUID,
+  category_name TEXT,
+  quantity DECIMAL,
+  unit_cost DECIMAL,
+  total_value DECIMAL,
+  missing_cost BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _product RECORD;
+  _movement RECORD;
+  _quantity DECIMAL;
+  _average DECIMAL;
+  _value DECIMAL;
+  _missing BOOLEAN;
+  _layer RECORD;
+  _remaining DECIMAL;
+BEGIN
+  IF _method NOT IN ('wac', 'fifo') THEN
+    RAISE EXCEPTION 'Método de valorização inválido: %', _method;
+  END IF;
+
+  FOR _product IN
+    SELECT p.id, p.name, p.sku, p.unit, p.category_id, c.name AS category_name
+    FROM public.products p
+    LEFT JOIN public.categories c ON c.id = p.category_id
+    ORDER BY p.name
+  LOOP
+    _quantity := 0;
+    _average := 0;
+    _missing := false;
+
+    -- Custo médio móvel: cada entrada com custo recalcula a média; saídas saem pela média vigente
+    -- e entradas sem custo (ex.: estorno de saída) voltam pela média vigente; a devolução de um
+    -- empréstimo volta pela média com que a ferramenta saiu, mesmo que o saldo tenha zerado
+    FOR _movement IN
+      SELECT m.movement_type, m.quantity, m.unit_cost, m.tool_loan_id
+      FROM public.stock_movements m
+      WHERE m.product_id = _product.id
+        AND m.created_at <= _as_of
+        AND m.movement_type IN ('entrada', 'saida', 'ajuste_entrada', 'ajuste_saida')
+      ORDER BY m.created_at, m.id
+    LOOP
+      IF _movement.movement_type IN ('saida', 'ajuste_saida') THEN
+        _quantity := _quantity - _movement.quantity;
+      ELSIF _movement.unit_cost IS NOT NULL THEN
+        IF _quantity <= 0 THEN
+          _average := _movement.unit_cost;
+          _missing := false;
+        ELSE
+          _average := (_quantity * _average + _movement.quantity * _movement.unit_cost)
+            / (_quantity + _movement.quantity);
+        END IF;
+        _quantity := _quantity + _movement.quantity;
+      ELSE
+        _missing := _missing OR (_quantity <= 0 AND _movement.tool_loan_id IS NULL);
+        _quantity := _quantity + _movement.quantity;
+      END IF;
+    END LOOP;
+
+    IF _method = 'wac' THEN
+      _value := GREATEST(_quantity, 0) * _average;
+    ELSE
+      -- PEPS: o saldo em estoque é formado pelas entradas mais recentes,
+      -- desconsiderando entradas estornadas, os próprios estornos e devoluções de empréstimo
+      _value := 0;
+      _remaining := GREATEST(_quantity, 0);
+      _missing := false;
+
+      FOR _layer IN
+        SELECT m.quantity, m.unit_cost
+        FROM public.stock_movements m
+        WHERE m.product_id = _product.id
+          AND m.created_at <= _as_of
+          AND m.movement_type = 'entrada'
+          AND m.tool_loan_id IS NULL
+          AND m.reversed_movement_id IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM public.stock_movements r
+            WHERE r.reversed_movement_id = m.id AND r.created_at <= _as_of
+          )
+        ORDER BY m.created_at DESC, m.id DESC
+      LOOP
+        EXIT WHEN _remaining <= 0;
+        IF _layer.unit_cost IS NULL THEN
+          _missing := true;
+        ELSE
+          _value := _value + LEAST(_layer.quantity, _remaining) * _layer.unit_cost;
+        END IF;
+        _remaining := _remaining - LEAST(_layer.quantity, _remaining);
+      END LOOP;
+
+      _missing := _missing OR _remaining > 0;
+    END IF;
+
+    product_id := _product.id;
+    product_name := _product.name;
+    sku := _product.sku;
+    unit := _product.unit;
+    category_id := _product.category_id;
+    category_name := _product.category_name;
+    quantity := _quantity;
+    unit_cost := CASE WHEN _quantity > 0 THEN ROUND(_value / _quantity, 4) ELSE NULL END;
+    total_value := ROUND(_value, 2);
+    missing_cost := _missing AND _quantity > 0;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,513 @@
+-- Requisições de material: o colaborador solicita, o estoquista aprova e atende com saídas do estoque
+
+-- Criar tabela de centros de custo
+CREATE TABLE public.cost_centers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (length(btrim(code)) > 0),
+  name TEXT NOT NULL UNIQUE CHECK (length(btrim(name)) > 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.cost_centers ENABLE ROW LEVEL SECURITY;
+
+-- Políticas RLS para centros de custo (todos podem ler, apenas administradores podem modificar)
+CREATE POLICY "Usuários autenticados podem ver centros de custo"
+  ON public.cost_centers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Administradores podem criar centros de custo"
+  ON public.cost_centers FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+CREATE POLICY "Administradores podem atualizar centros de custo"
+  ON public.cost_centers FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+CREATE POLICY "Administradores podem deletar centros de custo"
+  ON public.cost_centers FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+INSERT INTO public.cost_centers (code, name) VALUES
+  ('ADM', 'Administrativo'),
+  ('MAN', 'Manutenção'),
+  ('OBR', 'Obras e Projetos');
+
+-- Criar tabela de requisições
+CREATE TABLE public.material_requisitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  number BIGINT GENERATED ALWAYS AS IDENTITY UNIQUE,
+  requester_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE RESTRICT,
+  cost_center_id UUID NOT NULL REFERENCES public.cost_centers(id) ON DELETE RESTRICT,
+  purpose TEXT NOT NULL CHECK (length(btrim(purpose)) > 0),
+  status TEXT NOT NULL DEFAULT 'pendente'
+    CHECK (status IN ('pendente', 'aprovada', 'parcial', 'atendida', 'rejeitada', 'cancelada')),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Criar tabela de itens da requisição; a quantidade aprovada fica nula até a análise
+CREATE TABLE public.material_requisition_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  requisition_id UUID NOT NULL REFERENCES public.material_requisitions(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE RESTRICT,
+  quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+  approved_quantity DECIMAL(10,2) CHECK (approved_quantity >= 0 AND approved_quantity <= quantity),
+  fulfilled_quantity DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (fulfilled_quantity >= 0),
+  UNIQUE (requisition_id, product_id)
+);
+
+CREATE INDEX idx_material_requisitions_requester ON public.material_requisitions(requester_id);
+CREATE INDEX idx_material_requisition_items_requisition ON public.material_requisition_items(requisition_id);
+
+CREATE TRIGGER update_material_requisitions_updated_at
+  BEFORE UPDATE ON public.material_requisitions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.material_requisitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.material_requisition_items ENABLE ROW LEVEL SECURITY;
+
+-- Requisições são criadas, analisadas e atendidas pelas funções abaixo; o cliente só cancela.
+-- Cada colaborador vê as próprias requisições e quem atende o estoque vê todas.
+CREATE POLICY "Usuários veem as próprias requisições"
+  ON public.material_requisitions FOR SELECT
+  TO authenticated
+  USING (
+    requester_id = auth.uid()
+    OR public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  );
+
+CREATE POLICY "Solicitantes podem cancelar requisições pendentes"
+  ON public.material_requisitions FOR UPDATE
+  TO authenticated
+  USING (requester_id = auth.uid() AND status = 'pendente')
+  WITH CHECK (status = 'cancelada');
+
+CREATE POLICY "Estoquistas podem cancelar requisições"
+  ON public.material_requisitions FOR UPDATE
+  TO authenticated
+  USING (
+    status IN ('pendente', 'aprovada', 'parcial')
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  )
+  WITH CHECK (status = 'cancelada');
+
+CREATE POLICY "Usuários veem itens das requisições visíveis"
+  ON public.material_requisition_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.material_requisitions r
+      WHERE r.id = requisition_id
+        AND (
+          r.requester_id = auth.uid()
+          OR public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+        )
+    )
+  );
+
+-- Rastrear o item da requisição nas saídas de atendimento
+ALTER TABLE public.stock_movements
+  ADD COLUMN requisition_item_id UUID REFERENCES public.material_requisition_items(id) ON DELETE RESTRICT,
+  ADD CONSTRAINT stock_movements_requisition_item_check
+    CHECK (requisition_item_id IS NULL OR movement_type = 'saida');
+
+CREATE INDEX idx_stock_movements_requisition_item ON public.stock_movements(requisition_item_id);
+
+INSERT INTO public.movement_reasons (name, direction, code) VALUES
+  ('Requisição de material', 'saida', 'requisicao');
+
+-- Atendimentos de requisição só podem ser criados pela função fulfill_requisition
+DROP POLICY "Estoquistas podem criar movimentações" ON public.stock_movements;
+
+CREATE POLICY "Estoquistas podem criar movimentações"
+  ON public.stock_movements FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = responsible_user_id
+    AND movement_type IN ('entrada', 'saida')
+    AND reason_id IS NOT NULL
+    AND transfer_id IS NULL
+    AND reversed_movement_id IS NULL
+    AND purchase_order_item_id IS NULL
+    AND tool_loan_id IS NULL
+    AND requisition_item_id IS NULL
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  );
+
+-- Atendimentos de requisição recebem o motivo do sistema, que não pode ser escolhido
+-- em outras movimentações
+CREATE OR REPLACE FUNCTION public.apply_stock_movement_reason()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _direction TEXT;
+  _reason public.movement_reasons%ROWTYPE;
+BEGIN
+  _direction := CASE
+    WHEN NEW.movement_type IN ('entrada', 'ajuste_entrada') THEN 'entrada'
+    WHEN NEW.movement_type IN ('saida', 'ajuste_saida') THEN 'saida'
+  END;
+
+  IF NEW.reversed_movement_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM public.stock_movements
+      WHERE id = NEW.reversed_movement_id AND tool_loan_id IS NOT NULL
+    ) THEN
+    RAISE EXCEPTION 'Movimentações de empréstimo não podem ser estornadas; registre a devolução da ferramenta';
+  END IF;
+
+  IF NEW.reason_id IS NULL AND NEW.reversed_movement_id IS NULL THEN
+    SELECT id INTO NEW.reason_id
+    FROM public.movement_reasons
+    WHERE direction = _direction
+      AND code = CASE
+        WHEN NEW.purchase_order_item_id IS NOT NULL THEN 'compra'
+        WHEN NEW.tool_loan_id IS NOT NULL THEN 'emprestimo'
+        WHEN NEW.requisition_item_id IS NOT NULL THEN 'requisicao'
+        WHEN NEW.movement_type IN ('ajuste_entrada', 'ajuste_saida') THEN 'ajuste_inventario'
+      END;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reason_id IS NOT NULL THEN
+    SELECT * INTO _reason FROM public.movement_reasons WHERE id = NEW.reason_id;
+
+    IF _direction IS NULL OR _reason.direction <> _direction THEN
+      RAISE EXCEPTION 'O motivo "%" não se aplica a este tipo de movimentação', _reason.name;
+    END IF;
+
+    IF NOT _reason.active THEN
+      RAISE EXCEPTION 'O motivo "%" está inativo', _reason.name;
+    END IF;
+
+    IF _reason.code = 'emprestimo' AND NEW.tool_loan_id IS NULL THEN
+      RAISE EXCEPTION 'O motivo "%" é usado apenas pelo controle de empréstimos', _reason.name;
+    END IF;
+
+    IF _reason.code = 'requisicao' AND NEW.requisition_item_id IS NULL THEN
+      RAISE EXCEPTION 'O motivo "%" é usado apenas no atendimento de requisições', _reason.name;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Função para recalcular o status da requisição a partir das quantidades atendidas
+CREATE OR REPLACE FUNCTION public.refresh_requisition_status(_requisition_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.material_requisitions r
+  SET status = CASE
+        WHEN NOT EXISTS (
+          SELECT 1 FROM public.material_requisition_items
+          WHERE requisition_id = r.id AND fulfilled_quantity < approved_quantity
+        ) THEN 'atendida'
+        WHEN EXISTS (
+          SELECT 1 FROM public.material_requisition_items
+          WHERE requisition_id = r.id AND fulfilled_quantity > 0
+        ) THEN 'parcial'
+        ELSE 'aprovada'
+      END
+  WHERE r.id = _requisition_id
+    AND r.status IN ('aprovada', 'parcial', 'atendida');
+END;
+$$;
+
+-- Trigger para manter a quantidade atendida dos itens, inclusive quando um atendimento é estornado
+CREATE OR REPLACE FUNCTION public.update_requisition_fulfillment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item_id UUID;
+  _delta DECIMAL(10,2);
+  _requisition_id UUID;
+BEGIN
+  IF NEW.requisition_item_id IS NOT NULL THEN
+    _item_id := NEW.requisition_item_id;
+    _delta := NEW.quantity;
+  ELSIF NEW.reversed_movement_id IS NOT NULL THEN
+    SELECT requisition_item_id INTO _item_id
+    FROM public.stock_movements
+    WHERE id = NEW.reversed_movement_id;
+    _delta := -NEW.quantity;
+  END IF;
+
+  IF _item_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.material_requisition_items
+  SET fulfilled_quantity = fulfilled_quantity + _delta
+  WHERE id = _item_id
+  RETURNING requisition_id INTO _requisition_id;
+
+  PERFORM public.refresh_requisition_status(_requisition_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_stock_movement_requisition_fulfillment
+  AFTER INSERT ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_requisition_fulfillment();
+
+-- Função para criar a requisição com seus itens em uma única transação; qualquer usuário pode requisitar
+-- Cada item: { product_id, quantity }
+CREATE OR REPLACE FUNCTION public.create_requisition(
+  _cost_center_id UUID,
+  _purpose TEXT,
+  _items JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _requisition_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Você precisa estar autenticado para requisitar materiais';
+  END IF;
+
+  IF NULLIF(btrim(_purpose), '') IS NULL THEN
+    RAISE EXCEPTION 'Informe a finalidade da requisição';
+  END IF;
+
+  IF _items IS NULL OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Adicione ao menos um item à requisição';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.cost_centers WHERE id = _cost_center_id AND active) THEN
+    RAISE EXCEPTION 'Selecione um centro de custo ativo';
+  END IF;
+
+  INSERT INTO public.material_requisitions (requester_id, cost_center_id, purpose)
+  VALUES (auth.uid(), _cost_center_id, btrim(_purpose))
+  RETURNING id INTO _requisition_id;
+
+  INSERT INTO public.material_requisition_items (requisition_id, product_id, quantity)
+  SELECT
+    _requisition_id,
+    (item->>'product_id')::UUID,
+    (item->>'quantity')::DECIMAL(10,2)
+  FROM jsonb_array_elements(_items) AS item;
+
+  RETURN _requisition_id;
+END;
+$$;
+
+-- Função para analisar uma requisição pendente: aprova cada item total ou parcialmente.
+-- Sem nenhuma quantidade aprovada a requisição fica rejeitada, e o motivo é obrigatório.
+-- Cada item: { item_id, approved_quantity }
+CREATE OR REPLACE FUNCTION public.review_requisition(
+  _requisition_id UUID,
+  _items JSONB,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _requisition public.material_requisitions%ROWTYPE;
+  _status TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para analisar requisições';
+  END IF;
+
+  SELECT * INTO _requisition
+  FROM public.material_requisitions
+  WHERE id = _requisition_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Requisição não encontrada';
+  END IF;
+
+  IF _requisition.status <> 'pendente' THEN
+    RAISE EXCEPTION 'Esta requisição já foi analisada';
+  END IF;
+
+  -- Estoquistas não aprovam as próprias requisições
+  IF _requisition.requester_id = auth.uid()
+    AND NOT public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não pode analisar a sua própria requisição';
+  END IF;
+
+  UPDATE public.material_requisition_items i
+  SET approved_quantity = COALESCE((
+    SELECT (item->>'approved_quantity')::DECIMAL(10,2)
+    FROM jsonb_array_elements(_items) AS item
+    WHERE (item->>'item_id')::UUID = i.id
+  ), 0)
+  WHERE i.requisition_id = _requisition_id;
+
+  _status := CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.material_requisition_items
+      WHERE requisition_id = _requisition_id AND approved_quantity > 0
+    ) THEN 'aprovada'
+    ELSE 'rejeitada'
+  END;
+
+  IF _status = 'rejeitada' AND NULLIF(btrim(_notes), '') IS NULL THEN
+    RAISE EXCEPTION 'Informe o motivo da rejeição';
+  END IF;
+
+  UPDATE public.material_requisitions
+  SET status = _status,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      review_notes = NULLIF(btrim(_notes), '')
+  WHERE id = _requisition_id;
+
+  RETURN _status;
+END;
+$$;
+
+-- Função para atender uma requisição aprovada (total ou parcialmente) gerando as saídas.
+-- Produtos com lote saem dos lotes do local pela validade (FEFO), em uma saída por lote;
+-- produtos com número de série saem pelas unidades informadas.
+-- Cada item: { item_id, quantity, serial_numbers }
+CREATE OR REPLACE FUNCTION public.fulfill_requisition(
+  _requisition_id UUID,
+  _location_id UUID,
+  _items JSONB,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _requisition public.material_requisitions%ROWTYPE;
+  _entry JSONB;
+  _item public.material_requisition_items%ROWTYPE;
+  _quantity DECIMAL(10,2);
+  _remaining DECIMAL(10,2);
+  _take DECIMAL(10,2);
+  _lot RECORD;
+  _notes_text TEXT;
+  _movement_id UUID;
+  _fulfilled INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para atender requisições';
+  END IF;
+
+  -- Bloquear a requisição para que dois atendimentos simultâneos não ultrapassem o aprovado
+  SELECT * INTO _requisition
+  FROM public.material_requisitions
+  WHERE id = _requisition_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Requisição não encontrada';
+  END IF;
+
+  IF _requisition.status NOT IN ('aprovada', 'parcial') THEN
+    RAISE EXCEPTION 'Esta requisição não está liberada para atendimento';
+  END IF;
+
+  _notes_text := COALESCE(NULLIF(btrim(_notes), ''), 'Atendimento da requisição #' || _requisition.number);
+
+  FOR _entry IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := (_entry->>'quantity')::DECIMAL(10,2);
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO _item
+    FROM public.material_requisition_items
+    WHERE id = (_entry->>'item_id')::UUID
+      AND requisition_id = _requisition_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item não pertence a esta requisição';
+    END IF;
+
+    IF _quantity > _item.approved_quantity - _item.fulfilled_quantity THEN
+      RAISE EXCEPTION 'Quantidade atendida maior que a aprovada pendente (pendente: %)',
+        _item.approved_quantity - _item.fulfilled_quantity;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.products WHERE id = _item.product_id AND track_lots) THEN
+      _remaining := _quantity;
+
+      FOR _lot IN
+        SELECT lb.lot_id, lb.quantity
+        FROM public.lot_balances lb
+        JOIN public.lots l ON l.id = lb.lot_id
+        WHERE l.product_id = _item.product_id
+          AND lb.location_id = _location_id
+          AND lb.quantity > 0
+        ORDER BY l.expiry_date NULLS LAST, l.lot_number
+      LOOP
+        EXIT WHEN _remaining <= 0;
+        _take := LEAST(_lot.quantity, _remaining);
+
+        INSERT INTO public.stock_movements
+          (product_id, location_id, movement_type, quantity, responsible_user_id, notes,
+           requisition_item_id, lot_id)
+        VALUES
+          (_item.product_id, _location_id, 'saida', _take, auth.uid(), _notes_text, _item.id, _lot.lot_id);
+
+        _remaining := _remaining - _take;
+      END LOOP;
+
+      IF _remaining > 0 THEN
+        RAISE EXCEPTION 'Saldo insuficiente nos lotes deste local: faltam %', _remaining
+          USING HINT = 'insufficient_stock';
+      END IF;
+    ELSE
+      INSERT INTO public.stock_movements
+        (product_id, location_id, movement_type, quantity, responsible_user_id, notes, requisition_item_id)
+      VALUES
+        (_item.product_id, _location_id, 'saida', _quantity, auth.uid(), _notes_text, _item.id)
+      RETURNING id INTO _movement_id;
+
+      IF jsonb_typeof(_entry->'serial_numbers') = 'array' THEN
+        PERFORM public.attach_movement_serials(
+          _movement_id,
+          ARRAY(SELECT jsonb_array_elements_text(_entry->'serial_numbers'))
+        );
+      END IF;
+    END IF;
+
+    _fulfilled := _fulfilled + 1;
+  END LOOP;
+
+  IF _fulfilled = 0 THEN
+    RAISE EXCEPTION 'Informe a quantidade atendida de ao menos um item';
+  END IF;
+
+  RETURN _fulfilled;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Publicar produtos e movimentações no Realtime para que as telas abertas se atualizem sozinhas.
+-- As políticas de leitura das tabelas continuam valendo para os eventos enviados.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.products, public.stock_movements;
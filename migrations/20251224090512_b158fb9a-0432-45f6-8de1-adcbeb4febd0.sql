@@ -0,0 +1,151 @@
+-- Valorização considera o saldo de abertura: produtos semeados e saldos copiados para os locais
+-- não têm movimentação de origem, e a reconstrução só pelas movimentações os deixava zerados ou negativos
+
+CREATE OR REPLACE FUNCTION public.inventory_valuation(
+  _as_of TIMESTAMPTZ DEFAULT NOW(),
+  _method TEXT DEFAULT 'wac'
+)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  sku TEXT,
+  unit TEXT,
+  category_id UUID,
+  category_name TEXT,
+  quantity DECIMAL,
+  unit_cost DECIMAL,
+  total_value DECIMAL,
+  missing_cost BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _product RECORD;
+  _movement RECORD;
+  _quantity DECIMAL;
+  _average DECIMAL;
+  _value DECIMAL;
+  _missing BOOLEAN;
+  _layer RECORD;
+  _remaining DECIMAL;
+  _opening_uncosted BOOLEAN;
+  _opening_cost DECIMAL;
+BEGIN
+  IF _method NOT IN ('wac', 'fifo') THEN
+    RAISE EXCEPTION 'Método de valorização inválido: %', _method;
+  END IF;
+
+  FOR _product IN
+    SELECT
+      p.id, p.name, p.sku, p.unit, p.category_id, c.name AS category_name,
+      -- Saldo de abertura: o que está no saldo atual sem ter vindo de nenhuma movimentação
+      -- (produtos semeados e saldos copiados para stock_balances antes do histórico)
+      CASE WHEN p.created_at <= _as_of THEN
+        p.current_quantity - COALESCE((
+          SELECT SUM(CASE WHEN m.movement_type IN ('entrada', 'ajuste_entrada') THEN m.quantity ELSE -m.quantity END)
+          FROM public.stock_movements m
+          WHERE m.product_id = p.id
+            AND m.movement_type IN ('entrada', 'saida', 'ajuste_entrada', 'ajuste_saida')
+        ), 0)
+      ELSE 0 END AS opening_quantity
+    FROM public.products p
+    LEFT JOIN public.categories c ON c.id = p.category_id
+    ORDER BY p.name
+  LOOP
+    -- O saldo de abertura não tem custo registrado: nos dois métodos ele vale o custo da
+    -- primeira entrada com custo e fica sem custo enquanto ela não existir
+    _quantity := _product.opening_quantity;
+    _average := 0;
+    _missing := _quantity > 0;
+    _opening_uncosted := _quantity > 0;
+    _opening_cost := NULL;
+
+    -- Custo médio móvel: cada entrada com custo recalcula a média; saídas saem pela média vigente
+    -- e entradas sem custo (ex.: estorno de saída) voltam pela média vigente; a devolução de um
+    -- empréstimo volta pela média com que a ferramenta saiu, mesmo que o saldo tenha zerado
+    FOR _movement IN
+      SELECT m.movement_type, m.quantity, m.unit_cost, m.tool_loan_id
+      FROM public.stock_movements m
+      WHERE m.product_id = _product.id
+        AND m.created_at <= _as_of
+        AND m.movement_type IN ('entrada', 'saida', 'ajuste_entrada', 'ajuste_saida')
+      ORDER BY m.created_at, m.id
+    LOOP
+      IF _movement.movement_type IN ('saida', 'ajuste_saida') THEN
+        _quantity := _quantity - _movement.quantity;
+      ELSIF _movement.unit_cost IS NOT NULL THEN
+        IF _quantity <= 0 OR _opening_uncosted THEN
+          -- O saldo de abertura ainda em estoque passa a valer o primeiro custo conhecido
+          _average := _movement.unit_cost;
+          _missing := false;
+          IF _opening_uncosted THEN
+            _opening_cost := _movement.unit_cost;
+          END IF;
+          _opening_uncosted := false;
+        ELSE
+          _average := (_quantity * _average + _movement.quantity * _movement.unit_cost)
+            / (_quantity + _movement.quantity);
+        END IF;
+        _quantity := _quantity + _movement.quantity;
+      ELSE
+        _missing := _missing OR (_quantity <= 0 AND _movement.tool_loan_id IS NULL);
+        _quantity := _quantity + _movement.quantity;
+      END IF;
+    END LOOP;
+
+    IF _method = 'wac' THEN
+      _value := GREATEST(_quantity, 0) * _average;
+    ELSE
+      -- PEPS: o saldo em estoque é formado pelas entradas mais recentes,
+      -- desconsiderando entradas estornadas, os próprios estornos e devoluções de empréstimo;
+      -- o que sobrar depois das entradas vem do saldo de abertura, a camada mais antiga
+      _value := 0;
+      _remaining := GREATEST(_quantity, 0);
+      _missing := false;
+
+      FOR _layer IN
+        SELECT m.quantity, m.unit_cost
+        FROM public.stock_movements m
+        WHERE m.product_id = _product.id
+          AND m.created_at <= _as_of
+          AND m.movement_type = 'entrada'
+          AND m.tool_loan_id IS NULL
+          AND m.reversed_movement_id IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM public.stock_movements r
+            WHERE r.reversed_movement_id = m.id AND r.created_at <= _as_of
+          )
+        ORDER BY m.created_at DESC, m.id DESC
+      LOOP
+        EXIT WHEN _remaining <= 0;
+        IF _layer.unit_cost IS NULL THEN
+          _missing := true;
+        ELSE
+          _value := _value + LEAST(_layer.quantity, _remaining) * _layer.unit_cost;
+        END IF;
+        _remaining := _remaining - LEAST(_layer.quantity, _remaining);
+      END LOOP;
+
+      IF _remaining > 0 AND _opening_cost IS NOT NULL THEN
+        _value := _value + _remaining * _opening_cost;
+      ELSIF _remaining > 0 THEN
+        _missing := true;
+      END IF;
+    END IF;
+
+    product_id := _product.id;
+    product_name := _product.name;
+    sku := _product.sku;
+    unit := _product.unit;
+    category_id := _product.category_id;
+    category_name := _product.category_name;
+    quantity := _quantity;
+    unit_cost := CASE WHEN _quantity > 0 THEN ROUND(_value / _quantity, 4) ELSE NULL END;
+    total_value := ROUND(_value, 2);
+    missing_cost := _missing AND _quantity > 0;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
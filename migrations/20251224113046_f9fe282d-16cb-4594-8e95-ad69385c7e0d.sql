@@ -0,0 +1,110 @@
+-- Pedidos em rascunho podem ser revisados antes da confirmação: fornecedor, previsão, observações e itens
+
+DROP POLICY "Estoquistas podem atualizar pedidos de compra" ON public.purchase_orders;
+
+CREATE POLICY "Estoquistas podem atualizar pedidos de compra"
+  ON public.purchase_orders FOR UPDATE
+  TO authenticated
+  USING (
+    status IN ('rascunho', 'aberto', 'parcial')
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  )
+  WITH CHECK (status IN ('rascunho', 'aberto', 'parcial', 'cancelado'));
+
+-- Itens só podem ser alterados enquanto o pedido está em rascunho
+CREATE POLICY "Estoquistas podem adicionar itens a rascunhos"
+  ON public.purchase_order_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.purchase_orders o
+      WHERE o.id = purchase_order_id AND o.status = 'rascunho'
+    )
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  );
+
+CREATE POLICY "Estoquistas podem atualizar itens de rascunhos"
+  ON public.purchase_order_items FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.purchase_orders o
+      WHERE o.id = purchase_order_id AND o.status = 'rascunho'
+    )
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.purchase_orders o
+      WHERE o.id = purchase_order_id AND o.status = 'rascunho'
+    )
+  );
+
+CREATE POLICY "Estoquistas podem remover itens de rascunhos"
+  ON public.purchase_order_items FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.purchase_orders o
+      WHERE o.id = purchase_order_id AND o.status = 'rascunho'
+    )
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  );
+
+-- Função para salvar a revisão de um rascunho em uma única transação, substituindo os itens
+-- Cada item: { product_id, quantity, unit_price }
+CREATE OR REPLACE FUNCTION public.update_purchase_order_draft(
+  _purchase_order_id UUID,
+  _supplier_id UUID,
+  _items JSONB,
+  _expected_date DATE DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para editar pedidos de compra';
+  END IF;
+
+  SELECT status INTO _status
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de compra não encontrado';
+  END IF;
+
+  IF _status <> 'rascunho' THEN
+    RAISE EXCEPTION 'Apenas pedidos em rascunho podem ser editados';
+  END IF;
+
+  IF _items IS NULL OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Adicione ao menos um item ao pedido';
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET supplier_id = _supplier_id,
+      expected_date = _expected_date,
+      notes = NULLIF(btrim(_notes), '')
+  WHERE id = _purchase_order_id;
+
+  -- Rascunhos ainda não receberam nada, então os itens podem ser substituídos
+  DELETE FROM public.purchase_order_items
+  WHERE purchase_order_id = _purchase_order_id;
+
+  INSERT INTO public.purchase_order_items (purchase_order_id, product_id, quantity, unit_price)
+  SELECT
+    _purchase_order_id,
+    (item->>'product_id')::UUID,
+    (item->>'quantity')::DECIMAL(10,2),
+    (item->>'unit_price')::DECIMAL(12,2)
+  FROM jsonb_array_elements(_items) AS item;
+END;
+$$;
@@ -0,0 +1,24 @@
+-- A unidade base de um produto não pode mudar depois que ele passou a ter estoque,
+-- pois as movimentações, saldos e conversões já registrados estão nessa unidade
+CREATE OR REPLACE FUNCTION public.validate_product_unit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.unit IS DISTINCT FROM OLD.unit AND (
+    EXISTS (SELECT 1 FROM public.stock_movements WHERE product_id = NEW.id)
+    OR EXISTS (SELECT 1 FROM public.stock_balances WHERE product_id = NEW.id AND quantity <> 0)
+    OR OLD.current_quantity <> 0
+  ) THEN
+    RAISE EXCEPTION 'Não é possível alterar a unidade de um produto que já possui movimentações ou saldo';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_product_unit_changed
+  BEFORE UPDATE OF unit ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_product_unit();
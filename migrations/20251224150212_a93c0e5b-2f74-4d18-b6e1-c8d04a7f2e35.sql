@@ -0,0 +1,51 @@
+-- Entrada de produto com controle de lote: cadastrar o lote e registrar a movimentação
+-- na mesma transação, para que uma entrada recusada não deixe um lote órfão
+CREATE OR REPLACE FUNCTION public.register_lot_entry(
+  _product_id UUID,
+  _location_id UUID,
+  _lot_number TEXT,
+  _quantity DECIMAL(10,2),
+  _reason_id UUID,
+  _expiry_date DATE DEFAULT NULL,
+  _unit TEXT DEFAULT NULL,
+  _supplier_id UUID DEFAULT NULL,
+  _unit_cost DECIMAL(12,4) DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lot_id UUID;
+  _movement_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para registrar movimentações';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'A quantidade deve ser maior que zero';
+  END IF;
+
+  IF _reason_id IS NULL THEN
+    RAISE EXCEPTION 'Selecione o motivo da movimentação';
+  END IF;
+
+  _lot_id := public.register_lot(_product_id, _lot_number, _expiry_date);
+
+  -- A quantidade base é recalculada pelo gatilho a partir de input_unit/input_quantity
+  INSERT INTO public.stock_movements
+    (product_id, location_id, movement_type, quantity, input_unit, input_quantity,
+     responsible_user_id, notes, supplier_id, unit_cost, lot_id, reason_id)
+  VALUES
+    (_product_id, _location_id, 'entrada',
+     public.convert_to_base_unit(_product_id, _unit, _quantity),
+     _unit, CASE WHEN _unit IS NOT NULL THEN _quantity END,
+     auth.uid(), NULLIF(btrim(_notes), ''), _supplier_id, _unit_cost, _lot_id, _reason_id)
+  RETURNING id INTO _movement_id;
+
+  RETURN _movement_id;
+END;
+$$;
@@ -0,0 +1,77 @@
+-- A data prevista de devolução é escolhida no calendário local; comparar com a data de hoje
+-- em São Paulo, e não em UTC, que já vira o dia às 21h
+CREATE OR REPLACE FUNCTION public.checkout_tool(
+  _product_id UUID,
+  _location_id UUID,
+  _borrower_id UUID,
+  _expected_return_date DATE,
+  _quantity DECIMAL DEFAULT NULL,
+  _serial_numbers TEXT[] DEFAULT NULL,
+  _condition TEXT DEFAULT 'bom',
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product RECORD;
+  _loan_id UUID;
+  _movement_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para registrar empréstimos';
+  END IF;
+
+  SELECT p.track_lots, p.track_serials, COALESCE(c.lendable, false) AS lendable
+  INTO _product
+  FROM public.products p
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  WHERE p.id = _product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Produto não encontrado';
+  END IF;
+
+  IF NOT _product.lendable THEN
+    RAISE EXCEPTION 'A categoria deste produto não permite empréstimos';
+  END IF;
+
+  IF _product.track_lots THEN
+    RAISE EXCEPTION 'Produtos com controle de lote não podem ser emprestados';
+  END IF;
+
+  IF _product.track_serials THEN
+    _quantity := COALESCE(array_length(_serial_numbers, 1), 0);
+    IF _quantity = 0 THEN
+      RAISE EXCEPTION 'Informe ao menos um número de série';
+    END IF;
+  ELSIF COALESCE(_quantity, 0) <= 0 THEN
+    RAISE EXCEPTION 'A quantidade deve ser maior que zero';
+  END IF;
+
+  IF _expected_return_date < (now() AT TIME ZONE 'America/Sao_Paulo')::date THEN
+    RAISE EXCEPTION 'A data prevista de devolução não pode estar no passado';
+  END IF;
+
+  INSERT INTO public.tool_loans
+    (product_id, location_id, quantity, borrower_id, expected_return_date, checkout_condition, notes, checked_out_by)
+  VALUES
+    (_product_id, _location_id, _quantity, _borrower_id, _expected_return_date, _condition, _notes, auth.uid())
+  RETURNING id INTO _loan_id;
+
+  INSERT INTO public.stock_movements
+    (product_id, location_id, movement_type, quantity, responsible_user_id, notes, tool_loan_id)
+  VALUES
+    (_product_id, _location_id, 'saida', _quantity, auth.uid(),
+     'Empréstimo #' || (SELECT number FROM public.tool_loans WHERE id = _loan_id), _loan_id)
+  RETURNING id INTO _movement_id;
+
+  IF _product.track_serials THEN
+    PERFORM public.attach_movement_serials(_movement_id, _serial_numbers);
+  END IF;
+
+  RETURN _loan_id;
+END;
+$$;
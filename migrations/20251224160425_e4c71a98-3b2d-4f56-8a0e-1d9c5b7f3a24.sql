@@ -0,0 +1,42 @@
+-- Somar saldos de produtos com unidades diferentes não tem significado: o total por local
+-- passa a ser informado por unidade
+DROP FUNCTION public.dashboard_location_totals();
+
+CREATE FUNCTION public.dashboard_location_totals()
+RETURNS TABLE (
+  location_id UUID,
+  location_name TEXT,
+  products_in_stock BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.id,
+    l.name,
+    COUNT(b.product_id) FILTER (WHERE b.quantity > 0)
+  FROM public.locations l
+  LEFT JOIN public.stock_balances b ON b.location_id = l.id
+  GROUP BY l.id, l.name
+  ORDER BY l.name;
+$$;
+
+-- Saldo de cada local agrupado pela unidade base dos produtos
+CREATE OR REPLACE FUNCTION public.dashboard_location_unit_totals()
+RETURNS TABLE (
+  location_id UUID,
+  unit TEXT,
+  total_quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.location_id, p.unit, SUM(b.quantity)
+  FROM public.stock_balances b
+  JOIN public.products p ON p.id = b.product_id
+  WHERE b.quantity <> 0
+  GROUP BY b.location_id, p.unit
+  ORDER BY b.location_id, p.unit;
+$$;
@@ -0,0 +1,61 @@
+-- A evolução por categoria soma quantidades de produtos com a mesma unidade apenas:
+-- cada série passa a ser uma categoria em uma unidade
+DROP FUNCTION public.dashboard_category_evolution(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT);
+
+CREATE FUNCTION public.dashboard_category_evolution(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _granularity TEXT DEFAULT 'day',
+  _timezone TEXT DEFAULT 'America/Sao_Paulo'
+)
+RETURNS TABLE (
+  bucket DATE,
+  category_id UUID,
+  unit TEXT,
+  quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH buckets AS (
+    SELECT
+      gs::DATE AS bucket,
+      LEAST((gs + ('1 ' || _granularity)::INTERVAL) AT TIME ZONE _timezone, _to) AS bucket_end
+    FROM generate_series(
+      date_trunc(_granularity, _from AT TIME ZONE _timezone),
+      date_trunc(_granularity, _to AT TIME ZONE _timezone),
+      ('1 ' || _granularity)::INTERVAL
+    ) AS gs
+  ),
+  current_totals AS (
+    SELECT p.category_id, p.unit, SUM(p.current_quantity) AS quantity
+    FROM public.products p
+    GROUP BY p.category_id, p.unit
+  ),
+  changes AS (
+    SELECT
+      p.category_id,
+      p.unit,
+      m.created_at,
+      CASE WHEN m.movement_type IN ('entrada', 'ajuste_entrada') THEN m.quantity ELSE -m.quantity END AS delta
+    FROM public.stock_movements m
+    JOIN public.products p ON p.id = m.product_id
+    WHERE m.created_at >= _from
+      AND m.movement_type IN ('entrada', 'saida', 'ajuste_entrada', 'ajuste_saida')
+  )
+  SELECT
+    b.bucket,
+    c.category_id,
+    c.unit,
+    c.quantity - COALESCE((
+      SELECT SUM(ch.delta)
+      FROM changes ch
+      WHERE ch.category_id IS NOT DISTINCT FROM c.category_id
+        AND ch.unit = c.unit
+        AND ch.created_at >= b.bucket_end
+    ), 0)
+  FROM buckets b
+  CROSS JOIN current_totals c
+  ORDER BY b.bucket, c.category_id, c.unit;
+$$;
@@ -0,0 +1,82 @@
+-- Alterações diretas nos pedidos de compra ficam restritas aos rascunhos.
+-- A situação muda apenas pelas funções: confirmação, recebimento e cancelamento
+DROP POLICY "Estoquistas podem atualizar pedidos de compra" ON public.purchase_orders;
+
+CREATE POLICY "Estoquistas podem atualizar pedidos de compra"
+  ON public.purchase_orders FOR UPDATE
+  TO authenticated
+  USING (
+    status = 'rascunho'
+    AND public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[])
+  )
+  WITH CHECK (status = 'rascunho');
+
+-- Função para confirmar um rascunho, liberando-o para recebimento
+CREATE OR REPLACE FUNCTION public.confirm_purchase_order(_purchase_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para confirmar pedidos de compra';
+  END IF;
+
+  SELECT status INTO _status
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de compra não encontrado';
+  END IF;
+
+  IF _status <> 'rascunho' THEN
+    RAISE EXCEPTION 'Apenas pedidos em rascunho podem ser confirmados';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.purchase_order_items WHERE purchase_order_id = _purchase_order_id) THEN
+    RAISE EXCEPTION 'Adicione ao menos um item ao pedido';
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = 'aberto'
+  WHERE id = _purchase_order_id;
+END;
+$$;
+
+-- Função para cancelar um pedido; o que já foi recebido permanece no estoque
+CREATE OR REPLACE FUNCTION public.cancel_purchase_order(_purchase_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para cancelar pedidos de compra';
+  END IF;
+
+  SELECT status INTO _status
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de compra não encontrado';
+  END IF;
+
+  IF _status NOT IN ('rascunho', 'aberto', 'parcial') THEN
+    RAISE EXCEPTION 'Este pedido não pode mais ser cancelado';
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = 'cancelado'
+  WHERE id = _purchase_order_id;
+END;
+$$;
@@ -0,0 +1,230 @@
+-- Produtos com número de série passam a ser contados no inventário unidade por unidade:
+-- cada unidade vira um item, contado 1 (presente) ou 0 (ausente)
+ALTER TABLE public.inventory_count_items
+  ADD COLUMN serial_id UUID REFERENCES public.serial_numbers(id) ON DELETE CASCADE;
+
+ALTER TABLE public.inventory_count_items
+  ADD CONSTRAINT inventory_count_items_serial_quantity_check
+  CHECK (serial_id IS NULL OR counted_quantity IN (0, 1));
+
+DROP INDEX public.idx_inventory_count_items_unique;
+
+CREATE UNIQUE INDEX idx_inventory_count_items_unique
+  ON public.inventory_count_items(inventory_count_id, product_id, location_id, lot_id, serial_id) NULLS NOT DISTINCT;
+
+-- Abrir um inventário congelando os saldos esperados do escopo.
+-- Produtos com lote são contados por lote; produtos com número de série
+-- são conferidos unidade por unidade.
+CREATE OR REPLACE FUNCTION public.create_inventory_count(
+  _category_id UUID DEFAULT NULL,
+  _location_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para abrir inventários';
+  END IF;
+
+  INSERT INTO public.inventory_counts (category_id, location_id, notes, created_by)
+  VALUES (_category_id, _location_id, NULLIF(btrim(_notes), ''), auth.uid())
+  RETURNING id INTO _count_id;
+
+  INSERT INTO public.inventory_count_items (inventory_count_id, product_id, location_id, expected_quantity)
+  SELECT _count_id, p.id, l.id, COALESCE(b.quantity, 0)
+  FROM public.products p
+  CROSS JOIN public.locations l
+  LEFT JOIN public.stock_balances b ON b.product_id = p.id AND b.location_id = l.id
+  WHERE NOT p.track_lots
+    AND NOT p.track_serials
+    AND (_category_id IS NULL OR p.category_id = _category_id)
+    AND (_location_id IS NULL OR l.id = _location_id);
+
+  INSERT INTO public.inventory_count_items (inventory_count_id, product_id, location_id, lot_id, expected_quantity)
+  SELECT _count_id, p.id, lb.location_id, lb.lot_id, lb.quantity
+  FROM public.lot_balances lb
+  JOIN public.lots lt ON lt.id = lb.lot_id
+  JOIN public.products p ON p.id = lt.product_id
+  WHERE lb.quantity > 0
+    AND (_category_id IS NULL OR p.category_id = _category_id)
+    AND (_location_id IS NULL OR lb.location_id = _location_id);
+
+  INSERT INTO public.inventory_count_items (inventory_count_id, product_id, location_id, serial_id, expected_quantity)
+  SELECT _count_id, s.product_id, s.location_id, s.id, 1
+  FROM public.serial_numbers s
+  JOIN public.products p ON p.id = s.product_id
+  WHERE s.status = 'em_estoque'
+    AND (_category_id IS NULL OR p.category_id = _category_id)
+    AND (_location_id IS NULL OR s.location_id = _location_id);
+
+  IF NOT EXISTS (SELECT 1 FROM public.inventory_count_items WHERE inventory_count_id = _count_id) THEN
+    RAISE EXCEPTION 'Nenhum produto para contar neste escopo';
+  END IF;
+
+  RETURN _count_id;
+END;
+$$;
+
+-- Registrar (ou limpar, com NULL) a quantidade contada de um item;
+-- para unidades com número de série, 1 indica presente e 0 ausente
+CREATE OR REPLACE FUNCTION public.record_inventory_count(
+  _item_id UUID,
+  _counted_quantity DECIMAL DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para registrar contagens';
+  END IF;
+
+  IF _counted_quantity < 0 THEN
+    RAISE EXCEPTION 'A quantidade contada não pode ser negativa';
+  END IF;
+
+  IF _counted_quantity NOT IN (0, 1) AND EXISTS (
+    SELECT 1 FROM public.inventory_count_items WHERE id = _item_id AND serial_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Unidades com número de série são contadas como presentes ou ausentes';
+  END IF;
+
+  UPDATE public.inventory_count_items i
+  SET counted_quantity = _counted_quantity,
+      counted_by = CASE WHEN _counted_quantity IS NULL THEN NULL ELSE auth.uid() END,
+      counted_at = CASE WHEN _counted_quantity IS NULL THEN NULL ELSE NOW() END
+  FROM public.inventory_counts c
+  WHERE i.id = _item_id
+    AND c.id = i.inventory_count_id
+    AND c.status = 'aberto';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Este inventário não está aberto para contagem';
+  END IF;
+END;
+$$;
+
+-- Finalizar o inventário lançando as diferenças aprovadas como movimentações de ajuste.
+-- A diferença é calculada sobre o saldo congelado na abertura; unidades com número de série
+-- ausentes saem do estoque vinculadas à movimentação, o que também as marca como baixadas.
+CREATE OR REPLACE FUNCTION public.post_inventory_count(
+  _inventory_count_id UUID,
+  _approved_item_ids UUID[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count public.inventory_counts%ROWTYPE;
+  _item public.inventory_count_items%ROWTYPE;
+  _movement_id UUID;
+  _adjusted INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para finalizar inventários';
+  END IF;
+
+  SELECT * INTO _count
+  FROM public.inventory_counts
+  WHERE id = _inventory_count_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventário não encontrado';
+  END IF;
+
+  IF _count.status <> 'aberto' THEN
+    RAISE EXCEPTION 'Este inventário não está aberto';
+  END IF;
+
+  FOR _item IN
+    SELECT *
+    FROM public.inventory_count_items
+    WHERE inventory_count_id = _inventory_count_id
+      AND id = ANY(_approved_item_ids)
+      AND counted_quantity IS NOT NULL
+      AND counted_quantity <> expected_quantity
+  LOOP
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes, lot_id)
+    VALUES (
+      _item.product_id,
+      _item.location_id,
+      CASE WHEN _item.counted_quantity > _item.expected_quantity THEN 'ajuste_entrada' ELSE 'ajuste_saida' END,
+      abs(_item.counted_quantity - _item.expected_quantity),
+      auth.uid(),
+      'Inventário #' || _count.number,
+      _item.lot_id
+    )
+    RETURNING id INTO _movement_id;
+
+    IF _item.serial_id IS NOT NULL THEN
+      INSERT INTO public.stock_movement_serials (movement_id, serial_id)
+      VALUES (_movement_id, _item.serial_id);
+    END IF;
+
+    UPDATE public.inventory_count_items
+    SET adjustment_movement_id = _movement_id
+    WHERE id = _item.id;
+
+    _adjusted := _adjusted + 1;
+  END LOOP;
+
+  UPDATE public.inventory_counts
+  SET status = 'finalizado', closed_by = auth.uid(), closed_at = NOW()
+  WHERE id = _inventory_count_id;
+
+  RETURN _adjusted;
+END;
+$$;
+
+-- Unidades com número de série voltam ao estoque também pelo ajuste de entrada
+-- (estorno de um ajuste que deu a unidade como ausente)
+CREATE OR REPLACE FUNCTION public.update_serial_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _movement public.stock_movements%ROWTYPE;
+  _serial public.serial_numbers%ROWTYPE;
+BEGIN
+  SELECT * INTO _movement FROM public.stock_movements WHERE id = NEW.movement_id;
+  SELECT * INTO _serial FROM public.serial_numbers WHERE id = NEW.serial_id FOR UPDATE;
+
+  IF _serial.product_id <> _movement.product_id THEN
+    RAISE EXCEPTION 'O número de série % não pertence a este produto', _serial.serial_number;
+  END IF;
+
+  IF _movement.movement_type IN ('entrada', 'transferencia_entrada', 'ajuste_entrada') THEN
+    IF _serial.status = 'em_estoque' THEN
+      RAISE EXCEPTION 'O número de série % já está em estoque', _serial.serial_number;
+    END IF;
+
+    UPDATE public.serial_numbers
+    SET status = 'em_estoque', location_id = _movement.location_id, updated_at = NOW()
+    WHERE id = _serial.id;
+  ELSE
+    IF _serial.status <> 'em_estoque' OR _serial.location_id <> _movement.location_id THEN
+      RAISE EXCEPTION 'O número de série % não está disponível neste local', _serial.serial_number;
+    END IF;
+
+    UPDATE public.serial_numbers
+    SET status = 'baixado', location_id = NULL, updated_at = NOW()
+    WHERE id = _serial.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,42 @@
+-- Ferramentas emprestadas não são consumo: retiradas e devoluções ficam fora dos indicadores,
+-- do volume e do ranking do dashboard
+CREATE OR REPLACE FUNCTION public.effective_stock_movements(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS SETOF public.stock_movements
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.*
+  FROM public.stock_movements m
+  WHERE m.created_at BETWEEN _from AND _to
+    AND m.reversed_movement_id IS NULL
+    AND m.tool_loan_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.stock_movements r WHERE r.reversed_movement_id = m.id
+    );
+$$;
+
+-- O ranking volta a usar apenas as movimentações efetivas, que já excluem os empréstimos
+CREATE OR REPLACE FUNCTION public.dashboard_top_consumed(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  unit TEXT,
+  quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.id, p.name, p.unit, SUM(m.quantity)
+  FROM public.effective_stock_movements(_from, _to) m
+  JOIN public.products p ON p.id = m.product_id
+  WHERE m.movement_type = 'saida'
+  GROUP BY p.id, p.name, p.unit
+  ORDER BY 4 DESC, p.name
+  LIMIT _limit;
+$$;
@@ -0,0 +1,133 @@
+-- O atendimento de requisições não entrega lotes vencidos: o FEFO considera apenas
+-- os lotes dentro da validade e, se faltar saldo por causa de lotes vencidos, o erro avisa.
+-- Cada item: { item_id, quantity, serial_numbers }
+CREATE OR REPLACE FUNCTION public.fulfill_requisition(
+  _requisition_id UUID,
+  _location_id UUID,
+  _items JSONB,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _requisition public.material_requisitions%ROWTYPE;
+  _entry JSONB;
+  _item public.material_requisition_items%ROWTYPE;
+  _quantity DECIMAL(10,2);
+  _remaining DECIMAL(10,2);
+  _take DECIMAL(10,2);
+  _lot RECORD;
+  _notes_text TEXT;
+  _movement_id UUID;
+  _fulfilled INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para atender requisições';
+  END IF;
+
+  -- Bloquear a requisição para que dois atendimentos simultâneos não ultrapassem o aprovado
+  SELECT * INTO _requisition
+  FROM public.material_requisitions
+  WHERE id = _requisition_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Requisição não encontrada';
+  END IF;
+
+  IF _requisition.status NOT IN ('aprovada', 'parcial') THEN
+    RAISE EXCEPTION 'Esta requisição não está liberada para atendimento';
+  END IF;
+
+  _notes_text := COALESCE(NULLIF(btrim(_notes), ''), 'Atendimento da requisição #' || _requisition.number);
+
+  FOR _entry IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := (_entry->>'quantity')::DECIMAL(10,2);
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO _item
+    FROM public.material_requisition_items
+    WHERE id = (_entry->>'item_id')::UUID
+      AND requisition_id = _requisition_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item não pertence a esta requisição';
+    END IF;
+
+    IF _quantity > _item.approved_quantity - _item.fulfilled_quantity THEN
+      RAISE EXCEPTION 'Quantidade atendida maior que a aprovada pendente (pendente: %)',
+        _item.approved_quantity - _item.fulfilled_quantity;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.products WHERE id = _item.product_id AND track_lots) THEN
+      _remaining := _quantity;
+
+      FOR _lot IN
+        SELECT lb.lot_id, lb.quantity
+        FROM public.lot_balances lb
+        JOIN public.lots l ON l.id = lb.lot_id
+        WHERE l.product_id = _item.product_id
+          AND lb.location_id = _location_id
+          AND lb.quantity > 0
+          AND (l.expiry_date IS NULL OR l.expiry_date >= (now() AT TIME ZONE 'America/Sao_Paulo')::date)
+        ORDER BY l.expiry_date NULLS LAST, l.lot_number
+      LOOP
+        EXIT WHEN _remaining <= 0;
+        _take := LEAST(_lot.quantity, _remaining);
+
+        INSERT INTO public.stock_movements
+          (product_id, location_id, movement_type, quantity, responsible_user_id, notes,
+           requisition_item_id, lot_id)
+        VALUES
+          (_item.product_id, _location_id, 'saida', _take, auth.uid(), _notes_text, _item.id, _lot.lot_id);
+
+        _remaining := _remaining - _take;
+      END LOOP;
+
+      IF _remaining > 0 AND EXISTS (
+        SELECT 1
+        FROM public.lot_balances lb
+        JOIN public.lots l ON l.id = lb.lot_id
+        WHERE l.product_id = _item.product_id
+          AND lb.location_id = _location_id
+          AND lb.quantity > 0
+          AND l.expiry_date < (now() AT TIME ZONE 'America/Sao_Paulo')::date
+      ) THEN
+        RAISE EXCEPTION 'Saldo insuficiente em lotes dentro da validade neste local: faltam % (os demais lotes estão vencidos)', _remaining
+          USING HINT = 'insufficient_stock';
+      ELSIF _remaining > 0 THEN
+        RAISE EXCEPTION 'Saldo insuficiente nos lotes deste local: faltam %', _remaining
+          USING HINT = 'insufficient_stock';
+      END IF;
+    ELSE
+      INSERT INTO public.stock_movements
+        (product_id, location_id, movement_type, quantity, responsible_user_id, notes, requisition_item_id)
+      VALUES
+        (_item.product_id, _location_id, 'saida', _quantity, auth.uid(), _notes_text, _item.id)
+      RETURNING id INTO _movement_id;
+
+      IF jsonb_typeof(_entry->'serial_numbers') = 'array' THEN
+        PERFORM public.attach_movement_serials(
+          _movement_id,
+          ARRAY(SELECT jsonb_array_elements_text(_entry->'serial_numbers'))
+        );
+      END IF;
+    END IF;
+
+    _fulfilled := _fulfilled + 1;
+  END LOOP;
+
+  IF _fulfilled = 0 THEN
+    RAISE EXCEPTION 'Informe a quantidade atendida de ao menos um item';
+  END IF;
+
+  RETURN _fulfilled;
+END;
+$$;
@@ -0,0 +1,22 @@
+-- Renomear o código da unidade (ON UPDATE CASCADE) continua permitido para produtos com estoque:
+-- nesse caso o código antigo já não existe em units quando a alteração chega ao produto
+CREATE OR REPLACE FUNCTION public.validate_product_unit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.unit IS DISTINCT FROM OLD.unit
+    AND EXISTS (SELECT 1 FROM public.units WHERE code = OLD.unit)
+    AND (
+      EXISTS (SELECT 1 FROM public.stock_movements WHERE product_id = NEW.id)
+      OR EXISTS (SELECT 1 FROM public.stock_balances WHERE product_id = NEW.id AND quantity <> 0)
+      OR OLD.current_quantity <> 0
+    ) THEN
+    RAISE EXCEPTION 'Não é possível alterar a unidade de um produto que já possui movimentações ou saldo';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
@@ -0,0 +1,5 @@
+-- A revisão de rascunhos passa somente pela função update_purchase_order_draft;
+-- os itens de pedidos deixam de ter políticas de alteração direta
+DROP POLICY "Estoquistas podem adicionar itens a rascunhos" ON public.purchase_order_items;
+DROP POLICY "Estoquistas podem atualizar itens de rascunhos" ON public.purchase_order_items;
+DROP POLICY "Estoquistas podem remover itens de rascunhos" ON public.purchase_order_items;
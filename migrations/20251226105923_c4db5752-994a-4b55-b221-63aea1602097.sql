@@ -0,0 +1,49 @@
+-- Somar quantidades de produtos com unidades diferentes não tem significado: os indicadores
+-- e o volume de entradas e saídas passam a contar apenas as movimentações
+DROP FUNCTION public.dashboard_summary(TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE FUNCTION public.dashboard_summary(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (
+  total_products BIGINT,
+  low_stock_products BIGINT,
+  entries_count BIGINT,
+  exits_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT COUNT(*) FROM public.products),
+    (SELECT COUNT(*) FROM public.products WHERE current_quantity <= minimum_quantity),
+    COUNT(*) FILTER (WHERE m.movement_type = 'entrada'),
+    COUNT(*) FILTER (WHERE m.movement_type = 'saida')
+  FROM public.effective_stock_movements(_from, _to) m;
+$$;
+
+DROP FUNCTION public.dashboard_movement_volume(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT);
+
+CREATE FUNCTION public.dashboard_movement_volume(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _granularity TEXT DEFAULT 'day',
+  _timezone TEXT DEFAULT 'America/Sao_Paulo'
+)
+RETURNS TABLE (
+  bucket DATE,
+  entries_count BIGINT,
+  exits_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    date_trunc(_granularity, m.created_at AT TIME ZONE _timezone)::DATE,
+    COUNT(*) FILTER (WHERE m.movement_type = 'entrada'),
+    COUNT(*) FILTER (WHERE m.movement_type = 'saida')
+  FROM public.effective_stock_movements(_from, _to) m
+  WHERE m.movement_type IN ('entrada', 'saida')
+  GROUP BY 1
+  ORDER BY 1;
+$$;
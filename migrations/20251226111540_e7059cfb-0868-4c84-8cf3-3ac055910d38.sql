@@ -0,0 +1,26 @@
+-- Quantidades de produtos com unidades diferentes não podem ser somadas: o resumo por motivo
+-- passa a informar apenas o número de movimentações
+DROP FUNCTION public.dashboard_reason_breakdown(TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE FUNCTION public.dashboard_reason_breakdown(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (
+  direction TEXT,
+  reason_id UUID,
+  reason_name TEXT,
+  movements BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    CASE WHEN m.movement_type IN ('entrada', 'ajuste_entrada') THEN 'entrada' ELSE 'saida' END,
+    r.id,
+    COALESCE(r.name, 'Sem motivo'),
+    COUNT(*)
+  FROM public.effective_stock_movements(_from, _to) m
+  LEFT JOIN public.movement_reasons r ON r.id = m.reason_id
+  WHERE m.movement_type IN ('entrada', 'saida', 'ajuste_entrada', 'ajuste_saida')
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 4 DESC, 3;
+$$;
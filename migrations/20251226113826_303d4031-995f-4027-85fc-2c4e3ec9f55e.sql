@@ -0,0 +1,39 @@
+-- Quantidades e saldos são guardados com duas casas na unidade base: uma quantidade pequena
+-- informada em outra unidade (ex.: 1 g de um produto em kg) arredondaria para zero e falharia
+-- na restrição quantity > 0 sem explicação. A conversão passa a recusá-la com uma mensagem clara
+CREATE OR REPLACE FUNCTION public.convert_to_base_unit(_product_id UUID, _unit TEXT, _quantity DECIMAL)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _base_unit TEXT;
+  _factor DECIMAL(12,4);
+  _converted DECIMAL;
+BEGIN
+  SELECT unit INTO _base_unit FROM public.products WHERE id = _product_id;
+
+  IF _unit IS NULL OR _unit = _base_unit THEN
+    RETURN _quantity;
+  END IF;
+
+  SELECT factor INTO _factor
+  FROM public.product_unit_conversions
+  WHERE product_id = _product_id
+    AND unit_code = _unit;
+
+  IF _factor IS NULL THEN
+    RAISE EXCEPTION 'O produto não possui conversão para a unidade %', _unit;
+  END IF;
+
+  _converted := ROUND(_quantity * _factor, 2);
+
+  IF _quantity > 0 AND _converted = 0 THEN
+    RAISE EXCEPTION 'A quantidade % % equivale a menos de 0,01 % e não pode ser registrada', _quantity, _unit, _base_unit;
+  END IF;
+
+  RETURN _converted;
+END;
+$$;
@@ -0,0 +1,25 @@
+-- Só é possível desativar o controle por lote com os lotes zerados: as saídas seguintes
+-- deixariam de baixar os saldos por lote, que ficariam desatualizados
+CREATE OR REPLACE FUNCTION public.validate_track_lots()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.track_lots AND NOT NEW.track_lots AND EXISTS (
+    SELECT 1
+    FROM public.lot_balances lb
+    JOIN public.lots l ON l.id = lb.lot_id
+    WHERE l.product_id = NEW.id AND lb.quantity <> 0
+  ) THEN
+    RAISE EXCEPTION 'Zere o saldo dos lotes do produto antes de desativar o controle por lote';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_product_track_lots_disabled
+  BEFORE UPDATE OF track_lots ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_track_lots();
@@ -0,0 +1,82 @@
+-- A importação segue o modelo de papéis: estoquistas, que já cadastram produtos, também podem importá-los,
+-- mas apenas administradores criam as categorias que ainda não existem.
+-- O saldo inicial entra com o motivo de sistema "Ajuste de inventário".
+-- Cada item: { line, name, description, category, unit, minimum_quantity, opening_balance }
+CREATE OR REPLACE FUNCTION public.import_products(_products JSONB, _location_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item JSONB;
+  _category_name TEXT;
+  _category_id UUID;
+  _product_id UUID;
+  _opening_balance DECIMAL(10,2);
+  _reason_id UUID;
+  _imported INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para importar produtos';
+  END IF;
+
+  SELECT id INTO _reason_id
+  FROM public.movement_reasons
+  WHERE direction = 'entrada' AND code = 'ajuste_inventario';
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_products)
+  LOOP
+    IF NULLIF(btrim(_item->>'name'), '') IS NULL OR NULLIF(btrim(_item->>'unit'), '') IS NULL THEN
+      RAISE EXCEPTION 'Linha %: nome e unidade são obrigatórios', _item->>'line';
+    END IF;
+
+    _category_id := NULL;
+    _category_name := NULLIF(btrim(_item->>'category'), '');
+
+    IF _category_name IS NOT NULL THEN
+      SELECT id INTO _category_id
+      FROM public.categories
+      WHERE lower(name) = lower(_category_name);
+
+      IF _category_id IS NULL AND NOT public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]) THEN
+        RAISE EXCEPTION 'Linha %: a categoria "%" não está cadastrada', _item->>'line', _category_name;
+      END IF;
+
+      IF _category_id IS NULL THEN
+        INSERT INTO public.categories (name)
+        VALUES (_category_name)
+        RETURNING id INTO _category_id;
+      END IF;
+    END IF;
+
+    INSERT INTO public.products (name, description, category_id, unit, minimum_quantity)
+    VALUES (
+      btrim(_item->>'name'),
+      NULLIF(btrim(_item->>'description'), ''),
+      _category_id,
+      btrim(_item->>'unit'),
+      COALESCE((_item->>'minimum_quantity')::DECIMAL(10,2), 0)
+    )
+    RETURNING id INTO _product_id;
+
+    -- Saldo inicial entra como movimentação para manter o histórico consistente
+    _opening_balance := COALESCE((_item->>'opening_balance')::DECIMAL(10,2), 0);
+
+    IF _opening_balance > 0 THEN
+      IF _location_id IS NULL THEN
+        RAISE EXCEPTION 'Selecione o local do saldo inicial';
+      END IF;
+
+      INSERT INTO public.stock_movements
+        (product_id, location_id, movement_type, quantity, responsible_user_id, notes, reason_id)
+      VALUES
+        (_product_id, _location_id, 'entrada', _opening_balance, auth.uid(), 'Saldo inicial (importação)', _reason_id);
+    END IF;
+
+    _imported := _imported + 1;
+  END LOOP;
+
+  RETURN _imported;
+END;
+$$;
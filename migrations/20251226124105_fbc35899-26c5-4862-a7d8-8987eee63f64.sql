@@ -0,0 +1,97 @@
+-- Uma unidade com número de série pode mudar de local ou sair do estoque depois da abertura
+-- do inventário. Ao finalizar, essas unidades não são ajustadas (o saldo congelado não vale mais
+-- para elas) e seus números são devolvidos para que a equipe as confira, em vez de a baixa
+-- falhar e impedir a finalização do inventário inteiro.
+DROP FUNCTION public.post_inventory_count(UUID, UUID[]);
+
+CREATE FUNCTION public.post_inventory_count(
+  _inventory_count_id UUID,
+  _approved_item_ids UUID[]
+)
+RETURNS TABLE (
+  adjusted_items INTEGER,
+  skipped_serial_numbers TEXT[]
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count public.inventory_counts%ROWTYPE;
+  _item public.inventory_count_items%ROWTYPE;
+  _serial public.serial_numbers%ROWTYPE;
+  _movement_id UUID;
+  _adjusted INTEGER := 0;
+  _skipped TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para finalizar inventários';
+  END IF;
+
+  SELECT * INTO _count
+  FROM public.inventory_counts
+  WHERE id = _inventory_count_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventário não encontrado';
+  END IF;
+
+  IF _count.status <> 'aberto' THEN
+    RAISE EXCEPTION 'Este inventário não está aberto';
+  END IF;
+
+  FOR _item IN
+    SELECT *
+    FROM public.inventory_count_items
+    WHERE inventory_count_id = _inventory_count_id
+      AND id = ANY(_approved_item_ids)
+      AND counted_quantity IS NOT NULL
+      AND counted_quantity <> expected_quantity
+  LOOP
+    IF _item.serial_id IS NOT NULL THEN
+      SELECT * INTO _serial
+      FROM public.serial_numbers
+      WHERE id = _item.serial_id
+      FOR UPDATE;
+
+      IF _serial.status <> 'em_estoque' OR _serial.location_id IS DISTINCT FROM _item.location_id THEN
+        _skipped := _skipped || _serial.serial_number;
+        CONTINUE;
+      END IF;
+    END IF;
+
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes, lot_id)
+    VALUES (
+      _item.product_id,
+      _item.location_id,
+      CASE WHEN _item.counted_quantity > _item.expected_quantity THEN 'ajuste_entrada' ELSE 'ajuste_saida' END,
+      abs(_item.counted_quantity - _item.expected_quantity),
+      auth.uid(),
+      'Inventário #' || _count.number,
+      _item.lot_id
+    )
+    RETURNING id INTO _movement_id;
+
+    IF _item.serial_id IS NOT NULL THEN
+      INSERT INTO public.stock_movement_serials (movement_id, serial_id)
+      VALUES (_movement_id, _item.serial_id);
+    END IF;
+
+    UPDATE public.inventory_count_items
+    SET adjustment_movement_id = _movement_id
+    WHERE id = _item.id;
+
+    _adjusted := _adjusted + 1;
+  END LOOP;
+
+  UPDATE public.inventory_counts
+  SET status = 'finalizado', closed_by = auth.uid(), closed_at = NOW()
+  WHERE id = _inventory_count_id;
+
+  adjusted_items := _adjusted;
+  skipped_serial_numbers := _skipped;
+  RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,108 @@
+-- O saldo esperado de cada item é congelado na abertura do inventário. Se o item recebeu
+-- entradas, saídas ou transferências depois disso, a diferença contada já não vale: ajustá-la
+-- lançaria essas movimentações uma segunda vez. Esses itens, assim como as unidades com número
+-- de série que mudaram de local ou saíram do estoque, não são ajustados e são devolvidos
+-- para recontagem em um novo inventário.
+DROP FUNCTION public.post_inventory_count(UUID, UUID[]);
+
+CREATE FUNCTION public.post_inventory_count(
+  _inventory_count_id UUID,
+  _approved_item_ids UUID[]
+)
+RETURNS TABLE (
+  adjusted_items INTEGER,
+  recount_item_ids UUID[]
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count public.inventory_counts%ROWTYPE;
+  _item public.inventory_count_items%ROWTYPE;
+  _movement_id UUID;
+  _adjusted INTEGER := 0;
+  _recount UUID[];
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para finalizar inventários';
+  END IF;
+
+  SELECT * INTO _count
+  FROM public.inventory_counts
+  WHERE id = _inventory_count_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventário não encontrado';
+  END IF;
+
+  IF _count.status <> 'aberto' THEN
+    RAISE EXCEPTION 'Este inventário não está aberto';
+  END IF;
+
+  -- Itens movimentados desde a abertura são identificados antes de lançar qualquer ajuste,
+  -- para que os próprios ajustes deste inventário não sejam confundidos com movimentações
+  SELECT COALESCE(array_agg(i.id), ARRAY[]::UUID[]) INTO _recount
+  FROM public.inventory_count_items i
+  LEFT JOIN public.serial_numbers s ON s.id = i.serial_id
+  WHERE i.inventory_count_id = _inventory_count_id
+    AND i.id = ANY(_approved_item_ids)
+    AND i.counted_quantity IS NOT NULL
+    AND i.counted_quantity <> i.expected_quantity
+    AND CASE
+      WHEN i.serial_id IS NOT NULL THEN
+        s.status <> 'em_estoque' OR s.location_id IS DISTINCT FROM i.location_id
+      ELSE EXISTS (
+        SELECT 1
+        FROM public.stock_movements m
+        WHERE m.product_id = i.product_id
+          AND m.location_id = i.location_id
+          AND m.lot_id IS NOT DISTINCT FROM i.lot_id
+          AND m.created_at > _count.created_at
+      )
+    END;
+
+  FOR _item IN
+    SELECT *
+    FROM public.inventory_count_items
+    WHERE inventory_count_id = _inventory_count_id
+      AND id = ANY(_approved_item_ids)
+      AND id <> ALL(_recount)
+      AND counted_quantity IS NOT NULL
+      AND counted_quantity <> expected_quantity
+  LOOP
+    INSERT INTO public.stock_movements
+      (product_id, location_id, movement_type, quantity, responsible_user_id, notes, lot_id)
+    VALUES (
+      _item.product_id,
+      _item.location_id,
+      CASE WHEN _item.counted_quantity > _item.expected_quantity THEN 'ajuste_entrada' ELSE 'ajuste_saida' END,
+      abs(_item.counted_quantity - _item.expected_quantity),
+      auth.uid(),
+      'Inventário #' || _count.number,
+      _item.lot_id
+    )
+    RETURNING id INTO _movement_id;
+
+    IF _item.serial_id IS NOT NULL THEN
+      INSERT INTO public.stock_movement_serials (movement_id, serial_id)
+      VALUES (_movement_id, _item.serial_id);
+    END IF;
+
+    UPDATE public.inventory_count_items
+    SET adjustment_movement_id = _movement_id
+    WHERE id = _item.id;
+
+    _adjusted := _adjusted + 1;
+  END LOOP;
+
+  UPDATE public.inventory_counts
+  SET status = 'finalizado', closed_by = auth.uid(), closed_at = NOW()
+  WHERE id = _inventory_count_id;
+
+  adjusted_items := _adjusted;
+  recount_item_ids := _recount;
+  RETURN NEXT;
+END;
+$$;
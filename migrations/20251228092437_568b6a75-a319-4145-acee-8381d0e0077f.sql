@@ -0,0 +1,59 @@
+-- Lotes zerados no sistema também entram no inventário, em todos os locais do escopo, como os
+-- produtos sem lote: um lote que o sistema mostra vazio mas está na prateleira pode ser contado
+-- e ajustado. Produtos com número de série continuam conferidos unidade por unidade.
+CREATE OR REPLACE FUNCTION public.create_inventory_count(
+  _category_id UUID DEFAULT NULL,
+  _location_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para abrir inventários';
+  END IF;
+
+  INSERT INTO public.inventory_counts (category_id, location_id, notes, created_by)
+  VALUES (_category_id, _location_id, NULLIF(btrim(_notes), ''), auth.uid())
+  RETURNING id INTO _count_id;
+
+  INSERT INTO public.inventory_count_items (inventory_count_id, product_id, location_id, expected_quantity)
+  SELECT _count_id, p.id, l.id, COALESCE(b.quantity, 0)
+  FROM public.products p
+  CROSS JOIN public.locations l
+  LEFT JOIN public.stock_balances b ON b.product_id = p.id AND b.location_id = l.id
+  WHERE NOT p.track_lots
+    AND NOT p.track_serials
+    AND (_category_id IS NULL OR p.category_id = _category_id)
+    AND (_location_id IS NULL OR l.id = _location_id);
+
+  INSERT INTO public.inventory_count_items (inventory_count_id, product_id, location_id, lot_id, expected_quantity)
+  SELECT _count_id, p.id, l.id, lt.id, COALESCE(lb.quantity, 0)
+  FROM public.lots lt
+  JOIN public.products p ON p.id = lt.product_id
+  CROSS JOIN public.locations l
+  LEFT JOIN public.lot_balances lb ON lb.lot_id = lt.id AND lb.location_id = l.id
+  WHERE p.track_lots
+    AND (_category_id IS NULL OR p.category_id = _category_id)
+    AND (_location_id IS NULL OR l.id = _location_id);
+
+  INSERT INTO public.inventory_count_items (inventory_count_id, product_id, location_id, serial_id, expected_quantity)
+  SELECT _count_id, s.product_id, s.location_id, s.id, 1
+  FROM public.serial_numbers s
+  JOIN public.products p ON p.id = s.product_id
+  WHERE s.status = 'em_estoque'
+    AND (_category_id IS NULL OR p.category_id = _category_id)
+    AND (_location_id IS NULL OR s.location_id = _location_id);
+
+  IF NOT EXISTS (SELECT 1 FROM public.inventory_count_items WHERE inventory_count_id = _count_id) THEN
+    RAISE EXCEPTION 'Nenhum produto para contar neste escopo';
+  END IF;
+
+  RETURN _count_id;
+END;
+$$;
@@ -0,0 +1,58 @@
+-- Quantidades movimentadas voltam ao dashboard, agrupadas pela unidade base dos produtos:
+-- somar unidades diferentes não tem significado, então cada unidade é totalizada à parte
+CREATE OR REPLACE FUNCTION public.dashboard_unit_summary(_from TIMESTAMPTZ, _to TIMESTAMPTZ)
+RETURNS TABLE (
+  unit TEXT,
+  entries_quantity DECIMAL,
+  exits_quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.unit,
+    COALESCE(SUM(m.quantity) FILTER (WHERE m.movement_type = 'entrada'), 0),
+    COALESCE(SUM(m.quantity) FILTER (WHERE m.movement_type = 'saida'), 0)
+  FROM public.effective_stock_movements(_from, _to) m
+  JOIN public.products p ON p.id = m.product_id
+  WHERE m.movement_type IN ('entrada', 'saida')
+  GROUP BY p.unit
+  ORDER BY p.unit;
+$$;
+
+-- Entradas e saídas por período e por unidade; o número de movimentações de todas as
+-- unidades pode ser somado, as quantidades apenas dentro da mesma unidade
+DROP FUNCTION public.dashboard_movement_volume(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT);
+
+CREATE FUNCTION public.dashboard_movement_volume(
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _granularity TEXT DEFAULT 'day',
+  _timezone TEXT DEFAULT 'America/Sao_Paulo'
+)
+RETURNS TABLE (
+  bucket DATE,
+  unit TEXT,
+  entries_count BIGINT,
+  exits_count BIGINT,
+  entries_quantity DECIMAL,
+  exits_quantity DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    date_trunc(_granularity, m.created_at AT TIME ZONE _timezone)::DATE,
+    p.unit,
+    COUNT(*) FILTER (WHERE m.movement_type = 'entrada'),
+    COUNT(*) FILTER (WHERE m.movement_type = 'saida'),
+    COALESCE(SUM(m.quantity) FILTER (WHERE m.movement_type = 'entrada'), 0),
+    COALESCE(SUM(m.quantity) FILTER (WHERE m.movement_type = 'saida'), 0)
+  FROM public.effective_stock_movements(_from, _to) m
+  JOIN public.products p ON p.id = m.product_id
+  WHERE m.movement_type IN ('entrada', 'saida')
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
@@ -0,0 +1,29 @@
+-- O saldo do produto só muda pelas movimentações de estoque, que atualizam current_quantity
+-- a partir de um gatilho. A política de atualização de produtos libera as demais colunas
+-- para estoquistas, então alterações diretas do saldo (fora de um gatilho) são recusadas
+CREATE OR REPLACE FUNCTION public.protect_product_quantity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.current_quantity <> 0 THEN
+    RAISE EXCEPTION 'O saldo inicial do produto deve ser lançado como movimentação de entrada';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.current_quantity IS DISTINCT FROM OLD.current_quantity THEN
+    RAISE EXCEPTION 'O saldo do produto só pode ser alterado por movimentações de estoque';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_product_quantity_changed
+  BEFORE INSERT OR UPDATE OF current_quantity ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_product_quantity();
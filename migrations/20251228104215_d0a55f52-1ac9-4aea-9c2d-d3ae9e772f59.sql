@@ -0,0 +1,304 @@
+-- Ferramentas emprestadas continuam no patrimônio: a retirada e a devolução (e seus estornos)
+-- ficam fora da valorização, como já ficam fora do consumo
+CREATE OR REPLACE FUNCTION public.inventory_valuation(
+  _as_of TIMESTAMPTZ DEFAULT NOW(),
+  _method TEXT DEFAULT 'wac'
+)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  sku TEXT,
+  unit TEXT,
+  category_id UUID,
+  category_name TEXT,
+  quantity DECIMAL,
+  unit_cost DECIMAL,
+  total_value DECIMAL,
+  missing_cost BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _product RECORD;
+  _movement RECORD;
+  _quantity DECIMAL;
+  _average DECIMAL;
+  _value DECIMAL;
+  _missing BOOLEAN;
+  _layer RECORD;
+  _remaining DECIMAL;
+  _opening_uncosted BOOLEAN;
+  _opening_cost DECIMAL;
+BEGIN
+  IF _method NOT IN ('wac', 'fifo') THEN
+    RAISE EXCEPTION 'Método de valorização inválido: %', _method;
+  END IF;
+
+  FOR _product IN
+    SELECT
+      p.id, p.name, p.sku, p.unit, p.category_id, c.name AS category_name,
+      -- Saldo de abertura: o que está no saldo atual sem ter vindo de nenhuma movimentação
+      -- (produtos semeados e saldos copiados para stock_balances antes do histórico)
+      CASE WHEN p.created_at <= _as_of THEN
+        p.current_quantity - COALESCE((
+          SELECT SUM(CASE WHEN m.movement_type IN ('entrada', 'ajuste_entrada') THEN m.quantity ELSE -m.quantity END)
+          FROM public.stock_movements m
+          WHERE m.product_id = p.id
+            AND m.movement_type IN ('entrada', 'saida', 'ajuste_entrada', 'ajuste_saida')
+        ), 0)
+      ELSE 0 END AS opening_quantity
+    FROM public.products p
+    LEFT JOIN public.categories c ON c.id = p.category_id
+    ORDER BY p.name
+  LOOP
+    -- O saldo de abertura não tem custo registrado: nos dois métodos ele vale o custo da
+    -- primeira entrada com custo e fica sem custo enquanto ela não existir
+    _quantity := _product.opening_quantity;
+    _average := 0;
+    _missing := _quantity > 0;
+    _opening_uncosted := _quantity > 0;
+    _opening_cost := NULL;
+
+    -- Custo médio móvel: cada entrada com custo recalcula a média; saídas saem pela média vigente
+    -- e entradas sem custo (ex.: estorno de saída) voltam pela média vigente; a retirada e a
+    -- devolução de um empréstimo não contam, a ferramenta emprestada continua no patrimônio
+    FOR _movement IN
+      SELECT m.movement_type, m.quantity, m.unit_cost
+      FROM public.stock_movements m
+      WHERE m.product_id = _product.id
+        AND m.created_at <= _as_of
+        AND m.movement_type IN ('entrada', 'saida', 'ajuste_entrada', 'ajuste_saida')
+        AND m.tool_loan_id IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM public.stock_movements o
+          WHERE o.id = m.reversed_movement_id AND o.tool_loan_id IS NOT NULL
+        )
+      ORDER BY m.created_at, m.id
+    LOOP
+      IF _movement.movement_type IN ('saida', 'ajuste_saida') THEN
+        _quantity := _quantity - _movement.quantity;
+      ELSIF _movement.unit_cost IS NOT NULL THEN
+        IF _quantity <= 0 OR _opening_uncosted THEN
+          -- O saldo de abertura ainda em estoque passa a valer o primeiro custo conhecido
+          _average := _movement.unit_cost;
+          _missing := false;
+          IF _opening_uncosted THEN
+            _opening_cost := _movement.unit_cost;
+          END IF;
+          _opening_uncosted := false;
+        ELSE
+          _average := (_quantity * _average + _movement.quantity * _movement.unit_cost)
+            / (_quantity + _movement.quantity);
+        END IF;
+        _quantity := _quantity + _movement.quantity;
+      ELSE
+        _missing := _missing OR _quantity <= 0;
+        _quantity := _quantity + _movement.quantity;
+      END IF;
+    END LOOP;
+
+    IF _method = 'wac' THEN
+      _value := GREATEST(_quantity, 0) * _average;
+    ELSE
+      -- PEPS: o saldo em estoque é formado pelas entradas mais recentes,
+      -- desconsiderando entradas estornadas, os próprios estornos e devoluções de empréstimo;
+      -- o que sobrar depois das entradas vem do saldo de abertura, a camada mais antiga
+      _value := 0;
+      _remaining := GREATEST(_quantity, 0);
+      _missing := false;
+
+      FOR _layer IN
+        SELECT m.quantity, m.unit_cost
+        FROM public.stock_movements m
+        WHERE m.product_id = _product.id
+          AND m.created_at <= _as_of
+          AND m.movement_type = 'entrada'
+          AND m.tool_loan_id IS NULL
+          AND m.reversed_movement_id IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM public.stock_movements r
+            WHERE r.reversed_movement_id = m.id AND r.created_at <= _as_of
+          )
+        ORDER BY m.created_at DESC, m.id DESC
+      LOOP
+        EXIT WHEN _remaining <= 0;
+        IF _layer.unit_cost IS NULL THEN
+          _missing := true;
+        ELSE
+          _value := _value + LEAST(_layer.quantity, _remaining) * _layer.unit_cost;
+        END IF;
+        _remaining := _remaining - LEAST(_layer.quantity, _remaining);
+      END LOOP;
+
+      IF _remaining > 0 AND _opening_cost IS NOT NULL THEN
+        _value := _value + _remaining * _opening_cost;
+      ELSIF _remaining > 0 THEN
+        _missing := true;
+      END IF;
+    END IF;
+
+    product_id := _product.id;
+    product_name := _product.name;
+    sku := _product.sku;
+    unit := _product.unit;
+    category_id := _product.category_id;
+    category_name := _product.category_name;
+    quantity := _quantity;
+    unit_cost := CASE WHEN _quantity > 0 THEN ROUND(_value / _quantity, 4) ELSE NULL END;
+    total_value := ROUND(_value, 2);
+    missing_cost := _missing AND _quantity > 0;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Estado da ferramenta validado com mensagem legível antes de gravar o empréstimo
+CREATE OR REPLACE FUNCTION public.checkout_tool(
+  _product_id UUID,
+  _location_id UUID,
+  _borrower_id UUID,
+  _expected_return_date DATE,
+  _quantity DECIMAL DEFAULT NULL,
+  _serial_numbers TEXT[] DEFAULT NULL,
+  _condition TEXT DEFAULT 'bom',
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product RECORD;
+  _loan_id UUID;
+  _movement_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para registrar empréstimos';
+  END IF;
+
+  SELECT p.track_lots, p.track_serials, COALESCE(c.lendable, false) AS lendable
+  INTO _product
+  FROM public.products p
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  WHERE p.id = _product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Produto não encontrado';
+  END IF;
+
+  IF NOT _product.lendable THEN
+    RAISE EXCEPTION 'A categoria deste produto não permite empréstimos';
+  END IF;
+
+  IF _product.track_lots THEN
+    RAISE EXCEPTION 'Produtos com controle de lote não podem ser emprestados';
+  END IF;
+
+  IF _product.track_serials THEN
+    _quantity := COALESCE(array_length(_serial_numbers, 1), 0);
+    IF _quantity = 0 THEN
+      RAISE EXCEPTION 'Informe ao menos um número de série';
+    END IF;
+  ELSIF COALESCE(_quantity, 0) <= 0 THEN
+    RAISE EXCEPTION 'A quantidade deve ser maior que zero';
+  END IF;
+
+  IF _expected_return_date < (now() AT TIME ZONE 'America/Sao_Paulo')::date THEN
+    RAISE EXCEPTION 'A data prevista de devolução não pode estar no passado';
+  END IF;
+
+  IF _condition IS NULL OR _condition NOT IN ('bom', 'regular', 'danificado') THEN
+    RAISE EXCEPTION 'Estado da ferramenta inválido: %. Use bom, regular ou danificado', _condition;
+  END IF;
+
+  INSERT INTO public.tool_loans
+    (product_id, location_id, quantity, borrower_id, expected_return_date, checkout_condition, notes, checked_out_by)
+  VALUES
+    (_product_id, _location_id, _quantity, _borrower_id, _expected_return_date, _condition, _notes, auth.uid())
+  RETURNING id INTO _loan_id;
+
+  INSERT INTO public.stock_movements
+    (product_id, location_id, movement_type, quantity, responsible_user_id, notes, tool_loan_id)
+  VALUES
+    (_product_id, _location_id, 'saida', _quantity, auth.uid(),
+     'Empréstimo #' || (SELECT number FROM public.tool_loans WHERE id = _loan_id), _loan_id)
+  RETURNING id INTO _movement_id;
+
+  IF _product.track_serials THEN
+    PERFORM public.attach_movement_serials(_movement_id, _serial_numbers);
+  END IF;
+
+  RETURN _loan_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.return_tool(
+  _loan_id UUID,
+  _location_id UUID DEFAULT NULL,
+  _condition TEXT DEFAULT 'bom',
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loan public.tool_loans%ROWTYPE;
+  _serial_numbers TEXT[];
+  _movement_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), ARRAY['admin', 'estoquista']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Você não tem permissão para registrar devoluções';
+  END IF;
+
+  SELECT * INTO _loan
+  FROM public.tool_loans
+  WHERE id = _loan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Empréstimo não encontrado';
+  END IF;
+
+  IF _loan.returned_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Esta ferramenta já foi devolvida';
+  END IF;
+
+  IF _condition IS NULL OR _condition NOT IN ('bom', 'regular', 'danificado') THEN
+    RAISE EXCEPTION 'Estado da ferramenta inválido: %. Use bom, regular ou danificado', _condition;
+  END IF;
+
+  SELECT array_agg(s.serial_number ORDER BY s.serial_number)
+  INTO _serial_numbers
+  FROM public.stock_movements m
+  JOIN public.stock_movement_serials l ON l.movement_id = m.id
+  JOIN public.serial_numbers s ON s.id = l.serial_id
+  WHERE m.tool_loan_id = _loan_id
+    AND m.movement_type = 'saida';
+
+  UPDATE public.tool_loans
+  SET return_location_id = COALESCE(_location_id, _loan.location_id),
+      return_condition = _condition,
+      return_notes = _notes,
+      returned_by = auth.uid(),
+      returned_at = NOW()
+  WHERE id = _loan_id;
+
+  INSERT INTO public.stock_movements
+    (product_id, location_id, movement_type, quantity, responsible_user_id, notes, tool_loan_id)
+  VALUES
+    (_loan.product_id, COALESCE(_location_id, _loan.location_id), 'entrada', _loan.quantity, auth.uid(),
+     'Devolução do empréstimo #' || _loan.number, _loan_id)
+  RETURNING id INTO _movement_id;
+
+  IF _serial_numbers IS NOT NULL THEN
+    PERFORM public.attach_movement_serials(_movement_id, _serial_numbers);
+  END IF;
+
+  RETURN _movement_id;
+END;
+$$;
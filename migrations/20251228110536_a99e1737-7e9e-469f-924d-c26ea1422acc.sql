@@ -0,0 +1,72 @@
+-- Nem toda saída é consumo: empréstimos, devoluções ao fornecedor e outras baixas não devem
+-- inflar a sugestão de compra. Cada motivo de saída indica se conta como consumo.
+ALTER TABLE public.movement_reasons
+  ADD COLUMN consumption BOOLEAN NOT NULL DEFAULT false,
+  ADD CONSTRAINT movement_reasons_consumption_direction CHECK (NOT consumption OR direction = 'saida');
+
+UPDATE public.movement_reasons
+SET consumption = true
+WHERE direction = 'saida'
+  AND (code = 'requisicao' OR (code IS NULL AND name IN ('Consumo', 'Consumo por projeto')));
+
+-- Consumo da sugestão de compra: apenas saídas com motivo de consumo; saídas anteriores aos
+-- motivos de movimentação não têm motivo e continuam contando
+CREATE OR REPLACE FUNCTION public.reorder_suggestions(_days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  sku TEXT,
+  unit TEXT,
+  current_quantity DECIMAL,
+  minimum_quantity DECIMAL,
+  consumed_quantity DECIMAL,
+  pending_quantity DECIMAL,
+  last_supplier_id UUID,
+  last_supplier_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.name,
+    p.sku,
+    p.unit,
+    p.current_quantity,
+    p.minimum_quantity,
+    COALESCE((
+      SELECT SUM(m.quantity)
+      FROM public.stock_movements m
+      LEFT JOIN public.movement_reasons mr ON mr.id = m.reason_id
+      WHERE m.product_id = p.id
+        AND m.movement_type = 'saida'
+        AND m.tool_loan_id IS NULL
+        AND m.reversed_movement_id IS NULL
+        AND (m.reason_id IS NULL OR mr.consumption)
+        AND m.created_at >= NOW() - make_interval(days => _days)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.stock_movements r WHERE r.reversed_movement_id = m.id
+        )
+    ), 0),
+    COALESCE((
+      SELECT SUM(i.quantity - i.received_quantity)
+      FROM public.purchase_order_items i
+      JOIN public.purchase_orders o ON o.id = i.purchase_order_id
+      WHERE i.product_id = p.id
+        AND o.status IN ('rascunho', 'aberto', 'parcial')
+    ), 0),
+    s.id,
+    s.name
+  FROM public.products p
+  LEFT JOIN LATERAL (
+    SELECT su.id, su.name
+    FROM public.stock_movements m
+    JOIN public.suppliers su ON su.id = m.supplier_id
+    WHERE m.product_id = p.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) s ON true
+  ORDER BY p.name;
+$$;
@@ -0,0 +1,23 @@
+-- Também não é possível desativar o controle por série com unidades em estoque: as saídas
+-- seguintes deixariam de baixar as unidades, que continuariam constando como em estoque
+CREATE OR REPLACE FUNCTION public.validate_track_serials()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.track_serials AND NOT OLD.track_serials AND EXISTS (
+    SELECT 1 FROM public.stock_balances WHERE product_id = NEW.id AND quantity <> 0
+  ) THEN
+    RAISE EXCEPTION 'Zere o saldo do produto antes de ativar o controle por número de série';
+  END IF;
+
+  IF OLD.track_serials AND NOT NEW.track_serials AND EXISTS (
+    SELECT 1 FROM public.serial_numbers WHERE product_id = NEW.id AND status = 'em_estoque'
+  ) THEN
+    RAISE EXCEPTION 'Dê baixa nas unidades com número de série antes de desativar o controle por número de série';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
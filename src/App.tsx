@@ -8,6 +8,22 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Products from "./pages/Products";
 import Stock from "./pages/Stock";
+import Users from "./pages/Users";
+import Locations from "./pages/Locations";
+import Categories from "./pages/Categories";
+import Units from "./pages/Units";
+import MovementReasons from "./pages/MovementReasons";
+import Labels from "./pages/Labels";
+import Suppliers from "./pages/Suppliers";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import Reorder from "./pages/Reorder";
+import Valuation from "./pages/Valuation";
+import InventoryCounts from "./pages/InventoryCounts";
+import InventoryCount from "./pages/InventoryCount";
+import ToolLoans from "./pages/ToolLoans";
+import Requisitions from "./pages/Requisitions";
+import CostCenters from "./pages/CostCenters";
+import Movements from "./pages/Movements";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,6 +40,22 @@ const App = () => (
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/products" element={<Products />} />
           <Route path="/stock" element={<Stock />} />
+          <Route path="/users" element={<Users />} />
+          <Route path="/locations" element={<Locations />} />
+          <Route path="/categories" element={<Categories />} />
+          <Route path="/units" element={<Units />} />
+          <Route path="/movement-reasons" element={<MovementReasons />} />
+          <Route path="/labels" element={<Labels />} />
+          <Route path="/suppliers" element={<Suppliers />} />
+          <Route path="/purchase-orders" element={<PurchaseOrders />} />
+          <Route path="/reorder" element={<Reorder />} />
+          <Route path="/valuation" element={<Valuation />} />
+          <Route path="/inventory-counts" element={<InventoryCounts />} />
+          <Route path="/inventory-counts/:id" element={<InventoryCount />} />
+          <Route path="/tool-loans" element={<ToolLoans />} />
+          <Route path="/requisitions" element={<Requisitions />} />
+          <Route path="/cost-centers" element={<CostCenters />} />
+          <Route path="/movements" element={<Movements />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
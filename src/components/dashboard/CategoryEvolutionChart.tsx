@@ -0,0 +1,91 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CategorySeries } from "@/lib/dashboard";
+
+const SERIES_COLORS = [
+  "hsl(var(--primary))",
+  "hsl(var(--success))",
+  "hsl(var(--warning))",
+  "hsl(var(--destructive))",
+  "hsl(262 83% 58%)",
+  "hsl(190 90% 40%)",
+  "hsl(var(--muted-foreground))",
+];
+
+interface CategoryEvolutionChartProps {
+  series: CategorySeries[];
+  data: Record<string, string | number>[];
+  // Quantities in different units cannot be added up, so one unit is charted at a time
+  units: string[];
+  unit: string;
+  onUnitChange: (unit: string) => void;
+}
+
+export const CategoryEvolutionChart = ({ series, data, units, unit, onUnitChange }: CategoryEvolutionChartProps) => {
+  const chartConfig: ChartConfig = Object.fromEntries(
+    series.map((s, index) => [s.key, { label: s.name, color: SERIES_COLORS[index % SERIES_COLORS.length] }])
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Evolução do Estoque por Categoria</CardTitle>
+          <CardDescription>
+            Quantidade em estoque ao fim de cada período{unit && `, em ${unit}`}
+          </CardDescription>
+        </div>
+        {units.length > 1 && (
+          <Select value={unit} onValueChange={onUnitChange}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {units.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="h-72 w-full">
+          <LineChart data={data}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+            <YAxis tickLine={false} axisLine={false} width={48} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {series.map((s) => (
+              <Line
+                key={s.key}
+                dataKey={s.key}
+                type="monotone"
+                stroke={`var(--color-${s.key})`}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { DateRange } from "react-day-picker";
+import { endOfDay, format, startOfDay } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CalendarIcon } from "lucide-react";
+import { DashboardRange, RANGE_PRESETS, lastDays } from "@/lib/dashboard";
+
+interface DateRangePickerProps {
+  value: DashboardRange;
+  onChange: (range: DashboardRange) => void;
+}
+
+export const DateRangePicker = ({ value, onChange }: DateRangePickerProps) => {
+  const [open, setOpen] = useState(false);
+  // Kept apart from `value` so the widgets only reload once both ends are picked;
+  // starting empty makes the first click begin a new range instead of extending the current one
+  const [draft, setDraft] = useState<DateRange | undefined>();
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setDraft(undefined);
+    setOpen(isOpen);
+  };
+
+  const handleSelect = (range: DateRange | undefined) => {
+    setDraft(range);
+    if (range?.from && range.to) {
+      onChange({ from: startOfDay(range.from), to: endOfDay(range.to) });
+      setOpen(false);
+    }
+  };
+
+  const applyPreset = (days: number) => {
+    onChange(lastDays(days));
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="justify-start font-normal">
+          <CalendarIcon className="h-4 w-4 mr-2" />
+          {format(value.from, "dd/MM/yyyy", { locale: ptBR })} - {format(value.to, "dd/MM/yyyy", { locale: ptBR })}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <div className="flex">
+          <div className="flex flex-col gap-1 border-r p-3">
+            {RANGE_PRESETS.map((preset) => (
+              <Button
+                key={preset.days}
+                variant="ghost"
+                size="sm"
+                className="justify-start"
+                onClick={() => applyPreset(preset.days)}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+          <Calendar
+            mode="range"
+            locale={ptBR}
+            numberOfMonths={2}
+            defaultMonth={value.from}
+            selected={draft}
+            onSelect={handleSelect}
+            disabled={{ after: new Date() }}
+            initialFocus
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,79 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CalendarClock } from "lucide-react";
+import { EXPIRY_WARNING_DAYS, formatExpiryDate, getExpiryStatus } from "@/lib/lots";
+
+export interface ExpiringLot {
+  lot_id: string;
+  lot_number: string;
+  expiry_date: string;
+  product_name: string;
+  unit: string;
+  quantity: number;
+}
+
+interface ExpiringLotsCardProps {
+  lots: ExpiringLot[];
+}
+
+export const ExpiringLotsCard = ({ lots }: ExpiringLotsCardProps) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <CalendarClock className="h-5 w-5" />
+        Lotes a Vencer
+      </CardTitle>
+      <CardDescription>
+        Lotes com saldo vencidos ou que vencem nos próximos {EXPIRY_WARNING_DAYS} dias
+      </CardDescription>
+    </CardHeader>
+    <CardContent>
+      {lots.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum lote próximo do vencimento</p>
+      ) : (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Produto</TableHead>
+                <TableHead>Lote</TableHead>
+                <TableHead>Validade</TableHead>
+                <TableHead className="text-right">Saldo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lots.map((lot) => {
+                const status = getExpiryStatus(lot.expiry_date);
+                return (
+                  <TableRow key={lot.lot_id}>
+                    <TableCell className="font-medium">{lot.product_name}</TableCell>
+                    <TableCell>{lot.lot_number}</TableCell>
+                    <TableCell>
+                      {formatExpiryDate(lot.expiry_date)}
+                      {status && (
+                        <Badge variant={status.variant} className="ml-2">
+                          {status.label}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {lot.quantity.toFixed(2)} {lot.unit}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
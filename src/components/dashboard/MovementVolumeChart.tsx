@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { VolumePoint } from "@/lib/dashboard";
+
+type Metric = "quantity" | "count";
+
+const chartConfig = {
+  entradas: { label: "Entradas", color: "hsl(var(--success))" },
+  saidas: { label: "Saídas", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+interface MovementVolumeChartProps {
+  data: VolumePoint[];
+  // Quantities in different units cannot be added up, so one unit is charted at a time
+  units: string[];
+  unit: string;
+  onUnitChange: (unit: string) => void;
+}
+
+export const MovementVolumeChart = ({ data, units, unit, onUnitChange }: MovementVolumeChartProps) => {
+  const [metric, setMetric] = useState<Metric>("quantity");
+
+  const chartData = data.map((point) => ({
+    label: point.label,
+    entradas: metric === "quantity" ? point.entradas : point.entradasCount,
+    saidas: metric === "quantity" ? point.saidas : point.saidasCount,
+  }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Entradas x Saídas</CardTitle>
+          <CardDescription>
+            {metric === "quantity" ? `Quantidade movimentada${unit && ` em ${unit}`}` : "Número de movimentações"} no período
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          {metric === "quantity" && units.length > 1 && (
+            <Select value={unit} onValueChange={onUnitChange}>
+              <SelectTrigger className="h-9 w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {units.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={metric}
+            onValueChange={(value) => value && setMetric(value as Metric)}
+          >
+            <ToggleGroupItem value="quantity">Quantidade</ToggleGroupItem>
+            <ToggleGroupItem value="count">Movimentações</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="h-72 w-full">
+          <BarChart data={chartData}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+            <YAxis tickLine={false} axisLine={false} width={48} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="entradas" fill="var(--color-entradas)" radius={4} />
+            <Bar dataKey="saidas" fill="var(--color-saidas)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,79 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Hammer } from "lucide-react";
+import { daysOverdue, formatLoanNumber, formatReturnDate } from "@/lib/loans";
+
+export interface OverdueLoan {
+  id: string;
+  number: number;
+  quantity: number;
+  expected_return_date: string;
+  returned_at: string | null;
+  products: { name: string; unit: string };
+  profiles: { full_name: string };
+}
+
+interface OverdueLoansCardProps {
+  loans: OverdueLoan[];
+  onOpen: () => void;
+}
+
+export const OverdueLoansCard = ({ loans, onOpen }: OverdueLoansCardProps) => (
+  <Card className={loans.length > 0 ? "border-destructive" : ""}>
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <Hammer className={`h-5 w-5 ${loans.length > 0 ? "text-destructive" : ""}`} />
+        Empréstimos em Atraso
+      </CardTitle>
+      <CardDescription>
+        Ferramentas que passaram da data prevista de devolução
+      </CardDescription>
+    </CardHeader>
+    <CardContent>
+      {loans.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhuma ferramenta em atraso</p>
+      ) : (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Empréstimo</TableHead>
+                <TableHead>Ferramenta</TableHead>
+                <TableHead>Com</TableHead>
+                <TableHead>Devolução Prevista</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loans.map((loan) => (
+                <TableRow key={loan.id} className="cursor-pointer bg-destructive/5" onClick={onOpen}>
+                  <TableCell className="font-medium">{formatLoanNumber(loan.number)}</TableCell>
+                  <TableCell>
+                    {loan.products.name}
+                    <p className="text-xs text-muted-foreground">
+                      {loan.quantity.toFixed(2)} {loan.products.unit}
+                    </p>
+                  </TableCell>
+                  <TableCell>{loan.profiles.full_name}</TableCell>
+                  <TableCell>
+                    {formatReturnDate(loan.expected_return_date)}
+                    <Badge variant="destructive" className="ml-2">
+                      {daysOverdue(loan)} dia(s) de atraso
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
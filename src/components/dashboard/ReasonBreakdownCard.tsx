@@ -0,0 +1,55 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ListTree, TrendingDown, TrendingUp } from "lucide-react";
+import { ReasonBreakdownRow } from "@/lib/dashboard";
+
+interface ReasonBreakdownCardProps {
+  rows: ReasonBreakdownRow[];
+}
+
+const ReasonList = ({ title, rows, inbound }: { title: string; rows: ReasonBreakdownRow[]; inbound: boolean }) => {
+  const total = rows.reduce((sum, row) => sum + row.movements, 0);
+  const Icon = inbound ? TrendingUp : TrendingDown;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <Icon className={`h-4 w-4 ${inbound ? "text-success" : "text-destructive"}`} />
+        {title}
+      </p>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhuma movimentação no período</p>
+      ) : (
+        rows.map((row) => (
+          <div key={row.reason_id ?? "none"} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span>{row.reason_name}</span>
+              <span className="text-muted-foreground">
+                {row.movements} mov.
+              </span>
+            </div>
+            <Progress value={total > 0 ? (row.movements / total) * 100 : 0} className="h-2" />
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export const ReasonBreakdownCard = ({ rows }: ReasonBreakdownCardProps) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <ListTree className="h-5 w-5" />
+        Movimentações por Motivo
+      </CardTitle>
+      <CardDescription>
+        Por que o estoque entrou e saiu no período
+      </CardDescription>
+    </CardHeader>
+    <CardContent className="grid gap-8 md:grid-cols-2">
+      <ReasonList title="Entradas" rows={rows.filter((row) => row.direction === "entrada")} inbound />
+      <ReasonList title="Saídas" rows={rows.filter((row) => row.direction === "saida")} inbound={false} />
+    </CardContent>
+  </Card>
+);
@@ -0,0 +1,55 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ConsumedProduct } from "@/lib/dashboard";
+
+const chartConfig = {
+  quantity: { label: "Consumo", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+interface TopConsumedChartProps {
+  data: ConsumedProduct[];
+}
+
+export const TopConsumedChart = ({ data }: TopConsumedChartProps) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>Produtos Mais Consumidos</CardTitle>
+      <CardDescription>Maiores saídas no período</CardDescription>
+    </CardHeader>
+    <CardContent>
+      {data.length === 0 ? (
+        <div className="h-72 flex items-center justify-center text-sm text-muted-foreground">
+          Nenhuma saída no período
+        </div>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-72 w-full">
+          <BarChart data={data} layout="vertical" margin={{ left: 8 }}>
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" tickLine={false} axisLine={false} />
+            <YAxis
+              type="category"
+              dataKey="name"
+              tickLine={false}
+              axisLine={false}
+              width={120}
+              tickFormatter={(value: string) => (value.length > 18 ? `${value.slice(0, 17)}…` : value)}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value, _name, item) => (
+                    <span className="font-mono font-medium">
+                      {Number(value).toLocaleString("pt-BR")} {item.payload.unit}
+                    </span>
+                  )}
+                />
+              }
+            />
+            <Bar dataKey="quantity" fill="var(--color-quantity)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      )}
+    </CardContent>
+  </Card>
+);
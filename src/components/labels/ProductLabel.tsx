@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from "react";
+import JsBarcode from "jsbarcode";
+import { QRCodeSVG } from "qrcode.react";
+import type { LabelCodeType, LabelLayout } from "@/lib/labels";
+
+export interface LabelProduct {
+  id: string;
+  name: string;
+  sku: string | null;
+  barcode: string | null;
+  unit: string;
+}
+
+interface ProductLabelProps {
+  product: LabelProduct;
+  layout: LabelLayout;
+  codeType: LabelCodeType;
+}
+
+// The barcode wins over the SKU since it is what scanners read at the counter
+export function getLabelCode(product: LabelProduct) {
+  return product.barcode || product.sku;
+}
+
+// Only printable ASCII goes into CODE128; anything else (e.g. "É", "Ç") falls back to a QR code
+// so one bad SKU does not break the whole sheet
+const CODE128_PATTERN = /^[\x20-\x7E]+$/;
+
+const Code128 = ({ value, height }: { value: string; height: number }) => {
+  const ref = useRef<SVGSVGElement>(null);
+  const [failedValue, setFailedValue] = useState<string | null>(null);
+  const invalid = !CODE128_PATTERN.test(value) || failedValue === value;
+
+  useEffect(() => {
+    if (ref.current) {
+      try {
+        JsBarcode(ref.current, value, {
+          format: "CODE128",
+          displayValue: false,
+          margin: 0,
+          height: 40,
+        });
+      } catch {
+        setFailedValue(value);
+      }
+    }
+  }, [value]);
+
+  if (invalid) {
+    return <QRCodeSVG value={value} style={{ width: `${height}mm`, height: `${height}mm` }} />;
+  }
+
+  return (
+    <svg
+      ref={ref}
+      style={{ height: `${height}mm`, maxWidth: "100%" }}
+      preserveAspectRatio="none"
+    />
+  );
+};
+
+export const ProductLabel = ({ product, layout, codeType }: ProductLabelProps) => {
+  const code = getLabelCode(product);
+  // Small labels leave a couple of millimetres for padding and two lines of text
+  const codeSize = Math.max(layout.labelHeight - 12, 6);
+
+  return (
+    <div
+      className="flex flex-col items-center justify-center overflow-hidden text-black text-center"
+      style={{
+        width: `${layout.labelWidth}mm`,
+        height: `${layout.labelHeight}mm`,
+        padding: "1.5mm",
+      }}
+    >
+      <p className="w-full truncate font-semibold leading-tight" style={{ fontSize: "2.8mm" }}>
+        {product.name}
+      </p>
+      {code && (
+        <div className="flex items-center justify-center my-[0.5mm]">
+          {codeType === "qr" ? (
+            <QRCodeSVG value={code} style={{ width: `${codeSize}mm`, height: `${codeSize}mm` }} />
+          ) : (
+            <Code128 value={code} height={codeSize} />
+          )}
+        </div>
+      )}
+      <p className="w-full truncate leading-tight" style={{ fontSize: "2.2mm" }}>
+        {[product.sku && `SKU ${product.sku}`, product.unit].filter(Boolean).join(" · ")}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,320 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { ProductCombobox, ProductOption } from "@/components/stock/ProductCombobox";
+import { TOOL_CONDITION_LABELS } from "@/lib/loans";
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+export interface LendableProduct extends ProductOption {
+  unit: string;
+  track_serials: boolean;
+}
+
+interface AvailableSerial {
+  id: string;
+  serial_number: string;
+}
+
+interface ToolCheckoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: LendableProduct[];
+  locations: Option[];
+  people: Option[];
+  onCheckedOut: () => void;
+}
+
+const emptyForm = () => ({
+  product_id: "",
+  location_id: "",
+  borrower_id: "",
+  quantity: "1",
+  expected_return_date: format(new Date(), "yyyy-MM-dd"),
+  condition: "bom",
+  notes: "",
+});
+
+export const ToolCheckoutDialog = ({
+  open,
+  onOpenChange,
+  products,
+  locations,
+  people,
+  onCheckedOut,
+}: ToolCheckoutDialogProps) => {
+  const [formData, setFormData] = useState(emptyForm);
+  const [available, setAvailable] = useState<number | null>(null);
+  const [serials, setSerials] = useState<AvailableSerial[]>([]);
+  const [serialIds, setSerialIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const selectedProduct = products.find((p) => p.id === formData.product_id);
+
+  useEffect(() => {
+    setSerialIds([]);
+    if (formData.product_id && formData.location_id) {
+      loadAvailability(formData.product_id, formData.location_id);
+    } else {
+      setAvailable(null);
+      setSerials([]);
+    }
+  }, [formData.product_id, formData.location_id]);
+
+  const loadAvailability = async (productId: string, locationId: string) => {
+    const [{ data: balance }, { data: serialData }] = await Promise.all([
+      supabase
+        .from("stock_balances")
+        .select("quantity")
+        .eq("product_id", productId)
+        .eq("location_id", locationId)
+        .maybeSingle(),
+      supabase
+        .from("serial_numbers")
+        .select("id, serial_number")
+        .eq("product_id", productId)
+        .eq("location_id", locationId)
+        .eq("status", "em_estoque")
+        .order("serial_number"),
+    ]);
+
+    setAvailable(balance?.quantity ?? 0);
+    setSerials(serialData || []);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setFormData(emptyForm());
+    }
+    onOpenChange(value);
+  };
+
+  const toggleSerial = (serialId: string, checked: boolean) => {
+    setSerialIds(checked ? [...serialIds, serialId] : serialIds.filter((id) => id !== serialId));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.product_id || !formData.location_id || !formData.borrower_id || !formData.expected_return_date) {
+      toast.error("Preencha todos os campos obrigatórios");
+      return;
+    }
+
+    if (selectedProduct?.track_serials && serialIds.length === 0) {
+      toast.error("Selecione as unidades emprestadas");
+      return;
+    }
+
+    const quantity = parseFloat(formData.quantity);
+    if (!selectedProduct?.track_serials && !(quantity > 0)) {
+      toast.error("A quantidade deve ser maior que zero");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("checkout_tool", {
+      _product_id: formData.product_id,
+      _location_id: formData.location_id,
+      _borrower_id: formData.borrower_id,
+      _expected_return_date: formData.expected_return_date,
+      _quantity: selectedProduct?.track_serials ? undefined : quantity,
+      _serial_numbers: selectedProduct?.track_serials
+        ? serials.filter((s) => serialIds.includes(s.id)).map((s) => s.serial_number)
+        : undefined,
+      _condition: formData.condition,
+      _notes: formData.notes || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.message || "Erro ao registrar empréstimo");
+    } else {
+      toast.success("Empréstimo registrado com sucesso!");
+      handleOpenChange(false);
+      onCheckedOut();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Novo Empréstimo</DialogTitle>
+          <DialogDescription>
+            A ferramenta sai do estoque e fica com a pessoa até a devolução
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Ferramenta *</Label>
+            <ProductCombobox
+              products={products}
+              value={formData.product_id}
+              onChange={(productId) => setFormData({...formData, product_id: productId})}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Local de Retirada *</Label>
+              <Select
+                value={formData.location_id}
+                onValueChange={(value) => setFormData({...formData, location_id: value})}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione um local" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedProduct && available !== null && (
+                <p className="text-sm text-muted-foreground">
+                  Disponível: {available.toFixed(2)} {selectedProduct.unit}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Retirado por *</Label>
+              <Select
+                value={formData.borrower_id}
+                onValueChange={(value) => setFormData({...formData, borrower_id: value})}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a pessoa" />
+                </SelectTrigger>
+                <SelectContent>
+                  {people.map((person) => (
+                    <SelectItem key={person.id} value={person.id}>
+                      {person.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {selectedProduct?.track_serials ? (
+            formData.location_id && (
+              <div className="space-y-2">
+                <Label>Unidades *</Label>
+                <div className="border rounded-lg max-h-48 overflow-y-auto p-3 space-y-2">
+                  {serials.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nenhuma unidade neste local</p>
+                  ) : (
+                    serials.map((serial) => (
+                      <div key={serial.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`loan-serial-${serial.id}`}
+                          checked={serialIds.includes(serial.id)}
+                          onCheckedChange={(checked) => toggleSerial(serial.id, checked === true)}
+                        />
+                        <Label htmlFor={`loan-serial-${serial.id}`} className="font-normal">
+                          {serial.serial_number}
+                        </Label>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            )
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="loan_quantity">Quantidade *</Label>
+              <Input
+                id="loan_quantity"
+                type="number"
+                step="1"
+                min="1"
+                value={formData.quantity}
+                onChange={(e) => setFormData({...formData, quantity: e.target.value})}
+                required
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="expected_return_date">Devolução Prevista *</Label>
+              <Input
+                id="expected_return_date"
+                type="date"
+                min={format(new Date(), "yyyy-MM-dd")}
+                value={formData.expected_return_date}
+                onChange={(e) => setFormData({...formData, expected_return_date: e.target.value})}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Estado na Retirada *</Label>
+              <Select
+                value={formData.condition}
+                onValueChange={(value) => setFormData({...formData, condition: value})}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TOOL_CONDITION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="loan_notes">Observações</Label>
+            <Textarea
+              id="loan_notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({...formData, notes: e.target.value})}
+              placeholder="Ex.: obra da rua A, acompanha maleta e duas brocas"
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Registrando..." : "Registrar Empréstimo"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { TOOL_CONDITION_LABELS, formatLoanNumber, getToolConditionLabel } from "@/lib/loans";
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface ToolReturnDialogProps {
+  loan: {
+    id: string;
+    number: number;
+    quantity: number;
+    location_id: string;
+    checkout_condition: string;
+    products: { name: string; unit: string };
+    profiles: { full_name: string };
+  } | null;
+  locations: Option[];
+  onClose: () => void;
+  onReturned: () => void;
+}
+
+export const ToolReturnDialog = ({ loan, locations, onClose, onReturned }: ToolReturnDialogProps) => {
+  const [locationId, setLocationId] = useState("");
+  const [condition, setCondition] = useState("bom");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (loan) {
+      setLocationId(loan.location_id);
+      setCondition(loan.checkout_condition);
+    }
+  }, [loan]);
+
+  const handleClose = () => {
+    setLocationId("");
+    setCondition("bom");
+    setNotes("");
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    const { error } = await supabase.rpc("return_tool", {
+      _loan_id: loan.id,
+      _location_id: locationId || undefined,
+      _condition: condition,
+      _notes: notes || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.message || "Erro ao registrar devolução");
+    } else {
+      toast.success("Devolução registrada! A ferramenta voltou ao estoque.");
+      handleClose();
+      onReturned();
+    }
+  };
+
+  return (
+    <Dialog open={!!loan} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Devolução do Empréstimo {loan && formatLoanNumber(loan.number)}</DialogTitle>
+          <DialogDescription>
+            {loan && `${loan.products.name} (${loan.quantity.toFixed(2)} ${loan.products.unit}) com ${loan.profiles.full_name}`}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Devolver para *</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Estado na Devolução *</Label>
+              <Select value={condition} onValueChange={setCondition}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TOOL_CONDITION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {loan && (
+                <p className="text-sm text-muted-foreground">
+                  Saiu em estado {getToolConditionLabel(loan.checkout_condition).toLowerCase()}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return_notes">Observações</Label>
+            <Textarea
+              id="return_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Ex.: cabo com desgaste, encaminhar para manutenção"
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Registrando..." : "Registrar Devolução"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
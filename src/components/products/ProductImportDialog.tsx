@@ -0,0 +1,481 @@
+import { useEffect, useMemo, useState } from "react";
+import Papa from "papaparse";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, CheckCircle2, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+interface Unit {
+  code: string;
+  name: string;
+}
+
+type ImportField =
+  | "name"
+  | "description"
+  | "category"
+  | "unit"
+  | "minimum_quantity"
+  | "opening_balance";
+
+type ColumnMapping = Record<ImportField, string>;
+
+interface PreviewRow {
+  line: number;
+  name: string;
+  description: string;
+  category: string;
+  unit: string;
+  minimum_quantity: number;
+  opening_balance: number;
+  errors: string[];
+  warnings: string[];
+}
+
+interface ProductImportDialogProps {
+  categories: Category[];
+  units: Unit[];
+  existingProductNames: string[];
+  // Only roles that manage categories may have the import create missing ones
+  canCreateCategories: boolean;
+  onImported: () => void;
+}
+
+const FIELDS: { value: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { value: "name", label: "Nome", required: true, aliases: ["nome", "name", "produto"] },
+  { value: "description", label: "Descrição", aliases: ["descricao", "description"] },
+  { value: "category", label: "Categoria", aliases: ["categoria", "category"] },
+  { value: "unit", label: "Unidade", required: true, aliases: ["unidade", "unit", "un"] },
+  {
+    value: "minimum_quantity",
+    label: "Quantidade Mínima",
+    aliases: ["quantidade minima", "minimo", "estoque minimo", "minimum_quantity"],
+  },
+  {
+    value: "opening_balance",
+    label: "Saldo Inicial",
+    aliases: ["saldo inicial", "saldo", "quantidade", "opening_balance"],
+  },
+];
+
+const NOT_MAPPED = "__none__";
+
+function normalize(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+}
+
+function guessMapping(headers: string[]) {
+  const mapping = {} as ColumnMapping;
+  FIELDS.forEach((field) => {
+    const header = headers.find((h) => field.aliases.includes(normalize(h)));
+    mapping[field.value] = header ?? NOT_MAPPED;
+  });
+  return mapping;
+}
+
+// Accepts both "1.234,5" (pt-BR) and "1234.5"; blank cells count as zero
+function parseNumber(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return 0;
+  }
+  const normalized = trimmed.includes(",")
+    ? trimmed.replace(/\./g, "").replace(",", ".")
+    : trimmed;
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : NaN;
+}
+
+function resolveUnit(units: Unit[], value: string) {
+  const normalized = normalize(value);
+  return units.find((u) => normalize(u.code) === normalized || normalize(u.name) === normalized)?.code;
+}
+
+export const ProductImportDialog = ({
+  categories,
+  units,
+  existingProductNames,
+  canCreateCategories,
+  onImported,
+}: ProductImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<"upload" | "map" | "preview">("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [records, setRecords] = useState<Record<string, string>[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(guessMapping([]));
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationId, setLocationId] = useState("");
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadLocations();
+    }
+  }, [open]);
+
+  const loadLocations = async () => {
+    const { data, error } = await supabase
+      .from("locations")
+      .select("id, name")
+      .order("name");
+
+    if (error) {
+      toast.error("Erro ao carregar locais");
+    } else {
+      setLocations(data || []);
+    }
+  };
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setRecords([]);
+    setMapping(guessMapping([]));
+    setLocationId("");
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) {
+      reset();
+    }
+  };
+
+  const handleFile = (file: File) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: "greedy",
+      transformHeader: (header) => header.trim(),
+      complete: (result) => {
+        const fields = (result.meta.fields || []).filter(Boolean);
+        if (fields.length === 0 || result.data.length === 0) {
+          toast.error("O arquivo não contém linhas para importar");
+          return;
+        }
+        setFileName(file.name);
+        setHeaders(fields);
+        setRecords(result.data);
+        setMapping(guessMapping(fields));
+        setStep("map");
+      },
+      error: () => toast.error("Erro ao ler o arquivo CSV"),
+    });
+  };
+
+  const rows = useMemo<PreviewRow[]>(() => {
+    const existingNames = new Set(existingProductNames.map(normalize));
+    const knownCategories = new Set(categories.map((c) => normalize(c.name)));
+    const seenNames = new Set<string>();
+
+    const cell = (record: Record<string, string>, field: ImportField) =>
+      mapping[field] === NOT_MAPPED ? "" : (record[mapping[field]] ?? "").trim();
+
+    return records.map((record, index) => {
+      const errors: string[] = [];
+      const warnings: string[] = [];
+
+      const name = cell(record, "name");
+      const category = cell(record, "category");
+      const rawUnit = cell(record, "unit");
+      const unit = resolveUnit(units, rawUnit);
+      const minimumQuantity = parseNumber(cell(record, "minimum_quantity"));
+      const openingBalance = parseNumber(cell(record, "opening_balance"));
+
+      if (!name) {
+        errors.push("Nome obrigatório");
+      } else if (seenNames.has(normalize(name))) {
+        warnings.push("Nome repetido no arquivo");
+      } else if (existingNames.has(normalize(name))) {
+        warnings.push("Já existe produto com este nome");
+      }
+      seenNames.add(normalize(name));
+
+      if (!unit) {
+        errors.push(rawUnit ? `Unidade inválida: ${rawUnit}` : "Unidade obrigatória");
+      }
+      if (isNaN(minimumQuantity) || minimumQuantity < 0) {
+        errors.push("Quantidade mínima inválida");
+      }
+      if (isNaN(openingBalance) || openingBalance < 0) {
+        errors.push("Saldo inicial inválido");
+      } else if (openingBalance > 0 && !locationId) {
+        errors.push("Selecione o local do saldo inicial");
+      }
+      if (category && !knownCategories.has(normalize(category))) {
+        if (canCreateCategories) {
+          warnings.push(`Categoria "${category}" será criada`);
+        } else {
+          errors.push(`Categoria não cadastrada: ${category}`);
+        }
+      }
+
+      return {
+        // Header is line 1 of the file
+        line: index + 2,
+        name,
+        description: cell(record, "description"),
+        category,
+        unit: unit ?? rawUnit,
+        minimum_quantity: minimumQuantity,
+        opening_balance: openingBalance,
+        errors,
+        warnings,
+      };
+    });
+  }, [records, mapping, locationId, categories, units, existingProductNames, canCreateCategories]);
+
+  const validRows = rows.filter((r) => r.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+  const needsLocation = mapping.opening_balance !== NOT_MAPPED;
+
+  const handleContinue = () => {
+    const missing = FIELDS.filter((f) => f.required && mapping[f.value] === NOT_MAPPED);
+    if (missing.length > 0) {
+      toast.error(`Associe a coluna: ${missing.map((f) => f.label).join(", ")}`);
+      return;
+    }
+    setStep("preview");
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+
+    const { data, error } = await supabase.rpc("import_products", {
+      _products: validRows.map((r) => ({
+        line: r.line,
+        name: r.name,
+        description: r.description,
+        category: r.category,
+        unit: r.unit,
+        minimum_quantity: r.minimum_quantity,
+        opening_balance: r.opening_balance,
+      })),
+      _location_id: locationId || undefined,
+    });
+
+    setImporting(false);
+
+    if (error) {
+      toast.error(error.message || "Erro ao importar produtos");
+    } else {
+      toast.success(`${data} produto(s) importado(s) com sucesso!`);
+      handleOpenChange(false);
+      onImported();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Importar CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar Produtos</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Selecione um arquivo CSV com uma linha de cabeçalho"}
+            {step === "map" && `Associe as colunas de ${fileName} aos campos do produto`}
+            {step === "preview" &&
+              `${validRows.length} linha(s) válida(s) e ${invalidCount} com erro. Apenas as válidas serão importadas`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-2">
+            <Label htmlFor="import_file">Arquivo CSV</Label>
+            <Input
+              id="import_file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  handleFile(file);
+                }
+              }}
+            />
+            <p className="text-sm text-muted-foreground">
+              Separador vírgula ou ponto e vírgula. Unidades aceitas:{" "}
+              {units.map((u) => u.code).join(", ")}
+            </p>
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {FIELDS.map((field) => (
+                <div key={field.value} className="space-y-2">
+                  <Label>
+                    {field.label}
+                    {field.required && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field.value]}
+                    onValueChange={(value) => setMapping({ ...mapping, [field.value]: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Não importar</SelectItem>
+                      {headers.map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {needsLocation && (
+              <div className="space-y-2">
+                <Label>Local do Saldo Inicial</Label>
+                <Select value={locationId} onValueChange={setLocationId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione o local" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={reset}>
+                Voltar
+              </Button>
+              <Button type="button" onClick={handleContinue}>
+                Pré-visualizar
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Linha</TableHead>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Categoria</TableHead>
+                    <TableHead>Unidade</TableHead>
+                    <TableHead className="text-right">Mínimo</TableHead>
+                    <TableHead className="text-right">Saldo Inicial</TableHead>
+                    <TableHead>Situação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow
+                      key={row.line}
+                      className={row.errors.length > 0 ? "bg-destructive/10" : undefined}
+                    >
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell className="font-medium">{row.name || "-"}</TableCell>
+                      <TableCell>{row.category || "-"}</TableCell>
+                      <TableCell>{row.unit || "-"}</TableCell>
+                      <TableCell className="text-right">
+                        {isNaN(row.minimum_quantity) ? "-" : row.minimum_quantity.toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isNaN(row.opening_balance) ? "-" : row.opening_balance.toFixed(2)}
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.length > 0 ? (
+                          <div className="flex items-start gap-1 text-destructive text-sm">
+                            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                            <span>{row.errors.join("; ")}</span>
+                          </div>
+                        ) : (
+                          <div className="space-y-1">
+                            <Badge variant="outline" className="gap-1">
+                              <CheckCircle2 className="h-3 w-3" />
+                              Válida
+                            </Badge>
+                            {row.warnings.map((warning) => (
+                              <p key={warning} className="text-xs text-muted-foreground">
+                                {warning}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setStep("map")}>
+                Voltar
+              </Button>
+              <Button
+                type="button"
+                onClick={handleImport}
+                disabled={validRows.length === 0 || importing}
+              >
+                {importing ? "Importando..." : `Importar ${validRows.length} produto(s)`}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
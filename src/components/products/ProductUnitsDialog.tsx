@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface Unit {
+  code: string;
+  name: string;
+}
+
+interface Conversion {
+  id: string;
+  unit_code: string;
+  factor: number;
+}
+
+interface ProductUnitsDialogProps {
+  product: { id: string; name: string; unit: string } | null;
+  units: Unit[];
+  canEdit: boolean;
+  onClose: () => void;
+}
+
+export const ProductUnitsDialog = ({ product, units, canEdit, onClose }: ProductUnitsDialogProps) => {
+  const [conversions, setConversions] = useState<Conversion[]>([]);
+  const [unitCode, setUnitCode] = useState("");
+  const [factor, setFactor] = useState("");
+
+  useEffect(() => {
+    if (product) {
+      loadConversions(product.id);
+    }
+  }, [product]);
+
+  const loadConversions = async (productId: string) => {
+    const { data } = await supabase
+      .from("product_unit_conversions")
+      .select("id, unit_code, factor")
+      .eq("product_id", productId)
+      .order("unit_code");
+
+    setConversions(data || []);
+  };
+
+  const handleClose = () => {
+    setConversions([]);
+    setUnitCode("");
+    setFactor("");
+    onClose();
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(factor);
+    if (!unitCode || !(value > 0)) {
+      toast.error("Informe a unidade e um fator maior que zero");
+      return;
+    }
+
+    const { error } = await supabase
+      .from("product_unit_conversions")
+      .insert([{ product_id: product.id, unit_code: unitCode, factor: value }]);
+
+    if (error) {
+      toast.error(error.code === "23505"
+        ? "Este produto já possui conversão para esta unidade"
+        : "Erro ao salvar conversão");
+    } else {
+      toast.success("Conversão cadastrada com sucesso!");
+      setUnitCode("");
+      setFactor("");
+      loadConversions(product.id);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase
+      .from("product_unit_conversions")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      toast.error("Erro ao excluir conversão");
+    } else {
+      toast.success("Conversão excluída com sucesso!");
+      loadConversions(product.id);
+    }
+  };
+
+  const unitName = (code: string) => units.find((u) => u.code === code)?.name ?? code;
+
+  const availableUnits = units.filter(
+    (u) => u.code !== product?.unit && !conversions.some((c) => c.unit_code === u.code)
+  );
+
+  return (
+    <Dialog open={!!product} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Conversões de Unidade</DialogTitle>
+          <DialogDescription>
+            {product &&
+              `Unidades aceitas nas movimentações de ${product.name}. O saldo continua em ${unitName(product.unit)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Unidade</TableHead>
+                <TableHead>Equivale a</TableHead>
+                {canEdit && <TableHead className="text-right">Ações</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {conversions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 3 : 2} className="text-center text-muted-foreground">
+                    Nenhuma conversão cadastrada
+                  </TableCell>
+                </TableRow>
+              ) : (
+                conversions.map((conversion) => (
+                  <TableRow key={conversion.id}>
+                    <TableCell className="font-medium">1 {unitName(conversion.unit_code)}</TableCell>
+                    <TableCell>
+                      {conversion.factor} {product && unitName(product.unit)}
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(conversion.id)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {canEdit && (
+          <form onSubmit={handleAdd} className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label>Unidade</Label>
+              <Select value={unitCode} onValueChange={setUnitCode}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableUnits.map((unit) => (
+                    <SelectItem key={unit.code} value={unit.code}>
+                      {unit.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-40 space-y-2">
+              <Label htmlFor="conversion_factor">
+                Qtd. em {product && unitName(product.unit)}
+              </Label>
+              <Input
+                id="conversion_factor"
+                type="number"
+                step="0.0001"
+                min="0.0001"
+                value={factor}
+                onChange={(e) => setFactor(e.target.value)}
+              />
+            </div>
+            <Button type="submit">
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+
+interface Supplier {
+  id: string;
+  name: string;
+}
+
+export interface DraftOrderItem {
+  product_id: string;
+  product_name: string;
+  unit: string;
+  quantity: number;
+  supplier_id: string | null;
+}
+
+interface DraftOrdersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  items: DraftOrderItem[];
+  suppliers: Supplier[];
+  onCreated: () => void;
+}
+
+export const DraftOrdersDialog = ({
+  open,
+  onOpenChange,
+  items,
+  suppliers,
+  onCreated,
+}: DraftOrdersDialogProps) => {
+  const [supplierIds, setSupplierIds] = useState<Record<string, string>>({});
+  const [expectedDate, setExpectedDate] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      // Start from the supplier that delivered each product last
+      setSupplierIds(Object.fromEntries(
+        items.map((item) => [item.product_id, item.supplier_id ?? ""])
+      ));
+      setExpectedDate("");
+    }
+  }, [open, items]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (items.some((item) => !supplierIds[item.product_id])) {
+      toast.error("Selecione o fornecedor de todos os itens");
+      return;
+    }
+
+    const groups = new Map<string, DraftOrderItem[]>();
+    items.forEach((item) => {
+      const supplierId = supplierIds[item.product_id];
+      groups.set(supplierId, [...(groups.get(supplierId) ?? []), item]);
+    });
+
+    setCreating(true);
+    let created = 0;
+    for (const [supplierId, groupItems] of groups) {
+      const { error } = await supabase.rpc("create_purchase_order", {
+        _supplier_id: supplierId,
+        _expected_date: expectedDate || undefined,
+        _notes: "Gerado a partir das sugestões de compra",
+        _draft: true,
+        _items: groupItems.map((item) => ({
+          product_id: item.product_id,
+          quantity: item.quantity,
+          unit_price: null,
+        })),
+      });
+
+      if (error) {
+        toast.error(error.message || "Erro ao criar pedido de compra");
+        break;
+      }
+      created++;
+    }
+    setCreating(false);
+
+    if (created > 0) {
+      toast.success(`${created} pedido(s) criado(s) como rascunho`);
+      onOpenChange(false);
+      onCreated();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Gerar Pedidos de Compra</DialogTitle>
+          <DialogDescription>
+            Será criado um pedido em rascunho para cada fornecedor. Revise e confirme os pedidos na tela de compras.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Produto</TableHead>
+                  <TableHead className="text-right">Quantidade</TableHead>
+                  <TableHead className="w-64">Fornecedor</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.product_id}>
+                    <TableCell className="font-medium">{item.product_name}</TableCell>
+                    <TableCell className="text-right">
+                      {item.quantity.toFixed(2)} {item.unit}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={supplierIds[item.product_id] ?? ""}
+                        onValueChange={(value) => setSupplierIds({ ...supplierIds, [item.product_id]: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o fornecedor" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {suppliers.map((supplier) => (
+                            <SelectItem key={supplier.id} value={supplier.id}>
+                              {supplier.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="draft_expected_date">Previsão de Entrega</Label>
+            <Input
+              id="draft_expected_date"
+              type="date"
+              value={expectedDate}
+              onChange={(e) => setExpectedDate(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={creating}>
+              {creating ? "Criando..." : "Criar Rascunhos"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
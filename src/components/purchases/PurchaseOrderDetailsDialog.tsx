@@ -0,0 +1,325 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { formatOrderNumber, getPurchaseOrderStatusLabel, isReceivable } from "@/lib/purchases";
+import { parseSerialNumbers } from "@/lib/serials";
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+interface OrderItem {
+  id: string;
+  quantity: number;
+  received_quantity: number;
+  unit_price: number | null;
+  products: { name: string; unit: string; track_lots: boolean; track_serials: boolean };
+}
+
+interface LotInput {
+  lot_number: string;
+  expiry_date: string;
+}
+
+interface PurchaseOrderDetailsDialogProps {
+  order: { id: string; number: number; status: string; suppliers: { name: string } } | null;
+  locations: Location[];
+  canReceive: boolean;
+  onClose: () => void;
+  onReceived: () => void;
+}
+
+export const PurchaseOrderDetailsDialog = ({
+  order,
+  locations,
+  canReceive,
+  onClose,
+  onReceived,
+}: PurchaseOrderDetailsDialogProps) => {
+  const [items, setItems] = useState<OrderItem[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [lotInputs, setLotInputs] = useState<Record<string, LotInput>>({});
+  const [serialInputs, setSerialInputs] = useState<Record<string, string>>({});
+  const [locationId, setLocationId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [receiving, setReceiving] = useState(false);
+
+  useEffect(() => {
+    if (order) {
+      loadItems(order.id);
+    }
+  }, [order]);
+
+  const loadItems = async (orderId: string) => {
+    const { data } = await supabase
+      .from("purchase_order_items")
+      .select(`
+        id,
+        quantity,
+        received_quantity,
+        unit_price,
+        products (name, unit, track_lots, track_serials)
+      `)
+      .eq("purchase_order_id", orderId)
+      .order("id");
+
+    const orderItems = data || [];
+    setItems(orderItems);
+    // Default to receiving everything still pending
+    setQuantities(Object.fromEntries(
+      orderItems.map((item) => [item.id, String(Math.max(item.quantity - item.received_quantity, 0))])
+    ));
+  };
+
+  const handleClose = () => {
+    setItems([]);
+    setQuantities({});
+    setLotInputs({});
+    setSerialInputs({});
+    setLocationId("");
+    setNotes("");
+    onClose();
+  };
+
+  const updateLotInput = (itemId: string, changes: Partial<LotInput>) => {
+    setLotInputs({
+      ...lotInputs,
+      [itemId]: { lot_number: "", expiry_date: "", ...lotInputs[itemId], ...changes },
+    });
+  };
+
+  const receivable = !!order && canReceive && isReceivable(order.status);
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!locationId) {
+      toast.error("Selecione o local de recebimento");
+      return;
+    }
+
+    const entries = items
+      .map((item) => ({
+        item_id: item.id,
+        quantity: parseFloat(quantities[item.id]) || 0,
+        lot_number: lotInputs[item.id]?.lot_number.trim() || null,
+        expiry_date: lotInputs[item.id]?.expiry_date || null,
+        serial_numbers: item.products.track_serials ? parseSerialNumbers(serialInputs[item.id] ?? "") : null,
+      }))
+      .filter((entry) => entry.quantity > 0);
+
+    if (entries.length === 0) {
+      toast.error("Informe a quantidade recebida de ao menos um item");
+      return;
+    }
+
+    const exceeding = items.find((item) =>
+      (parseFloat(quantities[item.id]) || 0) > item.quantity - item.received_quantity
+    );
+    if (exceeding) {
+      toast.error(`Quantidade maior que a pendente para ${exceeding.products.name}`);
+      return;
+    }
+
+    const missingLot = items.find((item) =>
+      item.products.track_lots
+        && (parseFloat(quantities[item.id]) || 0) > 0
+        && !lotInputs[item.id]?.lot_number.trim()
+    );
+    if (missingLot) {
+      toast.error(`Informe o lote de ${missingLot.products.name}`);
+      return;
+    }
+
+    // Serialized items are received one serial per unit
+    const serialMismatch = items.find((item) => {
+      const quantity = parseFloat(quantities[item.id]) || 0;
+      return item.products.track_serials
+        && quantity > 0
+        && parseSerialNumbers(serialInputs[item.id] ?? "").length !== quantity;
+    });
+    if (serialMismatch) {
+      toast.error(`Informe um número de série por unidade de ${serialMismatch.products.name}`);
+      return;
+    }
+
+    setReceiving(true);
+    const { error } = await supabase.rpc("receive_purchase_order", {
+      _purchase_order_id: order.id,
+      _location_id: locationId,
+      _items: entries,
+      _notes: notes || undefined,
+    });
+    setReceiving(false);
+
+    if (error) {
+      toast.error(error.message || "Erro ao receber pedido");
+    } else {
+      toast.success("Recebimento registrado com sucesso!");
+      handleClose();
+      onReceived();
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Pedido {order && formatOrderNumber(order.number)}
+          </DialogTitle>
+          <DialogDescription>
+            {order && `${order.suppliers.name} - ${getPurchaseOrderStatusLabel(order.status)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleReceive} className="space-y-4">
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Produto</TableHead>
+                  <TableHead className="text-right">Pedido</TableHead>
+                  <TableHead className="text-right">Recebido</TableHead>
+                  <TableHead className="text-right">Pendente</TableHead>
+                  {receivable && <TableHead className="text-right">Receber agora</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => {
+                  const pending = Math.max(item.quantity - item.received_quantity, 0);
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell className="font-medium">
+                        {item.products.name}
+                        {item.unit_price !== null && (
+                          <p className="text-xs text-muted-foreground">
+                            {item.unit_price.toLocaleString("pt-BR", { style: "currency", currency: "BRL" })} / {item.products.unit}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.quantity.toFixed(2)} {item.products.unit}
+                      </TableCell>
+                      <TableCell className="text-right">{item.received_quantity.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{pending.toFixed(2)}</TableCell>
+                      {receivable && (
+                        <TableCell className="text-right">
+                          <Input
+                            className="w-28 ml-auto text-right"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max={pending}
+                            value={quantities[item.id] ?? ""}
+                            onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                            disabled={pending === 0}
+                          />
+                          {item.products.track_lots && pending > 0 && (
+                            <div className="mt-2 space-y-1">
+                              <Input
+                                className="w-36 ml-auto"
+                                placeholder="Lote *"
+                                value={lotInputs[item.id]?.lot_number ?? ""}
+                                onChange={(e) => updateLotInput(item.id, { lot_number: e.target.value })}
+                              />
+                              <Input
+                                className="w-36 ml-auto"
+                                type="date"
+                                title="Validade"
+                                value={lotInputs[item.id]?.expiry_date ?? ""}
+                                onChange={(e) => updateLotInput(item.id, { expiry_date: e.target.value })}
+                              />
+                            </div>
+                          )}
+                          {item.products.track_serials && pending > 0 && (
+                            <Textarea
+                              className="w-36 ml-auto mt-2"
+                              placeholder="Números de série, um por linha *"
+                              value={serialInputs[item.id] ?? ""}
+                              onChange={(e) => setSerialInputs({ ...serialInputs, [item.id]: e.target.value })}
+                              rows={3}
+                            />
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          {receivable && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Local de Recebimento *</Label>
+                  <Select value={locationId} onValueChange={setLocationId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione um local" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receipt_notes">Observações</Label>
+                  <Textarea
+                    id="receipt_notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Ex.: NF 12345"
+                    rows={1}
+                  />
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={handleClose}>
+                  Fechar
+                </Button>
+                <Button type="submit" disabled={receiving}>
+                  {receiving ? "Registrando..." : "Registrar Recebimento"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
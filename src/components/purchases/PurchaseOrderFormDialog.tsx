@@ -0,0 +1,281 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { ProductCombobox, ProductOption } from "@/components/stock/ProductCombobox";
+import { formatOrderNumber } from "@/lib/purchases";
+
+interface Supplier {
+  id: string;
+  name: string;
+}
+
+interface Product extends ProductOption {
+  unit: string;
+}
+
+interface ItemRow {
+  product_id: string;
+  quantity: string;
+  unit_price: string;
+}
+
+export interface DraftOrder {
+  id: string;
+  number: number;
+  supplier_id: string;
+  expected_date: string | null;
+  notes: string | null;
+}
+
+interface PurchaseOrderFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  suppliers: Supplier[];
+  products: Product[];
+  // Draft under review; the dialog creates a new order when absent
+  draft?: DraftOrder | null;
+  onCreated: () => void;
+}
+
+const emptyItem = (): ItemRow => ({ product_id: "", quantity: "", unit_price: "" });
+
+export const PurchaseOrderFormDialog = ({
+  open,
+  onOpenChange,
+  suppliers,
+  products,
+  draft,
+  onCreated,
+}: PurchaseOrderFormDialogProps) => {
+  const [supplierId, setSupplierId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [items, setItems] = useState<ItemRow[]>([emptyItem()]);
+
+  useEffect(() => {
+    if (open && draft) {
+      setSupplierId(draft.supplier_id);
+      setExpectedDate(draft.expected_date ?? "");
+      setNotes(draft.notes ?? "");
+      loadDraftItems(draft.id);
+    }
+  }, [open, draft]);
+
+  const loadDraftItems = async (orderId: string) => {
+    const { data } = await supabase
+      .from("purchase_order_items")
+      .select("product_id, quantity, unit_price")
+      .eq("purchase_order_id", orderId)
+      .order("id");
+
+    if (data && data.length > 0) {
+      setItems(data.map((item) => ({
+        product_id: item.product_id,
+        quantity: String(item.quantity),
+        unit_price: item.unit_price === null ? "" : String(item.unit_price),
+      })));
+    }
+  };
+
+  const reset = () => {
+    setSupplierId("");
+    setExpectedDate("");
+    setNotes("");
+    setItems([emptyItem()]);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      reset();
+    }
+    onOpenChange(value);
+  };
+
+  const updateItem = (index: number, changes: Partial<ItemRow>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!supplierId) {
+      toast.error("Selecione o fornecedor");
+      return;
+    }
+
+    const filledItems = items.filter((item) => item.product_id);
+    if (filledItems.length === 0) {
+      toast.error("Adicione ao menos um item ao pedido");
+      return;
+    }
+
+    if (filledItems.some((item) => !(parseFloat(item.quantity) > 0))) {
+      toast.error("A quantidade de cada item deve ser maior que zero");
+      return;
+    }
+
+    const productIds = filledItems.map((item) => item.product_id);
+    if (new Set(productIds).size !== productIds.length) {
+      toast.error("Cada produto só pode aparecer uma vez no pedido");
+      return;
+    }
+
+    const orderItems = filledItems.map((item) => ({
+      product_id: item.product_id,
+      quantity: parseFloat(item.quantity),
+      unit_price: item.unit_price ? parseFloat(item.unit_price) : null,
+    }));
+
+    const { error } = draft
+      ? await supabase.rpc("update_purchase_order_draft", {
+          _purchase_order_id: draft.id,
+          _supplier_id: supplierId,
+          _expected_date: expectedDate || undefined,
+          _notes: notes || undefined,
+          _items: orderItems,
+        })
+      : await supabase.rpc("create_purchase_order", {
+          _supplier_id: supplierId,
+          _expected_date: expectedDate || undefined,
+          _notes: notes || undefined,
+          _items: orderItems,
+        });
+
+    if (error) {
+      toast.error(error.message || (draft ? "Erro ao salvar rascunho" : "Erro ao criar pedido de compra"));
+    } else {
+      toast.success(draft ? "Rascunho atualizado com sucesso!" : "Pedido de compra criado com sucesso!");
+      handleOpenChange(false);
+      onCreated();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {draft ? `Editar Rascunho ${formatOrderNumber(draft.number)}` : "Novo Pedido de Compra"}
+          </DialogTitle>
+          <DialogDescription>
+            As quantidades são informadas na unidade de cada produto
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Fornecedor *</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o fornecedor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expected_date">Previsão de Entrega</Label>
+              <Input
+                id="expected_date"
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Itens *</Label>
+            {items.map((item, index) => {
+              const product = products.find((p) => p.id === item.product_id);
+              return (
+                <div key={index} className="flex items-start gap-2">
+                  <div className="flex-1">
+                    <ProductCombobox
+                      products={products}
+                      value={item.product_id}
+                      onChange={(value) => updateItem(index, { product_id: value })}
+                    />
+                  </div>
+                  <Input
+                    className="w-28"
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    placeholder={product ? `Qtd. (${product.unit})` : "Qtd."}
+                    value={item.quantity}
+                    onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                  />
+                  <Input
+                    className="w-32"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="Preço unit."
+                    value={item.unit_price}
+                    onChange={(e) => updateItem(index, { unit_price: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setItems(items.filter((_, i) => i !== index))}
+                    disabled={items.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button type="button" variant="outline" size="sm" onClick={() => setItems([...items, emptyItem()])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar item
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="order_notes">Observações</Label>
+            <Textarea
+              id="order_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit">{draft ? "Salvar Rascunho" : "Criar Pedido"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
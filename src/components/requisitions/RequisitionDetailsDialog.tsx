@@ -0,0 +1,373 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import {
+  formatRequisitionNumber,
+  getRequisitionStatusLabel,
+  isFulfillable,
+  isReviewable,
+} from "@/lib/requisitions";
+import { parseSerialNumbers } from "@/lib/serials";
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+interface RequisitionItem {
+  id: string;
+  quantity: number;
+  approved_quantity: number | null;
+  fulfilled_quantity: number;
+  products: { name: string; unit: string; track_lots: boolean; track_serials: boolean };
+}
+
+interface RequisitionDetailsDialogProps {
+  requisition: {
+    id: string;
+    number: number;
+    status: string;
+    purpose: string;
+    review_notes: string | null;
+    profiles: { full_name: string };
+    cost_centers: { code: string; name: string };
+  } | null;
+  locations: Location[];
+  canReview: boolean;
+  canFulfill: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export const RequisitionDetailsDialog = ({
+  requisition,
+  locations,
+  canReview,
+  canFulfill,
+  onClose,
+  onChanged,
+}: RequisitionDetailsDialogProps) => {
+  const [items, setItems] = useState<RequisitionItem[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [serialInputs, setSerialInputs] = useState<Record<string, string>>({});
+  const [locationId, setLocationId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const reviewing = !!requisition && canReview && isReviewable(requisition.status);
+  const fulfilling = !!requisition && canFulfill && isFulfillable(requisition.status);
+
+  useEffect(() => {
+    if (requisition) {
+      loadItems(requisition.id);
+    }
+  }, [requisition]);
+
+  const loadItems = async (requisitionId: string) => {
+    const { data } = await supabase
+      .from("material_requisition_items")
+      .select(`
+        id,
+        quantity,
+        approved_quantity,
+        fulfilled_quantity,
+        products (name, unit, track_lots, track_serials)
+      `)
+      .eq("requisition_id", requisitionId)
+      .order("id");
+
+    const requisitionItems = data || [];
+    setItems(requisitionItems);
+    // Reviewers start from what was asked for; fulfillment starts from what is still owed
+    setQuantities(Object.fromEntries(
+      requisitionItems.map((item) => [
+        item.id,
+        String(item.approved_quantity === null
+          ? item.quantity
+          : Math.max(item.approved_quantity - item.fulfilled_quantity, 0)),
+      ])
+    ));
+  };
+
+  const handleClose = () => {
+    setItems([]);
+    setQuantities({});
+    setSerialInputs({});
+    setLocationId("");
+    setNotes("");
+    onClose();
+  };
+
+  const finish = (message: string) => {
+    toast.success(message);
+    handleClose();
+    onChanged();
+  };
+
+  const submitReview = async (reject: boolean) => {
+    if (reject && !notes.trim()) {
+      toast.error("Informe o motivo da rejeição");
+      return;
+    }
+
+    const exceeding = items.find((item) => (parseFloat(quantities[item.id]) || 0) > item.quantity);
+    if (!reject && exceeding) {
+      toast.error(`A quantidade aprovada de ${exceeding.products.name} é maior que a solicitada`);
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase.rpc("review_requisition", {
+      _requisition_id: requisition.id,
+      _items: items.map((item) => ({
+        item_id: item.id,
+        approved_quantity: reject ? 0 : parseFloat(quantities[item.id]) || 0,
+      })),
+      _notes: notes || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.message || "Erro ao analisar requisição");
+    } else {
+      finish(data === "rejeitada" ? "Requisição rejeitada." : "Requisição aprovada!");
+    }
+  };
+
+  const handleFulfill = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!locationId) {
+      toast.error("Selecione o local de saída");
+      return;
+    }
+
+    const entries = items
+      .map((item) => ({
+        item_id: item.id,
+        quantity: parseFloat(quantities[item.id]) || 0,
+        serial_numbers: item.products.track_serials ? parseSerialNumbers(serialInputs[item.id] ?? "") : null,
+      }))
+      .filter((entry) => entry.quantity > 0);
+
+    if (entries.length === 0) {
+      toast.error("Informe a quantidade atendida de ao menos um item");
+      return;
+    }
+
+    const exceeding = items.find((item) =>
+      (parseFloat(quantities[item.id]) || 0) > (item.approved_quantity ?? 0) - item.fulfilled_quantity
+    );
+    if (exceeding) {
+      toast.error(`Quantidade maior que a aprovada pendente para ${exceeding.products.name}`);
+      return;
+    }
+
+    const serialMismatch = items.find((item) => {
+      const quantity = parseFloat(quantities[item.id]) || 0;
+      return item.products.track_serials
+        && quantity > 0
+        && parseSerialNumbers(serialInputs[item.id] ?? "").length !== quantity;
+    });
+    if (serialMismatch) {
+      toast.error(`Informe um número de série por unidade de ${serialMismatch.products.name}`);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("fulfill_requisition", {
+      _requisition_id: requisition.id,
+      _location_id: locationId,
+      _items: entries,
+      _notes: notes || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.message || "Erro ao atender requisição");
+    } else {
+      finish("Atendimento registrado! As saídas foram lançadas no estoque.");
+    }
+  };
+
+  return (
+    <Dialog open={!!requisition} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Requisição {requisition && formatRequisitionNumber(requisition.number)}
+          </DialogTitle>
+          <DialogDescription>
+            {requisition && `${requisition.profiles.full_name} · ${requisition.cost_centers.code} - ${requisition.cost_centers.name} · ${getRequisitionStatusLabel(requisition.status)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {requisition && (
+          <div className="space-y-1 text-sm">
+            <p><span className="text-muted-foreground">Finalidade:</span> {requisition.purpose}</p>
+            {requisition.review_notes && (
+              <p><span className="text-muted-foreground">Parecer:</span> {requisition.review_notes}</p>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={handleFulfill} className="space-y-4">
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Produto</TableHead>
+                  <TableHead className="text-right">Solicitado</TableHead>
+                  <TableHead className="text-right">Aprovado</TableHead>
+                  <TableHead className="text-right">Atendido</TableHead>
+                  {reviewing && <TableHead className="text-right">Aprovar</TableHead>}
+                  {fulfilling && <TableHead className="text-right">Atender agora</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => {
+                  const pending = Math.max((item.approved_quantity ?? 0) - item.fulfilled_quantity, 0);
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell className="font-medium">
+                        {item.products.name}
+                        {fulfilling && item.products.track_lots && pending > 0 && (
+                          <p className="text-xs text-muted-foreground">Sai dos lotes de validade mais próxima</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.quantity.toFixed(2)} {item.products.unit}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.approved_quantity === null ? "-" : item.approved_quantity.toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right">{item.fulfilled_quantity.toFixed(2)}</TableCell>
+                      {(reviewing || fulfilling) && (
+                        <TableCell className="text-right">
+                          <Input
+                            className="w-28 ml-auto text-right"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max={reviewing ? item.quantity : pending}
+                            value={quantities[item.id] ?? ""}
+                            onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                            disabled={fulfilling && pending === 0}
+                          />
+                          {fulfilling && item.products.track_serials && pending > 0 && (
+                            <Textarea
+                              className="w-36 ml-auto mt-2"
+                              placeholder="Números de série, um por linha *"
+                              value={serialInputs[item.id] ?? ""}
+                              onChange={(e) => setSerialInputs({ ...serialInputs, [item.id]: e.target.value })}
+                              rows={3}
+                            />
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          {reviewing && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="review_notes">Parecer</Label>
+                <Textarea
+                  id="review_notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Obrigatório para rejeitar. Ex.: aprovado metade, o restante sai na próxima semana"
+                  rows={2}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={handleClose}>
+                  Fechar
+                </Button>
+                <Button type="button" variant="destructive" onClick={() => submitReview(true)} disabled={saving}>
+                  Rejeitar
+                </Button>
+                <Button type="button" onClick={() => submitReview(false)} disabled={saving}>
+                  {saving ? "Salvando..." : "Aprovar"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {fulfilling && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Local de Saída *</Label>
+                  <Select value={locationId} onValueChange={setLocationId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione um local" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fulfillment_notes">Observações</Label>
+                  <Textarea
+                    id="fulfillment_notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Ex.: retirado no balcão pela equipe de manutenção"
+                    rows={1}
+                  />
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={handleClose}>
+                  Fechar
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Registrando..." : "Registrar Atendimento"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
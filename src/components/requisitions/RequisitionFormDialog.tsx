@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { ProductCombobox, ProductOption } from "@/components/stock/ProductCombobox";
+
+interface CostCenter {
+  id: string;
+  code: string;
+  name: string;
+}
+
+interface Product extends ProductOption {
+  unit: string;
+}
+
+interface ItemRow {
+  product_id: string;
+  quantity: string;
+}
+
+interface RequisitionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  costCenters: CostCenter[];
+  products: Product[];
+  onCreated: () => void;
+}
+
+const emptyItem = (): ItemRow => ({ product_id: "", quantity: "" });
+
+export const RequisitionFormDialog = ({
+  open,
+  onOpenChange,
+  costCenters,
+  products,
+  onCreated,
+}: RequisitionFormDialogProps) => {
+  const [costCenterId, setCostCenterId] = useState("");
+  const [purpose, setPurpose] = useState("");
+  const [items, setItems] = useState<ItemRow[]>([emptyItem()]);
+  const [saving, setSaving] = useState(false);
+
+  const reset = () => {
+    setCostCenterId("");
+    setPurpose("");
+    setItems([emptyItem()]);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      reset();
+    }
+    onOpenChange(value);
+  };
+
+  const updateItem = (index: number, changes: Partial<ItemRow>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!costCenterId || !purpose.trim()) {
+      toast.error("Preencha todos os campos obrigatórios");
+      return;
+    }
+
+    const filledItems = items.filter((item) => item.product_id);
+    if (filledItems.length === 0) {
+      toast.error("Adicione ao menos um item à requisição");
+      return;
+    }
+
+    if (filledItems.some((item) => !(parseFloat(item.quantity) > 0))) {
+      toast.error("A quantidade de cada item deve ser maior que zero");
+      return;
+    }
+
+    const productIds = filledItems.map((item) => item.product_id);
+    if (new Set(productIds).size !== productIds.length) {
+      toast.error("Cada produto só pode aparecer uma vez na requisição");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("create_requisition", {
+      _cost_center_id: costCenterId,
+      _purpose: purpose.trim(),
+      _items: filledItems.map((item) => ({
+        product_id: item.product_id,
+        quantity: parseFloat(item.quantity),
+      })),
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.message || "Erro ao enviar requisição");
+    } else {
+      toast.success("Requisição enviada para aprovação!");
+      handleOpenChange(false);
+      onCreated();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nova Requisição de Material</DialogTitle>
+          <DialogDescription>
+            O estoque analisa o pedido e separa o que for aprovado
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Centro de Custo *</Label>
+              <Select value={costCenterId} onValueChange={setCostCenterId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o centro de custo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {costCenters.map((costCenter) => (
+                    <SelectItem key={costCenter.id} value={costCenter.id}>
+                      {costCenter.code} - {costCenter.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="purpose">Finalidade *</Label>
+              <Input
+                id="purpose"
+                value={purpose}
+                onChange={(e) => setPurpose(e.target.value)}
+                placeholder="Ex.: manutenção do telhado do galpão 2"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Itens *</Label>
+            {items.map((item, index) => {
+              const product = products.find((p) => p.id === item.product_id);
+              return (
+                <div key={index} className="flex items-start gap-2">
+                  <div className="flex-1">
+                    <ProductCombobox
+                      products={products}
+                      value={item.product_id}
+                      onChange={(value) => updateItem(index, { product_id: value })}
+                    />
+                  </div>
+                  <Input
+                    className="w-32"
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    placeholder={product ? `Qtd. (${product.unit})` : "Qtd."}
+                    value={item.quantity}
+                    onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setItems(items.filter((_, i) => i !== index))}
+                    disabled={items.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button type="button" variant="outline" size="sm" onClick={() => setItems([...items, emptyItem()])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar item
+            </Button>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Enviando..." : "Enviar Requisição"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
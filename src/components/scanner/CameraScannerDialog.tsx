@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { cn } from "@/lib/utils";
+
+interface CameraScannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDetected: (code: string) => void;
+}
+
+function describeCameraError(error: unknown) {
+  const name = error instanceof DOMException ? error.name : "";
+  if (name === "NotAllowedError" || name === "SecurityError") {
+    return "Permissão para usar a câmera foi negada";
+  }
+  if (name === "NotFoundError" || name === "OverconstrainedError") {
+    return "Nenhuma câmera encontrada neste dispositivo";
+  }
+  if (name === "NotReadableError") {
+    return "A câmera está sendo usada por outro aplicativo";
+  }
+  return "Não foi possível acessar a câmera";
+}
+
+export const CameraScannerDialog = ({ open, onOpenChange, onDetected }: CameraScannerDialogProps) => {
+  const isMobile = useIsMobile();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState("");
+
+  // Parents pass inline callbacks; keeping them in refs avoids restarting the camera on every render
+  const onDetectedRef = useRef(onDetected);
+  const onOpenChangeRef = useRef(onOpenChange);
+  onDetectedRef.current = onDetected;
+  onOpenChangeRef.current = onOpenChange;
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    let cancelled = false;
+    let controls: { stop: () => void } | null = null;
+    setError("");
+
+    const start = async () => {
+      // Loaded on demand so the decoder only ships to users who open the camera
+      const { BrowserMultiFormatReader } = await import("@zxing/browser");
+      if (cancelled || !videoRef.current) {
+        return;
+      }
+
+      try {
+        const reader = new BrowserMultiFormatReader();
+        controls = await reader.decodeFromConstraints(
+          { video: { facingMode: "environment" } },
+          videoRef.current,
+          (result, _error, scannerControls) => {
+            if (result && !cancelled) {
+              cancelled = true;
+              scannerControls.stop();
+              onDetectedRef.current(result.getText());
+              onOpenChangeRef.current(false);
+            }
+          }
+        );
+        if (cancelled) {
+          controls.stop();
+        }
+      } catch (e) {
+        if (!cancelled) {
+          setError(describeCameraError(e));
+        }
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      controls?.stop();
+    };
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className={cn(isMobile && "h-full max-w-full rounded-none")}>
+        <DialogHeader>
+          <DialogTitle>Ler Código</DialogTitle>
+          <DialogDescription>
+            Aponte a câmera para o código de barras ou QR Code do produto
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : (
+          <video
+            ref={videoRef}
+            className="w-full rounded-lg bg-black aspect-[4/3] object-cover"
+            muted
+            playsInline
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,207 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TrendingUp, TrendingDown, ArrowLeftRight, Undo2, ArrowUp, ArrowDown, ArrowUpDown } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { getMovementTypeLabel, isInboundMovement, isTransferMovement } from "@/lib/stock";
+import type { MovementLinks } from "@/lib/movements";
+import { formatSerialNumbers } from "@/lib/serials";
+import { HIGHLIGHT_CLASS } from "@/hooks/use-highlight";
+
+export interface MovementHistoryItem {
+  id: string;
+  product_id: string;
+  location_id: string;
+  movement_type: string;
+  quantity: number;
+  input_unit: string | null;
+  input_quantity: number | null;
+  notes: string | null;
+  created_at: string;
+  responsible_user_id: string;
+  responsible_name: string;
+  transfer_id: string | null;
+  reversed_movement_id: string | null;
+  reversal_reason: string | null;
+  products: { name: string; unit: string };
+  locations: { name: string };
+  lots: { lot_number: string } | null;
+  movement_reasons: { name: string } | null;
+  stock_movement_serials: { serial_numbers: { serial_number: string } }[];
+}
+
+export type MovementSortColumn = "created_at" | "products(name)" | "movement_type" | "quantity";
+
+interface MovementSort {
+  column: MovementSortColumn;
+  ascending: boolean;
+  onSort: (column: MovementSortColumn) => void;
+}
+
+interface MovementHistoryTableProps {
+  movements: MovementHistoryItem[];
+  links: MovementLinks;
+  canReverse: boolean;
+  onReverse: (movement: MovementHistoryItem) => void;
+  sort?: MovementSort;
+  // Movements that just arrived from another session
+  highlightedIds?: Set<string>;
+}
+
+const SortableHead = ({
+  column,
+  sort,
+  className,
+  children,
+}: {
+  column: MovementSortColumn;
+  sort?: MovementSort;
+  className?: string;
+  children: React.ReactNode;
+}) => {
+  if (!sort) {
+    return <TableHead className={className}>{children}</TableHead>;
+  }
+
+  const active = sort.column === column;
+  const Icon = !active ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead className={className}>
+      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => sort.onSort(column)}>
+        {children}
+        <Icon className={`h-3 w-3 ml-1 ${active ? "" : "text-muted-foreground"}`} />
+      </Button>
+    </TableHead>
+  );
+};
+
+export const MovementHistoryTable = ({
+  movements,
+  links,
+  canReverse,
+  onReverse,
+  sort,
+  highlightedIds,
+}: MovementHistoryTableProps) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <SortableHead column="created_at" sort={sort}>Data</SortableHead>
+          <SortableHead column="products(name)" sort={sort}>Produto</SortableHead>
+          <TableHead>Local</TableHead>
+          <SortableHead column="movement_type" sort={sort}>Tipo</SortableHead>
+          <SortableHead column="quantity" sort={sort} className="text-right">Quantidade</SortableHead>
+          <TableHead>Responsável</TableHead>
+          {canReverse && <TableHead className="text-right">Ações</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {movements.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={canReverse ? 7 : 6} className="text-center text-muted-foreground">
+              Nenhuma movimentação encontrada
+            </TableCell>
+          </TableRow>
+        ) : (
+          movements.map((movement) => {
+            const isTransfer = isTransferMovement(movement.movement_type);
+            const isInbound = isInboundMovement(movement.movement_type);
+            const counterpartLocation = links.counterpartLocations.get(movement.id);
+            const isReversal = !!movement.reversed_movement_id;
+            const reversed = links.reversedIds.has(movement.id);
+            return (
+              <TableRow
+                key={movement.id}
+                className={`${isTransfer ? "bg-muted/40" : ""} ${reversed ? "text-muted-foreground" : ""} ${highlightedIds?.has(movement.id) ? HIGHLIGHT_CLASS : ""}`}
+              >
+                <TableCell>
+                  {format(new Date(movement.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                </TableCell>
+                <TableCell>
+                  {movement.products.name}
+                  {movement.lots && (
+                    <p className="text-xs text-muted-foreground">Lote {movement.lots.lot_number}</p>
+                  )}
+                  {movement.stock_movement_serials.length > 0 && (
+                    <p className="text-xs text-muted-foreground">Série {formatSerialNumbers(movement)}</p>
+                  )}
+                </TableCell>
+                <TableCell>{movement.locations.name}</TableCell>
+                <TableCell>
+                  <Badge variant={isTransfer ? "outline" : isInbound ? "default" : "secondary"}>
+                    {isTransfer ? (
+                      <ArrowLeftRight className="h-3 w-3 mr-1" />
+                    ) : isInbound ? (
+                      <TrendingUp className="h-3 w-3 mr-1" />
+                    ) : (
+                      <TrendingDown className="h-3 w-3 mr-1" />
+                    )}
+                    {getMovementTypeLabel(movement.movement_type)}
+                  </Badge>
+                  {movement.movement_reasons && (
+                    <p className="text-xs text-muted-foreground mt-1">{movement.movement_reasons.name}</p>
+                  )}
+                  {counterpartLocation && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {isInbound ? "de " : "para "}
+                      {counterpartLocation}
+                    </p>
+                  )}
+                  {reversed && (
+                    <Badge variant="outline" className="mt-1 border-destructive text-destructive">
+                      Estornada
+                    </Badge>
+                  )}
+                  {isReversal && (
+                    <div className="mt-1">
+                      <Badge variant="outline" className="border-warning text-warning">
+                        <Undo2 className="h-3 w-3 mr-1" />
+                        Estorno
+                      </Badge>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Motivo: {movement.reversal_reason}
+                      </p>
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className={`text-right ${reversed ? "line-through" : ""}`}>
+                  {movement.quantity.toFixed(2)} {movement.products.unit}
+                  {movement.input_unit && (
+                    <p className="text-xs text-muted-foreground">
+                      {movement.input_quantity.toFixed(2)} {movement.input_unit}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>{movement.responsible_name}</TableCell>
+                {canReverse && (
+                  <TableCell className="text-right">
+                    {!isReversal && !reversed && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Estornar movimentação"
+                        onClick={() => onReverse(movement)}
+                      >
+                        <Undo2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })
+        )}
+      </TableBody>
+    </Table>
+  );
+};
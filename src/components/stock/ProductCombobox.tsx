@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface ProductOption {
+  id: string;
+  name: string;
+  sku: string | null;
+  barcode: string | null;
+}
+
+interface ProductComboboxProps<T extends ProductOption> {
+  products: T[];
+  value: string;
+  onChange: (productId: string) => void;
+  // Secondary text shown under each option, e.g. the balance at the selected location
+  describe?: (product: T) => string;
+}
+
+export const ProductCombobox = <T extends ProductOption>({
+  products,
+  value,
+  onChange,
+  describe,
+}: ProductComboboxProps<T>) => {
+  const [open, setOpen] = useState(false);
+  const selected = products.find((p) => p.id === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn("truncate", !selected && "text-muted-foreground")}>
+            {selected ? selected.name : "Selecione um produto"}
+          </span>
+          <ChevronsUpDown className="h-4 w-4 ml-2 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Buscar por nome, SKU ou código de barras..." />
+          <CommandList>
+            <CommandEmpty>Nenhum produto encontrado</CommandEmpty>
+            <CommandGroup>
+              {products.map((product) => (
+                <CommandItem
+                  key={product.id}
+                  // cmdk filters on this string, so it carries every searchable identifier
+                  value={[product.name, product.sku, product.barcode, product.id].filter(Boolean).join(" ")}
+                  onSelect={() => {
+                    onChange(product.id);
+                    setOpen(false);
+                  }}
+                >
+                  <Check
+                    className={cn("h-4 w-4 mr-2", product.id === value ? "opacity-100" : "opacity-0")}
+                  />
+                  <div className="flex flex-col">
+                    <span>{product.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {[product.sku, describe?.(product)].filter(Boolean).join(" · ")}
+                    </span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
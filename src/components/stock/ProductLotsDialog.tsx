@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatExpiryDate, getExpiryStatus, sortByExpiry } from "@/lib/lots";
+
+interface Lot {
+  id: string;
+  lot_number: string;
+  expiry_date: string | null;
+  lot_balances: { quantity: number; locations: { name: string } }[];
+}
+
+interface ProductLotsDialogProps {
+  product: { id: string; name: string; unit: string } | null;
+  onClose: () => void;
+}
+
+export const ProductLotsDialog = ({ product, onClose }: ProductLotsDialogProps) => {
+  const [lots, setLots] = useState<Lot[]>([]);
+
+  useEffect(() => {
+    if (product) {
+      loadLots(product.id);
+    }
+  }, [product]);
+
+  const loadLots = async (productId: string) => {
+    const { data } = await supabase
+      .from("lots")
+      .select(`
+        id,
+        lot_number,
+        expiry_date,
+        lot_balances (quantity, locations (name))
+      `)
+      .eq("product_id", productId);
+
+    // Only lots that still have stock somewhere are worth listing
+    setLots(sortByExpiry(
+      (data || []).map((lot) => ({
+        ...lot,
+        lot_balances: lot.lot_balances.filter((balance) => balance.quantity > 0),
+      })).filter((lot) => lot.lot_balances.length > 0)
+    ));
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Lotes - {product?.name}</DialogTitle>
+          <DialogDescription>
+            Saldo de cada lote por local, do mais próximo ao mais distante do vencimento
+          </DialogDescription>
+        </DialogHeader>
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lote</TableHead>
+                <TableHead>Validade</TableHead>
+                <TableHead>Local</TableHead>
+                <TableHead className="text-right">Saldo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lots.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    Nenhum lote com saldo
+                  </TableCell>
+                </TableRow>
+              ) : (
+                lots.flatMap((lot) => {
+                  const status = getExpiryStatus(lot.expiry_date);
+                  return lot.lot_balances.map((balance, index) => (
+                    <TableRow key={`${lot.id}-${index}`}>
+                      <TableCell className="font-medium">{lot.lot_number}</TableCell>
+                      <TableCell>
+                        {formatExpiryDate(lot.expiry_date)}
+                        {status && (
+                          <Badge variant={status.variant} className="ml-2">
+                            {status.label}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{balance.locations.name}</TableCell>
+                      <TableCell className="text-right">
+                        {balance.quantity.toFixed(2)} {product?.unit}
+                      </TableCell>
+                    </TableRow>
+                  ));
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { History } from "lucide-react";
+import { getSerialStatusLabel } from "@/lib/serials";
+import { SerialHistoryDialog } from "@/components/stock/SerialHistoryDialog";
+
+interface Serial {
+  id: string;
+  serial_number: string;
+  status: string;
+  locations: { name: string } | null;
+}
+
+interface ProductSerialsDialogProps {
+  product: { id: string; name: string } | null;
+  onClose: () => void;
+}
+
+export const ProductSerialsDialog = ({ product, onClose }: ProductSerialsDialogProps) => {
+  const [serials, setSerials] = useState<Serial[]>([]);
+  const [search, setSearch] = useState("");
+  const [historySerial, setHistorySerial] = useState<Serial | null>(null);
+
+  useEffect(() => {
+    if (product) {
+      loadSerials(product.id);
+    }
+  }, [product]);
+
+  const loadSerials = async (productId: string) => {
+    const { data } = await supabase
+      .from("serial_numbers")
+      .select(`
+        id,
+        serial_number,
+        status,
+        locations (name)
+      `)
+      .eq("product_id", productId)
+      .order("serial_number");
+
+    setSerials(data || []);
+  };
+
+  const handleClose = () => {
+    setSearch("");
+    setSerials([]);
+    onClose();
+  };
+
+  const filteredSerials = serials.filter((serial) =>
+    serial.serial_number.toLowerCase().includes(search.trim().toLowerCase())
+  );
+
+  return (
+    <Dialog open={!!product} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Números de Série - {product?.name}</DialogTitle>
+          <DialogDescription>
+            Onde está cada unidade e quem a movimentou
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Buscar número de série"
+        />
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Número de Série</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead>Local</TableHead>
+                <TableHead className="text-right">Histórico</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredSerials.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    Nenhum número de série encontrado
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredSerials.map((serial) => (
+                  <TableRow key={serial.id}>
+                    <TableCell className="font-medium">{serial.serial_number}</TableCell>
+                    <TableCell>
+                      <Badge variant={serial.status === "em_estoque" ? "default" : "outline"}>
+                        {getSerialStatusLabel(serial.status)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{serial.locations?.name ?? "-"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Ver histórico"
+                        onClick={() => setHistorySerial(serial)}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <SerialHistoryDialog
+          serial={historySerial}
+          productName={product?.name ?? ""}
+          onClose={() => setHistorySerial(null)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { getMovementTypeLabel, isTransferMovement } from "@/lib/stock";
+import type { MovementHistoryItem } from "@/components/stock/MovementHistoryTable";
+
+interface ReverseMovementDialogProps {
+  movement: MovementHistoryItem | null;
+  onClose: () => void;
+  onReversed: () => void;
+}
+
+export const ReverseMovementDialog = ({ movement, onClose, onReversed }: ReverseMovementDialogProps) => {
+  const [reason, setReason] = useState("");
+
+  const handleClose = () => {
+    setReason("");
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason.trim()) {
+      toast.error("Informe o motivo do estorno");
+      return;
+    }
+
+    const { error } = await supabase.rpc("reverse_stock_movement", {
+      _movement_id: movement.id,
+      _reason: reason.trim(),
+    });
+
+    if (error) {
+      toast.error(error.message || "Erro ao estornar movimentação");
+    } else {
+      toast.success("Movimentação estornada com sucesso!");
+      handleClose();
+      onReversed();
+    }
+  };
+
+  return (
+    <Dialog open={!!movement} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Estornar Movimentação</DialogTitle>
+          <DialogDescription>
+            Será registrado um lançamento compensatório vinculado ao original, que
+            permanece inalterado no histórico
+            {movement && isTransferMovement(movement.movement_type) &&
+              ". As duas pernas da transferência serão estornadas"}
+          </DialogDescription>
+        </DialogHeader>
+        {movement && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="rounded-lg border p-3 text-sm">
+              <p className="font-medium">{movement.products.name}</p>
+              <p className="text-muted-foreground">
+                {getMovementTypeLabel(movement.movement_type)} de{" "}
+                {movement.quantity.toFixed(2)} {movement.products.unit} em{" "}
+                {movement.locations.name} -{" "}
+                {format(new Date(movement.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="reversal_reason">Motivo do Estorno *</Label>
+              <Textarea
+                id="reversal_reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Ex.: quantidade digitada incorretamente"
+                rows={3}
+                required
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleClose}>
+                Cancelar
+              </Button>
+              <Button type="submit" variant="destructive">
+                Estornar
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { withResponsibleNames } from "@/lib/movements";
+import { getMovementTypeLabel, isInboundMovement } from "@/lib/stock";
+
+interface SerialMovement {
+  id: string;
+  movement_type: string;
+  notes: string | null;
+  created_at: string;
+  responsible_user_id: string;
+  responsible_name: string;
+  reversal_reason: string | null;
+  locations: { name: string };
+}
+
+interface SerialHistoryDialogProps {
+  serial: { id: string; serial_number: string } | null;
+  productName: string;
+  onClose: () => void;
+}
+
+export const SerialHistoryDialog = ({ serial, productName, onClose }: SerialHistoryDialogProps) => {
+  const [movements, setMovements] = useState<SerialMovement[]>([]);
+
+  useEffect(() => {
+    if (serial) {
+      loadHistory(serial.id);
+    }
+  }, [serial]);
+
+  const loadHistory = async (serialId: string) => {
+    const { data } = await supabase
+      .from("stock_movement_serials")
+      .select(`
+        stock_movements (
+          id,
+          movement_type,
+          notes,
+          created_at,
+          responsible_user_id,
+          reversal_reason,
+          locations (name)
+        )
+      `)
+      .eq("serial_id", serialId);
+
+    const rows = (data || [])
+      .map((link) => link.stock_movements)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    setMovements(await withResponsibleNames(rows));
+  };
+
+  return (
+    <Dialog open={!!serial} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Série {serial?.serial_number}</DialogTitle>
+          <DialogDescription>
+            {productName} - todas as movimentações desta unidade, da mais recente à mais antiga
+          </DialogDescription>
+        </DialogHeader>
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Local</TableHead>
+                <TableHead>Responsável</TableHead>
+                <TableHead>Observações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movements.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    Nenhuma movimentação encontrada
+                  </TableCell>
+                </TableRow>
+              ) : (
+                movements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell>
+                      {format(new Date(movement.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={isInboundMovement(movement.movement_type) ? "default" : "secondary"}>
+                        {getMovementTypeLabel(movement.movement_type)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{movement.locations.name}</TableCell>
+                    <TableCell>{movement.responsible_name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {movement.reversal_reason ? `Estorno: ${movement.reversal_reason}` : movement.notes || "-"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
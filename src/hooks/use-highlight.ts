@@ -0,0 +1,27 @@
+import { useCallback, useState } from "react";
+
+// Matches the duration of the row-highlight animation in tailwind.config.ts
+const HIGHLIGHT_MS = 2500;
+
+export const HIGHLIGHT_CLASS = "animate-row-highlight";
+
+export function useHighlight() {
+  const [highlighted, setHighlighted] = useState<Set<string>>(new Set());
+
+  const highlight = useCallback((ids: string[]) => {
+    if (ids.length === 0) {
+      return;
+    }
+
+    setHighlighted((current) => new Set([...current, ...ids]));
+    setTimeout(() => {
+      setHighlighted((current) => {
+        const next = new Set(current);
+        ids.forEach((id) => next.delete(id));
+        return next;
+      });
+    }, HIGHLIGHT_MS);
+  }, []);
+
+  return { highlighted, highlight };
+}
@@ -0,0 +1,54 @@
+import { useEffect, useRef } from "react";
+import { supabase } from "@/lib/supabase";
+
+export interface StockChanges {
+  productIds: string[];
+  movementIds: string[];
+}
+
+// A movement and the product balance it updates arrive as separate events a few
+// milliseconds apart; batching them lets pages reload once per change.
+const BATCH_DELAY_MS = 300;
+
+const emptyChanges = (): StockChanges => ({ productIds: [], movementIds: [] });
+
+export function useStockRealtime(onChange: (changes: StockChanges) => void) {
+  // Keep the latest handler so it sees current filters without resubscribing
+  const handlerRef = useRef(onChange);
+
+  useEffect(() => {
+    handlerRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    let pending = emptyChanges();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const queue = (changes: Partial<StockChanges>) => {
+      pending.productIds.push(...(changes.productIds ?? []));
+      pending.movementIds.push(...(changes.movementIds ?? []));
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const batch = pending;
+        pending = emptyChanges();
+        handlerRef.current(batch);
+      }, BATCH_DELAY_MS);
+    };
+
+    const channel = supabase
+      .channel(`stock-changes-${crypto.randomUUID()}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "products" }, (payload) => {
+        const row = ("id" in payload.new ? payload.new : payload.old) as { id?: string };
+        queue({ productIds: row.id ? [row.id] : [] });
+      })
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "stock_movements" }, (payload) => {
+        queue({ productIds: [payload.new.product_id], movementIds: [payload.new.id] });
+      })
+      .subscribe();
+
+    return () => {
+      clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+  }, []);
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { AppRole, Permission, hasPermission } from "@/lib/permissions";
+
+export function useUserRole() {
+  const [role, setRole] = useState<AppRole | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadRole = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (session) {
+        const { data: profile } = await supabase
+          .from("profiles")
+          .select("role")
+          .eq("id", session.user.id)
+          .single();
+
+        setRole(profile?.role ?? null);
+      }
+
+      setLoading(false);
+    };
+
+    loadRole();
+  }, []);
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(role, permission),
+    [role]
+  );
+
+  return { role, loading, can };
+}
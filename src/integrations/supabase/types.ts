@@ -16,134 +16,1405 @@ export type Database = {
     Tables: {
       categories: {
         Row: {
+          allow_negative_stock: boolean
           created_at: string | null
           description: string | null
           id: string
+          lendable: boolean
           name: string
         }
         Insert: {
+          allow_negative_stock?: boolean
           created_at?: string | null
           description?: string | null
           id?: string
+          lendable?: boolean
           name: string
         }
         Update: {
+          allow_negative_stock?: boolean
           created_at?: string | null
           description?: string | null
           id?: string
+          lendable?: boolean
           name?: string
         }
         Relationships: []
       }
+      cost_centers: {
+        Row: {
+          active: boolean
+          code: string
+          created_at: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          active?: boolean
+          code: string
+          created_at?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          active?: boolean
+          code?: string
+          created_at?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      inventory_count_items: {
+        Row: {
+          adjustment_movement_id: string | null
+          counted_at: string | null
+          counted_by: string | null
+          counted_quantity: number | null
+          expected_quantity: number
+          id: string
+          inventory_count_id: string
+          location_id: string
+          lot_id: string | null
+          product_id: string
+          serial_id: string | null
+        }
+        Insert: {
+          adjustment_movement_id?: string | null
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          expected_quantity: number
+          id?: string
+          inventory_count_id: string
+          location_id: string
+          lot_id?: string | null
+          product_id: string
+          serial_id?: string | null
+        }
+        Update: {
+          adjustment_movement_id?: string | null
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          expected_quantity?: number
+          id?: string
+          inventory_count_id?: string
+          location_id?: string
+          lot_id?: string | null
+          product_id?: string
+          serial_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_count_items_adjustment_movement_id_fkey"
+            columns: ["adjustment_movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_count_items_inventory_count_id_fkey"
+            columns: ["inventory_count_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_counts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_count_items_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_count_items_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_count_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_count_items_serial_id_fkey"
+            columns: ["serial_id"]
+            isOneToOne: false
+            referencedRelation: "serial_numbers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_counts: {
+        Row: {
+          category_id: string | null
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string | null
+          created_by: string
+          id: string
+          location_id: string | null
+          notes: string | null
+          number: number
+          status: string
+        }
+        Insert: {
+          category_id?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string | null
+          created_by: string
+          id?: string
+          location_id?: string | null
+          notes?: string | null
+          number?: number
+          status?: string
+        }
+        Update: {
+          category_id?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string | null
+          created_by?: string
+          id?: string
+          location_id?: string | null
+          notes?: string | null
+          number?: number
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_counts_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_counts_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locations: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      lot_balances: {
+        Row: {
+          location_id: string
+          lot_id: string
+          quantity: number
+          updated_at: string | null
+        }
+        Insert: {
+          location_id: string
+          lot_id: string
+          quantity?: number
+          updated_at?: string | null
+        }
+        Update: {
+          location_id?: string
+          lot_id?: string
+          quantity?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lot_balances_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lot_balances_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lots: {
+        Row: {
+          created_at: string | null
+          expiry_date: string | null
+          id: string
+          lot_number: string
+          product_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          expiry_date?: string | null
+          id?: string
+          lot_number: string
+          product_id: string
+        }
+        Update: {
+          created_at?: string | null
+          expiry_date?: string | null
+          id?: string
+          lot_number?: string
+          product_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lots_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      material_requisition_items: {
+        Row: {
+          approved_quantity: number | null
+          fulfilled_quantity: number
+          id: string
+          product_id: string
+          quantity: number
+          requisition_id: string
+        }
+        Insert: {
+          approved_quantity?: number | null
+          fulfilled_quantity?: number
+          id?: string
+          product_id: string
+          quantity: number
+          requisition_id: string
+        }
+        Update: {
+          approved_quantity?: number | null
+          fulfilled_quantity?: number
+          id?: string
+          product_id?: string
+          quantity?: number
+          requisition_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "material_requisition_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "material_requisition_items_requisition_id_fkey"
+            columns: ["requisition_id"]
+            isOneToOne: false
+            referencedRelation: "material_requisitions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      material_requisitions: {
+        Row: {
+          cost_center_id: string
+          created_at: string | null
+          id: string
+          number: number
+          purpose: string
+          requester_id: string
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          cost_center_id: string
+          created_at?: string | null
+          id?: string
+          number?: number
+          purpose: string
+          requester_id: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          cost_center_id?: string
+          created_at?: string | null
+          id?: string
+          number?: number
+          purpose?: string
+          requester_id?: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "material_requisitions_cost_center_id_fkey"
+            columns: ["cost_center_id"]
+            isOneToOne: false
+            referencedRelation: "cost_centers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "material_requisitions_requester_id_fkey"
+            columns: ["requester_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      movement_reasons: {
+        Row: {
+          active: boolean
+          code: string | null
+          consumption: boolean
+          created_at: string | null
+          direction: string
+          id: string
+          name: string
+        }
+        Insert: {
+          active?: boolean
+          code?: string | null
+          consumption?: boolean
+          created_at?: string | null
+          direction: string
+          id?: string
+          name: string
+        }
+        Update: {
+          active?: boolean
+          code?: string | null
+          consumption?: boolean
+          created_at?: string | null
+          direction?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      product_unit_conversions: {
+        Row: {
+          created_at: string | null
+          factor: number
+          id: string
+          product_id: string
+          unit_code: string
+        }
+        Insert: {
+          created_at?: string | null
+          factor: number
+          id?: string
+          product_id: string
+          unit_code: string
+        }
+        Update: {
+          created_at?: string | null
+          factor?: number
+          id?: string
+          product_id?: string
+          unit_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_unit_conversions_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_unit_conversions_unit_code_fkey"
+            columns: ["unit_code"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
       products: {
         Row: {
-          category_id: string | null
+          barcode: string | null
+          category_id: string | null
+          created_at: string | null
+          current_quantity: number
+          description: string | null
+          id: string
+          minimum_quantity: number
+          name: string
+          sku: string | null
+          track_lots: boolean
+          track_serials: boolean
+          unit: string
+          updated_at: string | null
+        }
+        Insert: {
+          barcode?: string | null
+          category_id?: string | null
+          created_at?: string | null
+          current_quantity?: number
+          description?: string | null
+          id?: string
+          minimum_quantity?: number
+          name: string
+          sku?: string | null
+          track_lots?: boolean
+          track_serials?: boolean
+          unit: string
+          updated_at?: string | null
+        }
+        Update: {
+          barcode?: string | null
+          category_id?: string | null
+          created_at?: string | null
+          current_quantity?: number
+          description?: string | null
+          id?: string
+          minimum_quantity?: number
+          name?: string
+          sku?: string | null
+          track_lots?: boolean
+          track_serials?: boolean
+          unit?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_unit_fkey"
+            columns: ["unit"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string | null
+          full_name: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          created_at?: string | null
+          full_name: string
+          id: string
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          created_at?: string | null
+          full_name?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      purchase_order_items: {
+        Row: {
+          id: string
+          product_id: string
+          purchase_order_id: string
+          quantity: number
+          received_quantity: number
+          unit_price: number | null
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          purchase_order_id: string
+          quantity: number
+          received_quantity?: number
+          unit_price?: number | null
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          purchase_order_id?: string
+          quantity?: number
+          received_quantity?: number
+          unit_price?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          expected_date: string | null
+          id: string
+          notes: string | null
+          number: number
+          status: string
+          supplier_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by: string
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          number?: number
+          status?: string
+          supplier_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          number?: number
+          status?: string
+          supplier_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      serial_numbers: {
+        Row: {
+          created_at: string | null
+          id: string
+          location_id: string | null
+          product_id: string
+          serial_number: string
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          location_id?: string | null
+          product_id: string
+          serial_number: string
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          location_id?: string | null
+          product_id?: string
+          serial_number?: string
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "serial_numbers_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "serial_numbers_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_balances: {
+        Row: {
+          location_id: string
+          product_id: string
+          quantity: number
+          updated_at: string | null
+        }
+        Insert: {
+          location_id: string
+          product_id: string
+          quantity?: number
+          updated_at?: string | null
+        }
+        Update: {
+          location_id?: string
+          product_id?: string
+          quantity?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_balances_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_balances_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movement_serials: {
+        Row: {
+          movement_id: string
+          serial_id: string
+        }
+        Insert: {
+          movement_id: string
+          serial_id: string
+        }
+        Update: {
+          movement_id?: string
+          serial_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movement_serials_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movement_serials_serial_id_fkey"
+            columns: ["serial_id"]
+            isOneToOne: false
+            referencedRelation: "serial_numbers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
           created_at: string | null
-          current_quantity: number
-          description: string | null
           id: string
-          minimum_quantity: number
-          name: string
-          unit: string
-          updated_at: string | null
+          input_quantity: number | null
+          input_unit: string | null
+          location_id: string
+          lot_id: string | null
+          movement_type: string
+          notes: string | null
+          product_id: string
+          purchase_order_item_id: string | null
+          quantity: number
+          reason_id: string | null
+          requisition_item_id: string | null
+          responsible_user_id: string
+          reversal_reason: string | null
+          reversed_movement_id: string | null
+          supplier_id: string | null
+          tool_loan_id: string | null
+          transfer_id: string | null
+          unit_cost: number | null
         }
         Insert: {
-          category_id?: string | null
           created_at?: string | null
-          current_quantity?: number
-          description?: string | null
           id?: string
-          minimum_quantity?: number
-          name: string
-          unit: string
-          updated_at?: string | null
+          input_quantity?: number | null
+          input_unit?: string | null
+          location_id: string
+          lot_id?: string | null
+          movement_type: string
+          notes?: string | null
+          product_id: string
+          purchase_order_item_id?: string | null
+          quantity: number
+          reason_id?: string | null
+          requisition_item_id?: string | null
+          responsible_user_id: string
+          reversal_reason?: string | null
+          reversed_movement_id?: string | null
+          supplier_id?: string | null
+          tool_loan_id?: string | null
+          transfer_id?: string | null
+          unit_cost?: number | null
         }
         Update: {
-          category_id?: string | null
           created_at?: string | null
-          current_quantity?: number
-          description?: string | null
           id?: string
-          minimum_quantity?: number
-          name?: string
-          unit?: string
-          updated_at?: string | null
+          input_quantity?: number | null
+          input_unit?: string | null
+          location_id?: string
+          lot_id?: string | null
+          movement_type?: string
+          notes?: string | null
+          product_id?: string
+          purchase_order_item_id?: string | null
+          quantity?: number
+          reason_id?: string | null
+          requisition_item_id?: string | null
+          responsible_user_id?: string
+          reversal_reason?: string | null
+          reversed_movement_id?: string | null
+          supplier_id?: string | null
+          tool_loan_id?: string | null
+          transfer_id?: string | null
+          unit_cost?: number | null
         }
         Relationships: [
           {
-            foreignKeyName: "products_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "stock_movements_input_unit_fkey"
+            columns: ["input_unit"]
             isOneToOne: false
-            referencedRelation: "categories"
+            referencedRelation: "units"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "stock_movements_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_purchase_order_item_id_fkey"
+            columns: ["purchase_order_item_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_reason_id_fkey"
+            columns: ["reason_id"]
+            isOneToOne: false
+            referencedRelation: "movement_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_requisition_item_id_fkey"
+            columns: ["requisition_item_id"]
+            isOneToOne: false
+            referencedRelation: "material_requisition_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_reversed_movement_id_fkey"
+            columns: ["reversed_movement_id"]
+            isOneToOne: true
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_tool_loan_id_fkey"
+            columns: ["tool_loan_id"]
+            isOneToOne: false
+            referencedRelation: "tool_loans"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      suppliers: {
         Row: {
           created_at: string | null
-          full_name: string
+          document: string | null
+          email: string | null
           id: string
+          name: string
+          notes: string | null
+          phone: string | null
         }
         Insert: {
           created_at?: string | null
-          full_name: string
-          id: string
+          document?: string | null
+          email?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          phone?: string | null
         }
         Update: {
           created_at?: string | null
-          full_name?: string
+          document?: string | null
+          email?: string | null
           id?: string
+          name?: string
+          notes?: string | null
+          phone?: string | null
         }
         Relationships: []
       }
-      stock_movements: {
+      tool_loans: {
         Row: {
-          created_at: string | null
+          borrower_id: string
+          checked_out_at: string
+          checked_out_by: string
+          checkout_condition: string
+          expected_return_date: string
           id: string
-          movement_type: string
+          location_id: string
           notes: string | null
+          number: number
           product_id: string
           quantity: number
-          responsible_user_id: string
+          return_condition: string | null
+          return_location_id: string | null
+          return_notes: string | null
+          returned_at: string | null
+          returned_by: string | null
         }
         Insert: {
-          created_at?: string | null
+          borrower_id: string
+          checked_out_at?: string
+          checked_out_by: string
+          checkout_condition: string
+          expected_return_date: string
           id?: string
-          movement_type: string
+          location_id: string
           notes?: string | null
+          number?: number
           product_id: string
           quantity: number
-          responsible_user_id: string
+          return_condition?: string | null
+          return_location_id?: string | null
+          return_notes?: string | null
+          returned_at?: string | null
+          returned_by?: string | null
         }
         Update: {
-          created_at?: string | null
+          borrower_id?: string
+          checked_out_at?: string
+          checked_out_by?: string
+          checkout_condition?: string
+          expected_return_date?: string
           id?: string
-          movement_type?: string
+          location_id?: string
           notes?: string | null
+          number?: number
           product_id?: string
           quantity?: number
-          responsible_user_id?: string
+          return_condition?: string | null
+          return_location_id?: string | null
+          return_notes?: string | null
+          returned_at?: string | null
+          returned_by?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "stock_movements_product_id_fkey"
+            foreignKeyName: "tool_loans_borrower_id_fkey"
+            columns: ["borrower_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tool_loans_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tool_loans_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tool_loans_return_location_id_fkey"
+            columns: ["return_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      units: {
+        Row: {
+          code: string
+          created_at: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      allows_negative_stock: {
+        Args: {
+          _product_id: string
+        }
+        Returns: boolean
+      }
+      attach_movement_serials: {
+        Args: {
+          _movement_id: string
+          _serial_numbers: string[]
+        }
+        Returns: undefined
+      }
+      cancel_purchase_order: {
+        Args: {
+          _purchase_order_id: string
+        }
+        Returns: undefined
+      }
+      checkout_tool: {
+        Args: {
+          _borrower_id: string
+          _condition?: string
+          _expected_return_date: string
+          _location_id: string
+          _notes?: string
+          _product_id: string
+          _quantity?: number
+          _serial_numbers?: string[]
+        }
+        Returns: string
+      }
+      confirm_purchase_order: {
+        Args: {
+          _purchase_order_id: string
+        }
+        Returns: undefined
+      }
+      convert_to_base_unit: {
+        Args: {
+          _product_id: string
+          _quantity: number
+          _unit: string
+        }
+        Returns: number
+      }
+      create_inventory_count: {
+        Args: {
+          _category_id?: string
+          _location_id?: string
+          _notes?: string
+        }
+        Returns: string
+      }
+      create_purchase_order: {
+        Args: {
+          _draft?: boolean
+          _expected_date?: string
+          _items: Json
+          _notes?: string
+          _supplier_id: string
+        }
+        Returns: string
+      }
+      create_requisition: {
+        Args: {
+          _cost_center_id: string
+          _items: Json
+          _purpose: string
+        }
+        Returns: string
+      }
+      dashboard_category_evolution: {
+        Args: {
+          _from: string
+          _granularity?: string
+          _timezone?: string
+          _to: string
+        }
+        Returns: {
+          bucket: string
+          category_id: string
+          quantity: number
+          unit: string
+        }[]
+      }
+      dashboard_location_totals: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          location_id: string
+          location_name: string
+          products_in_stock: number
+        }[]
+      }
+      dashboard_location_unit_totals: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          location_id: string
+          total_quantity: number
+          unit: string
+        }[]
+      }
+      dashboard_movement_volume: {
+        Args: {
+          _from: string
+          _granularity?: string
+          _timezone?: string
+          _to: string
+        }
+        Returns: {
+          bucket: string
+          entries_count: number
+          entries_quantity: number
+          exits_count: number
+          exits_quantity: number
+          unit: string
+        }[]
+      }
+      dashboard_reason_breakdown: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          direction: string
+          movements: number
+          reason_id: string
+          reason_name: string
+        }[]
+      }
+      dashboard_summary: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          entries_count: number
+          exits_count: number
+          low_stock_products: number
+          total_products: number
+        }[]
+      }
+      dashboard_top_consumed: {
+        Args: {
+          _from: string
+          _limit?: number
+          _to: string
+        }
+        Returns: {
+          product_id: string
+          product_name: string
+          quantity: number
+          unit: string
+        }[]
+      }
+      dashboard_unit_summary: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          entries_quantity: number
+          exits_quantity: number
+          unit: string
+        }[]
+      }
+      delete_category: {
+        Args: {
+          _category_id: string
+          _target_category_id?: string
+        }
+        Returns: number
+      }
+      effective_stock_movements: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          created_at: string | null
+          id: string
+          input_quantity: number | null
+          input_unit: string | null
+          location_id: string
+          lot_id: string | null
+          movement_type: string
+          notes: string | null
+          product_id: string
+          purchase_order_item_id: string | null
+          quantity: number
+          reason_id: string | null
+          requisition_item_id: string | null
+          responsible_user_id: string
+          reversal_reason: string | null
+          reversed_movement_id: string | null
+          supplier_id: string | null
+          tool_loan_id: string | null
+          transfer_id: string | null
+          unit_cost: number | null
+        }[]
+      }
+      expiring_lots: {
+        Args: {
+          _days?: number
+        }
+        Returns: {
+          expiry_date: string
+          lot_id: string
+          lot_number: string
+          product_id: string
+          product_name: string
+          quantity: number
+          unit: string
+        }[]
+      }
+      fulfill_requisition: {
+        Args: {
+          _items: Json
+          _location_id: string
+          _notes?: string
+          _requisition_id: string
+        }
+        Returns: number
+      }
+      has_role: {
+        Args: {
+          _roles: Database["public"]["Enums"]["app_role"][]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      import_products: {
+        Args: {
+          _location_id?: string
+          _products: Json
+        }
+        Returns: number
+      }
+      inventory_valuation: {
+        Args: {
+          _as_of?: string
+          _method?: string
+        }
+        Returns: {
+          category_id: string
+          category_name: string
+          missing_cost: boolean
+          product_id: string
+          product_name: string
+          quantity: number
+          sku: string
+          total_value: number
+          unit: string
+          unit_cost: number
+        }[]
+      }
+      move_serials: {
+        Args: {
+          _destination_location_id?: string
+          _location_id: string
+          _movement_type: string
+          _notes?: string
+          _product_id: string
+          _reason_id?: string
+          _serial_numbers: string[]
+          _supplier_id?: string
+          _unit_cost?: number
+        }
+        Returns: string
+      }
+      post_inventory_count: {
+        Args: {
+          _approved_item_ids: string[]
+          _inventory_count_id: string
+        }
+        Returns: {
+          adjusted_items: number
+          recount_item_ids: string[]
+        }[]
+      }
+      receive_purchase_order: {
+        Args: {
+          _items: Json
+          _location_id: string
+          _notes?: string
+          _purchase_order_id: string
+        }
+        Returns: number
+      }
+      record_inventory_count: {
+        Args: {
+          _counted_quantity?: number
+          _item_id: string
+        }
+        Returns: undefined
+      }
+      refresh_purchase_order_status: {
+        Args: {
+          _purchase_order_id: string
+        }
+        Returns: undefined
+      }
+      register_lot: {
+        Args: {
+          _expiry_date?: string
+          _lot_number: string
+          _product_id: string
+        }
+        Returns: string
+      }
+      register_lot_entry: {
+        Args: {
+          _expiry_date?: string
+          _location_id: string
+          _lot_number: string
+          _notes?: string
+          _product_id: string
+          _quantity: number
+          _reason_id: string
+          _supplier_id?: string
+          _unit?: string
+          _unit_cost?: number
+        }
+        Returns: string
+      }
+      reorder_suggestions: {
+        Args: {
+          _days?: number
+        }
+        Returns: {
+          consumed_quantity: number
+          current_quantity: number
+          last_supplier_id: string
+          last_supplier_name: string
+          minimum_quantity: number
+          pending_quantity: number
+          product_id: string
+          product_name: string
+          sku: string
+          unit: string
+        }[]
+      }
+      return_tool: {
+        Args: {
+          _condition?: string
+          _loan_id: string
+          _location_id?: string
+          _notes?: string
+        }
+        Returns: string
+      }
+      reverse_stock_movement: {
+        Args: {
+          _movement_id: string
+          _reason: string
+        }
+        Returns: string
+      }
+      review_requisition: {
+        Args: {
+          _items: Json
+          _notes?: string
+          _requisition_id: string
+        }
+        Returns: string
+      }
+      transfer_stock: {
+        Args: {
+          _from_location_id: string
+          _lot_id?: string
+          _notes?: string
+          _product_id: string
+          _quantity: number
+          _to_location_id: string
+          _unit?: string
+        }
+        Returns: string
+      }
+      update_purchase_order_draft: {
+        Args: {
+          _expected_date?: string
+          _items: Json
+          _notes?: string
+          _purchase_order_id: string
+          _supplier_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "estoquista" | "visualizador"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -270,6 +1541,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "estoquista", "visualizador"],
+    },
   },
 } as const
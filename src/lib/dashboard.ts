@@ -0,0 +1,200 @@
+import {
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  endOfDay,
+  format,
+  startOfDay,
+  subDays,
+} from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+export interface DashboardRange {
+  from: Date;
+  to: Date;
+}
+
+export type Granularity = "day" | "week" | "month";
+
+export const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: "Dia",
+  week: "Semana",
+  month: "Mês",
+};
+
+export const RANGE_PRESETS = [
+  { label: "Últimos 7 dias", days: 7 },
+  { label: "Últimos 30 dias", days: 30 },
+  { label: "Últimos 90 dias", days: 90 },
+  { label: "Últimos 12 meses", days: 365 },
+];
+
+export function lastDays(days: number): DashboardRange {
+  const today = new Date();
+  return { from: startOfDay(subDays(today, days - 1)), to: endOfDay(today) };
+}
+
+export function getBuckets(range: DashboardRange, granularity: Granularity) {
+  const interval = { start: range.from, end: range.to };
+  const starts = granularity === "month"
+    ? eachMonthOfInterval(interval)
+    : granularity === "week"
+      // Weeks start on Monday, matching Postgres date_trunc('week')
+      ? eachWeekOfInterval(interval, { weekStartsOn: 1 })
+      : eachDayOfInterval(interval);
+
+  return starts.map((start) => ({
+    key: format(start, "yyyy-MM-dd"),
+    label: format(start, granularity === "month" ? "MMM/yy" : "dd/MM", { locale: ptBR }),
+    start,
+  }));
+}
+
+// Picks a granularity that keeps the charts readable for the selected range
+export function suggestGranularity(range: DashboardRange): Granularity {
+  const days = (range.to.getTime() - range.from.getTime()) / (24 * 60 * 60 * 1000);
+  if (days > 180) {
+    return "month";
+  }
+  if (days > 45) {
+    return "week";
+  }
+  return "day";
+}
+
+export interface VolumeRow {
+  bucket: string;
+  unit: string;
+  entries_count: number;
+  exits_count: number;
+  entries_quantity: number;
+  exits_quantity: number;
+}
+
+export interface UnitSummaryRow {
+  unit: string;
+  entries_quantity: number;
+  exits_quantity: number;
+}
+
+export interface CategoryLevelRow {
+  bucket: string;
+  category_id: string | null;
+  unit: string;
+  quantity: number;
+}
+
+export interface ReasonBreakdownRow {
+  direction: string;
+  reason_id: string | null;
+  reason_name: string;
+  movements: number;
+}
+
+export interface VolumePoint {
+  label: string;
+  entradas: number;
+  saidas: number;
+  entradasCount: number;
+  saidasCount: number;
+}
+
+export interface ConsumedProduct {
+  name: string;
+  unit: string;
+  quantity: number;
+}
+
+export interface CategorySeries {
+  key: string;
+  name: string;
+}
+
+const MAX_CATEGORY_SERIES = 6;
+const OTHER_CATEGORIES_KEY = "outras";
+
+// Buckets are computed in the user's time zone so they line up with the chart labels
+export function getTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Units present in the movement volume; quantities are only charted within a single unit
+export function getVolumeUnits(rows: VolumeRow[]) {
+  return [...new Set(rows.map((row) => row.unit))].sort((a, b) => a.localeCompare(b));
+}
+
+// Periods without movements are not returned by the server, so they are filled with zeros here.
+// Counts add up across units; quantities only come from rows in the selected unit
+export function toVolumePoints(
+  rows: VolumeRow[],
+  range: DashboardRange,
+  granularity: Granularity,
+  unit: string
+): VolumePoint[] {
+  const points = new Map(getBuckets(range, granularity).map((bucket) => [
+    bucket.key,
+    { label: bucket.label, entradas: 0, saidas: 0, entradasCount: 0, saidasCount: 0 },
+  ]));
+  rows.forEach((row) => {
+    const point = points.get(row.bucket);
+    if (!point) {
+      return;
+    }
+    point.entradasCount += row.entries_count;
+    point.saidasCount += row.exits_count;
+    if (row.unit === unit) {
+      point.entradas += row.entries_quantity;
+      point.saidas += row.exits_quantity;
+    }
+  });
+  return [...points.values()];
+}
+
+// Units present in the category levels; quantities are only charted within a single unit
+export function getEvolutionUnits(rows: CategoryLevelRow[]) {
+  return [...new Set(rows.map((row) => row.unit))].sort((a, b) => a.localeCompare(b));
+}
+
+// Largest categories (by their latest level) get their own line; the rest are summed together
+export function toCategoryEvolution(
+  allRows: CategoryLevelRow[],
+  categories: { id: string; name: string }[],
+  unit: string,
+  range: DashboardRange,
+  granularity: Granularity
+): { series: CategorySeries[]; data: Record<string, string | number>[] } {
+  const rows = allRows.filter((row) => row.unit === unit);
+  const buckets = getBuckets(range, granularity);
+  const lastBucket = buckets[buckets.length - 1]?.key;
+  const categoryKey = (categoryId: string | null) => categoryId ?? "";
+
+  const ranked = rows
+    .filter((row) => row.bucket === lastBucket)
+    .sort((a, b) => b.quantity - a.quantity)
+    .map((row) => categoryKey(row.category_id));
+
+  const names = new Map(categories.map((c) => [c.id, c.name]));
+  const seriesKey = new Map(ranked.slice(0, MAX_CATEGORY_SERIES).map((id, index) => [id, `c${index}`]));
+  const series: CategorySeries[] = ranked.slice(0, MAX_CATEGORY_SERIES).map((id, index) => ({
+    key: `c${index}`,
+    name: id ? names.get(id) ?? "Categoria" : "Sem categoria",
+  }));
+  if (ranked.length > MAX_CATEGORY_SERIES) {
+    series.push({ key: OTHER_CATEGORIES_KEY, name: "Outras" });
+  }
+
+  const points = new Map(buckets.map((bucket) => [
+    bucket.key,
+    { label: bucket.label, ...Object.fromEntries(series.map((s) => [s.key, 0])) } as Record<string, string | number>,
+  ]));
+  rows.forEach((row) => {
+    const point = points.get(row.bucket);
+    if (!point) {
+      return;
+    }
+    const key = seriesKey.get(categoryKey(row.category_id)) ?? OTHER_CATEGORIES_KEY;
+    point[key] = (point[key] as number) + row.quantity;
+  });
+
+  return { series, data: [...points.values()] };
+}
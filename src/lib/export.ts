@@ -0,0 +1,132 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportValue = string | number | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportValue;
+  // Decimal places for numeric columns; dates always include the time
+  decimals?: number;
+}
+
+const DATE_FORMAT = "dd/MM/yyyy HH:mm";
+
+// Same rendering used on screen, so the spreadsheet matches what users see
+function formatCsvValue(value: ExportValue, decimals = 2) {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (value instanceof Date) {
+    return format(value, DATE_FORMAT, { locale: ptBR });
+  }
+  if (typeof value === "number") {
+    return value.toLocaleString("pt-BR", {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    });
+  }
+  return value;
+}
+
+// Spreadsheets run text starting with these characters as a formula; numbers are left alone
+// so negative quantities still open as numbers
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function neutralizeFormula(value: ExportValue) {
+  return typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+function escapeCsv(value: string) {
+  return /[";\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function exportFilename(prefix: string, exportFormat: ExportFormat) {
+  return `${prefix}_${format(new Date(), "yyyy-MM-dd")}.${exportFormat}`;
+}
+
+// Semicolon separator and UTF-8 BOM so Excel configured for pt-BR opens the file directly
+export function exportToCsv<T>(filename: string, columns: ExportColumn<T>[], rows: T[]) {
+  const lines = [
+    columns.map((c) => escapeCsv(c.header)).join(";"),
+    ...rows.map((row) =>
+      columns.map((c) => escapeCsv(formatCsvValue(neutralizeFormula(c.value(row)), c.decimals))).join(";")
+    ),
+  ];
+
+  downloadBlob(new Blob(["\uFEFF" + lines.join("\r\n")], { type: "text/csv;charset=utf-8" }), filename);
+}
+
+export async function exportToXlsx<T>(
+  filename: string,
+  sheetName: string,
+  columns: ExportColumn<T>[],
+  rows: T[]
+) {
+  // Loaded on demand to keep the spreadsheet library out of the main bundle
+  const { Workbook } = await import("exceljs");
+
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+
+  sheet.columns = columns.map((c) => ({
+    header: c.header,
+    width: Math.max(
+      c.header.length,
+      ...rows.slice(0, 200).map((row) => formatCsvValue(c.value(row), c.decimals).length)
+    ) + 2,
+  }));
+
+  // Keep numbers and dates as native cells, formatted like the screen
+  rows.forEach((row) => {
+    const values = columns.map((c) => c.value(row) ?? null);
+    const sheetRow = sheet.addRow(values.map((value) =>
+      // Spreadsheet dates have no time zone: write the local time users see on screen
+      value instanceof Date ? new Date(value.getTime() - value.getTimezoneOffset() * 60000) : value
+    ));
+
+    columns.forEach((column, columnIndex) => {
+      const value = values[columnIndex];
+      if (typeof value === "number") {
+        const decimals = column.decimals ?? 2;
+        sheetRow.getCell(columnIndex + 1).numFmt = decimals > 0 ? `#,##0.${"0".repeat(decimals)}` : "#,##0";
+      } else if (value instanceof Date) {
+        sheetRow.getCell(columnIndex + 1).numFmt = "dd/mm/yyyy hh:mm";
+      }
+    });
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(
+    new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+    filename
+  );
+}
+
+export async function exportRows<T>(
+  exportFormat: ExportFormat,
+  prefix: string,
+  sheetName: string,
+  columns: ExportColumn<T>[],
+  rows: T[]
+) {
+  const filename = exportFilename(prefix, exportFormat);
+  if (exportFormat === "csv") {
+    exportToCsv(filename, columns, rows);
+  } else {
+    await exportToXlsx(filename, sheetName, columns, rows);
+  }
+}
@@ -0,0 +1,28 @@
+export const INVENTORY_COUNT_STATUS_LABELS: Record<string, string> = {
+  aberto: "Em contagem",
+  finalizado: "Finalizado",
+  cancelado: "Cancelado",
+};
+
+export function getInventoryCountStatusLabel(status: string) {
+  return INVENTORY_COUNT_STATUS_LABELS[status] ?? status;
+}
+
+export function formatCountNumber(number: number) {
+  return `#${String(number).padStart(5, "0")}`;
+}
+
+interface CountedItem {
+  expected_quantity: number;
+  counted_quantity: number | null;
+}
+
+// Positive when more was found on the shelf than the system expected
+export function getVariance(item: CountedItem) {
+  return item.counted_quantity === null ? null : item.counted_quantity - item.expected_quantity;
+}
+
+export function hasVariance(item: CountedItem) {
+  const variance = getVariance(item);
+  return variance !== null && Math.abs(variance) >= 0.005;
+}
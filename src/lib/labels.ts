@@ -0,0 +1,89 @@
+export type LabelCodeType = "code128" | "qr";
+
+// All measurements in millimetres, as printed on the label stock packaging
+export interface LabelLayout {
+  id: string;
+  name: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  columnGap: number;
+  rowGap: number;
+}
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  {
+    id: "a4251",
+    name: "A4 - 65 etiquetas 38,2 x 21,2 mm (Pimaco A4251)",
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 5,
+    rows: 13,
+    labelWidth: 38.2,
+    labelHeight: 21.2,
+    marginTop: 10.7,
+    marginLeft: 4.5,
+    columnGap: 2.5,
+    rowGap: 0,
+  },
+  {
+    id: "a4262",
+    name: "A4 - 16 etiquetas 99,0 x 33,9 mm (Pimaco A4262)",
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 2,
+    rows: 8,
+    labelWidth: 99,
+    labelHeight: 33.9,
+    marginTop: 12.9,
+    marginLeft: 4.7,
+    columnGap: 2.6,
+    rowGap: 0,
+  },
+  {
+    id: "a4263",
+    name: "A4 - 14 etiquetas 99,0 x 38,1 mm (Pimaco A4263)",
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 2,
+    rows: 7,
+    labelWidth: 99,
+    labelHeight: 38.1,
+    marginTop: 15.1,
+    marginLeft: 4.7,
+    columnGap: 2.6,
+    rowGap: 0,
+  },
+  {
+    id: "thermal-50x30",
+    name: "Térmica 50 x 30 mm (uma por página)",
+    pageWidth: 50,
+    pageHeight: 30,
+    columns: 1,
+    rows: 1,
+    labelWidth: 50,
+    labelHeight: 30,
+    marginTop: 0,
+    marginLeft: 0,
+    columnGap: 0,
+    rowGap: 0,
+  },
+];
+
+export function getLabelLayout(id: string) {
+  return LABEL_LAYOUTS.find((l) => l.id === id) ?? LABEL_LAYOUTS[0];
+}
+
+export function paginate<T>(items: T[], layout: LabelLayout) {
+  const perPage = layout.columns * layout.rows;
+  const pages: T[][] = [];
+  for (let i = 0; i < items.length; i += perPage) {
+    pages.push(items.slice(i, i + perPage));
+  }
+  return pages;
+}
@@ -0,0 +1,34 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+export const TOOL_CONDITION_LABELS: Record<string, string> = {
+  bom: "Bom",
+  regular: "Regular",
+  danificado: "Danificado",
+};
+
+export function getToolConditionLabel(condition: string) {
+  return TOOL_CONDITION_LABELS[condition] ?? condition;
+}
+
+export function formatLoanNumber(number: number) {
+  return `#${String(number).padStart(5, "0")}`;
+}
+
+export function formatReturnDate(date: string) {
+  return format(parseISO(date), "dd/MM/yyyy", { locale: ptBR });
+}
+
+interface LoanDates {
+  expected_return_date: string;
+  returned_at: string | null;
+}
+
+// Positive while the tool is still out past the expected return date
+export function daysOverdue(loan: LoanDates) {
+  return loan.returned_at ? 0 : differenceInCalendarDays(new Date(), parseISO(loan.expected_return_date));
+}
+
+export function isOverdue(loan: LoanDates) {
+  return daysOverdue(loan) > 0;
+}
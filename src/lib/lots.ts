@@ -0,0 +1,55 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+export interface LotOption {
+  lot_id: string;
+  lot_number: string;
+  expiry_date: string | null;
+  quantity: number;
+}
+
+// Lots expiring within this many days are highlighted as close to expiry
+export const EXPIRY_WARNING_DAYS = 30;
+
+export function daysUntilExpiry(expiryDate: string) {
+  return differenceInCalendarDays(parseISO(expiryDate), new Date());
+}
+
+export function formatExpiryDate(expiryDate: string | null) {
+  return expiryDate ? format(parseISO(expiryDate), "dd/MM/yyyy", { locale: ptBR }) : "Sem validade";
+}
+
+export function getExpiryStatus(expiryDate: string | null) {
+  if (!expiryDate) {
+    return null;
+  }
+  const days = daysUntilExpiry(expiryDate);
+  if (days < 0) {
+    return { label: "Vencido", variant: "destructive" as const };
+  }
+  if (days <= EXPIRY_WARNING_DAYS) {
+    return { label: days === 0 ? "Vence hoje" : `Vence em ${days} dia(s)`, variant: "secondary" as const };
+  }
+  return null;
+}
+
+export function isExpired(expiryDate: string | null) {
+  return expiryDate !== null && daysUntilExpiry(expiryDate) < 0;
+}
+
+// Lot to preselect for an exit: the first one in FEFO order that is still within its expiry date
+export function suggestLot<T extends { expiry_date: string | null }>(sortedLots: T[]) {
+  return sortedLots.find((lot) => !isExpired(lot.expiry_date));
+}
+
+// FEFO: first expired, first out; lots without expiry go last
+export function sortByExpiry<T extends { expiry_date: string | null; lot_number: string }>(lots: T[]) {
+  return [...lots].sort((a, b) => {
+    if (a.expiry_date !== b.expiry_date) {
+      if (!a.expiry_date) return 1;
+      if (!b.expiry_date) return -1;
+      return a.expiry_date.localeCompare(b.expiry_date);
+    }
+    return a.lot_number.localeCompare(b.lot_number);
+  });
+}
@@ -0,0 +1,72 @@
+import { supabase } from "@/lib/supabase";
+import { chunk } from "@/lib/utils";
+
+interface MovementLinkSource {
+  id: string;
+  transfer_id: string | null;
+}
+
+export interface MovementLinks {
+  // Ids of movements that already have a compensating reversal
+  reversedIds: Set<string>;
+  // Location name of the other leg, keyed by transfer leg id
+  counterpartLocations: Map<string, string>;
+}
+
+export async function withResponsibleNames<T extends { responsible_user_id: string }>(rows: T[]) {
+  const userIds = [...new Set(rows.map((r) => r.responsible_user_id))];
+  if (userIds.length === 0) {
+    return [] as (T & { responsible_name: string })[];
+  }
+
+  const { data: profiles } = await supabase
+    .from("profiles")
+    .select("id, full_name")
+    .in("id", userIds);
+
+  const profileMap = new Map(profiles?.map((p) => [p.id, p.full_name]) || []);
+
+  return rows.map((r) => ({
+    ...r,
+    responsible_name: profileMap.get(r.responsible_user_id) || "Usuário",
+  }));
+}
+
+// Reversals and transfer legs can fall outside the page being shown, so they are
+// looked up separately instead of being derived from the rows at hand
+export async function loadMovementLinks(movements: MovementLinkSource[]): Promise<MovementLinks> {
+  const ids = movements.map((m) => m.id);
+  const transferIds = [...new Set(movements.map((m) => m.transfer_id).filter(Boolean))];
+
+  const reversedIds = new Set<string>();
+  const counterpartLocations = new Map<string, string>();
+
+  for (const idsChunk of chunk(ids)) {
+    const { data: reversals } = await supabase
+      .from("stock_movements")
+      .select("reversed_movement_id")
+      .in("reversed_movement_id", idsChunk);
+
+    reversals?.forEach((r) => reversedIds.add(r.reversed_movement_id));
+  }
+
+  for (const transferIdsChunk of chunk(transferIds)) {
+    const { data: legs } = await supabase
+      .from("stock_movements")
+      .select(`
+        id,
+        transfer_id,
+        locations (name)
+      `)
+      .in("transfer_id", transferIdsChunk);
+
+    legs?.forEach((leg) => {
+      const counterpart = legs.find((l) => l.transfer_id === leg.transfer_id && l.id !== leg.id);
+      if (counterpart) {
+        counterpartLocations.set(leg.id, counterpart.locations.name);
+      }
+    });
+  }
+
+  return { reversedIds, counterpartLocations };
+}
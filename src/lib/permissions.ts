@@ -0,0 +1,42 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: "Administrador",
+  estoquista: "Estoquista",
+  visualizador: "Visualizador",
+};
+
+// Mirrors the RLS policies in the migrations. The database stays the source of
+// truth; this map only decides which actions the UI offers to each role.
+const PERMISSIONS = {
+  "products.create": ["admin", "estoquista"],
+  "products.update": ["admin", "estoquista"],
+  "products.delete": ["admin"],
+  "products.import": ["admin", "estoquista"],
+  "movements.create": ["admin", "estoquista"],
+  "movements.reverse": ["admin", "estoquista"],
+  "locations.manage": ["admin"],
+  "categories.manage": ["admin"],
+  "units.manage": ["admin"],
+  "reasons.manage": ["admin"],
+  "suppliers.manage": ["admin", "estoquista"],
+  "suppliers.delete": ["admin"],
+  "purchases.manage": ["admin", "estoquista"],
+  "loans.manage": ["admin", "estoquista"],
+  "requisitions.review": ["admin", "estoquista"],
+  "cost_centers.manage": ["admin"],
+  "inventory.count": ["admin", "estoquista"],
+  "inventory.manage": ["admin"],
+  "users.manage": ["admin"],
+} satisfies Record<string, AppRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function hasPermission(role: AppRole | null, permission: Permission) {
+  if (!role) {
+    return false;
+  }
+  return (PERMISSIONS[permission] as AppRole[]).includes(role);
+}
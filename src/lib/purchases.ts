@@ -0,0 +1,26 @@
+export const PURCHASE_ORDER_STATUS_LABELS: Record<string, string> = {
+  rascunho: "Rascunho",
+  aberto: "Aberto",
+  parcial: "Recebido parcialmente",
+  recebido: "Recebido",
+  cancelado: "Cancelado",
+};
+
+const RECEIVABLE_STATUSES = ["aberto", "parcial"];
+const CANCELLABLE_STATUSES = ["rascunho", "aberto", "parcial"];
+
+export function getPurchaseOrderStatusLabel(status: string) {
+  return PURCHASE_ORDER_STATUS_LABELS[status] ?? status;
+}
+
+export function isReceivable(status: string) {
+  return RECEIVABLE_STATUSES.includes(status);
+}
+
+export function isCancellable(status: string) {
+  return CANCELLABLE_STATUSES.includes(status);
+}
+
+export function formatOrderNumber(number: number) {
+  return `#${String(number).padStart(5, "0")}`;
+}
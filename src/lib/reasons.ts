@@ -0,0 +1,19 @@
+export const REASON_DIRECTION_LABELS: Record<string, string> = {
+  entrada: "Entrada",
+  saida: "Saída",
+};
+
+export function getReasonDirectionLabel(direction: string) {
+  return REASON_DIRECTION_LABELS[direction] ?? direction;
+}
+
+export interface ReasonOption {
+  id: string;
+  name: string;
+  direction: string;
+}
+
+// Only entries and exits are explained by a reason; transfers just relocate stock
+export function getReasonsForMovement<T extends ReasonOption>(reasons: T[], movementType: string) {
+  return reasons.filter((reason) => reason.direction === movementType);
+}
@@ -0,0 +1,39 @@
+export interface ReorderData {
+  product_id: string;
+  current_quantity: number;
+  minimum_quantity: number;
+  consumed_quantity: number;
+  pending_quantity: number;
+}
+
+export interface ReorderSuggestion {
+  dailyConsumption: number;
+  // null when there was no consumption in the period, i.e. the stock never runs out
+  daysOfCover: number | null;
+  targetLevel: number;
+  suggestedQuantity: number;
+}
+
+export const ANALYSIS_PERIODS = [30, 60, 90, 180];
+
+// Minimum quantity works as safety stock; the target adds enough to cover the desired days
+export function computeReorderSuggestion(
+  data: ReorderData,
+  analysisDays: number,
+  coverageDays: number
+): ReorderSuggestion {
+  const dailyConsumption = analysisDays > 0 ? data.consumed_quantity / analysisDays : 0;
+  const daysOfCover = dailyConsumption > 0
+    ? Math.max(data.current_quantity, 0) / dailyConsumption
+    : null;
+  const targetLevel = data.minimum_quantity + dailyConsumption * coverageDays;
+  const missing = targetLevel - data.current_quantity - data.pending_quantity;
+
+  return {
+    dailyConsumption,
+    daysOfCover,
+    targetLevel,
+    // Whole units keep the suggestion practical to order
+    suggestedQuantity: missing > 0 ? Math.ceil(missing) : 0,
+  };
+}
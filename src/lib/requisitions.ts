@@ -0,0 +1,41 @@
+export const REQUISITION_STATUS_LABELS: Record<string, string> = {
+  pendente: "Aguardando aprovação",
+  aprovada: "Aprovada",
+  parcial: "Atendida parcialmente",
+  atendida: "Atendida",
+  rejeitada: "Rejeitada",
+  cancelada: "Cancelada",
+};
+
+const FULFILLABLE_STATUSES = ["aprovada", "parcial"];
+const REVIEWER_CANCELLABLE_STATUSES = ["pendente", "aprovada", "parcial"];
+
+export function getRequisitionStatusLabel(status: string) {
+  return REQUISITION_STATUS_LABELS[status] ?? status;
+}
+
+export function isReviewable(status: string) {
+  return status === "pendente";
+}
+
+export function isFulfillable(status: string) {
+  return FULFILLABLE_STATUSES.includes(status);
+}
+
+// Requesters may only withdraw a requisition nobody has reviewed yet
+export function isCancellable(status: string, asReviewer: boolean) {
+  return asReviewer ? REVIEWER_CANCELLABLE_STATUSES.includes(status) : status === "pendente";
+}
+
+export function formatRequisitionNumber(number: number) {
+  return `#${String(number).padStart(5, "0")}`;
+}
+
+interface ReviewedItem {
+  quantity: number;
+  approved_quantity: number | null;
+}
+
+export function isPartiallyApproved(items: ReviewedItem[]) {
+  return items.some((item) => item.approved_quantity !== null && item.approved_quantity < item.quantity);
+}
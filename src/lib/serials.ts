@@ -0,0 +1,34 @@
+export interface SerialOption {
+  id: string;
+  product_id: string;
+  location_id: string;
+  serial_number: string;
+}
+
+export const SERIAL_STATUS_LABELS: Record<string, string> = {
+  em_estoque: "Em estoque",
+  baixado: "Fora do estoque",
+};
+
+export function getSerialStatusLabel(status: string) {
+  return SERIAL_STATUS_LABELS[status] ?? status;
+}
+
+// One serial per line (or comma separated), as typed or read by a scanner
+export function parseSerialNumbers(text: string) {
+  return text
+    .split(/[\n,;]/)
+    .map((serial) => serial.trim())
+    .filter(Boolean);
+}
+
+export function findDuplicateSerial(serials: string[]) {
+  return serials.find((serial, index) => serials.indexOf(serial) !== index);
+}
+
+export function formatSerialNumbers(movement: { stock_movement_serials: { serial_numbers: { serial_number: string } }[] }) {
+  return movement.stock_movement_serials
+    .map((link) => link.serial_numbers.serial_number)
+    .sort()
+    .join(", ");
+}
@@ -0,0 +1,64 @@
+export const MOVEMENT_TYPE_LABELS: Record<string, string> = {
+  entrada: "Entrada",
+  saida: "Saída",
+  transferencia_entrada: "Transferência (entrada)",
+  transferencia_saida: "Transferência (saída)",
+  ajuste_entrada: "Ajuste de inventário (entrada)",
+  ajuste_saida: "Ajuste de inventário (saída)",
+};
+
+const INBOUND_MOVEMENT_TYPES = ["entrada", "transferencia_entrada", "ajuste_entrada"];
+const TRANSFER_MOVEMENT_TYPES = ["transferencia_entrada", "transferencia_saida"];
+
+export function getMovementTypeLabel(movementType: string) {
+  return MOVEMENT_TYPE_LABELS[movementType] ?? movementType;
+}
+
+export function isInboundMovement(movementType: string) {
+  return INBOUND_MOVEMENT_TYPES.includes(movementType);
+}
+
+export function isTransferMovement(movementType: string) {
+  return TRANSFER_MOVEMENT_TYPES.includes(movementType);
+}
+
+// Scanners and typed lookups resolve a product by barcode first, then SKU
+export function findProductByCode<T extends { sku: string | null; barcode: string | null }>(
+  products: T[],
+  code: string
+) {
+  const value = code.trim();
+  return products.find((p) => p.barcode === value) ?? products.find((p) => p.sku === value);
+}
+
+export interface UnitConversion {
+  unit_code: string;
+  factor: number;
+}
+
+interface ConvertibleProduct {
+  unit: string;
+  product_unit_conversions: UnitConversion[];
+}
+
+// The product's own unit comes first; balances are always kept in it
+export function getProductUnits(product: ConvertibleProduct) {
+  return [product.unit, ...product.product_unit_conversions.map((c) => c.unit_code)];
+}
+
+// Same as Postgres ROUND(value, 2): halves round away from zero. The product is trimmed to
+// 12 significant digits first so floating point noise (1.005 -> 1.00499...) does not round down
+function roundQuantity(value: number) {
+  const cents = Number((value * 100).toPrecision(12));
+  return (Math.sign(cents) * Math.round(Math.abs(cents))) / 100;
+}
+
+// Mirrors convert_to_base_unit() so the form can validate before submitting.
+// A positive quantity that rounds to 0 is rejected by the database, so callers must check for it
+export function toBaseQuantity(product: ConvertibleProduct, unit: string, quantity: number) {
+  if (unit === product.unit) {
+    return quantity;
+  }
+  const conversion = product.product_unit_conversions.find((c) => c.unit_code === unit);
+  return conversion ? roundQuantity(quantity * conversion.factor) : NaN;
+}
@@ -4,3 +4,14 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Keeps `.in()` filters well below URL length limits when looking up large selections
+const LOOKUP_CHUNK_SIZE = 200;
+
+export function chunk<T>(items: T[], size = LOOKUP_CHUNK_SIZE) {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,10 @@
+export type ValuationMethod = "wac" | "fifo";
+
+export const VALUATION_METHOD_LABELS: Record<ValuationMethod, string> = {
+  wac: "Custo médio ponderado",
+  fifo: "PEPS (primeiro a entrar, primeiro a sair)",
+};
+
+export function formatCurrency(value: number) {
+  return value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
@@ -0,0 +1,410 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, Plus, Pencil, Trash2, Tags } from "lucide-react";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/use-user-role";
+
+interface Category {
+  id: string;
+  name: string;
+  description: string | null;
+  allow_negative_stock: boolean;
+  lendable: boolean;
+  products: { count: number }[];
+}
+
+const NO_CATEGORY = "__none__";
+
+const productCount = (category: Category) => category.products[0]?.count ?? 0;
+
+const Categories = () => {
+  const navigate = useNavigate();
+  const { loading: roleLoading, can } = useUserRole();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
+  const [targetCategoryId, setTargetCategoryId] = useState("");
+
+  const [formData, setFormData] = useState({
+    name: "",
+    description: "",
+    allow_negative_stock: false,
+    lendable: false,
+  });
+
+  useEffect(() => {
+    checkAuth();
+    loadCategories();
+  }, []);
+
+  useEffect(() => {
+    if (!roleLoading && !can("categories.manage")) {
+      toast.error("Acesso restrito a administradores");
+      navigate("/dashboard");
+    }
+  }, [roleLoading, can, navigate]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadCategories = async () => {
+    const { data } = await supabase
+      .from("categories")
+      .select(`
+        *,
+        products (count)
+      `)
+      .order("name");
+
+    if (data) {
+      setCategories(data);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error("Preencha todos os campos obrigatórios");
+      return;
+    }
+
+    const categoryData = {
+      name: formData.name.trim(),
+      description: formData.description || null,
+      allow_negative_stock: formData.allow_negative_stock,
+      lendable: formData.lendable,
+    };
+
+    const { error } = editingCategory
+      ? await supabase.from("categories").update(categoryData).eq("id", editingCategory.id)
+      : await supabase.from("categories").insert([categoryData]);
+
+    if (error) {
+      toast.error(error.code === "23505"
+        ? "Já existe uma categoria com este nome"
+        : editingCategory ? "Erro ao atualizar categoria" : "Erro ao criar categoria");
+    } else {
+      toast.success(editingCategory ? "Categoria atualizada com sucesso!" : "Categoria criada com sucesso!");
+      resetForm();
+      loadCategories();
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    // Categories still in use go through the reassignment dialog instead
+    if (productCount(category) > 0) {
+      setTargetCategoryId("");
+      setDeletingCategory(category);
+      return;
+    }
+
+    if (!confirm("Tem certeza que deseja excluir esta categoria?")) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("categories")
+      .delete()
+      .eq("id", category.id);
+
+    if (error) {
+      toast.error(error.code === "23503"
+        ? "Não é possível excluir uma categoria com produtos"
+        : "Erro ao excluir categoria");
+    } else {
+      toast.success("Categoria excluída com sucesso!");
+    }
+    loadCategories();
+  };
+
+  const handleReassignAndDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!targetCategoryId) {
+      toast.error("Selecione para onde os produtos serão movidos");
+      return;
+    }
+
+    const { data, error } = await supabase.rpc("delete_category", {
+      _category_id: deletingCategory.id,
+      _target_category_id: targetCategoryId === NO_CATEGORY ? undefined : targetCategoryId,
+    });
+
+    if (error) {
+      toast.error(error.message || "Erro ao excluir categoria");
+    } else {
+      toast.success(`Categoria excluída e ${data} produto(s) movido(s)`);
+      setDeletingCategory(null);
+      loadCategories();
+    }
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingCategory(category);
+    setFormData({
+      name: category.name,
+      description: category.description || "",
+      allow_negative_stock: category.allow_negative_stock,
+      lendable: category.lendable,
+    });
+    setDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData({
+      name: "",
+      description: "",
+      allow_negative_stock: false,
+      lendable: false,
+    });
+    setEditingCategory(null);
+    setDialogOpen(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <Tags className="h-6 w-6" />
+                  Categorias
+                </CardTitle>
+                <CardDescription>
+                  Agrupamentos usados para organizar e filtrar os produtos
+                </CardDescription>
+              </div>
+              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button onClick={resetForm}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Nova Categoria
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingCategory ? "Editar Categoria" : "Nova Categoria"}
+                    </DialogTitle>
+                    <DialogDescription>
+                      Preencha os dados da categoria
+                    </DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="name">Nome *</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData({...formData, name: e.target.value})}
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="description">Descrição</Label>
+                      <Textarea
+                        id="description"
+                        value={formData.description}
+                        onChange={(e) => setFormData({...formData, description: e.target.value})}
+                        rows={3}
+                      />
+                    </div>
+
+                    <div className="flex items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="allow_negative_stock">Permitir estoque negativo</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Saídas maiores que o saldo são aceitas (itens sob encomenda)
+                        </p>
+                      </div>
+                      <Switch
+                        id="allow_negative_stock"
+                        checked={formData.allow_negative_stock}
+                        onCheckedChange={(checked) => setFormData({...formData, allow_negative_stock: checked})}
+                      />
+                    </div>
+
+                    <div className="flex items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="lendable">Itens emprestáveis</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Os produtos são retirados e devolvidos pelo controle de empréstimos (ferramentas)
+                        </p>
+                      </div>
+                      <Switch
+                        id="lendable"
+                        checked={formData.lendable}
+                        onCheckedChange={(checked) => setFormData({...formData, lendable: checked})}
+                      />
+                    </div>
+
+                    <DialogFooter>
+                      <Button type="button" variant="outline" onClick={resetForm}>
+                        Cancelar
+                      </Button>
+                      <Button type="submit">
+                        {editingCategory ? "Atualizar" : "Criar"}
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead className="text-right">Produtos</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {categories.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        Nenhuma categoria cadastrada
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    categories.map((category) => (
+                      <TableRow key={category.id}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            {category.name}
+                            {category.allow_negative_stock && (
+                              <Badge variant="outline">Estoque negativo</Badge>
+                            )}
+                            {category.lendable && (
+                              <Badge variant="outline">Emprestável</Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>{category.description || "-"}</TableCell>
+                        <TableCell className="text-right">{productCount(category)}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(category)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(category)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={!!deletingCategory} onOpenChange={(open) => !open && setDeletingCategory(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Excluir Categoria</DialogTitle>
+            <DialogDescription>
+              {deletingCategory &&
+                `${deletingCategory.name} possui ${productCount(deletingCategory)} produto(s). Escolha para onde eles serão movidos antes da exclusão`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReassignAndDelete} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Mover produtos para *</Label>
+              <Select value={targetCategoryId} onValueChange={setTargetCategoryId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a categoria" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CATEGORY}>Sem categoria</SelectItem>
+                  {categories
+                    .filter((c) => c.id !== deletingCategory?.id)
+                    .map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDeletingCategory(null)}>
+                Cancelar
+              </Button>
+              <Button type="submit" variant="destructive">
+                Mover e Excluir
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Categories;
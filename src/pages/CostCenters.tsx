@@ -0,0 +1,306 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Plus, Pencil, Trash2, Landmark } from "lucide-react";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/use-user-role";
+
+interface CostCenter {
+  id: string;
+  code: string;
+  name: string;
+  active: boolean;
+  material_requisitions: { count: number }[];
+}
+
+const CostCenters = () => {
+  const navigate = useNavigate();
+  const { loading: roleLoading, can } = useUserRole();
+  const [costCenters, setCostCenters] = useState<CostCenter[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCostCenter, setEditingCostCenter] = useState<CostCenter | null>(null);
+
+  const [formData, setFormData] = useState({
+    code: "",
+    name: "",
+    active: true,
+  });
+
+  useEffect(() => {
+    checkAuth();
+    loadCostCenters();
+  }, []);
+
+  useEffect(() => {
+    if (!roleLoading && !can("cost_centers.manage")) {
+      toast.error("Acesso restrito a administradores");
+      navigate("/dashboard");
+    }
+  }, [roleLoading, can, navigate]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadCostCenters = async () => {
+    const { data } = await supabase
+      .from("cost_centers")
+      .select(`
+        *,
+        material_requisitions (count)
+      `)
+      .order("code");
+
+    if (data) {
+      setCostCenters(data);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.code.trim() || !formData.name.trim()) {
+      toast.error("Preencha todos os campos obrigatórios");
+      return;
+    }
+
+    const costCenterData = {
+      code: formData.code.trim().toUpperCase(),
+      name: formData.name.trim(),
+      active: formData.active,
+    };
+
+    const { error } = editingCostCenter
+      ? await supabase.from("cost_centers").update(costCenterData).eq("id", editingCostCenter.id)
+      : await supabase.from("cost_centers").insert([costCenterData]);
+
+    if (error) {
+      toast.error(error.code === "23505"
+        ? "Já existe um centro de custo com este código ou nome"
+        : editingCostCenter ? "Erro ao atualizar centro de custo" : "Erro ao criar centro de custo");
+    } else {
+      toast.success(editingCostCenter ? "Centro de custo atualizado com sucesso!" : "Centro de custo criado com sucesso!");
+      resetForm();
+      loadCostCenters();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Tem certeza que deseja excluir este centro de custo?")) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("cost_centers")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      toast.error(error.code === "23503"
+        ? "Este centro de custo já tem requisições. Desative-o para que não seja mais oferecido"
+        : "Erro ao excluir centro de custo");
+    } else {
+      toast.success("Centro de custo excluído com sucesso!");
+      loadCostCenters();
+    }
+  };
+
+  const handleEdit = (costCenter: CostCenter) => {
+    setEditingCostCenter(costCenter);
+    setFormData({
+      code: costCenter.code,
+      name: costCenter.name,
+      active: costCenter.active,
+    });
+    setDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData({
+      code: "",
+      name: "",
+      active: true,
+    });
+    setEditingCostCenter(null);
+    setDialogOpen(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <Landmark className="h-6 w-6" />
+                  Centros de Custo
+                </CardTitle>
+                <CardDescription>
+                  Áreas às quais as requisições de material são atribuídas
+                </CardDescription>
+              </div>
+              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button onClick={resetForm}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Novo Centro de Custo
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingCostCenter ? "Editar Centro de Custo" : "Novo Centro de Custo"}
+                    </DialogTitle>
+                    <DialogDescription>
+                      O código aparece junto ao nome nas requisições
+                    </DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="code">Código *</Label>
+                        <Input
+                          id="code"
+                          value={formData.code}
+                          onChange={(e) => setFormData({...formData, code: e.target.value})}
+                          placeholder="Ex.: MAN"
+                          required
+                        />
+                      </div>
+                      <div className="col-span-2 space-y-2">
+                        <Label htmlFor="name">Nome *</Label>
+                        <Input
+                          id="name"
+                          value={formData.name}
+                          onChange={(e) => setFormData({...formData, name: e.target.value})}
+                          placeholder="Ex.: Manutenção"
+                          required
+                        />
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="active">Ativo</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Centros inativos deixam de ser oferecidos, mas continuam nas requisições antigas
+                        </p>
+                      </div>
+                      <Switch
+                        id="active"
+                        checked={formData.active}
+                        onCheckedChange={(checked) => setFormData({...formData, active: checked})}
+                      />
+                    </div>
+
+                    <DialogFooter>
+                      <Button type="button" variant="outline" onClick={resetForm}>
+                        Cancelar
+                      </Button>
+                      <Button type="submit">
+                        {editingCostCenter ? "Atualizar" : "Criar"}
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Código</TableHead>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Requisições</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {costCenters.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        Nenhum centro de custo cadastrado
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    costCenters.map((costCenter) => (
+                      <TableRow key={costCenter.id} className={costCenter.active ? "" : "text-muted-foreground"}>
+                        <TableCell className="font-mono">{costCenter.code}</TableCell>
+                        <TableCell className="font-medium">{costCenter.name}</TableCell>
+                        <TableCell>
+                          <Badge variant={costCenter.active ? "default" : "secondary"}>
+                            {costCenter.active ? "Ativo" : "Inativo"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{costCenter.material_requisitions[0]?.count ?? 0}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(costCenter)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(costCenter.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default CostCenters;
@@ -1,10 +1,47 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/lib/supabase";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Package, TrendingUp, TrendingDown, AlertTriangle, LogOut } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Package, TrendingUp, TrendingDown, AlertTriangle, LogOut, Warehouse } from "lucide-react";
 import { toast } from "sonner";
+import { format } from "date-fns";
+import { useUserRole } from "@/hooks/use-user-role";
+import { useStockRealtime } from "@/hooks/use-stock-realtime";
+import { ROLE_LABELS } from "@/lib/permissions";
+import {
+  CategoryLevelRow,
+  ConsumedProduct,
+  DashboardRange,
+  GRANULARITY_LABELS,
+  Granularity,
+  ReasonBreakdownRow,
+  UnitSummaryRow,
+  VolumeRow,
+  getEvolutionUnits,
+  getTimeZone,
+  getVolumeUnits,
+  lastDays,
+  suggestGranularity,
+  toCategoryEvolution,
+  toVolumePoints,
+} from "@/lib/dashboard";
+import { DateRangePicker } from "@/components/dashboard/DateRangePicker";
+import { MovementVolumeChart } from "@/components/dashboard/MovementVolumeChart";
+import { TopConsumedChart } from "@/components/dashboard/TopConsumedChart";
+import { CategoryEvolutionChart } from "@/components/dashboard/CategoryEvolutionChart";
+import { ExpiringLot, ExpiringLotsCard } from "@/components/dashboard/ExpiringLotsCard";
+import { ReasonBreakdownCard } from "@/components/dashboard/ReasonBreakdownCard";
+import { OverdueLoan, OverdueLoansCard } from "@/components/dashboard/OverdueLoansCard";
+import { EXPIRY_WARNING_DAYS } from "@/lib/lots";
 
 interface DashboardStats {
   totalProducts: number;
@@ -13,8 +50,16 @@ interface DashboardStats {
   totalExits: number;
 }
 
+interface LocationTotal {
+  id: string;
+  name: string;
+  productsInStock: number;
+  unitTotals: { unit: string; quantity: number }[];
+}
+
 const Dashboard = () => {
   const navigate = useNavigate();
+  const { role, can } = useUserRole();
   const [userName, setUserName] = useState("");
   const [stats, setStats] = useState<DashboardStats>({
     totalProducts: 0,
@@ -22,12 +67,35 @@ const Dashboard = () => {
     totalEntries: 0,
     totalExits: 0,
   });
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [unitSummary, setUnitSummary] = useState<UnitSummaryRow[]>([]);
+  const [volumeRows, setVolumeRows] = useState<VolumeRow[]>([]);
+  const [volumeUnit, setVolumeUnit] = useState("");
+  const [topConsumed, setTopConsumed] = useState<ConsumedProduct[]>([]);
+  const [evolutionRows, setEvolutionRows] = useState<CategoryLevelRow[]>([]);
+  const [evolutionUnit, setEvolutionUnit] = useState("");
+  const [reasonRows, setReasonRows] = useState<ReasonBreakdownRow[]>([]);
+  const [locationTotals, setLocationTotals] = useState<LocationTotal[]>([]);
+  const [expiringLots, setExpiringLots] = useState<ExpiringLot[]>([]);
+  const [overdueLoans, setOverdueLoans] = useState<OverdueLoan[]>([]);
+  const [range, setRange] = useState<DashboardRange>(() => lastDays(30));
+  const [granularity, setGranularity] = useState<Granularity>("day");
 
   useEffect(() => {
     checkAuth();
     loadDashboardData();
   }, []);
 
+  useEffect(() => {
+    loadPeriodData();
+  }, [range, granularity]);
+
+  // Counters, charts and location totals follow movements registered in any session
+  useStockRealtime(() => {
+    loadDashboardData();
+    loadPeriodData();
+  });
+
   const checkAuth = async () => {
     const { data: { session } } = await supabase.auth.getSession();
     
@@ -49,40 +117,94 @@ const Dashboard = () => {
   };
 
   const loadDashboardData = async () => {
-    // Get total products
-    const { count: totalProducts } = await supabase
-      .from("products")
-      .select("*", { count: "exact", head: true });
-
-    // Get low stock products
-    const { data: products } = await supabase
-      .from("products")
-      .select("current_quantity, minimum_quantity");
-
-    const lowStockProducts = products?.filter(
-      (p) => p.current_quantity <= p.minimum_quantity
-    ).length || 0;
-
-    // Get entries count
-    const { count: totalEntries } = await supabase
-      .from("stock_movements")
-      .select("*", { count: "exact", head: true })
-      .eq("movement_type", "entrada");
-
-    // Get exits count
-    const { count: totalExits } = await supabase
-      .from("stock_movements")
-      .select("*", { count: "exact", head: true })
-      .eq("movement_type", "saida");
+    const [
+      { data: categoriesData },
+      { data: locationsData },
+      { data: unitTotalsData },
+      { data: lotsData },
+      { data: loansData },
+    ] = await Promise.all([
+      supabase.from("categories").select("id, name").order("name"),
+      supabase.rpc("dashboard_location_totals"),
+      supabase.rpc("dashboard_location_unit_totals"),
+      supabase.rpc("expiring_lots", { _days: EXPIRY_WARNING_DAYS }),
+      supabase
+        .from("tool_loans")
+        .select("id, number, quantity, expected_return_date, returned_at, products (name, unit), profiles (full_name)")
+        .is("returned_at", null)
+        .lt("expected_return_date", format(new Date(), "yyyy-MM-dd"))
+        .order("expected_return_date"),
+    ]);
+
+    setCategories(categoriesData || []);
+    setExpiringLots(lotsData || []);
+    setOverdueLoans(loansData || []);
+    setLocationTotals(
+      locationsData?.map((location) => ({
+        id: location.location_id,
+        name: location.location_name,
+        productsInStock: location.products_in_stock,
+        // Quantities are only comparable within the same unit, so they are listed per unit
+        unitTotals: (unitTotalsData || [])
+          .filter((total) => total.location_id === location.location_id)
+          .map((total) => ({ unit: total.unit, quantity: total.total_quantity })),
+      })) || []
+    );
+  };
 
+  // Aggregates are computed in the database so only totals travel to the browser
+  const loadPeriodData = async () => {
+    const period = { _from: range.from.toISOString(), _to: range.to.toISOString() };
+    const bucketed = { ...period, _granularity: granularity, _timezone: getTimeZone() };
+
+    const [summary, unitTotals, volume, top, evolution, reasons] = await Promise.all([
+      supabase.rpc("dashboard_summary", period),
+      supabase.rpc("dashboard_unit_summary", period),
+      supabase.rpc("dashboard_movement_volume", bucketed),
+      supabase.rpc("dashboard_top_consumed", period),
+      supabase.rpc("dashboard_category_evolution", bucketed),
+      supabase.rpc("dashboard_reason_breakdown", period),
+    ]);
+
+    if (summary.error || unitTotals.error || volume.error || top.error || evolution.error || reasons.error) {
+      toast.error("Erro ao carregar dados do dashboard");
+      return;
+    }
+
+    const totals = summary.data?.[0];
     setStats({
-      totalProducts: totalProducts || 0,
-      lowStockProducts,
-      totalEntries: totalEntries || 0,
-      totalExits: totalExits || 0,
+      totalProducts: totals?.total_products ?? 0,
+      lowStockProducts: totals?.low_stock_products ?? 0,
+      totalEntries: totals?.entries_count ?? 0,
+      totalExits: totals?.exits_count ?? 0,
     });
+    setUnitSummary(unitTotals.data || []);
+    setVolumeRows(volume.data || []);
+    setTopConsumed(top.data?.map((row) => ({ name: row.product_name, unit: row.unit, quantity: row.quantity })) || []);
+    setEvolutionRows(evolution.data || []);
+    setReasonRows(reasons.data || []);
+  };
+
+  const handleRangeChange = (value: DashboardRange) => {
+    setRange(value);
+    setGranularity(suggestGranularity(value));
   };
 
+  const volumeUnits = useMemo(() => getVolumeUnits(volumeRows), [volumeRows]);
+  const selectedVolumeUnit = volumeUnits.includes(volumeUnit) ? volumeUnit : volumeUnits[0] ?? "";
+  const volumeData = useMemo(
+    () => toVolumePoints(volumeRows, range, granularity, selectedVolumeUnit),
+    [volumeRows, range, granularity, selectedVolumeUnit]
+  );
+  const entryTotals = unitSummary.filter((total) => total.entries_quantity > 0);
+  const exitTotals = unitSummary.filter((total) => total.exits_quantity > 0);
+  const evolutionUnits = useMemo(() => getEvolutionUnits(evolutionRows), [evolutionRows]);
+  const selectedEvolutionUnit = evolutionUnits.includes(evolutionUnit) ? evolutionUnit : evolutionUnits[0] ?? "";
+  const evolution = useMemo(
+    () => toCategoryEvolution(evolutionRows, categories, selectedEvolutionUnit, range, granularity),
+    [evolutionRows, categories, selectedEvolutionUnit, range, granularity]
+  );
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
     toast.success("Logout realizado com sucesso");
@@ -101,6 +223,7 @@ const Dashboard = () => {
             <span className="text-sm text-muted-foreground">
               Olá, <span className="font-semibold text-foreground">{userName}</span>
             </span>
+            {role && <Badge variant="outline">{ROLE_LABELS[role]}</Badge>}
             <Button variant="outline" size="sm" onClick={handleLogout}>
               <LogOut className="h-4 w-4 mr-2" />
               Sair
@@ -111,11 +234,28 @@ const Dashboard = () => {
 
       <main className="container mx-auto px-4 py-8">
         <div className="space-y-8">
-          <div>
-            <h2 className="text-3xl font-bold mb-2">Dashboard</h2>
-            <p className="text-muted-foreground">
-              Visão geral do sistema de gestão de estoque
-            </p>
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h2 className="text-3xl font-bold mb-2">Dashboard</h2>
+              <p className="text-muted-foreground">
+                Visão geral do sistema de gestão de estoque
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Select value={granularity} onValueChange={(value) => setGranularity(value as Granularity)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GRANULARITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      Por {label.toLowerCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <DateRangePicker value={range} onChange={handleRangeChange} />
+            </div>
           </div>
 
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
@@ -143,28 +283,99 @@ const Dashboard = () => {
 
             <Card className="border-success">
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Total de Entradas</CardTitle>
+                <CardTitle className="text-sm font-medium">Entradas no Período</CardTitle>
                 <TrendingUp className="h-4 w-4 text-success" />
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-success">{stats.totalEntries}</div>
                 <p className="text-xs text-muted-foreground">Movimentações de entrada</p>
+                {entryTotals.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {entryTotals.map((total) => `${total.entries_quantity.toLocaleString("pt-BR")} ${total.unit}`).join(" · ")}
+                  </p>
+                )}
               </CardContent>
             </Card>
 
             <Card className="border-destructive">
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Total de Saídas</CardTitle>
+                <CardTitle className="text-sm font-medium">Saídas no Período</CardTitle>
                 <TrendingDown className="h-4 w-4 text-destructive" />
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-destructive">{stats.totalExits}</div>
                 <p className="text-xs text-muted-foreground">Movimentações de saída</p>
+                {exitTotals.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {exitTotals.map((total) => `${total.exits_quantity.toLocaleString("pt-BR")} ${total.unit}`).join(" · ")}
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
 
-          <div className="grid gap-4 md:grid-cols-2">
+          <MovementVolumeChart
+            data={volumeData}
+            units={volumeUnits}
+            unit={selectedVolumeUnit}
+            onUnitChange={setVolumeUnit}
+          />
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <TopConsumedChart data={topConsumed} />
+            <CategoryEvolutionChart
+              series={evolution.series}
+              data={evolution.data}
+              units={evolutionUnits}
+              unit={selectedEvolutionUnit}
+              onUnitChange={setEvolutionUnit}
+            />
+          </div>
+
+          <ReasonBreakdownCard rows={reasonRows} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Warehouse className="h-5 w-5" />
+                Estoque por Local
+              </CardTitle>
+              <CardDescription>
+                Produtos com saldo e quantidades por unidade em cada almoxarifado
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {locationTotals.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhum local cadastrado</p>
+              ) : (
+                <div className="grid gap-4 md:grid-cols-3">
+                  {locationTotals.map((location) => (
+                    <div key={location.id} className="rounded-lg border p-4">
+                      <p className="text-sm font-medium">{location.name}</p>
+                      <div className="text-2xl font-bold">{location.productsInStock}</div>
+                      <p className="text-xs text-muted-foreground">produto(s) com saldo</p>
+                      {location.unitTotals.length > 0 && (
+                        <div className="mt-2 space-y-1">
+                          {location.unitTotals.map((total) => (
+                            <div key={total.unit} className="flex justify-between text-sm">
+                              <span className="text-muted-foreground">{total.unit}</span>
+                              <span className="font-medium">{total.quantity.toFixed(2)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <ExpiringLotsCard lots={expiringLots} />
+
+          <OverdueLoansCard loans={overdueLoans} onOpen={() => navigate("/tool-loans")} />
+
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/products")}>
               <CardHeader>
                 <CardTitle>Cadastro de Produtos</CardTitle>
@@ -188,6 +399,188 @@ const Dashboard = () => {
                 <Button className="w-full">Acessar Gestão</Button>
               </CardContent>
             </Card>
+
+            <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/movements")}>
+              <CardHeader>
+                <CardTitle>Histórico de Movimentações</CardTitle>
+                <CardDescription>
+                  Consulte e filtre todas as entradas, saídas e transferências
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button className="w-full">Acessar Histórico</Button>
+              </CardContent>
+            </Card>
+
+            <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/purchase-orders")}>
+              <CardHeader>
+                <CardTitle>Pedidos de Compra</CardTitle>
+                <CardDescription>
+                  Acompanhe pedidos aos fornecedores e registre os recebimentos
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button className="w-full">Acessar Pedidos</Button>
+              </CardContent>
+            </Card>
+
+            <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/reorder")}>
+              <CardHeader>
+                <CardTitle>Sugestões de Compra</CardTitle>
+                <CardDescription>
+                  Veja o que repor com base no consumo e no estoque mínimo
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button className="w-full">Ver Sugestões</Button>
+              </CardContent>
+            </Card>
+
+            <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/valuation")}>
+              <CardHeader>
+                <CardTitle>Valorização do Estoque</CardTitle>
+                <CardDescription>
+                  Consulte quanto vale o estoque por produto e categoria em qualquer data
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button className="w-full">Ver Valorização</Button>
+              </CardContent>
+            </Card>
+
+            <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/inventory-counts")}>
+              <CardHeader>
+                <CardTitle>Inventários</CardTitle>
+                <CardDescription>
+                  Conte o estoque físico e ajuste as diferenças encontradas
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button className="w-full">Acessar Inventários</Button>
+              </CardContent>
+            </Card>
+
+            <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/tool-loans")}>
+              <CardHeader>
+                <CardTitle>Empréstimos de Ferramentas</CardTitle>
+                <CardDescription>
+                  Registre retiradas e devoluções e veja o que está com cada pessoa
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button className="w-full">Acessar Empréstimos</Button>
+              </CardContent>
+            </Card>
+
+            <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/requisitions")}>
+              <CardHeader>
+                <CardTitle>Requisições de Material</CardTitle>
+                <CardDescription>
+                  Peça materiais ao estoque e acompanhe a aprovação e a entrega
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button className="w-full">Acessar Requisições</Button>
+              </CardContent>
+            </Card>
+
+            {can("suppliers.manage") && (
+              <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/suppliers")}>
+                <CardHeader>
+                  <CardTitle>Fornecedores</CardTitle>
+                  <CardDescription>
+                    Cadastre as empresas que entregam os produtos do estoque
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button className="w-full">Gerenciar Fornecedores</Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {can("users.manage") && (
+              <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/users")}>
+                <CardHeader>
+                  <CardTitle>Usuários e Permissões</CardTitle>
+                  <CardDescription>
+                    Defina quem pode cadastrar, movimentar ou apenas consultar o estoque
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button className="w-full">Gerenciar Usuários</Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {can("locations.manage") && (
+              <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/locations")}>
+                <CardHeader>
+                  <CardTitle>Locais de Estoque</CardTitle>
+                  <CardDescription>
+                    Cadastre os almoxarifados e depósitos da equipe
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button className="w-full">Gerenciar Locais</Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {can("categories.manage") && (
+              <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/categories")}>
+                <CardHeader>
+                  <CardTitle>Categorias</CardTitle>
+                  <CardDescription>
+                    Organize os produtos e defina quais aceitam estoque negativo
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button className="w-full">Gerenciar Categorias</Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {can("reasons.manage") && (
+              <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/movement-reasons")}>
+                <CardHeader>
+                  <CardTitle>Motivos de Movimentação</CardTitle>
+                  <CardDescription>
+                    Defina os motivos que explicam cada entrada e saída de estoque
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button className="w-full">Gerenciar Motivos</Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {can("cost_centers.manage") && (
+              <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/cost-centers")}>
+                <CardHeader>
+                  <CardTitle>Centros de Custo</CardTitle>
+                  <CardDescription>
+                    Cadastre as áreas às quais as requisições de material são atribuídas
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button className="w-full">Gerenciar Centros de Custo</Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {can("units.manage") && (
+              <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => navigate("/units")}>
+                <CardHeader>
+                  <CardTitle>Unidades de Medida</CardTitle>
+                  <CardDescription>
+                    Cadastre as unidades usadas em produtos e conversões
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button className="w-full">Gerenciar Unidades</Button>
+                </CardContent>
+              </Card>
+            )}
           </div>
         </div>
       </main>
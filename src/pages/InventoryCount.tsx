@@ -0,0 +1,559 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Ban, CheckCircle, ClipboardCheck, RefreshCw, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { useUserRole } from "@/hooks/use-user-role";
+import {
+  formatCountNumber,
+  getInventoryCountStatusLabel,
+  getVariance,
+  hasVariance,
+} from "@/lib/inventory";
+
+interface InventoryCountHeader {
+  id: string;
+  number: number;
+  status: string;
+  notes: string | null;
+  created_at: string;
+  categories: { name: string } | null;
+  locations: { name: string } | null;
+}
+
+interface CountItem {
+  id: string;
+  location_id: string;
+  expected_quantity: number;
+  counted_quantity: number | null;
+  counted_by: string | null;
+  counted_at: string | null;
+  adjustment_movement_id: string | null;
+  products: { name: string; sku: string | null; barcode: string | null; unit: string };
+  locations: { name: string };
+  lots: { lot_number: string } | null;
+  serial_numbers: { serial_number: string } | null;
+}
+
+const ALL = "all";
+
+const InventoryCount = () => {
+  const navigate = useNavigate();
+  const { id } = useParams();
+  const { can } = useUserRole();
+  const [count, setCount] = useState<InventoryCountHeader | null>(null);
+  const [items, setItems] = useState<CountItem[]>([]);
+  const [counterNames, setCounterNames] = useState<Map<string, string>>(new Map());
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [approved, setApproved] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState("");
+  const [locationFilter, setLocationFilter] = useState(ALL);
+  const [pendingOnly, setPendingOnly] = useState(false);
+  const [posting, setPosting] = useState(false);
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    if (id) {
+      loadCount(id);
+      loadItems(id);
+    }
+  }, [id]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadCount = async (countId: string) => {
+    const { data, error } = await supabase
+      .from("inventory_counts")
+      .select(`
+        *,
+        categories (name),
+        locations (name)
+      `)
+      .eq("id", countId)
+      .maybeSingle();
+
+    if (error || !data) {
+      toast.error("Inventário não encontrado");
+      navigate("/inventory-counts");
+    } else {
+      setCount(data);
+    }
+  };
+
+  const loadItems = async (countId: string) => {
+    const { data, error } = await supabase
+      .from("inventory_count_items")
+      .select(`
+        id,
+        location_id,
+        expected_quantity,
+        counted_quantity,
+        counted_by,
+        counted_at,
+        adjustment_movement_id,
+        products (name, sku, barcode, unit),
+        locations (name),
+        lots (lot_number),
+        serial_numbers (serial_number)
+      `)
+      .eq("inventory_count_id", countId);
+
+    if (error) {
+      toast.error("Erro ao carregar itens do inventário");
+      return;
+    }
+
+    const countItems = (data || []).sort((a, b) =>
+      a.locations.name.localeCompare(b.locations.name) || a.products.name.localeCompare(b.products.name)
+    );
+    setItems(countItems);
+    setDrafts({});
+    // Every difference starts approved; the reviewer unchecks what needs a recount
+    setApproved(new Set(countItems.filter(hasVariance).map((item) => item.id)));
+
+    const counterIds = [...new Set(countItems.map((item) => item.counted_by).filter(Boolean))];
+    if (counterIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in("id", counterIds);
+      setCounterNames(new Map(profiles?.map((p) => [p.id, p.full_name]) || []));
+    }
+  };
+
+  const isOpen = count?.status === "aberto";
+
+  const describeItem = (item: CountItem) =>
+    [
+      item.products.name,
+      item.lots && `lote ${item.lots.lot_number}`,
+      item.serial_numbers && `série ${item.serial_numbers.serial_number}`,
+      item.locations.name,
+    ].filter(Boolean).join(" · ");
+
+  const saveCount = async (item: CountItem) => {
+    const draft = drafts[item.id];
+    if (draft === undefined) {
+      return;
+    }
+
+    const value = draft.trim() === "" ? null : parseFloat(draft.replace(",", "."));
+    if (value !== null && (isNaN(value) || value < 0)) {
+      toast.error("Informe uma quantidade válida");
+      return;
+    }
+    await recordCount(item, value);
+  };
+
+  // Serialized units are counted one by one: 1 when found on the shelf, 0 when missing
+  const recordCount = async (item: CountItem, value: number | null) => {
+    if (value === item.counted_quantity) {
+      return;
+    }
+
+    const { error } = await supabase.rpc("record_inventory_count", {
+      _item_id: item.id,
+      _counted_quantity: value ?? undefined,
+    });
+
+    if (error) {
+      toast.error(error.message || "Erro ao registrar contagem");
+      return;
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    setItems((current) => current.map((i) => i.id === item.id
+      ? {
+          ...i,
+          counted_quantity: value,
+          counted_by: value === null ? null : session?.user.id ?? null,
+          counted_at: value === null ? null : new Date().toISOString(),
+        }
+      : i));
+    setApproved((current) => {
+      const next = new Set(current);
+      if (hasVariance({ expected_quantity: item.expected_quantity, counted_quantity: value })) {
+        next.add(item.id);
+      } else {
+        next.delete(item.id);
+      }
+      return next;
+    });
+  };
+
+  const toggleApproved = (itemId: string, checked: boolean) => {
+    const next = new Set(approved);
+    if (checked) {
+      next.add(itemId);
+    } else {
+      next.delete(itemId);
+    }
+    setApproved(next);
+  };
+
+  const handlePost = async () => {
+    if (!count) {
+      return;
+    }
+    const message = approved.size === 0
+      ? "Nenhuma diferença aprovada. O inventário será finalizado sem ajustes. Continuar?"
+      : `${approved.size} diferença(s) serão lançadas como ajuste de estoque. Continuar?`;
+    if (!confirm(message)) {
+      return;
+    }
+
+    setPosting(true);
+    const { data, error } = await supabase.rpc("post_inventory_count", {
+      _inventory_count_id: count.id,
+      _approved_item_ids: [...approved],
+    });
+    setPosting(false);
+
+    if (error) {
+      toast.error(error.hint === "insufficient_stock"
+        ? `${error.message}. O saldo mudou desde a abertura do inventário.`
+        : error.message || "Erro ao finalizar inventário");
+    } else {
+      const result = data?.[0];
+      toast.success(`Inventário finalizado com ${result?.adjusted_items ?? 0} ajuste(s)!`);
+      // Items moved after the count was opened are left out of the adjustments and need a new count
+      const recount = items.filter((item) => result?.recount_item_ids.includes(item.id));
+      if (recount.length > 0) {
+        toast.warning(
+          `Itens movimentados após a abertura não foram ajustados e devem ser recontados: ${recount.map(describeItem).join("; ")}`
+        );
+      }
+      loadCount(count.id);
+      loadItems(count.id);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!count || !confirm("Tem certeza que deseja cancelar este inventário? Nenhum ajuste será lançado.")) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("inventory_counts")
+      .update({ status: "cancelado" })
+      .eq("id", count.id);
+
+    if (error) {
+      toast.error("Erro ao cancelar inventário");
+    } else {
+      toast.success("Inventário cancelado");
+      loadCount(count.id);
+    }
+  };
+
+  const itemLocations = [...new Map(items.map((item) => [item.location_id, item.locations.name])).entries()];
+
+  const term = search.trim().toLowerCase();
+  const countingItems = items.filter((item) =>
+    (locationFilter === ALL || item.location_id === locationFilter)
+    && (!pendingOnly || item.counted_quantity === null)
+    && (!term
+      || item.products.name.toLowerCase().includes(term)
+      || item.products.sku?.toLowerCase() === term
+      || item.products.barcode === search.trim()
+      || item.lots?.lot_number.toLowerCase() === term
+      || item.serial_numbers?.serial_number.toLowerCase() === term)
+  );
+
+  const countedTotal = items.filter((item) => item.counted_quantity !== null).length;
+  const varianceItems = items.filter(hasVariance);
+  const uncountedTotal = items.length - countedTotal;
+
+  const formatVariance = (variance: number) => `${variance > 0 ? "+" : ""}${variance.toFixed(2)}`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/inventory-counts")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar aos Inventários
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <ClipboardCheck className="h-6 w-6" />
+                  Inventário {count && formatCountNumber(count.number)}
+                  {count && (
+                    <Badge variant={isOpen ? "default" : "outline"}>
+                      {getInventoryCountStatusLabel(count.status)}
+                    </Badge>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  {count && (
+                    <>
+                      {[count.categories?.name, count.locations?.name].filter(Boolean).join(" · ") || "Todo o estoque"}
+                      {" - aberto em "}
+                      {format(new Date(count.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                      {" - "}
+                      {countedTotal} de {items.length} itens contados
+                    </>
+                  )}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => id && loadItems(id)}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Atualizar
+                </Button>
+                {isOpen && can("inventory.manage") && (
+                  <Button variant="outline" onClick={handleCancel}>
+                    <Ban className="h-4 w-4 mr-2 text-destructive" />
+                    Cancelar
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="count">
+              <TabsList className="grid w-full grid-cols-2 sm:w-80">
+                <TabsTrigger value="count">Contagem</TabsTrigger>
+                <TabsTrigger value="review">Revisão</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="count" className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-3 sm:items-end">
+                  <div className="space-y-2">
+                    <Label htmlFor="count_search">Buscar</Label>
+                    <Input
+                      id="count_search"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Nome, SKU, código de barras, lote ou série"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Local</Label>
+                    <Select value={locationFilter} onValueChange={setLocationFilter}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>Todos os locais</SelectItem>
+                        {itemLocations.map(([locationId, name]) => (
+                          <SelectItem key={locationId} value={locationId}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center gap-2 h-10">
+                    <Switch id="pending_only" checked={pendingOnly} onCheckedChange={setPendingOnly} />
+                    <Label htmlFor="pending_only">Somente não contados</Label>
+                  </div>
+                </div>
+
+                {/* Blind count: the expected quantity is only shown in the review */}
+                <div className="border rounded-lg divide-y">
+                  {countingItems.length === 0 ? (
+                    <p className="p-4 text-center text-muted-foreground">Nenhum item encontrado</p>
+                  ) : (
+                    countingItems.map((item) => (
+                      <div key={item.id} className="flex items-center gap-4 p-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium truncate">{item.products.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {item.locations.name}
+                            {item.lots && ` · Lote ${item.lots.lot_number}`}
+                            {item.serial_numbers && ` · Série ${item.serial_numbers.serial_number}`}
+                            {item.products.sku && ` · ${item.products.sku}`}
+                          </p>
+                        </div>
+                        {item.serial_numbers ? (
+                          <div className="flex items-center gap-2">
+                            <Button
+                              size="sm"
+                              variant={item.counted_quantity === 1 ? "default" : "outline"}
+                              onClick={() => recordCount(item, item.counted_quantity === 1 ? null : 1)}
+                              disabled={!isOpen || !can("inventory.count")}
+                            >
+                              Presente
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant={item.counted_quantity === 0 ? "destructive" : "outline"}
+                              onClick={() => recordCount(item, item.counted_quantity === 0 ? null : 0)}
+                              disabled={!isOpen || !can("inventory.count")}
+                            >
+                              Ausente
+                            </Button>
+                            {item.counted_quantity !== null && (
+                              <CheckCircle className="h-4 w-4 text-success shrink-0" />
+                            )}
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <Input
+                              className="w-28 text-right"
+                              type="number"
+                              inputMode="decimal"
+                              step="0.01"
+                              min="0"
+                              placeholder="Contado"
+                              value={drafts[item.id] ?? item.counted_quantity?.toString() ?? ""}
+                              onChange={(e) => setDrafts({ ...drafts, [item.id]: e.target.value })}
+                              onBlur={() => saveCount(item)}
+                              onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                              disabled={!isOpen || !can("inventory.count")}
+                            />
+                            <span className="text-sm text-muted-foreground w-16">{item.products.unit}</span>
+                            {item.counted_quantity !== null && (
+                              <CheckCircle className="h-4 w-4 text-success shrink-0" />
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </TabsContent>
+
+              <TabsContent value="review" className="space-y-4">
+                {isOpen && uncountedTotal > 0 && (
+                  <Alert className="border-warning bg-warning/10">
+                    <AlertTriangle className="h-4 w-4 text-warning" />
+                    <AlertDescription className="text-warning-foreground">
+                      {uncountedTotal} item(ns) ainda não contado(s) não serão ajustados.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="border rounded-lg overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {isOpen && can("inventory.manage") && <TableHead className="w-10" />}
+                        <TableHead>Produto</TableHead>
+                        <TableHead>Local</TableHead>
+                        <TableHead className="text-right">Esperado</TableHead>
+                        <TableHead className="text-right">Contado</TableHead>
+                        <TableHead className="text-right">Diferença</TableHead>
+                        <TableHead>Contado por</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {varianceItems.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={7} className="text-center text-muted-foreground">
+                            Nenhuma diferença entre o contado e o esperado
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        varianceItems.map((item) => {
+                          const variance = getVariance(item);
+                          return (
+                            <TableRow key={item.id}>
+                              {isOpen && can("inventory.manage") && (
+                                <TableCell>
+                                  <Checkbox
+                                    checked={approved.has(item.id)}
+                                    onCheckedChange={(checked) => toggleApproved(item.id, checked === true)}
+                                  />
+                                </TableCell>
+                              )}
+                              <TableCell className="font-medium">
+                                {item.products.name}
+                                {item.lots && (
+                                  <p className="text-xs text-muted-foreground">Lote {item.lots.lot_number}</p>
+                                )}
+                                {item.serial_numbers && (
+                                  <p className="text-xs text-muted-foreground">Série {item.serial_numbers.serial_number}</p>
+                                )}
+                                {item.adjustment_movement_id && (
+                                  <Badge variant="outline" className="mt-1">Ajustado</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell>{item.locations.name}</TableCell>
+                              <TableCell className="text-right">
+                                {item.expected_quantity.toFixed(2)} {item.products.unit}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {item.counted_quantity?.toFixed(2)} {item.products.unit}
+                              </TableCell>
+                              <TableCell
+                                className={`text-right font-medium ${variance < 0 ? "text-destructive" : "text-success"}`}
+                              >
+                                {formatVariance(variance)}
+                              </TableCell>
+                              <TableCell>
+                                {item.counted_by ? counterNames.get(item.counted_by) ?? "Usuário" : "-"}
+                                {item.counted_at && (
+                                  <p className="text-xs text-muted-foreground">
+                                    {format(new Date(item.counted_at), "dd/MM HH:mm", { locale: ptBR })}
+                                  </p>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {isOpen && can("inventory.manage") && (
+                  <div className="flex justify-end">
+                    <Button onClick={handlePost} disabled={posting}>
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      {posting ? "Lançando..." : `Finalizar e Lançar ${approved.size} Ajuste(s)`}
+                    </Button>
+                  </div>
+                )}
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default InventoryCount;
@@ -0,0 +1,322 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, ClipboardCheck, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { useUserRole } from "@/hooks/use-user-role";
+import { formatCountNumber, getInventoryCountStatusLabel } from "@/lib/inventory";
+
+interface InventoryCount {
+  id: string;
+  number: number;
+  status: string;
+  notes: string | null;
+  created_at: string;
+  categories: { name: string } | null;
+  locations: { name: string } | null;
+  inventory_count_items: { counted_quantity: number | null }[];
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const ALL = "all";
+
+const STATUS_BADGE_VARIANTS: Record<string, "default" | "secondary" | "outline" | "destructive"> = {
+  aberto: "default",
+  finalizado: "outline",
+  cancelado: "destructive",
+};
+
+const InventoryCounts = () => {
+  const navigate = useNavigate();
+  const { can } = useUserRole();
+  const [counts, setCounts] = useState<InventoryCount[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [locations, setLocations] = useState<Option[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [formData, setFormData] = useState({
+    category_id: ALL,
+    location_id: ALL,
+    notes: "",
+  });
+
+  useEffect(() => {
+    checkAuth();
+    loadOptions();
+    loadCounts();
+  }, []);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadOptions = async () => {
+    const [{ data: categoriesData }, { data: locationsData }] = await Promise.all([
+      supabase.from("categories").select("id, name").order("name"),
+      supabase.from("locations").select("id, name").order("name"),
+    ]);
+
+    setCategories(categoriesData || []);
+    setLocations(locationsData || []);
+  };
+
+  const loadCounts = async () => {
+    const { data, error } = await supabase
+      .from("inventory_counts")
+      .select(`
+        *,
+        categories (name),
+        locations (name),
+        inventory_count_items (counted_quantity)
+      `)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast.error("Erro ao carregar inventários");
+    } else {
+      setCounts(data || []);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData({ category_id: ALL, location_id: ALL, notes: "" });
+    setDialogOpen(false);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setCreating(true);
+    const { data, error } = await supabase.rpc("create_inventory_count", {
+      _category_id: formData.category_id === ALL ? undefined : formData.category_id,
+      _location_id: formData.location_id === ALL ? undefined : formData.location_id,
+      _notes: formData.notes || undefined,
+    });
+    setCreating(false);
+
+    if (error) {
+      toast.error(error.message || "Erro ao abrir inventário");
+    } else {
+      toast.success("Inventário aberto! Os saldos esperados foram congelados.");
+      resetForm();
+      navigate(`/inventory-counts/${data}`);
+    }
+  };
+
+  const getScope = (count: InventoryCount) => {
+    const parts = [count.categories?.name, count.locations?.name].filter(Boolean);
+    return parts.length > 0 ? parts.join(" · ") : "Todo o estoque";
+  };
+
+  const getProgress = (count: InventoryCount) => {
+    const total = count.inventory_count_items.length;
+    const counted = count.inventory_count_items.filter((item) => item.counted_quantity !== null).length;
+    return { total, counted, percent: total > 0 ? (counted / total) * 100 : 0 };
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <ClipboardCheck className="h-6 w-6" />
+                  Inventários
+                </CardTitle>
+                <CardDescription>
+                  Conte o que está nas prateleiras e ajuste as diferenças de saldo
+                </CardDescription>
+              </div>
+              {can("inventory.manage") && (
+                <Button onClick={() => setDialogOpen(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Novo Inventário
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Número</TableHead>
+                    <TableHead>Escopo</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Aberto em</TableHead>
+                    <TableHead className="w-48">Contados</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {counts.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        Nenhum inventário registrado
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    counts.map((count) => {
+                      const progress = getProgress(count);
+                      return (
+                        <TableRow
+                          key={count.id}
+                          className="cursor-pointer"
+                          onClick={() => navigate(`/inventory-counts/${count.id}`)}
+                        >
+                          <TableCell className="font-medium">{formatCountNumber(count.number)}</TableCell>
+                          <TableCell>{getScope(count)}</TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_BADGE_VARIANTS[count.status] ?? "outline"}>
+                              {getInventoryCountStatusLabel(count.status)}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            {format(new Date(count.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Progress value={progress.percent} className="h-2" />
+                              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                {progress.counted}/{progress.total}
+                              </span>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && resetForm()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Novo Inventário</DialogTitle>
+            <DialogDescription>
+              Os saldos atuais do escopo escolhido ficam congelados como quantidade esperada
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Categoria</Label>
+                <Select
+                  value={formData.category_id}
+                  onValueChange={(value) => setFormData({...formData, category_id: value})}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todas as categorias</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Local</Label>
+                <Select
+                  value={formData.location_id}
+                  onValueChange={(value) => setFormData({...formData, location_id: value})}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todos os locais</SelectItem>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Produtos com lote são contados por lote e produtos com número de série, unidade por unidade.
+            </p>
+
+            <div className="space-y-2">
+              <Label htmlFor="count_notes">Observações</Label>
+              <Textarea
+                id="count_notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({...formData, notes: e.target.value})}
+                rows={2}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={creating}>
+                {creating ? "Abrindo..." : "Abrir Inventário"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default InventoryCounts;
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { chunk } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, Printer, Tag, AlertTriangle } from "lucide-react";
+import { LabelProduct, ProductLabel, getLabelCode } from "@/components/labels/ProductLabel";
+import { LABEL_LAYOUTS, LabelCodeType, getLabelLayout, paginate } from "@/lib/labels";
+
+const Labels = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [products, setProducts] = useState<LabelProduct[]>([]);
+  const [layoutId, setLayoutId] = useState(LABEL_LAYOUTS[0].id);
+  const [codeType, setCodeType] = useState<LabelCodeType>("code128");
+  const [copies, setCopies] = useState("1");
+  const [skip, setSkip] = useState("0");
+
+  // The selection travels in router state: hundreds of ids would not fit in the URL
+  const productIds: string[] = location.state?.productIds ?? [];
+
+  useEffect(() => {
+    checkAuth();
+    loadProducts();
+  }, []);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadProducts = async () => {
+    if (productIds.length === 0) {
+      return;
+    }
+
+    const results = await Promise.all(
+      chunk(productIds).map((idsChunk) =>
+        supabase.from("products").select("id, name, sku, barcode, unit").in("id", idsChunk)
+      )
+    );
+
+    setProducts(
+      results
+        .flatMap(({ data }) => data || [])
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+  };
+
+  const layout = getLabelLayout(layoutId);
+  const copiesCount = Math.max(parseInt(copies) || 1, 1);
+  const skipCount = Math.max(parseInt(skip) || 0, 0);
+  const productsWithoutCode = products.filter((p) => !getLabelCode(p));
+
+  // Skipped positions let a partially used sheet go back into the printer
+  const labels: (LabelProduct | null)[] = [
+    ...Array<null>(skipCount).fill(null),
+    ...products.flatMap((product) => Array<LabelProduct>(copiesCount).fill(product)),
+  ];
+  const pages = paginate(labels, layout);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10 print:bg-none print:bg-white">
+      <style>{`@page { size: ${layout.pageWidth}mm ${layout.pageHeight}mm; margin: 0; }`}</style>
+
+      <header className="border-b bg-card/50 backdrop-blur-sm print:hidden">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/products")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar aos Produtos
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6 print:p-0 print:m-0 print:max-w-none">
+        <Card className="print:hidden">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <Tag className="h-6 w-6" />
+                  Etiquetas
+                </CardTitle>
+                <CardDescription>
+                  {products.length} produto(s) selecionado(s) - {labels.length - skipCount} etiqueta(s)
+                  em {pages.length} página(s)
+                </CardDescription>
+              </div>
+              <Button onClick={() => window.print()} disabled={products.length === 0}>
+                <Printer className="h-4 w-4 mr-2" />
+                Imprimir
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-4">
+              <div className="space-y-2 md:col-span-2">
+                <Label>Modelo</Label>
+                <Select value={layoutId} onValueChange={setLayoutId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LABEL_LAYOUTS.map((l) => (
+                      <SelectItem key={l.id} value={l.id}>
+                        {l.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Código</Label>
+                <Select value={codeType} onValueChange={(value) => setCodeType(value as LabelCodeType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="code128">Código de barras (Code128)</SelectItem>
+                    <SelectItem value="qr">QR Code</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="copies">Cópias</Label>
+                  <Input
+                    id="copies"
+                    type="number"
+                    min="1"
+                    value={copies}
+                    onChange={(e) => setCopies(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="skip">Pular</Label>
+                  <Input
+                    id="skip"
+                    type="number"
+                    min="0"
+                    value={skip}
+                    onChange={(e) => setSkip(e.target.value)}
+                    disabled={layout.columns * layout.rows === 1}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {productIds.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Selecione os produtos na tela de cadastro para gerar as etiquetas
+              </p>
+            )}
+
+            {productsWithoutCode.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Sem SKU ou código de barras (etiqueta sairá sem código):{" "}
+                  {productsWithoutCode.map((p) => p.name).join(", ")}
+                </AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-col items-center gap-6 print:block">
+          {pages.map((page, pageIndex) => (
+            <div
+              key={pageIndex}
+              className="bg-white shadow-lg print:shadow-none"
+              style={{
+                width: `${layout.pageWidth}mm`,
+                height: `${layout.pageHeight}mm`,
+                paddingTop: `${layout.marginTop}mm`,
+                paddingLeft: `${layout.marginLeft}mm`,
+                breakAfter: "page",
+              }}
+            >
+              <div
+                className="grid"
+                style={{
+                  gridTemplateColumns: `repeat(${layout.columns}, ${layout.labelWidth}mm)`,
+                  gridAutoRows: `${layout.labelHeight}mm`,
+                  columnGap: `${layout.columnGap}mm`,
+                  rowGap: `${layout.rowGap}mm`,
+                }}
+              >
+                {page.map((product, index) =>
+                  product ? (
+                    <ProductLabel
+                      key={index}
+                      product={product}
+                      layout={layout}
+                      codeType={codeType}
+                    />
+                  ) : (
+                    <div key={index} />
+                  )
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Labels;
@@ -0,0 +1,279 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, Plus, Pencil, Trash2, Warehouse } from "lucide-react";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/use-user-role";
+
+interface Location {
+  id: string;
+  name: string;
+  description: string | null;
+  stock_balances: { quantity: number }[];
+}
+
+const Locations = () => {
+  const navigate = useNavigate();
+  const { loading: roleLoading, can } = useUserRole();
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+
+  const [formData, setFormData] = useState({
+    name: "",
+    description: "",
+  });
+
+  useEffect(() => {
+    checkAuth();
+    loadLocations();
+  }, []);
+
+  useEffect(() => {
+    if (!roleLoading && !can("locations.manage")) {
+      toast.error("Acesso restrito a administradores");
+      navigate("/dashboard");
+    }
+  }, [roleLoading, can, navigate]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadLocations = async () => {
+    const { data } = await supabase
+      .from("locations")
+      .select(`
+        *,
+        stock_balances (quantity)
+      `)
+      .order("name");
+
+    if (data) {
+      setLocations(data);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error("Preencha todos os campos obrigatórios");
+      return;
+    }
+
+    const locationData = {
+      name: formData.name.trim(),
+      description: formData.description || null,
+    };
+
+    const { error } = editingLocation
+      ? await supabase.from("locations").update(locationData).eq("id", editingLocation.id)
+      : await supabase.from("locations").insert([locationData]);
+
+    if (error) {
+      toast.error(error.code === "23505"
+        ? "Já existe um local com este nome"
+        : editingLocation ? "Erro ao atualizar local" : "Erro ao criar local");
+    } else {
+      toast.success(editingLocation ? "Local atualizado com sucesso!" : "Local criado com sucesso!");
+      resetForm();
+      loadLocations();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Tem certeza que deseja excluir este local?")) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("locations")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      toast.error(error.code === "23503"
+        ? "Não é possível excluir um local com saldos ou movimentações"
+        : "Erro ao excluir local");
+    } else {
+      toast.success("Local excluído com sucesso!");
+      loadLocations();
+    }
+  };
+
+  const handleEdit = (location: Location) => {
+    setEditingLocation(location);
+    setFormData({
+      name: location.name,
+      description: location.description || "",
+    });
+    setDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData({
+      name: "",
+      description: "",
+    });
+    setEditingLocation(null);
+    setDialogOpen(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <Warehouse className="h-6 w-6" />
+                  Locais de Estoque
+                </CardTitle>
+                <CardDescription>
+                  Almoxarifados e depósitos onde os produtos são armazenados
+                </CardDescription>
+              </div>
+              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button onClick={resetForm}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Novo Local
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingLocation ? "Editar Local" : "Novo Local"}
+                    </DialogTitle>
+                    <DialogDescription>
+                      Preencha os dados do local de estoque
+                    </DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="name">Nome *</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData({...formData, name: e.target.value})}
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="description">Descrição</Label>
+                      <Textarea
+                        id="description"
+                        value={formData.description}
+                        onChange={(e) => setFormData({...formData, description: e.target.value})}
+                        rows={3}
+                      />
+                    </div>
+
+                    <DialogFooter>
+                      <Button type="button" variant="outline" onClick={resetForm}>
+                        Cancelar
+                      </Button>
+                      <Button type="submit">
+                        {editingLocation ? "Atualizar" : "Criar"}
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead className="text-right">Produtos com Saldo</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {locations.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        Nenhum local cadastrado
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    locations.map((location) => (
+                      <TableRow key={location.id}>
+                        <TableCell className="font-medium">{location.name}</TableCell>
+                        <TableCell>{location.description || "-"}</TableCell>
+                        <TableCell className="text-right">
+                          {location.stock_balances.filter((b) => b.quantity > 0).length}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(location)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(location.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Locations;
@@ -0,0 +1,361 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Plus, Pencil, Trash2, ListTree } from "lucide-react";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/use-user-role";
+import { REASON_DIRECTION_LABELS, getReasonDirectionLabel } from "@/lib/reasons";
+
+interface MovementReason {
+  id: string;
+  name: string;
+  direction: string;
+  code: string | null;
+  active: boolean;
+  consumption: boolean;
+  stock_movements: { count: number }[];
+}
+
+const MovementReasons = () => {
+  const navigate = useNavigate();
+  const { loading: roleLoading, can } = useUserRole();
+  const [reasons, setReasons] = useState<MovementReason[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingReason, setEditingReason] = useState<MovementReason | null>(null);
+
+  const [formData, setFormData] = useState({
+    name: "",
+    direction: "saida",
+    active: true,
+    consumption: false,
+  });
+
+  useEffect(() => {
+    checkAuth();
+    loadReasons();
+  }, []);
+
+  useEffect(() => {
+    if (!roleLoading && !can("reasons.manage")) {
+      toast.error("Acesso restrito a administradores");
+      navigate("/dashboard");
+    }
+  }, [roleLoading, can, navigate]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadReasons = async () => {
+    const { data } = await supabase
+      .from("movement_reasons")
+      .select(`
+        *,
+        stock_movements (count)
+      `)
+      .order("direction")
+      .order("name");
+
+    if (data) {
+      setReasons(data);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error("Preencha todos os campos obrigatórios");
+      return;
+    }
+
+    const reasonData = {
+      name: formData.name.trim(),
+      direction: formData.direction,
+      active: formData.active,
+      consumption: formData.direction === "saida" && formData.consumption,
+    };
+
+    const { error } = editingReason
+      ? await supabase.from("movement_reasons").update(reasonData).eq("id", editingReason.id)
+      : await supabase.from("movement_reasons").insert([reasonData]);
+
+    if (error) {
+      toast.error(error.code === "23505"
+        ? "Já existe um motivo com este nome nesta direção"
+        : error.code === "P0001"
+          ? error.message
+          : editingReason ? "Erro ao atualizar motivo" : "Erro ao criar motivo");
+    } else {
+      toast.success(editingReason ? "Motivo atualizado com sucesso!" : "Motivo criado com sucesso!");
+      resetForm();
+      loadReasons();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Tem certeza que deseja excluir este motivo?")) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("movement_reasons")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      toast.error(error.code === "23503"
+        ? "Este motivo já foi usado em movimentações. Desative-o para que não seja mais oferecido"
+        : "Erro ao excluir motivo");
+    } else {
+      toast.success("Motivo excluído com sucesso!");
+      loadReasons();
+    }
+  };
+
+  const handleEdit = (reason: MovementReason) => {
+    setEditingReason(reason);
+    setFormData({
+      name: reason.name,
+      direction: reason.direction,
+      active: reason.active,
+      consumption: reason.consumption,
+    });
+    setDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData({
+      name: "",
+      direction: "saida",
+      active: true,
+      consumption: false,
+    });
+    setEditingReason(null);
+    setDialogOpen(false);
+  };
+
+  // System reasons are assigned automatically, so they must stay available as they are
+  const isSystemReason = !!editingReason?.code;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <ListTree className="h-6 w-6" />
+                  Motivos de Movimentação
+                </CardTitle>
+                <CardDescription>
+                  Motivos oferecidos ao registrar entradas e saídas de estoque
+                </CardDescription>
+              </div>
+              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button onClick={resetForm}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Novo Motivo
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingReason ? "Editar Motivo" : "Novo Motivo"}
+                    </DialogTitle>
+                    <DialogDescription>
+                      Cada motivo se aplica apenas a entradas ou apenas a saídas
+                    </DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="name">Nome *</Label>
+                        <Input
+                          id="name"
+                          value={formData.name}
+                          onChange={(e) => setFormData({...formData, name: e.target.value})}
+                          placeholder="Ex.: Quebra"
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Direção *</Label>
+                        <Select
+                          value={formData.direction}
+                          onValueChange={(value) => setFormData({...formData, direction: value})}
+                          disabled={isSystemReason}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(REASON_DIRECTION_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="active">Ativo</Label>
+                        <p className="text-sm text-muted-foreground">
+                          {isSystemReason
+                            ? "Motivo do sistema, atribuído automaticamente e sempre ativo"
+                            : "Motivos inativos deixam de ser oferecidos, mas continuam no histórico"}
+                        </p>
+                      </div>
+                      <Switch
+                        id="active"
+                        checked={formData.active}
+                        onCheckedChange={(checked) => setFormData({...formData, active: checked})}
+                        disabled={isSystemReason}
+                      />
+                    </div>
+
+                    {formData.direction === "saida" && (
+                      <div className="flex items-center justify-between rounded-lg border p-3">
+                        <div className="space-y-0.5">
+                          <Label htmlFor="consumption">Consumo</Label>
+                          <p className="text-sm text-muted-foreground">
+                            Saídas com este motivo entram no consumo usado pela sugestão de compra
+                          </p>
+                        </div>
+                        <Switch
+                          id="consumption"
+                          checked={formData.consumption}
+                          onCheckedChange={(checked) => setFormData({...formData, consumption: checked})}
+                          disabled={isSystemReason}
+                        />
+                      </div>
+                    )}
+
+                    <DialogFooter>
+                      <Button type="button" variant="outline" onClick={resetForm}>
+                        Cancelar
+                      </Button>
+                      <Button type="submit">
+                        {editingReason ? "Atualizar" : "Criar"}
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Direção</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Movimentações</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reasons.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        Nenhum motivo cadastrado
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    reasons.map((reason) => (
+                      <TableRow key={reason.id} className={reason.active ? "" : "text-muted-foreground"}>
+                        <TableCell className="font-medium">
+                          {reason.name}
+                          {reason.code && <Badge variant="outline" className="ml-2">Sistema</Badge>}
+                          {reason.consumption && <Badge variant="outline" className="ml-2">Consumo</Badge>}
+                        </TableCell>
+                        <TableCell>{getReasonDirectionLabel(reason.direction)}</TableCell>
+                        <TableCell>
+                          <Badge variant={reason.active ? "default" : "secondary"}>
+                            {reason.active ? "Ativo" : "Inativo"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{reason.stock_movements[0]?.count ?? 0}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(reason)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            {!reason.code && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(reason.id)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default MovementReasons;
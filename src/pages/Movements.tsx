@@ -0,0 +1,415 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { ArrowLeft, History, CalendarIcon, X, ChevronLeft, ChevronRight } from "lucide-react";
+import { format, parseISO, startOfDay, endOfDay } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { useUserRole } from "@/hooks/use-user-role";
+import { useStockRealtime } from "@/hooks/use-stock-realtime";
+import { useHighlight } from "@/hooks/use-highlight";
+import { MOVEMENT_TYPE_LABELS, getMovementTypeLabel } from "@/lib/stock";
+import { MovementLinks, loadMovementLinks, withResponsibleNames } from "@/lib/movements";
+import {
+  MovementHistoryItem,
+  MovementHistoryTable,
+  MovementSortColumn,
+} from "@/components/stock/MovementHistoryTable";
+import { ReverseMovementDialog } from "@/components/stock/ReverseMovementDialog";
+import { ExportMenu } from "@/components/ExportMenu";
+import { ExportColumn, ExportFormat, exportRows } from "@/lib/export";
+import { formatSerialNumbers } from "@/lib/serials";
+import { getReasonDirectionLabel } from "@/lib/reasons";
+
+const PAGE_SIZE = 25;
+const EXPORT_BATCH_SIZE = 1000;
+
+const SORT_COLUMNS: MovementSortColumn[] = ["created_at", "products(name)", "movement_type", "quantity"];
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const Movements = () => {
+  const navigate = useNavigate();
+  const { can } = useUserRole();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [movements, setMovements] = useState<MovementHistoryItem[]>([]);
+  const [movementLinks, setMovementLinks] = useState<MovementLinks>({
+    reversedIds: new Set(),
+    counterpartLocations: new Map(),
+  });
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [products, setProducts] = useState<Option[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [locations, setLocations] = useState<Option[]>([]);
+  const [users, setUsers] = useState<Option[]>([]);
+  const [reasons, setReasons] = useState<Option[]>([]);
+  const [reversingMovement, setReversingMovement] = useState<MovementHistoryItem | null>(null);
+  const { highlighted, highlight } = useHighlight();
+
+  // Filter state lives in the URL so a filtered view can be shared as a link
+  const filters = {
+    product: searchParams.get("product") || "",
+    category: searchParams.get("category") || "",
+    location: searchParams.get("location") || "",
+    type: searchParams.get("type") || "",
+    reason: searchParams.get("reason") || "",
+    user: searchParams.get("user") || "",
+    from: searchParams.get("from") || "",
+    to: searchParams.get("to") || "",
+  };
+  const sortParam = searchParams.get("sort") as MovementSortColumn;
+  const sortColumn: MovementSortColumn = SORT_COLUMNS.includes(sortParam) ? sortParam : "created_at";
+  const ascending = searchParams.get("order") === "asc";
+  const page = Math.max(parseInt(searchParams.get("page") || "1", 10) || 1, 1);
+  const totalPages = Math.max(Math.ceil(totalCount / PAGE_SIZE), 1);
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  useEffect(() => {
+    checkAuth();
+    loadFilterOptions();
+  }, []);
+
+  useEffect(() => {
+    loadMovements();
+  }, [searchParams]);
+
+  // New movements from any session show up on the current page and filters without a reload
+  useStockRealtime(async ({ movementIds }) => {
+    if (movementIds.length === 0) {
+      return;
+    }
+    await loadMovements();
+    highlight(movementIds);
+  });
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadFilterOptions = async () => {
+    const [
+      { data: productsData },
+      { data: categoriesData },
+      { data: locationsData },
+      { data: profilesData },
+      { data: reasonsData },
+    ] = await Promise.all([
+      supabase.from("products").select("id, name").order("name"),
+      supabase.from("categories").select("id, name").order("name"),
+      supabase.from("locations").select("id, name").order("name"),
+      supabase.from("profiles").select("id, full_name").order("full_name"),
+      supabase.from("movement_reasons").select("id, name, direction").order("direction").order("name"),
+    ]);
+
+    setProducts(productsData || []);
+    setCategories(categoriesData || []);
+    setLocations(locationsData || []);
+    setUsers(profilesData?.map((p) => ({ id: p.id, name: p.full_name })) || []);
+    // The same name may exist on both sides, e.g. inventory adjustments
+    setReasons(reasonsData?.map((r) => ({
+      id: r.id,
+      name: `${r.name} (${getReasonDirectionLabel(r.direction)})`,
+    })) || []);
+  };
+
+  const buildQuery = () => {
+    let query = supabase
+      .from("stock_movements")
+      .select(`
+        *,
+        products!inner (name, unit, category_id, categories (name)),
+        lots (lot_number),
+        movement_reasons (name),
+        stock_movement_serials (serial_numbers (serial_number)),
+        locations (name)
+      `, { count: "exact" });
+
+    if (filters.product) {
+      query = query.eq("product_id", filters.product);
+    }
+    if (filters.category) {
+      query = query.eq("products.category_id", filters.category);
+    }
+    if (filters.location) {
+      query = query.eq("location_id", filters.location);
+    }
+    if (filters.type) {
+      query = query.eq("movement_type", filters.type);
+    }
+    if (filters.reason) {
+      query = query.eq("reason_id", filters.reason);
+    }
+    if (filters.user) {
+      query = query.eq("responsible_user_id", filters.user);
+    }
+    if (filters.from) {
+      query = query.gte("created_at", startOfDay(parseISO(filters.from)).toISOString());
+    }
+    if (filters.to) {
+      query = query.lte("created_at", endOfDay(parseISO(filters.to)).toISOString());
+    }
+
+    return query.order(sortColumn, { ascending }).order("id");
+  };
+
+  const loadMovements = async () => {
+    setLoading(true);
+
+    const rangeStart = (page - 1) * PAGE_SIZE;
+    const { data, count } = await buildQuery().range(rangeStart, rangeStart + PAGE_SIZE - 1);
+
+    if (data) {
+      setMovements(await withResponsibleNames(data));
+      setMovementLinks(await loadMovementLinks(data));
+      setTotalCount(count || 0);
+    }
+
+    setLoading(false);
+  };
+
+  // Exports every movement matching the active filters, not just the visible page
+  const handleExport = async (format: ExportFormat) => {
+    const rows: Awaited<ReturnType<typeof buildQuery>>["data"] = [];
+    for (let rangeStart = 0; rangeStart < totalCount; rangeStart += EXPORT_BATCH_SIZE) {
+      const { data, error } = await buildQuery().range(rangeStart, rangeStart + EXPORT_BATCH_SIZE - 1);
+      if (error) {
+        throw error;
+      }
+      rows.push(...data);
+    }
+
+    const movementsWithNames = await withResponsibleNames(rows);
+    const links = await loadMovementLinks(rows);
+
+    const columns: ExportColumn<(typeof movementsWithNames)[number]>[] = [
+      { header: "Data", value: (m) => new Date(m.created_at) },
+      { header: "Produto", value: (m) => m.products.name },
+      { header: "Categoria", value: (m) => m.products.categories?.name },
+      { header: "Local", value: (m) => m.locations.name },
+      { header: "Tipo", value: (m) => getMovementTypeLabel(m.movement_type) },
+      { header: "Motivo", value: (m) => m.movement_reasons?.name },
+      { header: "Local de Origem/Destino", value: (m) => links.counterpartLocations.get(m.id) },
+      { header: "Quantidade", value: (m) => m.quantity },
+      { header: "Unidade", value: (m) => m.products.unit },
+      { header: "Qtd. Informada", value: (m) => m.input_quantity },
+      { header: "Unidade Informada", value: (m) => m.input_unit },
+      { header: "Lote", value: (m) => m.lots?.lot_number },
+      { header: "Números de Série", value: (m) => formatSerialNumbers(m) },
+      { header: "Custo Unitário", value: (m) => m.unit_cost, decimals: 4 },
+      { header: "Custo Total", value: (m) => (m.unit_cost !== null ? m.unit_cost * m.quantity : null) },
+      { header: "Responsável", value: (m) => m.responsible_name },
+      { header: "Observações", value: (m) => m.notes },
+      {
+        header: "Estorno",
+        value: (m) => (m.reversed_movement_id
+          ? `Estorno: ${m.reversal_reason}`
+          : links.reversedIds.has(m.id) ? "Estornada" : ""),
+      },
+    ];
+
+    await exportRows(format, "movimentacoes", "Movimentações", columns, movementsWithNames);
+  };
+
+  const updateParams = (changes: Record<string, string | null>, resetPage = true) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    if (resetPage) {
+      next.delete("page");
+    }
+    setSearchParams(next);
+  };
+
+  const handleSort = (column: MovementSortColumn) => {
+    if (column === sortColumn) {
+      updateParams({ order: ascending ? null : "asc" });
+    } else {
+      updateParams({ sort: column === "created_at" ? null : column, order: null });
+    }
+  };
+
+  const clearFilters = () => {
+    const next = new URLSearchParams();
+    ["sort", "order"].forEach((key) => {
+      const value = searchParams.get(key);
+      if (value) {
+        next.set(key, value);
+      }
+    });
+    setSearchParams(next);
+  };
+
+  const renderSelectFilter = (
+    key: keyof typeof filters,
+    label: string,
+    placeholder: string,
+    options: Option[]
+  ) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select
+        value={filters[key] || "all"}
+        onValueChange={(value) => updateParams({ [key]: value === "all" ? null : value })}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">{placeholder}</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.id} value={option.id}>
+              {option.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const renderDateFilter = (key: "from" | "to", label: string) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="w-full justify-start font-normal">
+            <CalendarIcon className="h-4 w-4 mr-2" />
+            {filters[key]
+              ? format(parseISO(filters[key]), "dd/MM/yyyy", { locale: ptBR })
+              : <span className="text-muted-foreground">Qualquer data</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            locale={ptBR}
+            selected={filters[key] ? parseISO(filters[key]) : undefined}
+            onSelect={(date) => updateParams({ [key]: date ? format(date, "yyyy-MM-dd") : null })}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+
+  const typeOptions = Object.entries(MOVEMENT_TYPE_LABELS).map(([id, name]) => ({ id, name }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <History className="h-6 w-6" />
+                  Histórico de Movimentações
+                </CardTitle>
+                <CardDescription>
+                  Consulte todas as movimentações registradas, com filtros e ordenação
+                </CardDescription>
+              </div>
+              <ExportMenu onExport={handleExport} disabled={totalCount === 0} />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-4">
+              {renderSelectFilter("product", "Produto", "Todos os produtos", products)}
+              {renderSelectFilter("category", "Categoria", "Todas as categorias", categories)}
+              {renderSelectFilter("location", "Local", "Todos os locais", locations)}
+              {renderSelectFilter("type", "Tipo", "Todos os tipos", typeOptions)}
+              {renderSelectFilter("reason", "Motivo", "Todos os motivos", reasons)}
+              {renderSelectFilter("user", "Responsável", "Todos os responsáveis", users)}
+              {renderDateFilter("from", "De")}
+              {renderDateFilter("to", "Até")}
+              <div className="flex items-end">
+                <Button variant="ghost" onClick={clearFilters} disabled={!hasFilters}>
+                  <X className="h-4 w-4 mr-2" />
+                  Limpar filtros
+                </Button>
+              </div>
+            </div>
+
+            <div className="border rounded-lg">
+              <MovementHistoryTable
+                movements={movements}
+                links={movementLinks}
+                canReverse={can("movements.reverse")}
+                onReverse={setReversingMovement}
+                sort={{ column: sortColumn, ascending, onSort: handleSort }}
+                highlightedIds={highlighted}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {loading
+                  ? "Carregando..."
+                  : `${totalCount} movimentação(ões) - página ${page} de ${totalPages}`}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page <= 1}
+                  onClick={() => updateParams({ page: page - 1 > 1 ? String(page - 1) : null }, false)}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Anterior
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= totalPages}
+                  onClick={() => updateParams({ page: String(page + 1) }, false)}
+                >
+                  Próxima
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+
+      <ReverseMovementDialog
+        movement={reversingMovement}
+        onClose={() => setReversingMovement(null)}
+        onReversed={loadMovements}
+      />
+    </div>
+  );
+};
+
+export default Movements;
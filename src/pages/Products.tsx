@@ -30,45 +30,74 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { ArrowLeft, Plus, Search, Pencil, Trash2, Package } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, Plus, Search, Pencil, Trash2, Package, Scale, Tag, Camera } from "lucide-react";
 import { toast } from "sonner";
+import { useUserRole } from "@/hooks/use-user-role";
+import { ExportMenu } from "@/components/ExportMenu";
+import { ExportColumn, ExportFormat, exportRows } from "@/lib/export";
+import { ProductImportDialog } from "@/components/products/ProductImportDialog";
+import { ProductUnitsDialog } from "@/components/products/ProductUnitsDialog";
+import { CameraScannerDialog } from "@/components/scanner/CameraScannerDialog";
+import { findProductByCode } from "@/lib/stock";
 
 interface Category {
   id: string;
   name: string;
 }
 
+interface Unit {
+  code: string;
+  name: string;
+}
+
 interface Product {
   id: string;
   name: string;
+  sku: string | null;
+  barcode: string | null;
   description: string | null;
   unit: string;
   current_quantity: number;
   minimum_quantity: number;
+  track_lots: boolean;
+  track_serials: boolean;
   category_id: string | null;
   categories?: { name: string };
 }
 
 const Products = () => {
   const navigate = useNavigate();
+  const { can } = useUserRole();
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [units, setUnits] = useState<Unit[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [conversionsProduct, setConversionsProduct] = useState<Product | null>(null);
+  const [unitLocked, setUnitLocked] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [cameraOpen, setCameraOpen] = useState(false);
   
   // Form states
   const [formData, setFormData] = useState({
     name: "",
+    sku: "",
+    barcode: "",
     description: "",
     category_id: "",
     unit: "unidade",
     minimum_quantity: "0",
+    track_lots: false,
+    track_serials: false,
   });
 
   useEffect(() => {
     checkAuth();
     loadCategories();
+    loadUnits();
     loadProducts();
   }, []);
 
@@ -90,6 +119,17 @@ const Products = () => {
     }
   };
 
+  const loadUnits = async () => {
+    const { data } = await supabase
+      .from("units")
+      .select("code, name")
+      .order("name");
+
+    if (data) {
+      setUnits(data);
+    }
+  };
+
   const loadProducts = async () => {
     const { data } = await supabase
       .from("products")
@@ -114,10 +154,14 @@ const Products = () => {
 
     const productData = {
       name: formData.name,
+      sku: formData.sku.trim() || null,
+      barcode: formData.barcode.trim() || null,
       description: formData.description || null,
       category_id: formData.category_id || null,
       unit: formData.unit,
       minimum_quantity: parseFloat(formData.minimum_quantity),
+      track_lots: formData.track_lots,
+      track_serials: formData.track_serials,
     };
 
     if (editingProduct) {
@@ -127,7 +171,9 @@ const Products = () => {
         .eq("id", editingProduct.id);
 
       if (error) {
-        toast.error("Erro ao atualizar produto");
+        // P0001 carries the trigger's explanation, e.g. enabling serials on a product with stock
+        toast.error(getUniqueErrorMessage(error)
+          ?? (error.code === "P0001" ? error.message : "Erro ao atualizar produto"));
       } else {
         toast.success("Produto atualizado com sucesso!");
         resetForm();
@@ -139,7 +185,7 @@ const Products = () => {
         .insert([{ ...productData, current_quantity: 0 }]);
 
       if (error) {
-        toast.error("Erro ao criar produto");
+        toast.error(getUniqueErrorMessage(error) ?? "Erro ao criar produto");
       } else {
         toast.success("Produto criado com sucesso!");
         resetForm();
@@ -148,6 +194,19 @@ const Products = () => {
     }
   };
 
+  const getUniqueErrorMessage = (error: { code: string; message: string }) => {
+    if (error.code !== "23505") {
+      return null;
+    }
+    if (error.message.includes("products_sku_key")) {
+      return "Já existe um produto com este SKU";
+    }
+    if (error.message.includes("products_barcode_key")) {
+      return "Já existe um produto com este código de barras";
+    }
+    return null;
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm("Tem certeza que deseja excluir este produto?")) {
       return;
@@ -170,30 +229,95 @@ const Products = () => {
     setEditingProduct(product);
     setFormData({
       name: product.name,
+      sku: product.sku || "",
+      barcode: product.barcode || "",
       description: product.description || "",
       category_id: product.category_id || "",
       unit: product.unit,
       minimum_quantity: product.minimum_quantity.toString(),
+      track_lots: product.track_lots,
+      track_serials: product.track_serials,
     });
+    setUnitLocked(product.current_quantity !== 0);
     setDialogOpen(true);
+    loadUnitLock(product.id);
+  };
+
+  // The base unit is fixed once the product has stock history, mirroring the products trigger
+  const loadUnitLock = async (productId: string) => {
+    const { count } = await supabase
+      .from("stock_movements")
+      .select("id", { count: "exact", head: true })
+      .eq("product_id", productId);
+
+    if (count) {
+      setUnitLocked(true);
+    }
   };
 
   const resetForm = () => {
     setFormData({
       name: "",
+      sku: "",
+      barcode: "",
       description: "",
       category_id: "",
       unit: "unidade",
       minimum_quantity: "0",
+      track_lots: false,
+      track_serials: false,
     });
     setEditingProduct(null);
+    setUnitLocked(false);
     setDialogOpen(false);
   };
 
   const filteredProducts = products.filter(product =>
-    product.name.toLowerCase().includes(searchTerm.toLowerCase())
+    [product.name, product.sku, product.barcode].some((value) =>
+      value?.toLowerCase().includes(searchTerm.toLowerCase())
+    )
   );
 
+  const handleScannedCode = (code: string) => {
+    if (!findProductByCode(products, code)) {
+      toast.error(`Nenhum produto com o código ${code}`);
+    }
+    setSearchTerm(code.trim());
+  };
+
+  const allFilteredSelected =
+    filteredProducts.length > 0 && filteredProducts.every((p) => selectedIds.includes(p.id));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter((s) => s !== id));
+  };
+
+  const toggleAllFiltered = (checked: boolean) => {
+    const filteredIds = filteredProducts.map((p) => p.id);
+    setSelectedIds(checked
+      ? [...new Set([...selectedIds, ...filteredIds])]
+      : selectedIds.filter((id) => !filteredIds.includes(id)));
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const columns: ExportColumn<Product>[] = [
+      { header: "Nome", value: (p) => p.name },
+      { header: "SKU", value: (p) => p.sku },
+      { header: "Código de Barras", value: (p) => p.barcode },
+      { header: "Descrição", value: (p) => p.description },
+      { header: "Categoria", value: (p) => p.categories?.name },
+      { header: "Unidade", value: (p) => p.unit },
+      { header: "Qtd. Atual", value: (p) => p.current_quantity },
+      { header: "Qtd. Mínima", value: (p) => p.minimum_quantity },
+      {
+        header: "Situação",
+        value: (p) => (p.current_quantity <= p.minimum_quantity ? "Estoque Baixo" : "Normal"),
+      },
+    ];
+
+    return exportRows(format, "produtos", "Produtos", columns, filteredProducts);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
       <header className="border-b bg-card/50 backdrop-blur-sm">
@@ -218,127 +342,225 @@ const Products = () => {
                   Gerencie todos os produtos do seu estoque
                 </CardDescription>
               </div>
-              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button onClick={resetForm}>
-                    <Plus className="h-4 w-4 mr-2" />
-                    Novo Produto
-                  </Button>
-                </DialogTrigger>
-                <DialogContent className="max-w-2xl">
-                  <DialogHeader>
-                    <DialogTitle>
-                      {editingProduct ? "Editar Produto" : "Novo Produto"}
-                    </DialogTitle>
-                    <DialogDescription>
-                      Preencha os dados do produto
-                    </DialogDescription>
-                  </DialogHeader>
-                  <form onSubmit={handleSubmit} className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => navigate("/labels", { state: { productIds: selectedIds } })}
+                  disabled={selectedIds.length === 0}
+                >
+                  <Tag className="h-4 w-4 mr-2" />
+                  Etiquetas{selectedIds.length > 0 && ` (${selectedIds.length})`}
+                </Button>
+                <ExportMenu onExport={handleExport} disabled={filteredProducts.length === 0} />
+                {can("products.import") && (
+                  <ProductImportDialog
+                    categories={categories}
+                    units={units}
+                    existingProductNames={products.map((p) => p.name)}
+                    canCreateCategories={can("categories.manage")}
+                    onImported={() => {
+                      loadCategories();
+                      loadProducts();
+                    }}
+                  />
+                )}
+                <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                  {can("products.create") && (
+                    <DialogTrigger asChild>
+                      <Button onClick={resetForm}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        Novo Produto
+                      </Button>
+                    </DialogTrigger>
+                  )}
+                  <DialogContent className="max-w-2xl">
+                    <DialogHeader>
+                      <DialogTitle>
+                        {editingProduct ? "Editar Produto" : "Novo Produto"}
+                      </DialogTitle>
+                      <DialogDescription>
+                        Preencha os dados do produto
+                      </DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="name">Nome *</Label>
+                          <Input
+                            id="name"
+                            value={formData.name}
+                            onChange={(e) => setFormData({...formData, name: e.target.value})}
+                            required
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="unit">Unidade *</Label>
+                          <Select
+                            value={formData.unit}
+                            onValueChange={(value) => setFormData({...formData, unit: value})}
+                            disabled={unitLocked}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {units.map((unit) => (
+                                <SelectItem key={unit.code} value={unit.code}>
+                                  {unit.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {unitLocked && (
+                            <p className="text-sm text-muted-foreground">
+                              Produto com movimentações ou saldo não pode mudar de unidade
+                            </p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="sku">SKU</Label>
+                          <Input
+                            id="sku"
+                            value={formData.sku}
+                            onChange={(e) => setFormData({...formData, sku: e.target.value})}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="barcode">Código de Barras (EAN)</Label>
+                          <Input
+                            id="barcode"
+                            value={formData.barcode}
+                            onChange={(e) => setFormData({...formData, barcode: e.target.value})}
+                          />
+                        </div>
+                      </div>
+                      
                       <div className="space-y-2">
-                        <Label htmlFor="name">Nome *</Label>
-                        <Input
-                          id="name"
-                          value={formData.name}
-                          onChange={(e) => setFormData({...formData, name: e.target.value})}
-                          required
+                        <Label htmlFor="description">Descrição</Label>
+                        <Textarea
+                          id="description"
+                          value={formData.description}
+                          onChange={(e) => setFormData({...formData, description: e.target.value})}
+                          rows={3}
                         />
                       </div>
-                      <div className="space-y-2">
-                        <Label htmlFor="unit">Unidade *</Label>
-                        <Select
-                          value={formData.unit}
-                          onValueChange={(value) => setFormData({...formData, unit: value})}
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="unidade">Unidade</SelectItem>
-                            <SelectItem value="kg">Quilograma (kg)</SelectItem>
-                            <SelectItem value="g">Grama (g)</SelectItem>
-                            <SelectItem value="litro">Litro</SelectItem>
-                            <SelectItem value="metro">Metro</SelectItem>
-                            <SelectItem value="kit">Kit</SelectItem>
-                          </SelectContent>
-                        </Select>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="category">Categoria</Label>
+                          <Select
+                            value={formData.category_id}
+                            onValueChange={(value) => setFormData({...formData, category_id: value})}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Selecione uma categoria" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {categories.map((cat) => (
+                                <SelectItem key={cat.id} value={cat.id}>
+                                  {cat.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="minimum_quantity">Quantidade Mínima *</Label>
+                          <Input
+                            id="minimum_quantity"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={formData.minimum_quantity}
+                            onChange={(e) => setFormData({...formData, minimum_quantity: e.target.value})}
+                            required
+                          />
+                        </div>
                       </div>
-                    </div>
-                    
-                    <div className="space-y-2">
-                      <Label htmlFor="description">Descrição</Label>
-                      <Textarea
-                        id="description"
-                        value={formData.description}
-                        onChange={(e) => setFormData({...formData, description: e.target.value})}
-                        rows={3}
-                      />
-                    </div>
-
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="category">Categoria</Label>
-                        <Select
-                          value={formData.category_id}
-                          onValueChange={(value) => setFormData({...formData, category_id: value})}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Selecione uma categoria" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {categories.map((cat) => (
-                              <SelectItem key={cat.id} value={cat.id}>
-                                {cat.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+
+                      <div className="flex items-center justify-between rounded-lg border p-3">
+                        <div className="space-y-0.5">
+                          <Label htmlFor="track_lots">Controlar lotes e validade</Label>
+                          <p className="text-sm text-muted-foreground">
+                            Entradas exigem o número do lote e as saídas escolhem de qual lote sai
+                          </p>
+                        </div>
+                        <Switch
+                          id="track_lots"
+                          checked={formData.track_lots}
+                          onCheckedChange={(checked) => setFormData({
+                            ...formData,
+                            track_lots: checked,
+                            track_serials: checked ? false : formData.track_serials,
+                          })}
+                        />
                       </div>
-                      <div className="space-y-2">
-                        <Label htmlFor="minimum_quantity">Quantidade Mínima *</Label>
-                        <Input
-                          id="minimum_quantity"
-                          type="number"
-                          step="0.01"
-                          min="0"
-                          value={formData.minimum_quantity}
-                          onChange={(e) => setFormData({...formData, minimum_quantity: e.target.value})}
-                          required
+
+                      <div className="flex items-center justify-between rounded-lg border p-3">
+                        <div className="space-y-0.5">
+                          <Label htmlFor="track_serials">Controlar número de série</Label>
+                          <p className="text-sm text-muted-foreground">
+                            Cada unidade recebe um número de série na entrada e as saídas escolhem quais unidades saem
+                          </p>
+                        </div>
+                        <Switch
+                          id="track_serials"
+                          checked={formData.track_serials}
+                          onCheckedChange={(checked) => setFormData({
+                            ...formData,
+                            track_serials: checked,
+                            track_lots: checked ? false : formData.track_lots,
+                          })}
                         />
                       </div>
-                    </div>
 
-                    <DialogFooter>
-                      <Button type="button" variant="outline" onClick={resetForm}>
-                        Cancelar
-                      </Button>
-                      <Button type="submit">
-                        {editingProduct ? "Atualizar" : "Criar"}
-                      </Button>
-                    </DialogFooter>
-                  </form>
-                </DialogContent>
-              </Dialog>
+                      <DialogFooter>
+                        <Button type="button" variant="outline" onClick={resetForm}>
+                          Cancelar
+                        </Button>
+                        <Button type="submit">
+                          {editingProduct ? "Atualizar" : "Criar"}
+                        </Button>
+                      </DialogFooter>
+                    </form>
+                  </DialogContent>
+                </Dialog>
+              </div>
             </div>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  placeholder="Buscar produtos..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10"
-                />
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Buscar por nome, SKU ou código de barras..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <Button variant="outline" size="icon" onClick={() => setCameraOpen(true)} title="Ler código com a câmera">
+                  <Camera className="h-4 w-4" />
+                </Button>
               </div>
 
               <div className="border rounded-lg">
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={allFilteredSelected}
+                          onCheckedChange={(checked) => toggleAllFiltered(checked === true)}
+                          aria-label="Selecionar todos"
+                        />
+                      </TableHead>
                       <TableHead>Nome</TableHead>
+                      <TableHead>SKU</TableHead>
                       <TableHead>Categoria</TableHead>
                       <TableHead>Unidade</TableHead>
                       <TableHead className="text-right">Qtd. Atual</TableHead>
@@ -349,14 +571,22 @@ const Products = () => {
                   <TableBody>
                     {filteredProducts.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        <TableCell colSpan={8} className="text-center text-muted-foreground">
                           Nenhum produto encontrado
                         </TableCell>
                       </TableRow>
                     ) : (
                       filteredProducts.map((product) => (
                         <TableRow key={product.id}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedIds.includes(product.id)}
+                              onCheckedChange={(checked) => toggleSelected(product.id, checked === true)}
+                              aria-label={`Selecionar ${product.name}`}
+                            />
+                          </TableCell>
                           <TableCell className="font-medium">{product.name}</TableCell>
+                          <TableCell>{product.sku || "-"}</TableCell>
                           <TableCell>{product.categories?.name || "-"}</TableCell>
                           <TableCell>{product.unit}</TableCell>
                           <TableCell className="text-right">
@@ -371,16 +601,27 @@ const Products = () => {
                                 variant="ghost"
                                 size="sm"
                                 onClick={() => handleEdit(product)}
+                                disabled={!can("products.update")}
                               >
                                 <Pencil className="h-4 w-4" />
                               </Button>
                               <Button
                                 variant="ghost"
                                 size="sm"
-                                onClick={() => handleDelete(product.id)}
+                                onClick={() => setConversionsProduct(product)}
+                                title="Conversões de unidade"
                               >
-                                <Trash2 className="h-4 w-4 text-destructive" />
+                                <Scale className="h-4 w-4" />
                               </Button>
+                              {can("products.delete") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDelete(product.id)}
+                                >
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -393,6 +634,19 @@ const Products = () => {
           </CardContent>
         </Card>
       </main>
+
+      <CameraScannerDialog
+        open={cameraOpen}
+        onOpenChange={setCameraOpen}
+        onDetected={handleScannedCode}
+      />
+
+      <ProductUnitsDialog
+        product={conversionsProduct}
+        units={units}
+        canEdit={can("products.update")}
+        onClose={() => setConversionsProduct(null)}
+      />
     </div>
   );
 };
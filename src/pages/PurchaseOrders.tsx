@@ -0,0 +1,351 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Plus, ClipboardList, PackageCheck, Eye, Ban, CheckCircle, Pencil } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { useUserRole } from "@/hooks/use-user-role";
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  formatOrderNumber,
+  getPurchaseOrderStatusLabel,
+  isCancellable,
+  isReceivable,
+} from "@/lib/purchases";
+import { PurchaseOrderFormDialog } from "@/components/purchases/PurchaseOrderFormDialog";
+import { PurchaseOrderDetailsDialog } from "@/components/purchases/PurchaseOrderDetailsDialog";
+
+interface PurchaseOrder {
+  id: string;
+  number: number;
+  status: string;
+  supplier_id: string;
+  expected_date: string | null;
+  notes: string | null;
+  created_at: string;
+  suppliers: { name: string };
+  purchase_order_items: { quantity: number; received_quantity: number }[];
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string | null;
+  barcode: string | null;
+  unit: string;
+}
+
+const ALL = "all";
+
+const STATUS_BADGE_VARIANTS: Record<string, "default" | "secondary" | "outline" | "destructive"> = {
+  rascunho: "outline",
+  aberto: "default",
+  parcial: "secondary",
+  recebido: "outline",
+  cancelado: "destructive",
+};
+
+const PurchaseOrders = () => {
+  const navigate = useNavigate();
+  const { can } = useUserRole();
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Option[]>([]);
+  const [locations, setLocations] = useState<Option[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingDraft, setEditingDraft] = useState<PurchaseOrder | null>(null);
+  const [viewingOrder, setViewingOrder] = useState<PurchaseOrder | null>(null);
+
+  useEffect(() => {
+    checkAuth();
+    loadOptions();
+  }, []);
+
+  useEffect(() => {
+    loadOrders();
+  }, [statusFilter]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadOptions = async () => {
+    const [{ data: suppliersData }, { data: locationsData }, { data: productsData }] = await Promise.all([
+      supabase.from("suppliers").select("id, name").order("name"),
+      supabase.from("locations").select("id, name").order("name"),
+      supabase.from("products").select("id, name, sku, barcode, unit").order("name"),
+    ]);
+
+    setSuppliers(suppliersData || []);
+    setLocations(locationsData || []);
+    setProducts(productsData || []);
+  };
+
+  const loadOrders = async () => {
+    let query = supabase
+      .from("purchase_orders")
+      .select(`
+        *,
+        suppliers (name),
+        purchase_order_items (quantity, received_quantity)
+      `)
+      .order("created_at", { ascending: false });
+
+    if (statusFilter !== ALL) {
+      query = query.eq("status", statusFilter);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      toast.error("Erro ao carregar pedidos de compra");
+    } else {
+      setOrders(data || []);
+    }
+  };
+
+  const handleCancel = async (order: PurchaseOrder) => {
+    const message = order.status === "parcial"
+      ? "O saldo pendente deste pedido será cancelado. O que já foi recebido permanece no estoque. Continuar?"
+      : "Tem certeza que deseja cancelar este pedido?";
+    if (!confirm(message)) {
+      return;
+    }
+
+    const { error } = await supabase.rpc("cancel_purchase_order", {
+      _purchase_order_id: order.id,
+    });
+
+    if (error) {
+      toast.error(error.message || "Erro ao cancelar pedido");
+    } else {
+      toast.success("Pedido cancelado com sucesso!");
+      loadOrders();
+    }
+  };
+
+  const handleConfirm = async (order: PurchaseOrder) => {
+    const { error } = await supabase.rpc("confirm_purchase_order", {
+      _purchase_order_id: order.id,
+    });
+
+    if (error) {
+      toast.error(error.message || "Erro ao confirmar pedido");
+    } else {
+      toast.success("Pedido confirmado e liberado para recebimento!");
+      loadOrders();
+    }
+  };
+
+  const getProgress = (order: PurchaseOrder) => {
+    const ordered = order.purchase_order_items.reduce((sum, item) => sum + item.quantity, 0);
+    const received = order.purchase_order_items.reduce((sum, item) => sum + item.received_quantity, 0);
+    return ordered > 0 ? (received / ordered) * 100 : 0;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <ClipboardList className="h-6 w-6" />
+                  Pedidos de Compra
+                </CardTitle>
+                <CardDescription>
+                  Acompanhe o que foi pedido aos fornecedores e registre os recebimentos
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-52">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todos os status</SelectItem>
+                    {Object.entries(PURCHASE_ORDER_STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {can("purchases.manage") && (
+                  <Button onClick={() => setFormOpen(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Novo Pedido
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Número</TableHead>
+                    <TableHead>Fornecedor</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Criado em</TableHead>
+                    <TableHead>Previsão</TableHead>
+                    <TableHead className="w-40">Recebido</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orders.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        Nenhum pedido encontrado
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    orders.map((order) => (
+                      <TableRow key={order.id}>
+                        <TableCell className="font-medium">{formatOrderNumber(order.number)}</TableCell>
+                        <TableCell>{order.suppliers.name}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_BADGE_VARIANTS[order.status] ?? "outline"}>
+                            {getPurchaseOrderStatusLabel(order.status)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {format(new Date(order.created_at), "dd/MM/yyyy", { locale: ptBR })}
+                        </TableCell>
+                        <TableCell>
+                          {order.expected_date
+                            ? format(new Date(`${order.expected_date}T00:00:00`), "dd/MM/yyyy", { locale: ptBR })
+                            : "-"}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Progress value={getProgress(order)} className="h-2" />
+                            <span className="text-xs text-muted-foreground w-10 text-right">
+                              {getProgress(order).toFixed(0)}%
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setViewingOrder(order)}
+                              title={can("purchases.manage") && isReceivable(order.status) ? "Receber" : "Detalhes"}
+                            >
+                              {can("purchases.manage") && isReceivable(order.status)
+                                ? <PackageCheck className="h-4 w-4" />
+                                : <Eye className="h-4 w-4" />}
+                            </Button>
+                            {can("purchases.manage") && order.status === "rascunho" && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  setEditingDraft(order);
+                                  setFormOpen(true);
+                                }}
+                                title="Editar rascunho"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can("purchases.manage") && order.status === "rascunho" && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleConfirm(order)}
+                                title="Confirmar pedido"
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can("purchases.manage") && isCancellable(order.status) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleCancel(order)}
+                                title="Cancelar pedido"
+                              >
+                                <Ban className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+
+      <PurchaseOrderFormDialog
+        open={formOpen}
+        onOpenChange={(open) => {
+          setFormOpen(open);
+          if (!open) {
+            setEditingDraft(null);
+          }
+        }}
+        suppliers={suppliers}
+        products={products}
+        draft={editingDraft}
+        onCreated={loadOrders}
+      />
+
+      <PurchaseOrderDetailsDialog
+        order={viewingOrder}
+        locations={locations}
+        canReceive={can("purchases.manage")}
+        onClose={() => setViewingOrder(null)}
+        onReceived={loadOrders}
+      />
+    </div>
+  );
+};
+
+export default PurchaseOrders;
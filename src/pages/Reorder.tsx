@@ -0,0 +1,346 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, ShoppingCart, ClipboardList } from "lucide-react";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/use-user-role";
+import { ExportMenu } from "@/components/ExportMenu";
+import { ExportColumn, ExportFormat, exportRows } from "@/lib/export";
+import { ANALYSIS_PERIODS, ReorderSuggestion, computeReorderSuggestion } from "@/lib/reorder";
+import { DraftOrderItem, DraftOrdersDialog } from "@/components/purchases/DraftOrdersDialog";
+
+interface ReorderRow {
+  product_id: string;
+  product_name: string;
+  sku: string | null;
+  unit: string;
+  current_quantity: number;
+  minimum_quantity: number;
+  consumed_quantity: number;
+  pending_quantity: number;
+  last_supplier_id: string | null;
+  last_supplier_name: string | null;
+}
+
+interface Supplier {
+  id: string;
+  name: string;
+}
+
+type ReorderLine = ReorderRow & ReorderSuggestion & { orderQuantity: number };
+
+const Reorder = () => {
+  const navigate = useNavigate();
+  const { can } = useUserRole();
+  const [rows, setRows] = useState<ReorderRow[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [analysisDays, setAnalysisDays] = useState("30");
+  const [coverageDays, setCoverageDays] = useState("30");
+  const [onlySuggested, setOnlySuggested] = useState(true);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [draftOpen, setDraftOpen] = useState(false);
+  const [draftItems, setDraftItems] = useState<DraftOrderItem[]>([]);
+
+  useEffect(() => {
+    checkAuth();
+    loadSuppliers();
+  }, []);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [analysisDays]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadSuppliers = async () => {
+    const { data } = await supabase
+      .from("suppliers")
+      .select("id, name")
+      .order("name");
+
+    if (data) {
+      setSuppliers(data);
+    }
+  };
+
+  const loadSuggestions = async () => {
+    const { data, error } = await supabase.rpc("reorder_suggestions", {
+      _days: parseInt(analysisDays),
+    });
+
+    if (error) {
+      toast.error("Erro ao carregar sugestões de compra");
+    } else {
+      setRows(data || []);
+      setQuantities({});
+    }
+  };
+
+  const lines = useMemo<ReorderLine[]>(() => {
+    const coverage = Math.max(parseInt(coverageDays) || 0, 0);
+    return rows
+      .map((row) => {
+        const suggestion = computeReorderSuggestion(row, parseInt(analysisDays), coverage);
+        const override = quantities[row.product_id];
+        return {
+          ...row,
+          ...suggestion,
+          orderQuantity: override !== undefined ? parseFloat(override) || 0 : suggestion.suggestedQuantity,
+        };
+      })
+      .filter((line) => !onlySuggested || line.suggestedQuantity > 0)
+      // Products about to run out first; those without consumption go last
+      .sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity));
+  }, [rows, analysisDays, coverageDays, onlySuggested, quantities]);
+
+  const selectedLines = lines.filter((line) => selectedIds.includes(line.product_id));
+
+  const allSelected = lines.length > 0 && lines.every((line) => selectedIds.includes(line.product_id));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter((s) => s !== id));
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? lines.map((line) => line.product_id) : []);
+  };
+
+  const handleGenerateOrders = () => {
+    if (selectedLines.some((line) => !(line.orderQuantity > 0))) {
+      toast.error("A quantidade a pedir de cada item selecionado deve ser maior que zero");
+      return;
+    }
+    setDraftItems(selectedLines.map((line) => ({
+      product_id: line.product_id,
+      product_name: line.product_name,
+      unit: line.unit,
+      quantity: line.orderQuantity,
+      supplier_id: line.last_supplier_id,
+    })));
+    setDraftOpen(true);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const columns: ExportColumn<ReorderLine>[] = [
+      { header: "Produto", value: (l) => l.product_name },
+      { header: "SKU", value: (l) => l.sku },
+      { header: "Unidade", value: (l) => l.unit },
+      { header: "Estoque Atual", value: (l) => l.current_quantity },
+      { header: "Estoque Mínimo", value: (l) => l.minimum_quantity },
+      { header: "Pendente em Pedidos", value: (l) => l.pending_quantity },
+      { header: "Consumo Diário", value: (l) => l.dailyConsumption, decimals: 3 },
+      { header: "Cobertura (dias)", value: (l) => l.daysOfCover, decimals: 1 },
+      { header: "Nível Alvo", value: (l) => l.targetLevel },
+      { header: "Sugerido", value: (l) => l.suggestedQuantity },
+      { header: "A Pedir", value: (l) => l.orderQuantity },
+      { header: "Último Fornecedor", value: (l) => l.last_supplier_name },
+    ];
+    const exported = selectedLines.length > 0 ? selectedLines : lines;
+    return exportRows(format, "sugestoes_compra", "Sugestões de Compra", columns, exported);
+  };
+
+  const formatCover = (days: number | null) => {
+    if (days === null) {
+      return "Sem consumo";
+    }
+    return `${days.toFixed(0)} dia(s)`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <ShoppingCart className="h-6 w-6" />
+                  Sugestões de Compra
+                </CardTitle>
+                <CardDescription>
+                  Quantidades a pedir com base no consumo recente e no estoque mínimo
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <ExportMenu onExport={handleExport} disabled={lines.length === 0} />
+                {can("purchases.manage") && (
+                  <Button onClick={handleGenerateOrders} disabled={selectedLines.length === 0}>
+                    <ClipboardList className="h-4 w-4 mr-2" />
+                    Gerar Pedidos{selectedLines.length > 0 && ` (${selectedLines.length})`}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label>Consumo dos últimos</Label>
+                <Select value={analysisDays} onValueChange={setAnalysisDays}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ANALYSIS_PERIODS.map((days) => (
+                      <SelectItem key={days} value={String(days)}>
+                        {days} dias
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="coverage_days">Cobertura desejada (dias)</Label>
+                <Input
+                  id="coverage_days"
+                  className="w-40"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={coverageDays}
+                  onChange={(e) => setCoverageDays(e.target.value)}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="only_suggested"
+                  checked={onlySuggested}
+                  onCheckedChange={setOnlySuggested}
+                />
+                <Label htmlFor="only_suggested">Somente produtos a repor</Label>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Nível alvo = estoque mínimo + consumo diário × cobertura desejada. O consumo considera apenas saídas com motivo de consumo. A sugestão desconta o estoque atual e o que já está pendente em pedidos de compra.
+            </p>
+
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) => toggleAll(checked === true)}
+                      />
+                    </TableHead>
+                    <TableHead>Produto</TableHead>
+                    <TableHead className="text-right">Atual</TableHead>
+                    <TableHead className="text-right">Pendente</TableHead>
+                    <TableHead className="text-right">Consumo/dia</TableHead>
+                    <TableHead>Cobertura</TableHead>
+                    <TableHead className="text-right">Nível Alvo</TableHead>
+                    <TableHead className="text-right">A Pedir</TableHead>
+                    <TableHead>Último Fornecedor</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={9} className="text-center text-muted-foreground">
+                        {onlySuggested ? "Nenhum produto precisa ser reposto" : "Nenhum produto cadastrado"}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    lines.map((line) => (
+                      <TableRow key={line.product_id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(line.product_id)}
+                            onCheckedChange={(checked) => toggleSelected(line.product_id, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {line.product_name}
+                          {line.sku && <p className="text-xs text-muted-foreground">{line.sku}</p>}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.current_quantity.toFixed(2)} {line.unit}
+                          <p className="text-xs text-muted-foreground">
+                            Mín.: {line.minimum_quantity.toFixed(2)}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-right">{line.pending_quantity.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{line.dailyConsumption.toFixed(2)}</TableCell>
+                        <TableCell>
+                          {line.daysOfCover !== null && line.daysOfCover < parseInt(coverageDays) ? (
+                            <Badge variant="destructive">{formatCover(line.daysOfCover)}</Badge>
+                          ) : (
+                            <span className="text-muted-foreground">{formatCover(line.daysOfCover)}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{line.targetLevel.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          <Input
+                            className="w-24 ml-auto text-right"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={quantities[line.product_id] ?? String(line.suggestedQuantity)}
+                            onChange={(e) => setQuantities({ ...quantities, [line.product_id]: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>{line.last_supplier_name || "-"}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+
+      <DraftOrdersDialog
+        open={draftOpen}
+        onOpenChange={setDraftOpen}
+        items={draftItems}
+        suppliers={suppliers}
+        onCreated={() => {
+          setSelectedIds([]);
+          loadSuggestions();
+          navigate("/purchase-orders");
+        }}
+      />
+    </div>
+  );
+};
+
+export default Reorder;
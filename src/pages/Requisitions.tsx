@@ -0,0 +1,350 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Ban, ClipboardPen, Eye, PackageMinus, Plus, Stamp } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { useUserRole } from "@/hooks/use-user-role";
+import {
+  REQUISITION_STATUS_LABELS,
+  formatRequisitionNumber,
+  getRequisitionStatusLabel,
+  isCancellable,
+  isFulfillable,
+  isPartiallyApproved,
+  isReviewable,
+} from "@/lib/requisitions";
+import { RequisitionFormDialog } from "@/components/requisitions/RequisitionFormDialog";
+import { RequisitionDetailsDialog } from "@/components/requisitions/RequisitionDetailsDialog";
+
+interface Requisition {
+  id: string;
+  number: number;
+  status: string;
+  purpose: string;
+  requester_id: string;
+  review_notes: string | null;
+  created_at: string;
+  profiles: { full_name: string };
+  cost_centers: { code: string; name: string };
+  material_requisition_items: { quantity: number; approved_quantity: number | null }[];
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface CostCenter {
+  id: string;
+  code: string;
+  name: string;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string | null;
+  barcode: string | null;
+  unit: string;
+}
+
+const ALL = "all";
+const MINE = "mine";
+
+const STATUS_BADGE_VARIANTS: Record<string, "default" | "secondary" | "outline" | "destructive"> = {
+  pendente: "secondary",
+  aprovada: "default",
+  parcial: "secondary",
+  atendida: "outline",
+  rejeitada: "destructive",
+  cancelada: "destructive",
+};
+
+const Requisitions = () => {
+  const navigate = useNavigate();
+  const { role, can } = useUserRole();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [requisitions, setRequisitions] = useState<Requisition[]>([]);
+  const [costCenters, setCostCenters] = useState<CostCenter[]>([]);
+  const [locations, setLocations] = useState<Option[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [ownerFilter, setOwnerFilter] = useState(ALL);
+  const [formOpen, setFormOpen] = useState(false);
+  const [viewingRequisition, setViewingRequisition] = useState<Requisition | null>(null);
+
+  const isReviewer = can("requisitions.review");
+
+  useEffect(() => {
+    checkAuth();
+    loadOptions();
+  }, []);
+
+  useEffect(() => {
+    loadRequisitions();
+  }, [statusFilter, ownerFilter, userId]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    } else {
+      setUserId(session.user.id);
+    }
+  };
+
+  const loadOptions = async () => {
+    const [{ data: costCentersData }, { data: locationsData }, { data: productsData }] = await Promise.all([
+      supabase.from("cost_centers").select("id, code, name").eq("active", true).order("code"),
+      supabase.from("locations").select("id, name").order("name"),
+      supabase.from("products").select("id, name, sku, barcode, unit").order("name"),
+    ]);
+
+    setCostCenters(costCentersData || []);
+    setLocations(locationsData || []);
+    setProducts(productsData || []);
+  };
+
+  const loadRequisitions = async () => {
+    let query = supabase
+      .from("material_requisitions")
+      .select(`
+        *,
+        profiles (full_name),
+        cost_centers (code, name),
+        material_requisition_items (quantity, approved_quantity)
+      `)
+      .order("created_at", { ascending: false });
+
+    if (statusFilter !== ALL) {
+      query = query.eq("status", statusFilter);
+    }
+
+    if (ownerFilter === MINE && userId) {
+      query = query.eq("requester_id", userId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      toast.error("Erro ao carregar requisições");
+    } else {
+      setRequisitions(data || []);
+    }
+  };
+
+  // Stock keepers review other people's requisitions; only admins may approve their own
+  const canReview = (requisition: Requisition) =>
+    isReviewer && (requisition.requester_id !== userId || role === "admin");
+
+  const canCancel = (requisition: Requisition) =>
+    isCancellable(requisition.status, isReviewer)
+    || (requisition.requester_id === userId && isCancellable(requisition.status, false));
+
+  const handleCancel = async (requisition: Requisition) => {
+    const message = requisition.status === "parcial"
+      ? "O saldo ainda não atendido desta requisição será cancelado. O que já foi entregue permanece baixado. Continuar?"
+      : "Tem certeza que deseja cancelar esta requisição?";
+    if (!confirm(message)) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("material_requisitions")
+      .update({ status: "cancelada" })
+      .eq("id", requisition.id);
+
+    if (error) {
+      toast.error("Erro ao cancelar requisição");
+    } else {
+      toast.success("Requisição cancelada com sucesso!");
+      loadRequisitions();
+    }
+  };
+
+  const getActionIcon = (requisition: Requisition) => {
+    if (canReview(requisition) && isReviewable(requisition.status)) {
+      return { icon: <Stamp className="h-4 w-4" />, title: "Analisar" };
+    }
+    if (isReviewer && isFulfillable(requisition.status)) {
+      return { icon: <PackageMinus className="h-4 w-4" />, title: "Atender" };
+    }
+    return { icon: <Eye className="h-4 w-4" />, title: "Detalhes" };
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <ClipboardPen className="h-6 w-6" />
+                  Requisições de Material
+                </CardTitle>
+                <CardDescription>
+                  Peça materiais ao estoque e acompanhe a aprovação e a entrega
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {isReviewer && (
+                  <Select value={ownerFilter} onValueChange={setOwnerFilter}>
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Todas as pessoas</SelectItem>
+                      <SelectItem value={MINE}>Minhas requisições</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-52">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todos os status</SelectItem>
+                    {Object.entries(REQUISITION_STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={() => setFormOpen(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Nova Requisição
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Número</TableHead>
+                    <TableHead>Solicitante</TableHead>
+                    <TableHead>Centro de Custo</TableHead>
+                    <TableHead>Finalidade</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Criada em</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requisitions.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        Nenhuma requisição encontrada
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    requisitions.map((requisition) => {
+                      const action = getActionIcon(requisition);
+                      return (
+                        <TableRow key={requisition.id}>
+                          <TableCell className="font-medium">{formatRequisitionNumber(requisition.number)}</TableCell>
+                          <TableCell>{requisition.profiles.full_name}</TableCell>
+                          <TableCell>
+                            {requisition.cost_centers.code} - {requisition.cost_centers.name}
+                          </TableCell>
+                          <TableCell className="max-w-xs truncate" title={requisition.purpose}>
+                            {requisition.purpose}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_BADGE_VARIANTS[requisition.status] ?? "outline"}>
+                              {getRequisitionStatusLabel(requisition.status)}
+                            </Badge>
+                            {requisition.status !== "rejeitada"
+                              && isPartiallyApproved(requisition.material_requisition_items) && (
+                              <p className="text-xs text-muted-foreground mt-1">Aprovação parcial</p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {format(new Date(requisition.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setViewingRequisition(requisition)}
+                                title={action.title}
+                              >
+                                {action.icon}
+                              </Button>
+                              {canCancel(requisition) && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleCancel(requisition)}
+                                  title="Cancelar requisição"
+                                >
+                                  <Ban className="h-4 w-4 text-destructive" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+
+      <RequisitionFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        costCenters={costCenters}
+        products={products}
+        onCreated={loadRequisitions}
+      />
+
+      <RequisitionDetailsDialog
+        requisition={viewingRequisition}
+        locations={locations}
+        canReview={!!viewingRequisition && canReview(viewingRequisition)}
+        canFulfill={isReviewer}
+        onClose={() => setViewingRequisition(null)}
+        onChanged={loadRequisitions}
+      />
+    </div>
+  );
+};
+
+export default Requisitions;
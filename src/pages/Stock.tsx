@@ -31,52 +31,127 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { ArrowLeft, TrendingUp, TrendingDown, AlertTriangle, History } from "lucide-react";
+import { ArrowLeft, TrendingUp, AlertTriangle, History, MapPin, ExternalLink, ScanBarcode, Camera } from "lucide-react";
 import { toast } from "sonner";
-import { format } from "date-fns";
-import { ptBR } from "date-fns/locale";
+import { useUserRole } from "@/hooks/use-user-role";
+import { useStockRealtime } from "@/hooks/use-stock-realtime";
+import { HIGHLIGHT_CLASS, useHighlight } from "@/hooks/use-highlight";
+import { MovementLinks, loadMovementLinks, withResponsibleNames } from "@/lib/movements";
+import { MovementHistoryItem, MovementHistoryTable } from "@/components/stock/MovementHistoryTable";
+import { ReverseMovementDialog } from "@/components/stock/ReverseMovementDialog";
+import { ProductCombobox } from "@/components/stock/ProductCombobox";
+import { CameraScannerDialog } from "@/components/scanner/CameraScannerDialog";
+import { UnitConversion, findProductByCode, getProductUnits, toBaseQuantity } from "@/lib/stock";
+import { LotOption, formatExpiryDate, getExpiryStatus, isExpired, sortByExpiry, suggestLot } from "@/lib/lots";
+import { ProductLotsDialog } from "@/components/stock/ProductLotsDialog";
+import { SerialOption, findDuplicateSerial, parseSerialNumbers } from "@/lib/serials";
+import { ProductSerialsDialog } from "@/components/stock/ProductSerialsDialog";
+import { ReasonOption, getReasonsForMovement } from "@/lib/reasons";
 
 interface Product {
   id: string;
   name: string;
+  sku: string | null;
+  barcode: string | null;
   unit: string;
   current_quantity: number;
   minimum_quantity: number;
+  track_lots: boolean;
+  track_serials: boolean;
+  categories: { allow_negative_stock: boolean } | null;
+  product_unit_conversions: UnitConversion[];
 }
 
-interface StockMovement {
+interface Location {
   id: string;
+  name: string;
+}
+
+interface Supplier {
+  id: string;
+  name: string;
+}
+
+interface StockBalance {
   product_id: string;
-  movement_type: string;
+  location_id: string;
+  quantity: number;
+}
+
+interface LotBalance {
+  lot_id: string;
+  location_id: string;
   quantity: number;
-  notes: string | null;
-  created_at: string;
-  responsible_user_id: string;
-  products: { name: string; unit: string };
+  lots: { product_id: string; lot_number: string; expiry_date: string | null };
 }
 
 const Stock = () => {
   const navigate = useNavigate();
+  const { can } = useUserRole();
   const [products, setProducts] = useState<Product[]>([]);
-  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [movements, setMovements] = useState<MovementHistoryItem[]>([]);
+  const [movementLinks, setMovementLinks] = useState<MovementLinks>({
+    reversedIds: new Set(),
+    counterpartLocations: new Map(),
+  });
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [reasons, setReasons] = useState<ReasonOption[]>([]);
+  const [balances, setBalances] = useState<StockBalance[]>([]);
+  const [lotBalances, setLotBalances] = useState<LotBalance[]>([]);
+  const [lotsProduct, setLotsProduct] = useState<Product | null>(null);
+  const [serials, setSerials] = useState<SerialOption[]>([]);
+  const [serialsProduct, setSerialsProduct] = useState<Product | null>(null);
+  const [selectedLocation, setSelectedLocation] = useState("all");
   const [dialogOpen, setDialogOpen] = useState(false);
   const [historyOpen, setHistoryOpen] = useState(false);
   const [userId, setUserId] = useState("");
+  const [reversingMovement, setReversingMovement] = useState<MovementHistoryItem | null>(null);
+  const [scanMode, setScanMode] = useState(false);
+  const [scanCode, setScanCode] = useState("");
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const { highlighted, highlight } = useHighlight();
   
   const [formData, setFormData] = useState({
     product_id: "",
+    location_id: "",
+    destination_location_id: "",
     movement_type: "entrada",
+    reason_id: "",
     quantity: "",
+    unit: "",
+    supplier_id: "",
+    unit_cost: "",
+    lot_id: "",
+    lot_number: "",
+    expiry_date: "",
+    serial_numbers: "",
+    serial_ids: [] as string[],
     notes: "",
   });
 
   useEffect(() => {
     checkAuth();
+    loadLocations();
+    loadSuppliers();
+    loadReasons();
     loadProducts();
+    loadBalances();
     loadMovements();
   }, []);
 
+  // Movements registered in other sessions update balances, alerts and history as they happen
+  useStockRealtime(async ({ productIds, movementIds }) => {
+    await Promise.all([
+      loadProducts(),
+      loadBalances(),
+      movementIds.length > 0 ? loadMovements() : undefined,
+    ]);
+    highlight([...productIds, ...movementIds]);
+  });
+
   const checkAuth = async () => {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session) {
@@ -89,7 +164,11 @@ const Stock = () => {
   const loadProducts = async () => {
     const { data } = await supabase
       .from("products")
-      .select("*")
+      .select(`
+        *,
+        categories (allow_negative_stock),
+        product_unit_conversions (unit_code, factor)
+      `)
       .order("name");
     
     if (data) {
@@ -97,39 +176,113 @@ const Stock = () => {
     }
   };
 
+  const loadLocations = async () => {
+    const { data } = await supabase
+      .from("locations")
+      .select("id, name")
+      .order("name");
+
+    if (data) {
+      setLocations(data);
+    }
+  };
+
+  const loadSuppliers = async () => {
+    const { data } = await supabase
+      .from("suppliers")
+      .select("id, name")
+      .order("name");
+
+    if (data) {
+      setSuppliers(data);
+    }
+  };
+
+  // System reasons (purchases, inventory adjustments, loans, requisitions, opening stock)
+  // are assigned by their own flows and cannot be picked here
+  const loadReasons = async () => {
+    const { data } = await supabase
+      .from("movement_reasons")
+      .select("id, name, direction")
+      .eq("active", true)
+      .is("code", null)
+      .order("name");
+
+    if (data) {
+      setReasons(data);
+    }
+  };
+
+  const loadBalances = async () => {
+    const [{ data }, { data: lotData }, { data: serialData }] = await Promise.all([
+      supabase.from("stock_balances").select("product_id, location_id, quantity"),
+      supabase
+        .from("lot_balances")
+        .select("lot_id, location_id, quantity, lots (product_id, lot_number, expiry_date)")
+        .gt("quantity", 0),
+      supabase
+        .from("serial_numbers")
+        .select("id, product_id, location_id, serial_number")
+        .eq("status", "em_estoque")
+        .order("serial_number"),
+    ]);
+
+    if (data) {
+      setBalances(data);
+    }
+    if (lotData) {
+      setLotBalances(lotData);
+    }
+    if (serialData) {
+      setSerials(serialData);
+    }
+  };
+
   const loadMovements = async () => {
     const { data: movementsData } = await supabase
       .from("stock_movements")
       .select(`
         *,
-        products (name, unit)
+        products (name, unit),
+        locations (name),
+        lots (lot_number),
+        movement_reasons (name),
+        stock_movement_serials (serial_numbers (serial_number))
       `)
       .order("created_at", { ascending: false })
       .limit(50);
     
     if (movementsData) {
       // Fetch user profiles for responsible users
-      const userIds = [...new Set(movementsData.map(m => m.responsible_user_id))];
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("id, full_name")
-        .in("id", userIds);
-      
-      const profileMap = new Map(profiles?.map(p => [p.id, p.full_name]) || []);
-      
-      const movementsWithProfiles = movementsData.map(m => ({
-        ...m,
-        responsible_name: profileMap.get(m.responsible_user_id) || "Usuário"
-      }));
-      
-      setMovements(movementsWithProfiles as any);
+      setMovements(await withResponsibleNames(movementsData));
+      setMovementLinks(await loadMovementLinks(movementsData));
     }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.product_id || !formData.quantity) {
+    if (!formData.product_id || !formData.location_id) {
+      toast.error("Preencha todos os campos obrigatórios");
+      return;
+    }
+
+    if (formData.movement_type !== "transferencia" && !formData.reason_id) {
+      toast.error("Selecione o motivo da movimentação");
+      return;
+    }
+
+    if (parseFloat(formData.unit_cost) < 0) {
+      toast.error("O custo unitário não pode ser negativo");
+      return;
+    }
+
+    if (selectedProduct?.track_serials) {
+      await handleSerialMovement();
+      return;
+    }
+
+    if (!formData.quantity) {
       toast.error("Preencha todos os campos obrigatórios");
       return;
     }
@@ -140,36 +293,363 @@ const Stock = () => {
       return;
     }
 
+    if (isConvertedUnit() && getBaseQuantity() <= 0) {
+      toast.error(`A quantidade equivale a menos de 0,01 ${selectedProduct?.unit} e não pode ser registrada`);
+      return;
+    }
+
+    if (formData.movement_type !== "entrada") {
+      const baseQuantity = getBaseQuantity();
+      const available = getLocationQuantity(formData.product_id, formData.location_id);
+      if (baseQuantity > available && !canGoNegative()) {
+        toast.error(`Quantidade maior que o saldo disponível (${available.toFixed(2)} ${selectedProduct?.unit})`);
+        return;
+      }
+    }
+
+    let lotId: string | null = null;
+    if (selectedProduct?.track_lots && formData.movement_type === "entrada") {
+      if (!formData.lot_number.trim()) {
+        toast.error("Informe o número do lote");
+        return;
+      }
+    } else if (selectedProduct?.track_lots) {
+      const lot = getLocationLots(formData.product_id, formData.location_id)
+        .find((l) => l.lot_id === formData.lot_id);
+      if (!lot) {
+        toast.error("Selecione o lote");
+        return;
+      }
+      if (getBaseQuantity() > lot.quantity) {
+        toast.error(`Quantidade maior que o saldo do lote (${lot.quantity.toFixed(2)} ${selectedProduct.unit})`);
+        return;
+      }
+      lotId = lot.lot_id;
+    }
+
+    if (formData.movement_type === "transferencia") {
+      await handleTransfer(quantity, lotId);
+      return;
+    }
+
+    if (selectedProduct?.track_lots && formData.movement_type === "entrada") {
+      await handleLotEntry(quantity);
+      return;
+    }
+
+    // The database recomputes the base quantity from input_unit/input_quantity
     const { error } = await supabase
       .from("stock_movements")
       .insert([{
         product_id: formData.product_id,
+        location_id: formData.location_id,
         movement_type: formData.movement_type,
-        quantity,
+        quantity: getBaseQuantity(),
+        input_unit: isConvertedUnit() ? formData.unit : null,
+        input_quantity: isConvertedUnit() ? quantity : null,
+        supplier_id: formData.movement_type === "entrada" && formData.supplier_id ? formData.supplier_id : null,
+        unit_cost: getBaseUnitCost(),
+        lot_id: lotId,
+        reason_id: formData.reason_id,
         notes: formData.notes || null,
         responsible_user_id: userId,
       }]);
 
     if (error) {
-      toast.error("Erro ao registrar movimentação");
+      toast.error(error.hint === "insufficient_stock" || error.code === "P0001"
+        ? error.message
+        : "Erro ao registrar movimentação");
+    } else {
+      toast.success("Movimentação registrada com sucesso!");
+      resetForm();
+      loadProducts();
+      loadBalances();
+      loadMovements();
+    }
+  };
+
+  // The lot is registered in the same transaction as the movement, so a rejected entry leaves no lot behind
+  const handleLotEntry = async (quantity: number) => {
+    const { error } = await supabase.rpc("register_lot_entry", {
+      _product_id: formData.product_id,
+      _location_id: formData.location_id,
+      _lot_number: formData.lot_number,
+      _expiry_date: formData.expiry_date || undefined,
+      _quantity: quantity,
+      _unit: isConvertedUnit() ? formData.unit : undefined,
+      _reason_id: formData.reason_id,
+      _supplier_id: formData.supplier_id || undefined,
+      _unit_cost: getBaseUnitCost() ?? undefined,
+      _notes: formData.notes || undefined,
+    });
+
+    if (error) {
+      toast.error(error.message || "Erro ao registrar movimentação");
     } else {
       toast.success("Movimentação registrada com sucesso!");
       resetForm();
       loadProducts();
+      loadBalances();
       loadMovements();
     }
   };
 
+  const validateDestination = () => {
+    if (!formData.destination_location_id) {
+      toast.error("Selecione o local de destino");
+      return false;
+    }
+
+    if (formData.destination_location_id === formData.location_id) {
+      toast.error("Os locais de origem e destino devem ser diferentes");
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleTransfer = async (quantity: number, lotId: string | null) => {
+    if (!validateDestination()) {
+      return;
+    }
+
+    const { error } = await supabase.rpc("transfer_stock", {
+      _product_id: formData.product_id,
+      _from_location_id: formData.location_id,
+      _to_location_id: formData.destination_location_id,
+      _quantity: quantity,
+      _notes: formData.notes || null,
+      _unit: isConvertedUnit() ? formData.unit : undefined,
+      _lot_id: lotId ?? undefined,
+    });
+
+    if (error) {
+      toast.error(error.message || "Erro ao registrar transferência");
+    } else {
+      toast.success("Transferência registrada com sucesso!");
+      resetForm();
+      loadProducts();
+      loadBalances();
+      loadMovements();
+    }
+  };
+
+  // Serialized products move one unit per serial number, so the serials define the quantity
+  const handleSerialMovement = async () => {
+    const serialNumbers = getSelectedSerialNumbers();
+    if (serialNumbers.length === 0) {
+      toast.error(formData.movement_type === "entrada"
+        ? "Informe os números de série das unidades"
+        : "Selecione as unidades movimentadas");
+      return;
+    }
+
+    const duplicate = findDuplicateSerial(serialNumbers);
+    if (duplicate) {
+      toast.error(`Número de série repetido: ${duplicate}`);
+      return;
+    }
+
+    if (formData.movement_type === "transferencia" && !validateDestination()) {
+      return;
+    }
+
+    const { error } = await supabase.rpc("move_serials", {
+      _product_id: formData.product_id,
+      _location_id: formData.location_id,
+      _movement_type: formData.movement_type,
+      _serial_numbers: serialNumbers,
+      _destination_location_id: formData.movement_type === "transferencia"
+        ? formData.destination_location_id
+        : undefined,
+      _notes: formData.notes || undefined,
+      _supplier_id: formData.movement_type === "entrada" && formData.supplier_id ? formData.supplier_id : undefined,
+      _unit_cost: getBaseUnitCost() ?? undefined,
+      _reason_id: formData.movement_type === "transferencia" ? undefined : formData.reason_id,
+    });
+
+    if (error) {
+      toast.error(error.message || "Erro ao registrar movimentação");
+    } else {
+      toast.success("Movimentação registrada com sucesso!");
+      resetForm();
+      loadProducts();
+      loadBalances();
+      loadMovements();
+    }
+  };
+
+  // Each read of the selected product adds one, a different product restarts the count.
+  // For serialized products any other code is taken as the serial number of a unit.
+  const applyScannedCode = (code: string) => {
+    const product = findProductByCode(products, code);
+    if (!product && selectedProduct?.track_serials) {
+      applyScannedSerial(code.trim());
+      return;
+    }
+    if (!product) {
+      toast.error(`Nenhum produto com o código ${code}`);
+      return;
+    }
+
+    setFormData((current) => current.product_id === product.id
+      ? { ...current, quantity: String((parseFloat(current.quantity) || 0) + 1) }
+      : { ...current, product_id: product.id, unit: product.unit, quantity: "1" });
+  };
+
+  const applyScannedSerial = (serialNumber: string) => {
+    if (formData.movement_type === "entrada") {
+      setFormData((current) => ({
+        ...current,
+        serial_numbers: current.serial_numbers.trim()
+          ? `${current.serial_numbers.trim()}\n${serialNumber}`
+          : serialNumber,
+      }));
+      return;
+    }
+
+    const serial = getLocationSerials(formData.product_id, formData.location_id)
+      .find((s) => s.serial_number === serialNumber);
+    if (!serial) {
+      toast.error(`A unidade ${serialNumber} não está neste local`);
+      return;
+    }
+    setFormData((current) => current.serial_ids.includes(serial.id)
+      ? current
+      : { ...current, serial_ids: [...current.serial_ids, serial.id] });
+  };
+
+  const toggleSerial = (serialId: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      serial_ids: checked
+        ? [...formData.serial_ids, serialId]
+        : formData.serial_ids.filter((id) => id !== serialId),
+    });
+  };
+
+  // Keyboard-wedge scanners type the code and press Enter
+  const handleScan = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") {
+      return;
+    }
+    e.preventDefault();
+
+    const code = scanCode.trim();
+    setScanCode("");
+    if (code) {
+      applyScannedCode(code);
+    }
+  };
+
   const resetForm = () => {
+    setScanCode("");
     setFormData({
       product_id: "",
+      location_id: selectedLocation === "all" ? "" : selectedLocation,
+      destination_location_id: "",
       movement_type: "entrada",
+      reason_id: "",
       quantity: "",
+      unit: "",
+      supplier_id: "",
+      unit_cost: "",
+      lot_id: "",
+      lot_number: "",
+      expiry_date: "",
+      serial_numbers: "",
+      serial_ids: [],
       notes: "",
     });
     setDialogOpen(false);
   };
 
+  // Lots with stock at the location, in the order they should be used (FEFO)
+  const getLocationLots = (productId: string, locationId: string): LotOption[] => {
+    return sortByExpiry(
+      lotBalances
+        .filter((b) => b.lots.product_id === productId && b.location_id === locationId)
+        .map((b) => ({
+          lot_id: b.lot_id,
+          lot_number: b.lots.lot_number,
+          expiry_date: b.lots.expiry_date,
+          quantity: b.quantity,
+        }))
+    );
+  };
+
+  const getLocationSerials = (productId: string, locationId: string) => {
+    return serials.filter((s) => s.product_id === productId && s.location_id === locationId);
+  };
+
+  const getLocationQuantity = (productId: string, locationId: string) => {
+    return balances.find(
+      (b) => b.product_id === productId && b.location_id === locationId
+    )?.quantity ?? 0;
+  };
+
+  const selectedProduct = products.find((p) => p.id === formData.product_id);
+
+  // Suggest the lot that expires first whenever the product, location or type changes.
+  // Expired lots are never suggested; they can still be picked by hand (e.g. to discard them)
+  useEffect(() => {
+    if (!selectedProduct?.track_lots || formData.movement_type === "entrada") {
+      return;
+    }
+    const lots = getLocationLots(formData.product_id, formData.location_id);
+    if (!lots.some((lot) => lot.lot_id === formData.lot_id)) {
+      setFormData((current) => ({ ...current, lot_id: suggestLot(lots)?.lot_id ?? "" }));
+    }
+  }, [formData.product_id, formData.location_id, formData.movement_type, lotBalances]);
+
+  const locationLots = getLocationLots(formData.product_id, formData.location_id);
+  const suggestedLot = suggestLot(locationLots);
+
+  // Units picked at the origin are only valid while the product and location stay the same
+  const getSelectedSerialNumbers = () => {
+    if (formData.movement_type === "entrada") {
+      return parseSerialNumbers(formData.serial_numbers);
+    }
+    return getLocationSerials(formData.product_id, formData.location_id)
+      .filter((s) => formData.serial_ids.includes(s.id))
+      .map((s) => s.serial_number);
+  };
+
+  const isConvertedUnit = () => {
+    return !!selectedProduct && !!formData.unit && formData.unit !== selectedProduct.unit;
+  };
+
+  // Quantity in the product's unit, which is what balances are kept in
+  const getBaseQuantity = () => {
+    const quantity = parseFloat(formData.quantity);
+    if (!selectedProduct || !isConvertedUnit()) {
+      return quantity;
+    }
+    return toBaseQuantity(selectedProduct, formData.unit, quantity);
+  };
+
+  // Cost is typed per the unit being entered but always stored per base unit
+  const getBaseUnitCost = () => {
+    const cost = parseFloat(formData.unit_cost);
+    if (formData.movement_type !== "entrada" || isNaN(cost)) {
+      return null;
+    }
+    const baseQuantity = getBaseQuantity();
+    return baseQuantity > 0 ? (cost * parseFloat(formData.quantity)) / baseQuantity : cost;
+  };
+
+  // Transfers never leave the origin negative, even for backorder categories
+  const canGoNegative = () => {
+    return formData.movement_type === "saida" && !!selectedProduct?.categories?.allow_negative_stock;
+  };
+
+  const exceedsAvailable = () => {
+    if (formData.movement_type === "entrada" || !selectedProduct || !formData.location_id) {
+      return false;
+    }
+    return getBaseQuantity() > getLocationQuantity(selectedProduct.id, formData.location_id) && !canGoNegative();
+  };
+
   const getLowStockProducts = () => {
     return products.filter(p => p.current_quantity <= p.minimum_quantity);
   };
@@ -198,6 +678,9 @@ const Stock = () => {
                   </li>
                 ))}
               </ul>
+              <Button variant="link" className="h-auto p-0 mt-2" onClick={() => navigate("/reorder")}>
+                Ver sugestões de compra
+              </Button>
             </AlertDescription>
           </Alert>
         )}
@@ -214,6 +697,21 @@ const Stock = () => {
                 </CardDescription>
               </div>
               <div className="flex gap-2">
+                <Select value={selectedLocation} onValueChange={setSelectedLocation}>
+                  <SelectTrigger className="w-[220px]">
+                    <MapPin className="h-4 w-4 mr-2 text-muted-foreground" />
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos os locais</SelectItem>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
                 <Dialog open={historyOpen} onOpenChange={setHistoryOpen}>
                   <DialogTrigger asChild>
                     <Button variant="outline">
@@ -228,85 +726,139 @@ const Stock = () => {
                         Últimas 50 movimentações registradas
                       </DialogDescription>
                     </DialogHeader>
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Data</TableHead>
-                          <TableHead>Produto</TableHead>
-                          <TableHead>Tipo</TableHead>
-                          <TableHead className="text-right">Quantidade</TableHead>
-                          <TableHead>Responsável</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {movements.map((movement: any) => (
-                          <TableRow key={movement.id}>
-                            <TableCell>
-                              {format(new Date(movement.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
-                            </TableCell>
-                            <TableCell>{movement.products.name}</TableCell>
-                            <TableCell>
-                              <Badge variant={movement.movement_type === "entrada" ? "default" : "secondary"}>
-                                {movement.movement_type === "entrada" ? (
-                                  <TrendingUp className="h-3 w-3 mr-1" />
-                                ) : (
-                                  <TrendingDown className="h-3 w-3 mr-1" />
-                                )}
-                                {movement.movement_type}
-                              </Badge>
-                            </TableCell>
-                            <TableCell className="text-right">
-                              {movement.quantity.toFixed(2)} {movement.products.unit}
-                            </TableCell>
-                            <TableCell>{movement.responsible_name}</TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
+                    <MovementHistoryTable
+                      movements={movements}
+                      links={movementLinks}
+                      canReverse={can("movements.reverse")}
+                      onReverse={setReversingMovement}
+                      highlightedIds={highlighted}
+                    />
+                    <div className="flex justify-end">
+                      <Button variant="link" onClick={() => navigate("/movements")}>
+                        Ver histórico completo
+                        <ExternalLink className="h-4 w-4 ml-2" />
+                      </Button>
+                    </div>
                   </DialogContent>
                 </Dialog>
 
+                <ReverseMovementDialog
+                  movement={reversingMovement}
+                  onClose={() => setReversingMovement(null)}
+                  onReversed={() => {
+                    loadProducts();
+                    loadBalances();
+                    loadMovements();
+                  }}
+                />
+
                 <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-                  <DialogTrigger asChild>
-                    <Button onClick={resetForm}>
-                      <TrendingUp className="h-4 w-4 mr-2" />
-                      Nova Movimentação
-                    </Button>
-                  </DialogTrigger>
+                  {can("movements.create") && (
+                    <DialogTrigger asChild>
+                      <Button onClick={resetForm}>
+                        <TrendingUp className="h-4 w-4 mr-2" />
+                        Nova Movimentação
+                      </Button>
+                    </DialogTrigger>
+                  )}
                   <DialogContent>
                     <DialogHeader>
                       <DialogTitle>Registrar Movimentação</DialogTitle>
                       <DialogDescription>
-                        Registre entrada ou saída de produtos
+                        Registre entradas, saídas ou transferências entre locais
                       </DialogDescription>
                     </DialogHeader>
                     <form onSubmit={handleSubmit} className="space-y-4">
                       <div className="space-y-2">
-                        <Label htmlFor="product">Produto *</Label>
+                        <Label htmlFor="location">
+                          {formData.movement_type === "transferencia" ? "Local de Origem *" : "Local *"}
+                        </Label>
                         <Select
-                          value={formData.product_id}
-                          onValueChange={(value) => setFormData({...formData, product_id: value})}
+                          value={formData.location_id}
+                          onValueChange={(value) => setFormData({...formData, location_id: value})}
                           required
                         >
                           <SelectTrigger>
-                            <SelectValue placeholder="Selecione um produto" />
+                            <SelectValue placeholder="Selecione um local" />
                           </SelectTrigger>
                           <SelectContent>
-                            {products.map((product) => (
-                              <SelectItem key={product.id} value={product.id}>
-                                {product.name} - Atual: {product.current_quantity.toFixed(2)} {product.unit}
+                            {locations.map((location) => (
+                              <SelectItem key={location.id} value={location.id}>
+                                {location.name}
                               </SelectItem>
                             ))}
                           </SelectContent>
                         </Select>
                       </div>
 
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="product">Produto *</Label>
+                          <div className="flex gap-2">
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setCameraOpen(true)}
+                            >
+                              <Camera className="h-4 w-4 mr-2" />
+                              Câmera
+                            </Button>
+                            <Button
+                              type="button"
+                              variant={scanMode ? "default" : "outline"}
+                              size="sm"
+                              onClick={() => setScanMode(!scanMode)}
+                            >
+                              <ScanBarcode className="h-4 w-4 mr-2" />
+                              Modo leitor
+                            </Button>
+                          </div>
+                        </div>
+                        {scanMode && (
+                          <Input
+                            value={scanCode}
+                            onChange={(e) => setScanCode(e.target.value)}
+                            onKeyDown={handleScan}
+                            placeholder="Leia o código de barras ou SKU"
+                            autoFocus
+                          />
+                        )}
+                        <CameraScannerDialog
+                          open={cameraOpen}
+                          onOpenChange={setCameraOpen}
+                          onDetected={applyScannedCode}
+                        />
+                        <ProductCombobox
+                          products={products}
+                          value={formData.product_id}
+                          onChange={(value) => setFormData({
+                            ...formData,
+                            product_id: value,
+                            unit: products.find((p) => p.id === value)?.unit ?? "",
+                          })}
+                          describe={(product) => `Atual: ${(formData.location_id
+                            ? getLocationQuantity(product.id, formData.location_id)
+                            : product.current_quantity
+                          ).toFixed(2)} ${product.unit}`}
+                        />
+                        {selectedProduct && formData.location_id && (
+                          <p className="text-sm text-muted-foreground">
+                            Disponível neste local:{" "}
+                            <span className="font-semibold text-foreground">
+                              {getLocationQuantity(selectedProduct.id, formData.location_id).toFixed(2)} {selectedProduct.unit}
+                            </span>
+                            {selectedProduct.categories?.allow_negative_stock && " (categoria aceita estoque negativo)"}
+                          </p>
+                        )}
+                      </div>
+
                       <div className="grid grid-cols-2 gap-4">
                         <div className="space-y-2">
                           <Label htmlFor="movement_type">Tipo *</Label>
                           <Select
                             value={formData.movement_type}
-                            onValueChange={(value) => setFormData({...formData, movement_type: value})}
+                            onValueChange={(value) => setFormData({...formData, movement_type: value, reason_id: ""})}
                           >
                             <SelectTrigger>
                               <SelectValue />
@@ -314,23 +866,235 @@ const Stock = () => {
                             <SelectContent>
                               <SelectItem value="entrada">Entrada</SelectItem>
                               <SelectItem value="saida">Saída</SelectItem>
+                              <SelectItem value="transferencia">Transferência</SelectItem>
                             </SelectContent>
                           </Select>
                         </div>
                         <div className="space-y-2">
                           <Label htmlFor="quantity">Quantidade *</Label>
-                          <Input
-                            id="quantity"
-                            type="number"
-                            step="0.01"
-                            min="0.01"
-                            value={formData.quantity}
-                            onChange={(e) => setFormData({...formData, quantity: e.target.value})}
-                            required
-                          />
+                          <div className="flex gap-2">
+                            {selectedProduct?.track_serials ? (
+                              <Input
+                                id="quantity"
+                                value={getSelectedSerialNumbers().length}
+                                title="Definida pelos números de série"
+                                readOnly
+                              />
+                            ) : (
+                              <Input
+                                id="quantity"
+                                type="number"
+                                step="0.01"
+                                min="0.01"
+                                value={formData.quantity}
+                                onChange={(e) => setFormData({...formData, quantity: e.target.value})}
+                                required
+                              />
+                            )}
+                            {selectedProduct && !selectedProduct.track_serials && selectedProduct.product_unit_conversions.length > 0 && (
+                              <Select
+                                value={formData.unit}
+                                onValueChange={(value) => setFormData({...formData, unit: value})}
+                              >
+                                <SelectTrigger className="w-32">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {getProductUnits(selectedProduct).map((unit) => (
+                                    <SelectItem key={unit} value={unit}>
+                                      {unit}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </div>
+                          {isConvertedUnit() && formData.quantity && (
+                            <p className="text-sm text-muted-foreground">
+                              = {getBaseQuantity().toFixed(2)} {selectedProduct.unit}
+                            </p>
+                          )}
+                          {exceedsAvailable() && (
+                            <p className="text-sm text-destructive">
+                              Quantidade maior que o saldo disponível
+                            </p>
+                          )}
                         </div>
                       </div>
 
+                      {formData.movement_type !== "transferencia" && (
+                        <div className="space-y-2">
+                          <Label>Motivo *</Label>
+                          <Select
+                            value={formData.reason_id}
+                            onValueChange={(value) => setFormData({...formData, reason_id: value})}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Selecione o motivo" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {getReasonsForMovement(reasons, formData.movement_type).map((reason) => (
+                                <SelectItem key={reason.id} value={reason.id}>
+                                  {reason.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+
+                      {selectedProduct?.track_lots && formData.movement_type === "entrada" && (
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="lot_number">Lote *</Label>
+                            <Input
+                              id="lot_number"
+                              value={formData.lot_number}
+                              onChange={(e) => setFormData({...formData, lot_number: e.target.value})}
+                              required
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="expiry_date">Validade</Label>
+                            <Input
+                              id="expiry_date"
+                              type="date"
+                              value={formData.expiry_date}
+                              onChange={(e) => setFormData({...formData, expiry_date: e.target.value})}
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      {selectedProduct?.track_lots && formData.movement_type !== "entrada" && formData.location_id && (
+                        <div className="space-y-2">
+                          <Label>Lote *</Label>
+                          <Select
+                            value={formData.lot_id}
+                            onValueChange={(value) => setFormData({...formData, lot_id: value})}
+                          >
+                            <SelectTrigger>
+                              <SelectValue
+                                placeholder={locationLots.length > 0 ? "Selecione o lote" : "Nenhum lote com saldo neste local"}
+                              />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {locationLots.map((lot) => {
+                                const status = getExpiryStatus(lot.expiry_date);
+                                return (
+                                  <SelectItem
+                                    key={lot.lot_id}
+                                    value={lot.lot_id}
+                                    className={isExpired(lot.expiry_date) ? "text-destructive" : undefined}
+                                  >
+                                    {lot.lot_number} · {formatExpiryDate(lot.expiry_date)} · {lot.quantity.toFixed(2)} {selectedProduct.unit}
+                                    {status && ` · ${status.label}`}
+                                    {lot.lot_id === suggestedLot?.lot_id && " (sugerido)"}
+                                  </SelectItem>
+                                );
+                              })}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+
+                      {selectedProduct?.track_serials && formData.movement_type === "entrada" && (
+                        <div className="space-y-2">
+                          <Label htmlFor="serial_numbers">Números de Série *</Label>
+                          <Textarea
+                            id="serial_numbers"
+                            value={formData.serial_numbers}
+                            onChange={(e) => setFormData({...formData, serial_numbers: e.target.value})}
+                            placeholder="Um número por linha"
+                            rows={4}
+                          />
+                        </div>
+                      )}
+
+                      {selectedProduct?.track_serials && formData.movement_type !== "entrada" && formData.location_id && (
+                        <div className="space-y-2">
+                          <Label>Unidades *</Label>
+                          <div className="border rounded-lg max-h-48 overflow-y-auto p-3 space-y-2">
+                            {getLocationSerials(selectedProduct.id, formData.location_id).length === 0 ? (
+                              <p className="text-sm text-muted-foreground">Nenhuma unidade neste local</p>
+                            ) : (
+                              getLocationSerials(selectedProduct.id, formData.location_id).map((serial) => (
+                                <div key={serial.id} className="flex items-center gap-2">
+                                  <Checkbox
+                                    id={`serial-${serial.id}`}
+                                    checked={formData.serial_ids.includes(serial.id)}
+                                    onCheckedChange={(checked) => toggleSerial(serial.id, checked === true)}
+                                  />
+                                  <Label htmlFor={`serial-${serial.id}`} className="font-normal">
+                                    {serial.serial_number}
+                                  </Label>
+                                </div>
+                              ))
+                            )}
+                          </div>
+                        </div>
+                      )}
+
+                      {formData.movement_type === "transferencia" && (
+                        <div className="space-y-2">
+                          <Label htmlFor="destination_location">Local de Destino *</Label>
+                          <Select
+                            value={formData.destination_location_id}
+                            onValueChange={(value) => setFormData({...formData, destination_location_id: value})}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Selecione o destino" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {locations
+                                .filter((location) => location.id !== formData.location_id)
+                                .map((location) => (
+                                  <SelectItem key={location.id} value={location.id}>
+                                    {location.name}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+
+                      {formData.movement_type === "entrada" && (
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="supplier">Fornecedor</Label>
+                            <Select
+                              value={formData.supplier_id}
+                              onValueChange={(value) => setFormData({...formData, supplier_id: value})}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Não informado" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {suppliers.map((supplier) => (
+                                  <SelectItem key={supplier.id} value={supplier.id}>
+                                    {supplier.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="unit_cost">
+                              Custo Unitário (R${selectedProduct ? ` / ${formData.unit || selectedProduct.unit}` : ""})
+                            </Label>
+                            <Input
+                              id="unit_cost"
+                              type="number"
+                              step="0.0001"
+                              min="0"
+                              value={formData.unit_cost}
+                              onChange={(e) => setFormData({...formData, unit_cost: e.target.value})}
+                              placeholder="Não informado"
+                            />
+                          </div>
+                        </div>
+                      )}
+
                       <div className="space-y-2">
                         <Label htmlFor="notes">Observações</Label>
                         <Textarea
@@ -362,7 +1126,12 @@ const Stock = () => {
                   <TableRow>
                     <TableHead>Produto</TableHead>
                     <TableHead>Unidade</TableHead>
-                    <TableHead className="text-right">Qtd. Atual</TableHead>
+                    {selectedLocation !== "all" && (
+                      <TableHead className="text-right">Qtd. no Local</TableHead>
+                    )}
+                    <TableHead className="text-right">
+                      {selectedLocation === "all" ? "Qtd. Atual" : "Qtd. Total"}
+                    </TableHead>
                     <TableHead className="text-right">Qtd. Mínima</TableHead>
                     <TableHead className="text-center">Status</TableHead>
                   </TableRow>
@@ -370,7 +1139,7 @@ const Stock = () => {
                 <TableBody>
                   {products.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      <TableCell colSpan={selectedLocation === "all" ? 5 : 6} className="text-center text-muted-foreground">
                         Nenhum produto cadastrado
                       </TableCell>
                     </TableRow>
@@ -378,10 +1147,42 @@ const Stock = () => {
                     products.map((product) => {
                       const isLowStock = product.current_quantity <= product.minimum_quantity;
                       return (
-                        <TableRow key={product.id} className={isLowStock ? "bg-warning/5" : ""}>
-                          <TableCell className="font-medium">{product.name}</TableCell>
+                        <TableRow
+                          key={product.id}
+                          className={`${isLowStock ? "bg-warning/5" : ""} ${highlighted.has(product.id) ? HIGHLIGHT_CLASS : ""}`}
+                        >
+                          <TableCell className="font-medium">
+                            {product.name}
+                            {product.track_lots && (
+                              <Button
+                                variant="link"
+                                size="sm"
+                                className="h-auto p-0 ml-2 text-xs"
+                                onClick={() => setLotsProduct(product)}
+                              >
+                                Ver lotes
+                              </Button>
+                            )}
+                            {product.track_serials && (
+                              <Button
+                                variant="link"
+                                size="sm"
+                                className="h-auto p-0 ml-2 text-xs"
+                                onClick={() => setSerialsProduct(product)}
+                              >
+                                Ver números de série
+                              </Button>
+                            )}
+                          </TableCell>
                           <TableCell>{product.unit}</TableCell>
-                          <TableCell className="text-right">
+                          {selectedLocation !== "all" && (
+                            <TableCell
+                              className={`text-right font-medium ${getLocationQuantity(product.id, selectedLocation) < 0 ? "text-destructive" : ""}`}
+                            >
+                              {getLocationQuantity(product.id, selectedLocation).toFixed(2)}
+                            </TableCell>
+                          )}
+                          <TableCell className={`text-right ${product.current_quantity < 0 ? "text-destructive" : ""}`}>
                             {product.current_quantity.toFixed(2)}
                           </TableCell>
                           <TableCell className="text-right">
@@ -409,6 +1210,9 @@ const Stock = () => {
           </CardContent>
         </Card>
       </main>
+
+      <ProductLotsDialog product={lotsProduct} onClose={() => setLotsProduct(null)} />
+      <ProductSerialsDialog product={serialsProduct} onClose={() => setSerialsProduct(null)} />
     </div>
   );
 };
@@ -0,0 +1,322 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, Plus, Pencil, Trash2, Truck } from "lucide-react";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/use-user-role";
+
+interface Supplier {
+  id: string;
+  name: string;
+  document: string | null;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+}
+
+const Suppliers = () => {
+  const navigate = useNavigate();
+  const { loading: roleLoading, can } = useUserRole();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+
+  const [formData, setFormData] = useState({
+    name: "",
+    document: "",
+    email: "",
+    phone: "",
+    notes: "",
+  });
+
+  useEffect(() => {
+    checkAuth();
+    loadSuppliers();
+  }, []);
+
+  useEffect(() => {
+    if (!roleLoading && !can("suppliers.manage")) {
+      toast.error("Acesso restrito a estoquistas e administradores");
+      navigate("/dashboard");
+    }
+  }, [roleLoading, can, navigate]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadSuppliers = async () => {
+    const { data } = await supabase
+      .from("suppliers")
+      .select("*")
+      .order("name");
+
+    if (data) {
+      setSuppliers(data);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error("Preencha todos os campos obrigatórios");
+      return;
+    }
+
+    const supplierData = {
+      name: formData.name.trim(),
+      document: formData.document.trim() || null,
+      email: formData.email.trim() || null,
+      phone: formData.phone.trim() || null,
+      notes: formData.notes || null,
+    };
+
+    const { error } = editingSupplier
+      ? await supabase.from("suppliers").update(supplierData).eq("id", editingSupplier.id)
+      : await supabase.from("suppliers").insert([supplierData]);
+
+    if (error) {
+      toast.error(error.code === "23505"
+        ? "Já existe um fornecedor com este nome"
+        : editingSupplier ? "Erro ao atualizar fornecedor" : "Erro ao criar fornecedor");
+    } else {
+      toast.success(editingSupplier ? "Fornecedor atualizado com sucesso!" : "Fornecedor criado com sucesso!");
+      resetForm();
+      loadSuppliers();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Tem certeza que deseja excluir este fornecedor?")) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("suppliers")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      toast.error(error.code === "23503"
+        ? "Não é possível excluir um fornecedor com pedidos ou entradas"
+        : "Erro ao excluir fornecedor");
+    } else {
+      toast.success("Fornecedor excluído com sucesso!");
+      loadSuppliers();
+    }
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setFormData({
+      name: supplier.name,
+      document: supplier.document || "",
+      email: supplier.email || "",
+      phone: supplier.phone || "",
+      notes: supplier.notes || "",
+    });
+    setDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData({
+      name: "",
+      document: "",
+      email: "",
+      phone: "",
+      notes: "",
+    });
+    setEditingSupplier(null);
+    setDialogOpen(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <Truck className="h-6 w-6" />
+                  Fornecedores
+                </CardTitle>
+                <CardDescription>
+                  Empresas que fornecem os produtos do estoque
+                </CardDescription>
+              </div>
+              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button onClick={resetForm}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Novo Fornecedor
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-2xl">
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingSupplier ? "Editar Fornecedor" : "Novo Fornecedor"}
+                    </DialogTitle>
+                    <DialogDescription>
+                      Preencha os dados do fornecedor
+                    </DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="name">Nome *</Label>
+                        <Input
+                          id="name"
+                          value={formData.name}
+                          onChange={(e) => setFormData({...formData, name: e.target.value})}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="document">CNPJ/CPF</Label>
+                        <Input
+                          id="document"
+                          value={formData.document}
+                          onChange={(e) => setFormData({...formData, document: e.target.value})}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="email">E-mail</Label>
+                        <Input
+                          id="email"
+                          type="email"
+                          value={formData.email}
+                          onChange={(e) => setFormData({...formData, email: e.target.value})}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="phone">Telefone</Label>
+                        <Input
+                          id="phone"
+                          value={formData.phone}
+                          onChange={(e) => setFormData({...formData, phone: e.target.value})}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="notes">Observações</Label>
+                      <Textarea
+                        id="notes"
+                        value={formData.notes}
+                        onChange={(e) => setFormData({...formData, notes: e.target.value})}
+                        rows={3}
+                      />
+                    </div>
+
+                    <DialogFooter>
+                      <Button type="button" variant="outline" onClick={resetForm}>
+                        Cancelar
+                      </Button>
+                      <Button type="submit">
+                        {editingSupplier ? "Atualizar" : "Criar"}
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>CNPJ/CPF</TableHead>
+                    <TableHead>E-mail</TableHead>
+                    <TableHead>Telefone</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suppliers.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        Nenhum fornecedor cadastrado
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    suppliers.map((supplier) => (
+                      <TableRow key={supplier.id}>
+                        <TableCell className="font-medium">{supplier.name}</TableCell>
+                        <TableCell>{supplier.document || "-"}</TableCell>
+                        <TableCell>{supplier.email || "-"}</TableCell>
+                        <TableCell>{supplier.phone || "-"}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(supplier)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            {can("suppliers.delete") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(supplier.id)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Suppliers;
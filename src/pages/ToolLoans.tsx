@@ -0,0 +1,374 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Hammer, Plus, Undo2, X } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { useUserRole } from "@/hooks/use-user-role";
+import {
+  daysOverdue,
+  formatLoanNumber,
+  formatReturnDate,
+  getToolConditionLabel,
+  isOverdue,
+} from "@/lib/loans";
+import { formatSerialNumbers } from "@/lib/serials";
+import { LendableProduct, ToolCheckoutDialog } from "@/components/loans/ToolCheckoutDialog";
+import { ToolReturnDialog } from "@/components/loans/ToolReturnDialog";
+
+interface ToolLoan {
+  id: string;
+  number: number;
+  quantity: number;
+  location_id: string;
+  borrower_id: string;
+  expected_return_date: string;
+  checkout_condition: string;
+  notes: string | null;
+  checked_out_at: string;
+  return_condition: string | null;
+  return_notes: string | null;
+  returned_at: string | null;
+  products: { name: string; unit: string };
+  profiles: { full_name: string };
+  locations: { name: string };
+  stock_movements: {
+    movement_type: string;
+    stock_movement_serials: { serial_numbers: { serial_number: string } }[];
+  }[];
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface BorrowerSummary {
+  id: string;
+  name: string;
+  items: number;
+  overdue: number;
+}
+
+const ALL = "all";
+
+const ToolLoans = () => {
+  const navigate = useNavigate();
+  const { can } = useUserRole();
+  const [loans, setLoans] = useState<ToolLoan[]>([]);
+  const [products, setProducts] = useState<LendableProduct[]>([]);
+  const [locations, setLocations] = useState<Option[]>([]);
+  const [people, setPeople] = useState<Option[]>([]);
+  const [statusFilter, setStatusFilter] = useState("aberto");
+  const [personFilter, setPersonFilter] = useState(ALL);
+  const [checkoutOpen, setCheckoutOpen] = useState(false);
+  const [returningLoan, setReturningLoan] = useState<ToolLoan | null>(null);
+
+  useEffect(() => {
+    checkAuth();
+    loadOptions();
+    loadLoans();
+  }, []);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadOptions = async () => {
+    const [{ data: productsData }, { data: locationsData }, { data: profilesData }] = await Promise.all([
+      supabase
+        .from("products")
+        .select("id, name, sku, barcode, unit, track_serials, categories!inner (lendable)")
+        .eq("categories.lendable", true)
+        .eq("track_lots", false)
+        .order("name"),
+      supabase.from("locations").select("id, name").order("name"),
+      supabase.from("profiles").select("id, full_name").order("full_name"),
+    ]);
+
+    setProducts(productsData || []);
+    setLocations(locationsData || []);
+    setPeople(profilesData?.map((p) => ({ id: p.id, name: p.full_name })) || []);
+  };
+
+  const loadLoans = async () => {
+    const { data, error } = await supabase
+      .from("tool_loans")
+      .select(`
+        *,
+        products (name, unit),
+        profiles (full_name),
+        locations!tool_loans_location_id_fkey (name),
+        stock_movements (movement_type, stock_movement_serials (serial_numbers (serial_number)))
+      `)
+      .order("checked_out_at", { ascending: false });
+
+    if (error) {
+      toast.error("Erro ao carregar empréstimos");
+    } else {
+      setLoans(data || []);
+    }
+  };
+
+  // Who has what right now, most overdue first
+  const borrowers = useMemo(() => {
+    const summary = new Map<string, BorrowerSummary>();
+    loans
+      .filter((loan) => !loan.returned_at)
+      .forEach((loan) => {
+        const entry = summary.get(loan.borrower_id)
+          ?? { id: loan.borrower_id, name: loan.profiles.full_name, items: 0, overdue: 0 };
+        entry.items += 1;
+        entry.overdue += isOverdue(loan) ? 1 : 0;
+        summary.set(loan.borrower_id, entry);
+      });
+    return [...summary.values()].sort((a, b) => b.overdue - a.overdue || a.name.localeCompare(b.name));
+  }, [loans]);
+
+  const visibleLoans = loans.filter((loan) =>
+    (statusFilter === ALL || (statusFilter === "aberto") === !loan.returned_at)
+      && (personFilter === ALL || loan.borrower_id === personFilter)
+  );
+
+  const getCheckoutSerials = (loan: ToolLoan) => {
+    const checkout = loan.stock_movements.find((m) => m.movement_type === "saida");
+    return checkout ? formatSerialNumbers(checkout) : "";
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <Hammer className="h-6 w-6" />
+                  Empréstimos de Ferramentas
+                </CardTitle>
+                <CardDescription>
+                  Registre quem retirou cada ferramenta e dê baixa quando ela voltar ao estoque
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="aberto">Em aberto</SelectItem>
+                    <SelectItem value="devolvido">Devolvidos</SelectItem>
+                    <SelectItem value={ALL}>Todos</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={personFilter} onValueChange={setPersonFilter}>
+                  <SelectTrigger className="w-52">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todas as pessoas</SelectItem>
+                    {people.map((person) => (
+                      <SelectItem key={person.id} value={person.id}>
+                        {person.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {personFilter !== ALL && (
+                  <Button variant="ghost" size="icon" onClick={() => setPersonFilter(ALL)} title="Limpar filtro">
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+                {can("loans.manage") && (
+                  <Button onClick={() => setCheckoutOpen(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Novo Empréstimo
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Número</TableHead>
+                    <TableHead>Ferramenta</TableHead>
+                    <TableHead>Com</TableHead>
+                    <TableHead>Retirada</TableHead>
+                    <TableHead>Devolução Prevista</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleLoans.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        Nenhum empréstimo encontrado
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    visibleLoans.map((loan) => {
+                      const overdue = isOverdue(loan);
+                      const serials = getCheckoutSerials(loan);
+                      return (
+                        <TableRow key={loan.id} className={overdue ? "bg-destructive/5" : ""}>
+                          <TableCell className="font-medium">{formatLoanNumber(loan.number)}</TableCell>
+                          <TableCell>
+                            {loan.products.name}
+                            <p className="text-xs text-muted-foreground">
+                              {loan.quantity.toFixed(2)} {loan.products.unit}
+                              {serials && ` · Série ${serials}`}
+                            </p>
+                          </TableCell>
+                          <TableCell>
+                            {loan.profiles.full_name}
+                            {loan.notes && <p className="text-xs text-muted-foreground">{loan.notes}</p>}
+                          </TableCell>
+                          <TableCell>
+                            {format(new Date(loan.checked_out_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                            <p className="text-xs text-muted-foreground">{loan.locations.name}</p>
+                          </TableCell>
+                          <TableCell>
+                            {formatReturnDate(loan.expected_return_date)}
+                            {overdue && (
+                              <Badge variant="destructive" className="ml-2">
+                                {daysOverdue(loan)} dia(s) de atraso
+                              </Badge>
+                            )}
+                            {loan.returned_at && (
+                              <p className="text-xs text-muted-foreground">
+                                Devolvida em {format(new Date(loan.returned_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {getToolConditionLabel(loan.checkout_condition)}
+                            {loan.return_condition && (
+                              <p className={`text-xs ${
+                                loan.return_condition === "danificado" ? "text-destructive" : "text-muted-foreground"
+                              }`}>
+                                Devolvida: {getToolConditionLabel(loan.return_condition)}
+                              </p>
+                            )}
+                            {loan.return_notes && (
+                              <p className="text-xs text-muted-foreground">{loan.return_notes}</p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {can("loans.manage") && !loan.returned_at && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Registrar devolução"
+                                onClick={() => setReturningLoan(loan)}
+                              >
+                                <Undo2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Itens Fora por Pessoa</CardTitle>
+            <CardDescription>
+              Ferramentas que ainda não foram devolvidas; clique para ver os empréstimos da pessoa
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {borrowers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhuma ferramenta emprestada no momento</p>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-4">
+                {borrowers.map((borrower) => (
+                  <button
+                    key={borrower.id}
+                    type="button"
+                    className={`rounded-lg border p-4 text-left transition-colors hover:bg-muted/50 ${
+                      borrower.overdue > 0 ? "border-destructive" : ""
+                    } ${personFilter === borrower.id ? "bg-muted" : ""}`}
+                    onClick={() => {
+                      setPersonFilter(borrower.id);
+                      setStatusFilter("aberto");
+                    }}
+                  >
+                    <p className="text-sm font-medium">{borrower.name}</p>
+                    <div className="text-2xl font-bold">{borrower.items}</div>
+                    <p className="text-xs text-muted-foreground">
+                      empréstimo(s) em aberto
+                    </p>
+                    {borrower.overdue > 0 && (
+                      <Badge variant="destructive" className="mt-2">
+                        {borrower.overdue} em atraso
+                      </Badge>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <ToolCheckoutDialog
+        open={checkoutOpen}
+        onOpenChange={setCheckoutOpen}
+        products={products}
+        locations={locations}
+        people={people}
+        onCheckedOut={loadLoans}
+      />
+
+      <ToolReturnDialog
+        loan={returningLoan}
+        locations={locations}
+        onClose={() => setReturningLoan(null)}
+        onReturned={loadLoans}
+      />
+    </div>
+  );
+};
+
+export default ToolLoans;
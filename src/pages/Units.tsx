@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Plus, Pencil, Trash2, Ruler } from "lucide-react";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/use-user-role";
+
+interface Unit {
+  id: string;
+  code: string;
+  name: string;
+  products: { count: number }[];
+}
+
+const Units = () => {
+  const navigate = useNavigate();
+  const { loading: roleLoading, can } = useUserRole();
+  const [units, setUnits] = useState<Unit[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingUnit, setEditingUnit] = useState<Unit | null>(null);
+
+  const [formData, setFormData] = useState({
+    code: "",
+    name: "",
+  });
+
+  useEffect(() => {
+    checkAuth();
+    loadUnits();
+  }, []);
+
+  useEffect(() => {
+    if (!roleLoading && !can("units.manage")) {
+      toast.error("Acesso restrito a administradores");
+      navigate("/dashboard");
+    }
+  }, [roleLoading, can, navigate]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadUnits = async () => {
+    const { data } = await supabase
+      .from("units")
+      .select(`
+        *,
+        products (count)
+      `)
+      .order("name");
+
+    if (data) {
+      setUnits(data);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.code.trim() || !formData.name.trim()) {
+      toast.error("Preencha todos os campos obrigatórios");
+      return;
+    }
+
+    // Renaming the code cascades to products, conversions and movements
+    const unitData = {
+      code: formData.code.trim().toLowerCase(),
+      name: formData.name.trim(),
+    };
+
+    const { error } = editingUnit
+      ? await supabase.from("units").update(unitData).eq("id", editingUnit.id)
+      : await supabase.from("units").insert([unitData]);
+
+    if (error) {
+      toast.error(error.code === "23505"
+        ? "Já existe uma unidade com este código"
+        : editingUnit ? "Erro ao atualizar unidade" : "Erro ao criar unidade");
+    } else {
+      toast.success(editingUnit ? "Unidade atualizada com sucesso!" : "Unidade criada com sucesso!");
+      resetForm();
+      loadUnits();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Tem certeza que deseja excluir esta unidade?")) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("units")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      toast.error(error.code === "23503"
+        ? "Não é possível excluir uma unidade usada por produtos, conversões ou movimentações"
+        : "Erro ao excluir unidade");
+    } else {
+      toast.success("Unidade excluída com sucesso!");
+      loadUnits();
+    }
+  };
+
+  const handleEdit = (unit: Unit) => {
+    setEditingUnit(unit);
+    setFormData({
+      code: unit.code,
+      name: unit.name,
+    });
+    setDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData({
+      code: "",
+      name: "",
+    });
+    setEditingUnit(null);
+    setDialogOpen(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <Ruler className="h-6 w-6" />
+                  Unidades de Medida
+                </CardTitle>
+                <CardDescription>
+                  Unidades disponíveis para produtos e conversões
+                </CardDescription>
+              </div>
+              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button onClick={resetForm}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Nova Unidade
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingUnit ? "Editar Unidade" : "Nova Unidade"}
+                    </DialogTitle>
+                    <DialogDescription>
+                      O código é gravado nos produtos e movimentações
+                    </DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="code">Código *</Label>
+                        <Input
+                          id="code"
+                          value={formData.code}
+                          onChange={(e) => setFormData({...formData, code: e.target.value})}
+                          placeholder="Ex.: caixa"
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="name">Nome *</Label>
+                        <Input
+                          id="name"
+                          value={formData.name}
+                          onChange={(e) => setFormData({...formData, name: e.target.value})}
+                          placeholder="Ex.: Caixa"
+                          required
+                        />
+                      </div>
+                    </div>
+
+                    <DialogFooter>
+                      <Button type="button" variant="outline" onClick={resetForm}>
+                        Cancelar
+                      </Button>
+                      <Button type="submit">
+                        {editingUnit ? "Atualizar" : "Criar"}
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Código</TableHead>
+                    <TableHead>Nome</TableHead>
+                    <TableHead className="text-right">Produtos</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {units.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        Nenhuma unidade cadastrada
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    units.map((unit) => (
+                      <TableRow key={unit.id}>
+                        <TableCell className="font-medium">{unit.code}</TableCell>
+                        <TableCell>{unit.name}</TableCell>
+                        <TableCell className="text-right">{unit.products[0]?.count ?? 0}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(unit)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(unit.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Units;
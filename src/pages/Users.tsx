@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { useUserRole } from "@/hooks/use-user-role";
+import { AppRole, ROLE_LABELS } from "@/lib/permissions";
+
+interface Profile {
+  id: string;
+  full_name: string;
+  role: AppRole;
+  created_at: string | null;
+}
+
+const Users = () => {
+  const navigate = useNavigate();
+  const { loading: roleLoading, can } = useUserRole();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [userId, setUserId] = useState("");
+
+  useEffect(() => {
+    checkAuth();
+    loadProfiles();
+  }, []);
+
+  useEffect(() => {
+    if (!roleLoading && !can("users.manage")) {
+      toast.error("Acesso restrito a administradores");
+      navigate("/dashboard");
+    }
+  }, [roleLoading, can, navigate]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    } else {
+      setUserId(session.user.id);
+    }
+  };
+
+  const loadProfiles = async () => {
+    const { data } = await supabase
+      .from("profiles")
+      .select("id, full_name, role, created_at")
+      .order("full_name");
+
+    if (data) {
+      setProfiles(data);
+    }
+  };
+
+  const handleRoleChange = async (profile: Profile, role: AppRole) => {
+    const { error } = await supabase
+      .from("profiles")
+      .update({ role })
+      .eq("id", profile.id);
+
+    if (error) {
+      toast.error(error.message.includes("pelo menos um administrador")
+        ? "O sistema precisa de pelo menos um administrador"
+        : "Erro ao atualizar papel do usuário");
+    } else {
+      toast.success(`${profile.full_name} agora é ${ROLE_LABELS[role]}`);
+      loadProfiles();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl flex items-center gap-2">
+              <ShieldCheck className="h-6 w-6" />
+              Usuários e Permissões
+            </CardTitle>
+            <CardDescription>
+              Defina o papel de cada usuário: administradores gerenciam tudo, estoquistas
+              cadastram produtos e registram movimentações, visualizadores apenas consultam
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Cadastrado em</TableHead>
+                    <TableHead className="w-[220px]">Papel</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {profiles.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={3} className="text-center text-muted-foreground">
+                        Nenhum usuário encontrado
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    profiles.map((profile) => (
+                      <TableRow key={profile.id}>
+                        <TableCell className="font-medium">
+                          {profile.full_name}
+                          {profile.id === userId && (
+                            <Badge variant="outline" className="ml-2">Você</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {profile.created_at
+                            ? format(new Date(profile.created_at), "dd/MM/yyyy", { locale: ptBR })
+                            : "-"}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={profile.role}
+                            onValueChange={(value) => handleRoleChange(profile, value as AppRole)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(ROLE_LABELS) as AppRole[]).map((role) => (
+                                <SelectItem key={role} value={role}>
+                                  {ROLE_LABELS[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Users;
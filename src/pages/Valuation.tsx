@@ -0,0 +1,304 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { ArrowLeft, CalendarIcon, Coins, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+import { endOfDay, format, isToday } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ExportMenu } from "@/components/ExportMenu";
+import { ExportColumn, ExportFormat, exportRows } from "@/lib/export";
+import { VALUATION_METHOD_LABELS, ValuationMethod, formatCurrency } from "@/lib/valuation";
+
+interface ValuationRow {
+  product_id: string;
+  product_name: string;
+  sku: string | null;
+  unit: string;
+  category_id: string | null;
+  category_name: string | null;
+  quantity: number;
+  unit_cost: number | null;
+  total_value: number;
+  missing_cost: boolean;
+}
+
+interface CategoryTotal {
+  name: string;
+  products: number;
+  value: number;
+}
+
+const Valuation = () => {
+  const navigate = useNavigate();
+  const [rows, setRows] = useState<ValuationRow[]>([]);
+  const [asOf, setAsOf] = useState(() => new Date());
+  const [method, setMethod] = useState<ValuationMethod>("wac");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    loadValuation();
+  }, [asOf, method]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadValuation = async () => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc("inventory_valuation", {
+      // Today means "now" so movements registered later in the day are included
+      _as_of: (isToday(asOf) ? new Date() : endOfDay(asOf)).toISOString(),
+      _method: method,
+    });
+    setLoading(false);
+
+    if (error) {
+      toast.error("Erro ao calcular a valorização do estoque");
+    } else {
+      setRows(data || []);
+    }
+  };
+
+  const stockedRows = rows.filter((row) => row.quantity !== 0);
+  const totalValue = stockedRows.reduce((sum, row) => sum + row.total_value, 0);
+  const missingCostCount = stockedRows.filter((row) => row.missing_cost).length;
+
+  const categoryTotals = [...stockedRows.reduce((totals, row) => {
+    const name = row.category_name || "Sem categoria";
+    const current = totals.get(name) ?? { name, products: 0, value: 0 };
+    current.products++;
+    current.value += row.total_value;
+    return totals.set(name, current);
+  }, new Map<string, CategoryTotal>()).values()].sort((a, b) => b.value - a.value);
+
+  const handleExport = (exportFormat: ExportFormat) => {
+    const columns: ExportColumn<ValuationRow>[] = [
+      { header: "Produto", value: (r) => r.product_name },
+      { header: "SKU", value: (r) => r.sku },
+      { header: "Categoria", value: (r) => r.category_name },
+      { header: "Quantidade", value: (r) => r.quantity },
+      { header: "Unidade", value: (r) => r.unit },
+      { header: "Custo Unitário", value: (r) => r.unit_cost, decimals: 4 },
+      { header: "Valor Total", value: (r) => r.total_value },
+      { header: "Custo Incompleto", value: (r) => (r.missing_cost ? "Sim" : "") },
+    ];
+    return exportRows(exportFormat, "valorizacao_estoque", "Valorização", columns, stockedRows);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10">
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-2xl flex items-center gap-2">
+                  <Coins className="h-6 w-6" />
+                  Valorização do Estoque
+                </CardTitle>
+                <CardDescription>
+                  Valor do estoque com base no custo das entradas
+                </CardDescription>
+              </div>
+              <ExportMenu onExport={handleExport} disabled={stockedRows.length === 0} />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label>Posição em</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="w-48 justify-start font-normal">
+                      <CalendarIcon className="h-4 w-4 mr-2" />
+                      {format(asOf, "dd/MM/yyyy", { locale: ptBR })}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      locale={ptBR}
+                      selected={asOf}
+                      onSelect={(date) => date && setAsOf(date)}
+                      disabled={{ after: new Date() }}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+              <div className="space-y-2">
+                <Label>Método</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as ValuationMethod)}>
+                  <SelectTrigger className="w-80">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(VALUATION_METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              <div className="rounded-lg border p-4">
+                <p className="text-sm font-medium">Valor Total</p>
+                <div className="text-2xl font-bold">{formatCurrency(totalValue)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {stockedRows.length} produto(s) com saldo
+                </p>
+              </div>
+              {categoryTotals.slice(0, 3).map((category) => (
+                <div key={category.name} className="rounded-lg border p-4">
+                  <p className="text-sm font-medium">{category.name}</p>
+                  <div className="text-2xl font-bold">{formatCurrency(category.value)}</div>
+                  <p className="text-xs text-muted-foreground">
+                    {totalValue > 0 ? ((category.value / totalValue) * 100).toFixed(1) : "0.0"}% do total
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {missingCostCount > 0 && (
+              <p className="text-sm text-warning flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                {missingCostCount} produto(s) têm saldo inicial ou entradas sem custo informado; o valor deles está subestimado.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card>
+            <CardHeader>
+              <CardTitle>Por Categoria</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Categoria</TableHead>
+                      <TableHead className="text-right">Valor</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {categoryTotals.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={2} className="text-center text-muted-foreground">
+                          Nenhum produto com saldo
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      categoryTotals.map((category) => (
+                        <TableRow key={category.name}>
+                          <TableCell className="font-medium">
+                            {category.name}
+                            <p className="text-xs text-muted-foreground">{category.products} produto(s)</p>
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(category.value)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Por Produto</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Produto</TableHead>
+                      <TableHead className="text-right">Quantidade</TableHead>
+                      <TableHead className="text-right">Custo Unitário</TableHead>
+                      <TableHead className="text-right">Valor Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stockedRows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground">
+                          {loading ? "Calculando..." : "Nenhum produto com saldo nesta data"}
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      stockedRows.map((row) => (
+                        <TableRow key={row.product_id}>
+                          <TableCell className="font-medium">
+                            {row.product_name}
+                            {row.missing_cost && (
+                              <Badge variant="outline" className="ml-2 border-warning text-warning">
+                                Custo incompleto
+                              </Badge>
+                            )}
+                            <p className="text-xs text-muted-foreground">{row.category_name || "Sem categoria"}</p>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.quantity.toFixed(2)} {row.unit}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.unit_cost !== null ? formatCurrency(row.unit_cost) : "-"}
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.total_value)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Valuation;